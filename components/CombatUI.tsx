@@ -242,10 +242,12 @@ export const CombatUI: React.FC<{
   const { setDialogVisible } = useUIStore();
   const [selectedAction, setSelectedAction] = useState<string | null>(null);
   const [combatLog, setCombatLog] = useState<Array<{ message: string; type: 'info' | 'damage' | 'heal'; timestamp: number }>>([]);
+  const [phaseBanner, setPhaseBanner] = useState<string | null>(null);
 
   const combatState = combatSystem.getCurrentState();
   const participants = combatSystem.getParticipants();
   const stats = combatSystem.getStats();
+  const timeline = combatSystem.getTurnTimeline(5);
 
   // Add combat log messages
   const addLogMessage = useCallback((message: string, type: 'info' | 'damage' | 'heal' = 'info') => {
@@ -254,7 +256,7 @@ export const CombatUI: React.FC<{
 
   // Handle player actions
   const handlePlayerAction = useCallback((action: CombatAction) => {
-    const player = participants.find(p => p.isPlayer && !p.defeated);
+    const player = participants.find(p => p.isPlayer && p.entityId === stats.currentTurn);
     if (!player) return;
 
     combatSystem.queueAction({
@@ -265,13 +267,12 @@ export const CombatUI: React.FC<{
       data: { priority: 0 }
     });
 
-    addLogMessage(`Player chose ${action}`, 'info');
     setSelectedAction(null);
-  }, [participants, combatSystem, addLogMessage]);
+  }, [participants, stats.currentTurn, combatSystem]);
 
   // Handle skill selection
   const handleSkillSelect = useCallback((skillId: string) => {
-    const player = participants.find(p => p.isPlayer && !p.defeated);
+    const player = participants.find(p => p.isPlayer && p.entityId === stats.currentTurn);
     if (!player) return;
 
     combatSystem.queueAction({
@@ -282,13 +283,12 @@ export const CombatUI: React.FC<{
       data: { skillId, priority: 1 }
     });
 
-    addLogMessage(`Player selected skill: ${skillId}`, 'info');
     setSelectedAction(null);
-  }, [participants, combatSystem, addLogMessage]);
+  }, [participants, stats.currentTurn, combatSystem]);
 
   // Handle item selection
   const handleItemSelect = useCallback((itemId: string) => {
-    const player = participants.find(p => p.isPlayer && !p.defeated);
+    const player = participants.find(p => p.isPlayer && p.entityId === stats.currentTurn);
     if (!player) return;
 
     combatSystem.queueAction({
@@ -299,13 +299,12 @@ export const CombatUI: React.FC<{
       data: { itemId, priority: 2 }
     });
 
-    addLogMessage(`Player used item: ${itemId}`, 'info');
     setSelectedAction(null);
-  }, [participants, combatSystem, addLogMessage]);
+  }, [participants, stats.currentTurn, combatSystem]);
 
   // Handle flee
   const handleFlee = useCallback(() => {
-    const player = participants.find(p => p.isPlayer && !p.defeated);
+    const player = participants.find(p => p.isPlayer && p.entityId === stats.currentTurn);
     if (!player) return;
 
     combatSystem.queueAction({
@@ -316,9 +315,8 @@ export const CombatUI: React.FC<{
       data: { priority: 3 }
     });
 
-    addLogMessage('Player is attempting to flee!', 'info');
     setSelectedAction(null);
-  }, [participants, combatSystem, addLogMessage]);
+  }, [participants, stats.currentTurn, combatSystem]);
 
   // Handle keyboard input
   useEffect(() => {
@@ -362,25 +360,72 @@ export const CombatUI: React.FC<{
     };
   }, [combatState, handlePlayerAction, handleSkillSelect, handleItemSelect, handleFlee, onClose]);
 
+  // Show boss phase banners and special conditions
+  useEffect(() => {
+    let bannerTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const unsubscribe = combatSystem.getBossController().subscribe(event => {
+      if (event.type === 'phase_changed') {
+        addLogMessage(`The boss enters ${event.phaseName}!`, 'damage');
+        setPhaseBanner(event.phaseName.toUpperCase());
+        if (bannerTimer) clearTimeout(bannerTimer);
+        bannerTimer = setTimeout(() => setPhaseBanner(null), 2000);
+      } else {
+        addLogMessage(event.description, 'info');
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      if (bannerTimer) clearTimeout(bannerTimer);
+    };
+  }, [combatSystem, addLogMessage]);
+
+  // Build the battle log from what combat actually did
+  useEffect(() => {
+    return combatSystem.subscribe(event => {
+      if (event.type === 'TurnStarted') return;
+
+      const type = event.type === 'DamageDealt' || event.type === 'Defeated' || event.type === 'Defeat'
+        ? 'damage'
+        : event.type === 'Healed' || event.type === 'Victory' ? 'heal' : 'info';
+      addLogMessage(combatSystem.describeEvent(event), type);
+    });
+  }, [combatSystem, addLogMessage]);
+
+  // Log level-ups as rewards are applied
+  useEffect(() => {
+    return combatSystem.getRewardSystem().subscribe(event => {
+      if (event.type === 'level_up') {
+        addLogMessage(`Level up! Reached level ${event.levelUp.toLevel}.`, 'heal');
+      }
+    });
+  }, [combatSystem, addLogMessage]);
+
   // Handle combat state changes
   useEffect(() => {
     // Add log messages for state changes
     if (combatState === CombatState.INTRO) {
       addLogMessage('Combat started!', 'info');
     } else if (combatState === CombatState.VICTORY) {
-      addLogMessage('Victory! All enemies defeated!', 'heal');
+      const result = combatSystem.getResult();
+      const lines = [
+        `Experience gained: ${result?.experience || 0}`,
+        `Gold found: ${result?.gold || 0}`,
+        ...(result?.items || []).map(item => `Obtained ${item.itemId} x${item.quantity}`),
+        ...(result?.rewards?.levelUps || []).map(levelUp => `Level up! ${levelUp.fromLevel} -> ${levelUp.toLevel}`)
+      ];
       setTimeout(() => {
-        setDialogVisible(true, 'Congratulations! You have emerged victorious!\\n\\nExperience gained: ' + ((stats as any).result?.experience || 0));
+        setDialogVisible(true, 'Congratulations! You have emerged victorious!\\n\\n' + lines.join('\\n'));
         onClose();
       }, 2000);
     } else if (combatState === CombatState.DEFEAT) {
-      addLogMessage('Defeat... You have been overwhelmed.', 'damage');
       setTimeout(() => {
         setDialogVisible(true, 'You have been defeated...\\n\\nDo not give up! Try again when you\'re stronger.');
         onClose();
       }, 2000);
     }
-  }, [combatState, addLogMessage, setDialogVisible, onClose]);
+  }, [combatState, combatSystem, addLogMessage, setDialogVisible, onClose]);
 
   const containerStyle: React.CSSProperties = {
     position: 'fixed',
@@ -444,6 +489,7 @@ export const CombatUI: React.FC<{
       <div style={battleAreaStyle}>
         <div style={titleStyle}>
           {combatState === CombatState.INTRO && 'BATTLE START!'}
+          {combatState === CombatState.WAITING && 'READY...'}
           {combatState === CombatState.PLAYER_INPUT && 'YOUR TURN'}
           {combatState === CombatState.ENEMY_TURN && 'ENEMY TURN'}
           {combatState === CombatState.ACTION_PROCESSING && 'PROCESSING...'}
@@ -452,21 +498,47 @@ export const CombatUI: React.FC<{
           {combatState === CombatState.DEFEAT && 'DEFEAT...'}
         </div>
 
+        {/* Boss Phase Banner */}
+        {phaseBanner && (
+          <div style={{ textAlign: 'center', marginBottom: '10px', color: '#FF6B6B', fontSize: '20px', fontWeight: 'bold', letterSpacing: '2px' }}>
+            {phaseBanner}
+          </div>
+        )}
+
         {/* Participants Display */}
         <div style={participantsContainerStyle}>
           {participants.map(participant => (
             <CombatParticipant
               key={participant.entityId}
-              name={participant.isPlayer ? 'Hero' : 'Monster'}
+              name={combatSystem.getParticipantName(participant.entityId)}
               health={participant.health || { current: 0, max: 1 }}
               combatState={participant.combatStats || { attacking: false, attack: 0, defense: 0, actionPoints: 3, maxActionPoints: 3 }}
               isPlayer={participant.isPlayer}
-              isCurrentTurn={combatState === CombatState.PLAYER_INPUT && participant.isPlayer}
+              isCurrentTurn={participant.entityId === stats.currentTurn}
               isDefeated={participant.defeated}
             />
           ))}
         </div>
 
+        {/* Turn Timeline */}
+        {timeline.length > 0 && (
+          <div style={{ textAlign: 'center', marginBottom: '10px', color: '#CCCCCC', fontSize: '14px' }}>
+            Next:{' '}
+            {timeline.map((entry, index) => (
+              <span
+                key={`${entry.entityId}_${index}`}
+                style={{
+                  color: entry.isPlayer ? '#FFD700' : '#FF6B6B',
+                  opacity: entry.skipped ? 0.4 : 1,
+                  marginRight: '8px'
+                }}
+              >
+                {combatSystem.getParticipantName(entry.entityId)}
+              </span>
+            ))}
+          </div>
+        )}
+
         {/* Turn Indicator */}
         <div style={turnIndicatorStyle}>
           {combatState === CombatState.PLAYER_INPUT && 'Select your action'}
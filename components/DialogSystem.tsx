@@ -319,10 +319,20 @@ const DialogBox: React.FC<{
 
 DialogBox.displayName = 'DialogBox';
 
+/**
+ * Dialog System props
+ */
+interface DialogSystemProps {
+  /** Called with the selected choice's value; the caller shows the next line or hides the dialog */
+  onChoice?: (value: string) => void;
+  /** Called when a finished line without choices is dismissed; the caller shows the next line or hides the dialog */
+  onDismiss?: () => void;
+}
+
 /**
  * Main Dialog System Component
  */
-export const DialogSystem: React.FC = memo(() => {
+export const DialogSystem: React.FC<DialogSystemProps> = memo(({ onChoice, onDismiss }) => {
   const { visible, text } = useDialogState();
   const { setDialogVisible } = useUIStore();
   
@@ -560,11 +570,18 @@ export const DialogSystem: React.FC = memo(() => {
       const selectedChoice = dialogState.choices[dialogState.selectedChoice];
       logger.debug(LogSource.UI, `Selected choice: ${selectedChoice.text} (${selectedChoice.value})`);
       
-      // In a real implementation, you'd trigger the choice action
-      setDialogVisible(false);
+      if (onChoice) {
+        onChoice(selectedChoice.value);
+      } else {
+        setDialogVisible(false);
+      }
     } else if (dialogState.complete) {
-      // Dialog complete, close it
-      setDialogVisible(false);
+      // Dialog complete, hand over to the caller or close it
+      if (onDismiss) {
+        onDismiss();
+      } else {
+        setDialogVisible(false);
+      }
     } else if (config.allowSkip) {
       // Skip typewriter effect
       setDialogState(prev => ({
@@ -574,7 +591,7 @@ export const DialogSystem: React.FC = memo(() => {
         waiting: true
       }));
     }
-  }, [visible, dialogState, config.allowSkip, setDialogVisible]);
+  }, [visible, dialogState, config.allowSkip, setDialogVisible, onChoice, onDismiss]);
 
   const handleSelectChoice = useCallback((choiceIndex: number) => {
     setDialogState(prev => ({
@@ -58,7 +58,8 @@ export const Game: React.FC<GameProps> = ({
     state: engineState,
     canvasRef,
     startGame,
-    togglePause
+    togglePause,
+    getClock
   } = useGameEngine(
     // Custom update function
     useCallback((world: WorldManager, deltaTime: number) => {
@@ -245,6 +246,18 @@ export const Game: React.FC<GameProps> = ({
     };
   }, [engineState.running, playerEntityId, mainMenuVisible, inventoryVisible, dialogVisible, togglePause]);
 
+  // Stop in-game time while menus are open
+  useEffect(() => {
+    const clock = getClock();
+    if (!clock) return;
+
+    if (mainMenuVisible || inventoryVisible) {
+      clock.pause('menu');
+    } else {
+      clock.resume('menu');
+    }
+  }, [engineState.initialized, mainMenuVisible, inventoryVisible, getClock]);
+
   // Start game when initialized
   useEffect(() => {
     if (engineState.initialized && !engineState.running) {
@@ -413,7 +413,7 @@ export const HUD: React.FC<HUDProps> = memo(({ playerId, showDebugInfo = false }
   
   // Get player health and combat state
   const playerHealth = useEntityComponent<Health>(playerId, 'Health');
-  const playerCombat = useEntityComponent<CombatStats>(playerId, 'CombatState');
+  const playerCombat = useEntityComponent<CombatStats>(playerId, 'CombatStats');
   
   // Mock additional game state (in real implementation, these would come from game state)
   const [gameStats, setGameStats] = useState({
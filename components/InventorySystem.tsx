@@ -481,10 +481,18 @@ const ItemDetailsPanel: React.FC<{
 
 ItemDetailsPanel.displayName = 'ItemDetailsPanel';
 
+/**
+ * Inventory System props
+ */
+interface InventorySystemProps {
+  /** Uses a consumable in the field (e.g. InteractionSystem.useItem); returns whether it was used */
+  onUseItem?: (itemId: string) => boolean;
+}
+
 /**
  * Main Inventory System Component
  */
-export const InventorySystem: React.FC = memo(() => {
+export const InventorySystem: React.FC<InventorySystemProps> = memo(({ onUseItem }) => {
   const { inventoryVisible, setInventoryVisible } = useUIStore();
   
   const [config] = useState<InventoryConfig>({
@@ -531,6 +539,7 @@ export const InventorySystem: React.FC = memo(() => {
     if (!selectedSlot?.itemId || !selectedItem) return;
 
     if (selectedItem.type === 'CONSUMABLE') {
+      if (onUseItem && !onUseItem(selectedSlot.itemId)) return;
       logger.info(LogSource.UI, `Used item: ${selectedItem.name}`);
       // In a real implementation, this would apply item effects
       
@@ -542,7 +551,7 @@ export const InventorySystem: React.FC = memo(() => {
         selectedSlot.quantity = 0;
       }
     }
-  }, [selectedSlot, selectedItem]);
+  }, [selectedSlot, selectedItem, onUseItem]);
 
   // Handle item equip
   const handleItemEquip = useCallback(() => {
@@ -3,7 +3,7 @@
  * @fileoverview Comprehensive game data definitions for items, enemies, skills, and content
  */
 
-import { ItemDef, EnemyDef, CharacterClass, CharacterStats, SpellDef, StatusEffect } from '../types';
+import { ItemDef, EnemyDef, EnemyRewards, CharacterClass, CharacterStats, SpellDef, StatusEffect, PrefabDef, QuestDef, DayPeriod, DialogueGraph, CutsceneDef } from '../types';
 import { HERO_ANIMATIONS, SLIME_ANIMATIONS } from '../assets/SpriteAssets';
 
 /**
@@ -158,6 +158,7 @@ export const ITEMS_DATABASE: Record<string, ItemDef> = {
     type: 'WEAPON',
     properties: {
       value: 10,
+      equipmentType: 'dagger',
       stackable: false,
       consumable: false,
       effects: [
@@ -173,6 +174,7 @@ export const ITEMS_DATABASE: Record<string, ItemDef> = {
     type: 'WEAPON',
     properties: {
       value: 150,
+      equipmentType: 'sword',
       stackable: false,
       consumable: false,
       effects: [
@@ -188,6 +190,7 @@ export const ITEMS_DATABASE: Record<string, ItemDef> = {
     type: 'WEAPON',
     properties: {
       value: 350,
+      equipmentType: 'sword',
       stackable: false,
       consumable: false,
       effects: [
@@ -203,6 +206,7 @@ export const ITEMS_DATABASE: Record<string, ItemDef> = {
     type: 'WEAPON',
     properties: {
       value: 1200,
+      equipmentType: 'sword',
       stackable: false,
       consumable: false,
       effects: [
@@ -219,6 +223,7 @@ export const ITEMS_DATABASE: Record<string, ItemDef> = {
     type: 'WEAPON',
     properties: {
       value: 80,
+      equipmentType: 'staff',
       stackable: false,
       consumable: false,
       effects: [
@@ -235,6 +240,7 @@ export const ITEMS_DATABASE: Record<string, ItemDef> = {
     type: 'WEAPON',
     properties: {
       value: 500,
+      equipmentType: 'staff',
       stackable: false,
       consumable: false,
       effects: [
@@ -251,6 +257,7 @@ export const ITEMS_DATABASE: Record<string, ItemDef> = {
     type: 'WEAPON',
     properties: {
       value: 120,
+      equipmentType: 'bow',
       stackable: false,
       consumable: false,
       effects: [
@@ -269,6 +276,7 @@ export const ITEMS_DATABASE: Record<string, ItemDef> = {
     type: 'ARMOR',
     properties: {
       value: 15,
+      equipmentType: 'cloth',
       stackable: false,
       consumable: false,
       effects: [
@@ -284,6 +292,7 @@ export const ITEMS_DATABASE: Record<string, ItemDef> = {
     type: 'ARMOR',
     properties: {
       value: 120,
+      equipmentType: 'light',
       stackable: false,
       consumable: false,
       effects: [
@@ -299,6 +308,7 @@ export const ITEMS_DATABASE: Record<string, ItemDef> = {
     type: 'ARMOR',
     properties: {
       value: 280,
+      equipmentType: 'medium',
       stackable: false,
       consumable: false,
       effects: [
@@ -314,6 +324,7 @@ export const ITEMS_DATABASE: Record<string, ItemDef> = {
     type: 'ARMOR',
     properties: {
       value: 600,
+      equipmentType: 'heavy',
       stackable: false,
       consumable: false,
       effects: [
@@ -329,6 +340,7 @@ export const ITEMS_DATABASE: Record<string, ItemDef> = {
     type: 'ARMOR',
     properties: {
       value: 200,
+      equipmentType: 'cloth',
       stackable: false,
       consumable: false,
       effects: [
@@ -459,6 +471,7 @@ export const ITEMS_DATABASE: Record<string, ItemDef> = {
     type: 'WEAPON',
     properties: {
       value: 800,
+      equipmentType: 'sword',
       stackable: false,
       consumable: false,
       effects: [
@@ -476,6 +489,7 @@ export const ITEMS_DATABASE: Record<string, ItemDef> = {
     type: 'WEAPON',
     properties: {
       value: 850,
+      equipmentType: 'sword',
       stackable: false,
       consumable: false,
       effects: [
@@ -493,6 +507,7 @@ export const ITEMS_DATABASE: Record<string, ItemDef> = {
     type: 'WEAPON',
     properties: {
       value: 900,
+      equipmentType: 'sword',
       stackable: false,
       consumable: false,
       effects: [
@@ -510,6 +525,7 @@ export const ITEMS_DATABASE: Record<string, ItemDef> = {
     type: 'WEAPON',
     properties: {
       value: 750,
+      equipmentType: 'bow',
       stackable: false,
       consumable: false,
       effects: [
@@ -528,6 +544,7 @@ export const ITEMS_DATABASE: Record<string, ItemDef> = {
     type: 'WEAPON',
     properties: {
       value: 1200,
+      equipmentType: 'staff',
       stackable: false,
       consumable: false,
       effects: [
@@ -545,6 +562,7 @@ export const ITEMS_DATABASE: Record<string, ItemDef> = {
     type: 'WEAPON',
     properties: {
       value: 600,
+      equipmentType: 'claws',
       stackable: false,
       consumable: false,
       effects: [
@@ -600,6 +618,7 @@ export const ITEMS_DATABASE: Record<string, ItemDef> = {
     type: 'WEAPON',
     properties: {
       value: 8000,
+      equipmentType: 'legendary',
       stackable: false,
       consumable: false,
       effects: [
@@ -667,6 +686,7 @@ export const ITEMS_DATABASE: Record<string, ItemDef> = {
     type: 'ARMOR',
     properties: {
       value: 2500,
+      equipmentType: 'enchanted',
       stackable: false,
       consumable: false,
       effects: [
@@ -2150,7 +2170,8 @@ export const ENEMIES_DATABASE: Record<string, EnemyDef> = {
       aggression: 2,
       patrolRadius: 4,
       detectionRange: 5
-    }
+    },
+    elementalAffinities: { FIRE: 2, WATER: 0.5 }
   },
 
   'slime_red': {
@@ -2172,7 +2193,8 @@ export const ENEMIES_DATABASE: Record<string, EnemyDef> = {
       aggression: 3,
       patrolRadius: 5,
       detectionRange: 6
-    }
+    },
+    elementalAffinities: { FIRE: 0.5, WATER: 2 }
   },
 
   'slime_king': {
@@ -2240,7 +2262,8 @@ export const ENEMIES_DATABASE: Record<string, EnemyDef> = {
       aggression: 4,
       patrolRadius: 8,
       detectionRange: 10
-    }
+    },
+    elementalAffinities: { FIRE: 2, WATER: 0.5 }
   },
 
   'hell_hound': {
@@ -2262,7 +2285,8 @@ export const ENEMIES_DATABASE: Record<string, EnemyDef> = {
       aggression: 5,
       patrolRadius: 10,
       detectionRange: 12
-    }
+    },
+    elementalAffinities: { FIRE: 0, WATER: 2 }
   },
 
   // ============= OGRE & GIANT FAMILY =============
@@ -2444,7 +2468,8 @@ export const ENEMIES_DATABASE: Record<string, EnemyDef> = {
       aggression: 3,
       patrolRadius: 5,
       detectionRange: 7
-    }
+    },
+    elementalAffinities: { HOLY: 2, DARK: 0 }
   },
 
   'zombie': {
@@ -2466,7 +2491,8 @@ export const ENEMIES_DATABASE: Record<string, EnemyDef> = {
       aggression: 2,
       patrolRadius: 4,
       detectionRange: 6
-    }
+    },
+    elementalAffinities: { HOLY: 2, FIRE: 1.5, DARK: 0 }
   },
 
   'ghoul': {
@@ -2488,7 +2514,8 @@ export const ENEMIES_DATABASE: Record<string, EnemyDef> = {
       aggression: 4,
       patrolRadius: 6,
       detectionRange: 8
-    }
+    },
+    elementalAffinities: { HOLY: 2, DARK: 0 }
   },
 
   'wraith': {
@@ -2510,7 +2537,8 @@ export const ENEMIES_DATABASE: Record<string, EnemyDef> = {
       aggression: 3,
       patrolRadius: 7,
       detectionRange: 10
-    }
+    },
+    elementalAffinities: { HOLY: 2, DARK: 0 }
   },
 
   'specter': {
@@ -2532,7 +2560,8 @@ export const ENEMIES_DATABASE: Record<string, EnemyDef> = {
       aggression: 4,
       patrolRadius: 8,
       detectionRange: 12
-    }
+    },
+    elementalAffinities: { HOLY: 2, DARK: 0 }
   },
 
   'vampire': {
@@ -2554,7 +2583,8 @@ export const ENEMIES_DATABASE: Record<string, EnemyDef> = {
       aggression: 5,
       patrolRadius: 10,
       detectionRange: 15
-    }
+    },
+    elementalAffinities: { HOLY: 2, DARK: 0.5 }
   },
 
   // ============= DRAGON FAMILY =============
@@ -2578,7 +2608,8 @@ export const ENEMIES_DATABASE: Record<string, EnemyDef> = {
       aggression: 4,
       patrolRadius: 10,
       detectionRange: 15
-    }
+    },
+    elementalAffinities: { FIRE: 0.5, WATER: 1.5 }
   },
 
   'dragon_ancient': {
@@ -2600,7 +2631,8 @@ export const ENEMIES_DATABASE: Record<string, EnemyDef> = {
       aggression: 5,
       patrolRadius: 15,
       detectionRange: 20
-    }
+    },
+    elementalAffinities: { FIRE: 0, WATER: 1.5 }
   },
 
   // ============= CONSTRUCT FAMILY =============
@@ -2646,7 +2678,8 @@ export const ENEMIES_DATABASE: Record<string, EnemyDef> = {
       aggression: 2,
       patrolRadius: 4,
       detectionRange: 6
-    }
+    },
+    elementalAffinities: { EARTH: 0.5, WATER: 1.5 }
   },
 
   'iron_giant': {
@@ -2692,7 +2725,8 @@ export const ENEMIES_DATABASE: Record<string, EnemyDef> = {
       aggression: 3,
       patrolRadius: 6,
       detectionRange: 8
-    }
+    },
+    elementalAffinities: { WATER: 0, WIND: 1.5 }
   },
 
   'merfolk_chief': {
@@ -2758,7 +2792,8 @@ export const ENEMIES_DATABASE: Record<string, EnemyDef> = {
       aggression: 5,
       patrolRadius: 12,
       detectionRange: 18
-    }
+    },
+    elementalAffinities: { WATER: 0, WIND: 1.5 }
   },
 
   // ============= SORCERERS =============
@@ -3078,6 +3113,109 @@ export const ENEMIES_DATABASE: Record<string, EnemyDef> = {
   }
 };
 
+/**
+ * Builds the prefab for an enemy definition
+ * @param enemy - Enemy definition
+ * @returns Prefab extending the base enemy prefab
+ */
+function createEnemyPrefab(enemy: EnemyDef): PrefabDef {
+  return {
+    id: enemy.id,
+    extends: 'enemy',
+    components: {
+      Collision: { width: enemy.sprite.width, height: enemy.sprite.height },
+      Sprite: { textureId: enemy.sprite.textureId, width: enemy.sprite.width, height: enemy.sprite.height },
+      Health: { current: enemy.stats.health, max: enemy.stats.health },
+      CombatStats: { attack: enemy.stats.attack, defense: enemy.stats.defense, speed: enemy.stats.speed },
+      EnemyInfo: { enemyId: enemy.id }
+    }
+  };
+}
+
+/**
+ * Prefab definitions database
+ * Blueprints for spawnable entities. Every enemy also has a prefab named after its ID.
+ */
+export const PREFABS_DATABASE: Record<string, PrefabDef> = {
+  // ============= BASE PREFABS =============
+
+  'actor': {
+    id: 'actor',
+    components: {
+      Position: { x: 0, y: 0 },
+      Collision: { width: 16, height: 16, solid: true },
+      Sprite: { textureId: '', frameIndex: 0, width: 16, height: 16 }
+    }
+  },
+
+  'enemy': {
+    id: 'enemy',
+    extends: 'actor',
+    components: {
+      Health: { current: 1, max: 1 },
+      CombatStats: { attacking: false, attack: 1, defense: 0, actionPoints: 3, maxActionPoints: 3, speed: 1 },
+      EnemyInfo: { enemyId: '' }
+    }
+  },
+
+  // ============= WORLD PREFABS =============
+
+  'item_pickup': {
+    id: 'item_pickup',
+    extends: 'actor',
+    components: {
+      Collision: { solid: false }
+    }
+  },
+
+  'npc': {
+    id: 'npc',
+    extends: 'actor',
+    components: {
+      Collision: { height: 32 },
+      Sprite: { height: 32 }
+    }
+  },
+
+  'world_object': {
+    id: 'world_object',
+    extends: 'actor',
+    components: {
+      Collision: { width: 32, height: 32 },
+      Sprite: { width: 32, height: 32 }
+    }
+  },
+
+  // ============= PARTY PREFABS =============
+
+  'weapon_sword': {
+    id: 'weapon_sword',
+    components: {
+      Position: { x: 0, y: 0 },
+      Sprite: { textureId: 'weapon_sword', frameIndex: 0, width: 16, height: 16 }
+    }
+  },
+
+  'hero': {
+    id: 'hero',
+    extends: 'actor',
+    components: {
+      Collision: { height: 24 },
+      Sprite: { textureId: 'hero', height: 24 },
+      Velocity: { dx: 0, dy: 0 },
+      Health: { current: 100, max: 100 },
+      CombatStats: { attacking: false, attack: 10, defense: 5, actionPoints: 3, maxActionPoints: 3, speed: 10 }
+    },
+    children: [
+      { prefab: 'weapon_sword', offset: { x: 10, y: 6 } }
+    ]
+  },
+
+  // ============= ENEMY PREFABS =============
+
+  ...Object.fromEntries(Object.values(ENEMIES_DATABASE).map(enemy => [enemy.id, createEnemyPrefab(enemy)]))
+};
+
 /**
  * World locations database
  * Contains all locations with their properties and encounters
@@ -3089,7 +3227,11 @@ export const WORLD_LOCATIONS_DATABASE: Record<string, {
   musicTrack: string;
   battleBackground: string;
   encounters: string[];
+  /** Extra encounters during parts of the day */
+  timedEncounters?: Partial<Record<DayPeriod, string[]>>;
   shopItems?: string[];
+  /** Units a shop holds of limited items (unlisted items are unlimited) */
+  shopStock?: Record<string, number>;
   innAvailable?: boolean;
   specialFeatures?: string[];
   connections: string[];
@@ -3107,6 +3249,7 @@ export const WORLD_LOCATIONS_DATABASE: Record<string, {
     battleBackground: 'plains_battle',
     encounters: [], // No encounters in towns
     shopItems: ['sword_iron', 'cloth_tunic', 'leather_armor', 'heal_potion', 'antidote'],
+    shopStock: { sword_iron: 3, leather_armor: 3 },
     innAvailable: true,
     specialFeatures: ['regent_castle', 'starter_shops'],
     connections: ['sanctum_of_discord', 'overworld_central'],
@@ -3259,6 +3402,7 @@ export const WORLD_LOCATIONS_DATABASE: Record<string, {
     musicTrack: 'dungeon_basic',
     battleBackground: 'ruins_battle',
     encounters: ['goblin', 'imp', 'bat'],
+    timedEncounters: { night: ['skeleton'] },
     specialFeatures: ['linear_layout', 'tutorial_dungeon'],
     connections: ['aethelgard'],
     coordinates: { x: 140, y: 100 },
@@ -3386,6 +3530,274 @@ export const WORLD_LOCATIONS_DATABASE: Record<string, {
   }
 };
 
+/**
+ * Enemy rewards database
+ * Experience, gold and weighted drop tables per enemy (enemies not listed use stat-based rewards)
+ */
+export const ENEMY_REWARDS_DATABASE: Record<string, EnemyRewards> = {
+  'goblin': {
+    experience: 12,
+    gold: 8,
+    dropChance: 30,
+    dropRolls: 1,
+    drops: [
+      { itemId: 'potion_health_minor', weight: 70 },
+      { itemId: 'dagger_wood', weight: 25 },
+      { itemId: 'herb_healing', weight: 5 }
+    ]
+  },
+  'goblin_chief': {
+    experience: 30,
+    gold: 25,
+    dropChance: 50,
+    dropRolls: 1,
+    drops: [
+      { itemId: 'potion_health', weight: 60 },
+      { itemId: 'sword_iron', weight: 30 },
+      { itemId: 'shield_wood', weight: 10 }
+    ]
+  },
+  'imp': {
+    experience: 15,
+    gold: 10,
+    dropChance: 30,
+    dropRolls: 1,
+    drops: [
+      { itemId: 'potion_mana_minor', weight: 80 },
+      { itemId: 'staff_apprentice', weight: 20 }
+    ]
+  },
+  'slime_green': {
+    experience: 6,
+    gold: 4,
+    dropChance: 40,
+    dropRolls: 1,
+    drops: [
+      { itemId: 'potion_health_minor', weight: 60 },
+      { itemId: 'antidote', weight: 40 }
+    ]
+  },
+  'slime_blue': {
+    experience: 8,
+    gold: 5,
+    dropChance: 40,
+    dropRolls: 1,
+    drops: [
+      { itemId: 'potion_mana_minor', weight: 70 },
+      { itemId: 'antidote', weight: 30 }
+    ]
+  },
+  'slime_red': {
+    experience: 10,
+    gold: 6,
+    dropChance: 40,
+    dropRolls: 1,
+    drops: [
+      { itemId: 'potion_health_minor', weight: 70 },
+      { itemId: 'torch', weight: 30 }
+    ]
+  },
+  'slime_king': {
+    experience: 60,
+    gold: 50,
+    dropChance: 100,
+    dropRolls: 2,
+    drops: [
+      { itemId: 'potion_health', weight: 50 },
+      { itemId: 'potion_mana', weight: 40 },
+      { itemId: 'elixir_defense', weight: 10 }
+    ]
+  },
+  'warg': {
+    experience: 18,
+    gold: 6,
+    dropChance: 25,
+    dropRolls: 1,
+    drops: [
+      { itemId: 'leather_armor', weight: 40 },
+      { itemId: 'herb_healing', weight: 60 }
+    ]
+  },
+  'skeleton': {
+    experience: 22,
+    gold: 15,
+    dropChance: 30,
+    dropRolls: 1,
+    drops: [
+      { itemId: 'sword_iron', weight: 30 },
+      { itemId: 'shield_wood', weight: 30 },
+      { itemId: 'gold_needle', weight: 40 }
+    ]
+  },
+  'zombie': {
+    experience: 20,
+    gold: 8,
+    dropChance: 35,
+    dropRolls: 1,
+    drops: [
+      { itemId: 'antidote', weight: 60 },
+      { itemId: 'echo_herbs', weight: 40 }
+    ]
+  },
+  'dark_wizard': {
+    experience: 80,
+    gold: 60,
+    dropChance: 50,
+    dropRolls: 1,
+    drops: [
+      { itemId: 'potion_mana', weight: 60 },
+      { itemId: 'staff_wizard', weight: 25 },
+      { itemId: 'robe_mage', weight: 15 }
+    ]
+  }
+};
+
+/**
+ * Quests database
+ * Multi-stage quests started and turned in through NPC interactions
+ */
+export const QUESTS_DATABASE: Record<string, QuestDef> = {
+  'goblin_trouble': {
+    id: 'goblin_trouble',
+    name: 'Goblin Trouble',
+    description: 'Goblins have been raiding the farms outside Aethelgard. The village elder wants them dealt with.',
+    stages: [
+      {
+        id: 'hunt',
+        description: 'Thin out the goblin raiders in the fields.',
+        objectives: [
+          { id: 'goblins', type: 'defeat', description: 'Defeat goblins', target: 'goblin', count: 3 }
+        ]
+      },
+      {
+        id: 'report',
+        description: 'Return to the village elder.',
+        objectives: [
+          { id: 'elder', type: 'talk', description: 'Report to the elder', target: 'elder_talk' }
+        ]
+      }
+    ],
+    rewards: {
+      experience: 60,
+      gold: 50,
+      items: [{ itemId: 'potion_health', quantity: 2 }]
+    }
+  },
+
+  'herbalist_errand': {
+    id: 'herbalist_errand',
+    name: 'The Herbalist\'s Errand',
+    description: 'The herbalist is out of healing herbs and too old to gather them herself.',
+    prerequisites: ['goblin_trouble'],
+    stages: [
+      {
+        id: 'gather',
+        description: 'Gather healing herbs and take them to the herbalist\'s hut.',
+        objectives: [
+          { id: 'herbs', type: 'collect', description: 'Gather healing herbs', target: 'herb_healing', count: 3 },
+          { id: 'hut', type: 'reach', description: 'Go to the herbalist\'s hut', target: 'herbalist_hut', area: { x: 320, y: 96, radius: 32 } }
+        ]
+      }
+    ],
+    rewards: {
+      experience: 30,
+      items: [{ itemId: 'potion_health_minor', quantity: 3 }]
+    }
+  }
+};
+
+/**
+ * Dialogue database
+ * Branching conversations started through NPC interactions
+ */
+export const DIALOGUES_DATABASE: Record<string, DialogueGraph> = {
+  'elder_greeting': {
+    id: 'elder_greeting',
+    start: 'greet',
+    nodes: {
+      'greet': {
+        speaker: 'Elder Maren',
+        portrait: 'elder_maren',
+        emotion: 'worried',
+        text: 'Welcome to Aethelgard, {var hero}. These are troubled days.',
+        choices: [
+          { text: 'What troubles you?', next: 'goblins', conditions: [{ type: 'quest', key: 'goblin_trouble:inactive' }] },
+          { text: 'The goblins are dealt with.', next: 'thanks', conditions: [{ type: 'quest', key: 'goblin_trouble' }, { type: 'flag', key: 'elder_thanked', negate: true }] },
+          { text: 'I brought an antidote for the sick.', next: 'antidote', conditions: [{ type: 'item', key: 'antidote' }, { type: 'flag', key: 'elder_antidote_given', negate: true }] },
+          { text: 'Farewell.', next: null }
+        ]
+      },
+      'goblins': {
+        speaker: 'Elder Maren',
+        portrait: 'elder_maren',
+        emotion: 'worried',
+        text: 'Goblins raid our fields every night.{wait 0.5} Will you drive them off?',
+        choices: [
+          { text: 'I will.', next: 'accepted', effects: [{ type: 'START_QUEST', parameters: { questId: 'goblin_trouble' } }] },
+          { text: 'Not yet.', next: 'declined' }
+        ]
+      },
+      'accepted': {
+        speaker: 'Elder Maren',
+        portrait: 'elder_maren',
+        emotion: 'relieved',
+        text: 'Bless you. Take this for the road.',
+        effects: [{ type: 'GIVE_ITEM', parameters: { itemId: 'potion_health', quantity: 1 } }]
+      },
+      'declined': {
+        speaker: 'Elder Maren',
+        portrait: 'elder_maren',
+        emotion: 'sad',
+        text: 'I understand. Come back if you change your mind.'
+      },
+      'thanks': {
+        speaker: 'Elder Maren',
+        portrait: 'elder_maren',
+        emotion: 'happy',
+        text: 'The fields are quiet at last. Aethelgard owes you a debt.',
+        effects: [{ type: 'SET_FLAG', parameters: { flag: 'elder_thanked', value: true } }]
+      },
+      'antidote': {
+        speaker: 'Elder Maren',
+        portrait: 'elder_maren',
+        emotion: 'happy',
+        text: 'You have a kind heart. Please, accept this in return.',
+        effects: [
+          { type: 'TAKE_ITEM', parameters: { itemId: 'antidote', quantity: 1 } },
+          { type: 'GIVE_GOLD', parameters: { amount: 25 } },
+          { type: 'SET_FLAG', parameters: { flag: 'elder_antidote_given', value: true } }
+        ],
+        next: 'greet'
+      }
+    }
+  }
+};
+
+/**
+ * Cutscenes database
+ * Scripted scenes started by interactions and cutscene trigger tiles
+ */
+export const CUTSCENES_DATABASE: Record<string, CutsceneDef> = {
+  'sanctum_ambush': {
+    id: 'sanctum_ambush',
+    name: 'Ambush in the Sanctum',
+    once: true,
+    steps: [
+      { type: 'face', actor: 'player', direction: 'UP' },
+      { type: 'camera_pan', x: 320, y: 160, duration: 1.5 },
+      { type: 'play_sfx', sfxId: 'door_open' },
+      { type: 'camera_shake', intensity: 6, duration: 0.5 },
+      { type: 'wait', duration: 0.5 },
+      { type: 'dialogue', text: 'Goblin Chief: {shake 0.3}Intruders! Nobody leaves the Sanctum alive!' },
+      { type: 'move', actor: 'player', path: [{ x: 320, y: 224 }], speed: 64 },
+      { type: 'dialogue', text: 'They were waiting for us...' },
+      { type: 'play_bgm', trackId: 'battle_theme' },
+      { type: 'set_flag', flag: 'sanctum_ambush_seen' },
+      { type: 'start_battle', enemyIds: ['goblin', 'goblin', 'bat'] }
+    ]
+  }
+};
+
 /**
  * Boss mechanics database
  * Contains unique mechanics and behaviors for each boss encounter
@@ -3863,104 +4275,905 @@ export const BOSS_MECHANICS_DATABASE: Record<string, {
 };
 
 /**
- * Status effects database
- * Contains all status effects with their properties and behaviors
+ * Boss abilities database
+ * Abilities granted by boss phases in BOSS_MECHANICS_DATABASE. They cost no MP so a boss
+ * can always use what its phase unlocks; summons are modelled as party-wide attacks
  */
-export const STATUS_EFFECTS_DATABASE: Record<StatusEffect, {
-  name: string;
-  description: string;
-  duration: number; // Base duration in turns
-  effects: {
-    [key: string]: number | boolean;
-  };
-  cureMethods: string[];
-  resistances: string[];
-  stackable: boolean;
-  visible: boolean;
-}> = {
-  [StatusEffect.POISON]: {
-    name: 'Poison',
-    description: 'Deals damage per step on overworld; damage per turn in battle.',
-    duration: 10,
-    effects: {
-      damage_per_turn: 5,
-      damage_per_step: 1,
-      prevent_regeneration: true
-    },
-    cureMethods: ['antidote', 'heal_1', 'cure_1', 'full_cure'],
-    resistances: ['poison_immune_equipment', 'high_vitality'],
-    stackable: false,
-    visible: true
-  },
+export const BOSS_ABILITIES_DATABASE: Record<string, SpellDef> = {
+  // ============= CAPTAIN DREAD =============
 
-  [StatusEffect.STONE]: {
-    name: 'Stone',
-    description: 'Character is frozen and effectively dead until cured. Game Over if all are stoned.',
-    duration: 999, // Permanent until cured
-    effects: {
-      prevent_all_actions: true,
-      count_as_defeated: true,
-      immune_to_all_damage: true
+  'summon_pirates': {
+    id: 'summon_pirates',
+    name: 'Summon Pirates',
+    description: 'Calls a boarding party that rushes the whole party.',
+    level: 2,
+    school: 'NEUTRAL',
+    type: 'DAMAGE',
+    target: 'ALL_ENEMIES',
+    mpCost: 0,
+    power: 25,
+    animation: {
+      textureId: 'spell_earth',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
     },
-    cureMethods: ['gold_needle', 'full_cure', 'esuna_spell'],
-    resistances: ['stone_immune_equipment', 'high_vitality'],
-    stackable: false,
-    visible: true
+    soundEffect: 'sfx_earth_1'
   },
 
-  [StatusEffect.DARKNESS]: {
-    name: 'Darkness',
-    description: 'Physical accuracy dropped by 50%.',
-    duration: 8,
-    effects: {
-      accuracy_penalty: 50,
-      prevent_critical_hits: true
+  'desperation_cannon_fire': {
+    id: 'desperation_cannon_fire',
+    name: 'Desperation Cannon Fire',
+    description: 'Fires the ship\'s cannons at one target.',
+    level: 2,
+    school: 'FIRE',
+    type: 'DAMAGE',
+    target: 'ENEMY',
+    mpCost: 0,
+    power: 60,
+    animation: {
+      textureId: 'spell_fire',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
     },
-    cureMethods: ['echo_herbs', 'heal_2', 'full_cure'],
-    resistances: ['darkness_immune_equipment', 'high_luck'],
-    stackable: false,
-    visible: true
+    soundEffect: 'sfx_fire_2'
   },
 
-  [StatusEffect.SILENCE]: {
-    name: 'Silence',
-    description: 'Cannot cast magic.',
-    duration: 6,
-    effects: {
-      prevent_magic: true,
-      prevent_item_usage: true
+  // ============= DARK ELF KING =============
+
+  'spark_2': {
+    id: 'spark_2',
+    name: 'Spark II',
+    description: 'Lightning arcs into one target and may paralyze it.',
+    level: 3,
+    school: 'WIND',
+    type: 'DAMAGE',
+    target: 'ENEMY',
+    mpCost: 0,
+    power: 50,
+    statusEffects: [StatusEffect.PARALYSIS],
+    animation: {
+      textureId: 'spell_thunder',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
     },
-    cureMethods: ['echo_herbs', 'heal_1', 'full_cure'],
-    resistances: ['silence_immune_equipment', 'high_intelligence'],
-    stackable: false,
-    visible: true
+    soundEffect: 'sfx_thunder_2'
   },
 
-  [StatusEffect.PARALYSIS]: {
-    name: 'Paralysis',
-    description: 'Skip turns.',
-    duration: 4,
-    effects: {
-      skip_turns: true,
-      prevent_all_actions: true,
-      vulnerable_to_critical: true
+  'hold_spell': {
+    id: 'hold_spell',
+    name: 'Hold',
+    description: 'Binds one target in place.',
+    level: 3,
+    school: 'DARK',
+    type: 'DEBUFF',
+    target: 'ENEMY',
+    mpCost: 0,
+    power: 0,
+    statusEffects: [StatusEffect.PARALYSIS],
+    animation: {
+      textureId: 'spell_doom',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
     },
-    cureMethods: ['antidote', 'heal_2', 'full_cure'],
-    resistances: ['paralysis_immune_equipment', 'high_agility'],
-    stackable: false,
-    visible: true
+    soundEffect: 'sfx_doom'
   },
 
-  [StatusEffect.BLIND]: {
-    name: 'Blind',
-    description: 'Physical accuracy dropped by 75% and cannot critical hit.',
-    duration: 7,
-    effects: {
-      accuracy_penalty: 75,
-      prevent_critical_hits: true,
-      prevent_magic: false
+  'multi_hit_combo': {
+    id: 'multi_hit_combo',
+    name: 'Multi-Hit Combo',
+    description: 'A flurry of blade strikes against one target.',
+    level: 3,
+    school: 'NEUTRAL',
+    type: 'DAMAGE',
+    target: 'ENEMY',
+    mpCost: 0,
+    power: 70,
+    animation: {
+      textureId: 'spell_earth',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_earth_2'
+  },
+
+  // ============= ROT KING =============
+
+  'earthquake': {
+    id: 'earthquake',
+    name: 'Earthquake',
+    description: 'Shakes the ground beneath the whole party.',
+    level: 4,
+    school: 'EARTH',
+    type: 'DAMAGE',
+    target: 'ALL_ENEMIES',
+    mpCost: 0,
+    power: 50,
+    animation: {
+      textureId: 'spell_earth',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_quake_2'
+  },
+
+  'decay_touch': {
+    id: 'decay_touch',
+    name: 'Decay Touch',
+    description: 'A rotting touch that poisons one target.',
+    level: 4,
+    school: 'DARK',
+    type: 'DAMAGE',
+    target: 'ENEMY',
+    mpCost: 0,
+    power: 60,
+    statusEffects: [StatusEffect.POISON],
+    animation: {
+      textureId: 'spell_bio',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_bio'
+  },
+
+  'haste': {
+    id: 'haste',
+    name: 'Haste',
+    description: 'Quickens the caster.',
+    level: 4,
+    school: 'WIND',
+    type: 'BUFF',
+    target: 'SELF',
+    mpCost: 0,
+    power: 0,
+    statusEffects: [StatusEffect.HASTE],
+    animation: {
+      textureId: 'spell_buff',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_buff'
+  },
+
+  'summon_rot_corpses': {
+    id: 'summon_rot_corpses',
+    name: 'Summon Rot Corpses',
+    description: 'Raised corpses claw at the party and spread poison.',
+    level: 4,
+    school: 'DARK',
+    type: 'DAMAGE',
+    target: 'ALL_ENEMIES',
+    mpCost: 0,
+    power: 35,
+    statusEffects: [StatusEffect.POISON],
+    animation: {
+      textureId: 'spell_bio',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_bio'
+  },
+
+  'cataclysm': {
+    id: 'cataclysm',
+    name: 'Cataclysm',
+    description: 'The earth splits open beneath the party.',
+    level: 4,
+    school: 'EARTH',
+    type: 'DAMAGE',
+    target: 'ALL_ENEMIES',
+    mpCost: 0,
+    power: 80,
+    animation: {
+      textureId: 'spell_meteor',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_meteor'
+  },
+
+  'desperation_decay': {
+    id: 'desperation_decay',
+    name: 'Desperation Decay',
+    description: 'A last burst of rot that poisons the whole party.',
+    level: 4,
+    school: 'DARK',
+    type: 'DAMAGE',
+    target: 'ALL_ENEMIES',
+    mpCost: 0,
+    power: 60,
+    statusEffects: [StatusEffect.POISON],
+    animation: {
+      textureId: 'spell_bio',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_bio'
+  },
+
+  // ============= SERPENTINA =============
+
+  'six_strike_combo': {
+    id: 'six_strike_combo',
+    name: 'Six-Strike Combo',
+    description: 'Six blades strike one target in quick succession.',
+    level: 5,
+    school: 'NEUTRAL',
+    type: 'DAMAGE',
+    target: 'ENEMY',
+    mpCost: 0,
+    power: 110,
+    animation: {
+      textureId: 'spell_earth',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_earth_2'
+  },
+
+  'fire_breath': {
+    id: 'fire_breath',
+    name: 'Fire Breath',
+    description: 'Breathes fire across the whole party.',
+    level: 5,
+    school: 'FIRE',
+    type: 'DAMAGE',
+    target: 'ALL_ENEMIES',
+    mpCost: 0,
+    power: 75,
+    animation: {
+      textureId: 'spell_fire',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_fire_3'
+  },
+
+  'blind_gaze': {
+    id: 'blind_gaze',
+    name: 'Blind Gaze',
+    description: 'A petrifying stare that blinds one target.',
+    level: 5,
+    school: 'DARK',
+    type: 'DEBUFF',
+    target: 'ENEMY',
+    mpCost: 0,
+    power: 0,
+    statusEffects: [StatusEffect.BLIND],
+    animation: {
+      textureId: 'spell_doom',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_doom'
+  },
+
+  'constrict': {
+    id: 'constrict',
+    name: 'Constrict',
+    description: 'Coils around one target, crushing and binding it.',
+    level: 5,
+    school: 'NEUTRAL',
+    type: 'DAMAGE',
+    target: 'ENEMY',
+    mpCost: 0,
+    power: 90,
+    statusEffects: [StatusEffect.PARALYSIS],
+    animation: {
+      textureId: 'spell_earth',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_earth_2'
+  },
+
+  // ============= ABYSSAL LORD =============
+
+  'tentacle_slam': {
+    id: 'tentacle_slam',
+    name: 'Tentacle Slam',
+    description: 'Slams one target with a massive tentacle.',
+    level: 6,
+    school: 'WATER',
+    type: 'DAMAGE',
+    target: 'ENEMY',
+    mpCost: 0,
+    power: 120,
+    animation: {
+      textureId: 'spell_water',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_water_2'
+  },
+
+  'ink_cloud': {
+    id: 'ink_cloud',
+    name: 'Ink Cloud',
+    description: 'Clouds the water with ink, blinding the party.',
+    level: 6,
+    school: 'DARK',
+    type: 'DEBUFF',
+    target: 'ALL_ENEMIES',
+    mpCost: 0,
+    power: 0,
+    statusEffects: [StatusEffect.DARKNESS],
+    animation: {
+      textureId: 'spell_doom',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_doom'
+  },
+
+  'tidal_wave': {
+    id: 'tidal_wave',
+    name: 'Tidal Wave',
+    description: 'A crushing wave sweeps over the whole party.',
+    level: 6,
+    school: 'WATER',
+    type: 'DAMAGE',
+    target: 'ALL_ENEMIES',
+    mpCost: 0,
+    power: 100,
+    animation: {
+      textureId: 'spell_water',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_water_3'
+  },
+
+  'summon_abyssal_spawn': {
+    id: 'summon_abyssal_spawn',
+    name: 'Summon Abyssal Spawn',
+    description: 'Spawn from the deep swarm the party.',
+    level: 6,
+    school: 'WATER',
+    type: 'DAMAGE',
+    target: 'ALL_ENEMIES',
+    mpCost: 0,
+    power: 70,
+    animation: {
+      textureId: 'spell_water',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_water_2'
+  },
+
+  // ============= STORM HYDRA =============
+
+  'multi_head_bite': {
+    id: 'multi_head_bite',
+    name: 'Multi-Head Bite',
+    description: 'Every head bites at one target.',
+    level: 6,
+    school: 'NEUTRAL',
+    type: 'DAMAGE',
+    target: 'ENEMY',
+    mpCost: 0,
+    power: 130,
+    animation: {
+      textureId: 'spell_earth',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_earth_2'
+  },
+
+  'poison_gas': {
+    id: 'poison_gas',
+    name: 'Poison Gas',
+    description: 'Exhales poison over the whole party.',
+    level: 6,
+    school: 'DARK',
+    type: 'DAMAGE',
+    target: 'ALL_ENEMIES',
+    mpCost: 0,
+    power: 50,
+    statusEffects: [StatusEffect.POISON],
+    animation: {
+      textureId: 'spell_bio',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_bio'
+  },
+
+  'thunderbolt': {
+    id: 'thunderbolt',
+    name: 'Thunderbolt',
+    description: 'A bolt of lightning strikes one target.',
+    level: 6,
+    school: 'WIND',
+    type: 'DAMAGE',
+    target: 'ENEMY',
+    mpCost: 0,
+    power: 140,
+    animation: {
+      textureId: 'spell_thunder',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_thunder_3'
+  },
+
+  'head_regeneration': {
+    id: 'head_regeneration',
+    name: 'Head Regeneration',
+    description: 'Regrows severed heads, restoring health.',
+    level: 6,
+    school: 'NEUTRAL',
+    type: 'HEAL',
+    target: 'SELF',
+    mpCost: 0,
+    power: 150,
+    animation: {
+      textureId: 'spell_heal',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_heal_2'
+  },
+
+  // ============= GUARDIAN MECH =============
+
+  'laser_beam': {
+    id: 'laser_beam',
+    name: 'Laser Beam',
+    description: 'A focused beam burns one target.',
+    level: 7,
+    school: 'FIRE',
+    type: 'DAMAGE',
+    target: 'ENEMY',
+    mpCost: 0,
+    power: 150,
+    animation: {
+      textureId: 'spell_flare',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_flare'
+  },
+
+  'missile_barrage': {
+    id: 'missile_barrage',
+    name: 'Missile Barrage',
+    description: 'Missiles rain down on the whole party.',
+    level: 7,
+    school: 'FIRE',
+    type: 'DAMAGE',
+    target: 'ALL_ENEMIES',
+    mpCost: 0,
+    power: 100,
+    animation: {
+      textureId: 'spell_meteor',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_meteor'
+  },
+
+  'overcharge_mode': {
+    id: 'overcharge_mode',
+    name: 'Overcharge Mode',
+    description: 'Overloads the reactor, hastening the caster.',
+    level: 7,
+    school: 'NEUTRAL',
+    type: 'BUFF',
+    target: 'SELF',
+    mpCost: 0,
+    power: 0,
+    statusEffects: [StatusEffect.HASTE],
+    animation: {
+      textureId: 'spell_buff',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_buff'
+  },
+
+  // ============= OMEGA DRONE =============
+
+  'plasma_cutter': {
+    id: 'plasma_cutter',
+    name: 'Plasma Cutter',
+    description: 'A plasma blade slices one target.',
+    level: 8,
+    school: 'FIRE',
+    type: 'DAMAGE',
+    target: 'ENEMY',
+    mpCost: 0,
+    power: 180,
+    animation: {
+      textureId: 'spell_flare',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_flare'
+  },
+
+  'energy_shield': {
+    id: 'energy_shield',
+    name: 'Energy Shield',
+    description: 'Raises a shield against physical and magical attacks.',
+    level: 8,
+    school: 'NEUTRAL',
+    type: 'BUFF',
+    target: 'SELF',
+    mpCost: 0,
+    power: 0,
+    statusEffects: [StatusEffect.PROTECT, StatusEffect.SHELL],
+    animation: {
+      textureId: 'spell_buff',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_buff'
+  },
+
+  'omega_beam': {
+    id: 'omega_beam',
+    name: 'Omega Beam',
+    description: 'A devastating beam sweeps the whole party.',
+    level: 8,
+    school: 'NEUTRAL',
+    type: 'DAMAGE',
+    target: 'ALL_ENEMIES',
+    mpCost: 0,
+    power: 150,
+    animation: {
+      textureId: 'spell_ultima',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_ultima'
+  },
+
+  'self_destruct_sequence': {
+    id: 'self_destruct_sequence',
+    name: 'Self-Destruct Sequence',
+    description: 'Detonates the core against one target.',
+    level: 8,
+    school: 'FIRE',
+    type: 'DAMAGE',
+    target: 'ENEMY',
+    mpCost: 0,
+    power: 280,
+    animation: {
+      textureId: 'spell_supernova',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_supernova'
+  },
+
+  // ============= CYCLONE MASTER =============
+
+  'wind_slash': {
+    id: 'wind_slash',
+    name: 'Wind Slash',
+    description: 'A blade of wind cuts one target.',
+    level: 7,
+    school: 'WIND',
+    type: 'DAMAGE',
+    target: 'ENEMY',
+    mpCost: 0,
+    power: 130,
+    animation: {
+      textureId: 'spell_wind',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_wind_2'
+  },
+
+  'gust': {
+    id: 'gust',
+    name: 'Gust',
+    description: 'A gale batters the whole party.',
+    level: 7,
+    school: 'WIND',
+    type: 'DAMAGE',
+    target: 'ALL_ENEMIES',
+    mpCost: 0,
+    power: 80,
+    animation: {
+      textureId: 'spell_wind',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_wind_1'
+  },
+
+  'tornado_form': {
+    id: 'tornado_form',
+    name: 'Tornado Form',
+    description: 'Becomes a living tornado, hastening the caster.',
+    level: 7,
+    school: 'WIND',
+    type: 'BUFF',
+    target: 'SELF',
+    mpCost: 0,
+    power: 0,
+    statusEffects: [StatusEffect.HASTE],
+    animation: {
+      textureId: 'spell_tornado',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_tornado'
+  },
+
+  'mega_sneeze': {
+    id: 'mega_sneeze',
+    name: 'Mega Sneeze',
+    description: 'A sneeze of storm force that confuses the whole party.',
+    level: 7,
+    school: 'WIND',
+    type: 'DAMAGE',
+    target: 'ALL_ENEMIES',
+    mpCost: 0,
+    power: 60,
+    statusEffects: [StatusEffect.CONFUSION],
+    animation: {
+      textureId: 'spell_tornado',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_tornado'
+  },
+
+  // ============= ENTROPY =============
+
+  'rot_king_powers': {
+    id: 'rot_king_powers',
+    name: 'Rot King\'s Powers',
+    description: 'Channels the Rot King, spreading decay over the party.',
+    level: 9,
+    school: 'DARK',
+    type: 'DAMAGE',
+    target: 'ALL_ENEMIES',
+    mpCost: 0,
+    power: 120,
+    statusEffects: [StatusEffect.POISON],
+    animation: {
+      textureId: 'spell_bio',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_bio'
+  },
+
+  'earthquake_plus': {
+    id: 'earthquake_plus',
+    name: 'Earthquake+',
+    description: 'A world-shaking quake strikes the whole party.',
+    level: 9,
+    school: 'EARTH',
+    type: 'DAMAGE',
+    target: 'ALL_ENEMIES',
+    mpCost: 0,
+    power: 180,
+    animation: {
+      textureId: 'spell_earth',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_quake_2'
+  },
+
+  'serpentina_powers': {
+    id: 'serpentina_powers',
+    name: 'Serpentina\'s Powers',
+    description: 'Channels Serpentina\'s gaze against one target.',
+    level: 9,
+    school: 'DARK',
+    type: 'DAMAGE',
+    target: 'ENEMY',
+    mpCost: 0,
+    power: 200,
+    statusEffects: [StatusEffect.BLIND],
+    animation: {
+      textureId: 'spell_doom',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_doom'
+  },
+
+  'inferno_plus': {
+    id: 'inferno_plus',
+    name: 'Inferno+',
+    description: 'A firestorm engulfs the whole party.',
+    level: 9,
+    school: 'FIRE',
+    type: 'DAMAGE',
+    target: 'ALL_ENEMIES',
+    mpCost: 0,
+    power: 200,
+    animation: {
+      textureId: 'spell_fire',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_fire_3'
+  },
+
+  'abyssal_lord_powers': {
+    id: 'abyssal_lord_powers',
+    name: 'Abyssal Lord\'s Powers',
+    description: 'Channels the Abyssal Lord, drowning the party in darkness.',
+    level: 9,
+    school: 'WATER',
+    type: 'DAMAGE',
+    target: 'ALL_ENEMIES',
+    mpCost: 0,
+    power: 150,
+    statusEffects: [StatusEffect.DARKNESS],
+    animation: {
+      textureId: 'spell_water',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_water_3'
+  },
+
+  'tidal_wave_plus': {
+    id: 'tidal_wave_plus',
+    name: 'Tidal Wave+',
+    description: 'An overwhelming wave crashes over the whole party.',
+    level: 9,
+    school: 'WATER',
+    type: 'DAMAGE',
+    target: 'ALL_ENEMIES',
+    mpCost: 0,
+    power: 220,
+    animation: {
+      textureId: 'spell_water',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_water_3'
+  },
+
+  'storm_hydra_powers': {
+    id: 'storm_hydra_powers',
+    name: 'Storm Hydra\'s Powers',
+    description: 'Channels the Storm Hydra, calling lightning on one target.',
+    level: 9,
+    school: 'WIND',
+    type: 'DAMAGE',
+    target: 'ENEMY',
+    mpCost: 0,
+    power: 280,
+    animation: {
+      textureId: 'spell_thunder',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_thunder_3'
+  },
+
+  'poison_hurricane': {
+    id: 'poison_hurricane',
+    name: 'Poison Hurricane',
+    description: 'A toxic storm poisons and batters the whole party.',
+    level: 9,
+    school: 'WIND',
+    type: 'DAMAGE',
+    target: 'ALL_ENEMIES',
+    mpCost: 0,
+    power: 180,
+    statusEffects: [StatusEffect.POISON],
+    animation: {
+      textureId: 'spell_tornado',
+      duration: 0.8,
+      frames: [0, 1, 2, 3, 2, 1]
+    },
+    soundEffect: 'sfx_tornado'
+  }
+};
+
+/**
+ * Status effects database
+ * Contains all status effects with their properties and behaviors
+ */
+export const STATUS_EFFECTS_DATABASE: Record<StatusEffect, {
+  name: string;
+  description: string;
+  duration: number; // Base duration in turns
+  effects: {
+    [key: string]: number | boolean;
+  };
+  cureMethods: string[];
+  resistances: string[];
+  stackable: boolean;
+  visible: boolean;
+}> = {
+  [StatusEffect.POISON]: {
+    name: 'Poison',
+    description: 'Deals damage per step on overworld; damage per turn in battle.',
+    duration: 10,
+    effects: {
+      damage_per_turn: 5,
+      damage_per_step: 1,
+      prevent_regeneration: true
+    },
+    cureMethods: ['antidote', 'heal_1', 'cure_1', 'full_cure', 'rest'],
+    resistances: ['poison_immune_equipment', 'high_vitality'],
+    stackable: false,
+    visible: true
+  },
+
+  [StatusEffect.STONE]: {
+    name: 'Stone',
+    description: 'Character is frozen and effectively dead until cured. Game Over if all are stoned.',
+    duration: 999, // Permanent until cured
+    effects: {
+      prevent_all_actions: true,
+      count_as_defeated: true,
+      immune_to_all_damage: true
+    },
+    cureMethods: ['gold_needle', 'full_cure', 'esuna_spell'],
+    resistances: ['stone_immune_equipment', 'high_vitality'],
+    stackable: false,
+    visible: true
+  },
+
+  [StatusEffect.DARKNESS]: {
+    name: 'Darkness',
+    description: 'Physical accuracy dropped by 50%.',
+    duration: 8,
+    effects: {
+      accuracy_penalty: 50,
+      prevent_critical_hits: true
+    },
+    cureMethods: ['echo_herbs', 'heal_2', 'full_cure', 'rest'],
+    resistances: ['darkness_immune_equipment', 'high_luck'],
+    stackable: false,
+    visible: true
+  },
+
+  [StatusEffect.SILENCE]: {
+    name: 'Silence',
+    description: 'Cannot cast magic.',
+    duration: 6,
+    effects: {
+      prevent_magic: true,
+      prevent_item_usage: true
+    },
+    cureMethods: ['echo_herbs', 'heal_1', 'full_cure', 'rest'],
+    resistances: ['silence_immune_equipment', 'high_intelligence'],
+    stackable: false,
+    visible: true
+  },
+
+  [StatusEffect.PARALYSIS]: {
+    name: 'Paralysis',
+    description: 'Skip turns.',
+    duration: 4,
+    effects: {
+      skip_turns: true,
+      prevent_all_actions: true,
+      vulnerable_to_critical: true
+    },
+    cureMethods: ['antidote', 'heal_2', 'full_cure', 'rest'],
+    resistances: ['paralysis_immune_equipment', 'high_agility'],
+    stackable: false,
+    visible: true
+  },
+
+  [StatusEffect.BLIND]: {
+    name: 'Blind',
+    description: 'Physical accuracy dropped by 75% and cannot critical hit.',
+    duration: 7,
+    effects: {
+      accuracy_penalty: 75,
+      prevent_critical_hits: true,
+      prevent_magic: false
     },
-    cureMethods: ['echo_herbs', 'heal_2', 'full_cure'],
+    cureMethods: ['echo_herbs', 'heal_2', 'full_cure', 'rest'],
     resistances: ['blind_immune_equipment', 'high_luck'],
     stackable: false,
     visible: true
@@ -3975,7 +5188,7 @@ export const STATUS_EFFECTS_DATABASE: Record<StatusEffect, {
       wake_on_damage: true,
       vulnerable_to_critical: true
     },
-    cureMethods: ['damage', 'heal_1', 'full_cure'],
+    cureMethods: ['damage', 'heal_1', 'full_cure', 'rest'],
     resistances: ['sleep_immune_equipment', 'high_vitality'],
     stackable: false,
     visible: true
@@ -3990,7 +5203,7 @@ export const STATUS_EFFECTS_DATABASE: Record<StatusEffect, {
       prevent_magic: false,
       prevent_item_usage: true
     },
-    cureMethods: ['damage', 'heal_2', 'full_cure'],
+    cureMethods: ['damage', 'heal_2', 'full_cure', 'rest'],
     resistances: ['confusion_immune_equipment', 'high_intelligence'],
     stackable: false,
     visible: true
@@ -4005,7 +5218,7 @@ export const STATUS_EFFECTS_DATABASE: Record<StatusEffect, {
       prevent_all_player_control: true,
       immune_to_player_damage: true
     },
-    cureMethods: ['damage', 'full_cure', 'dispel_magic'],
+    cureMethods: ['damage', 'full_cure', 'dispel_magic', 'rest'],
     resistances: ['charm_immune_equipment', 'high_luck'],
     stackable: false,
     visible: true
@@ -4022,7 +5235,7 @@ export const STATUS_EFFECTS_DATABASE: Record<StatusEffect, {
       prevent_magic: true,
       prevent_item_usage: true
     },
-    cureMethods: ['damage', 'full_cure', 'dispel_magic'],
+    cureMethods: ['damage', 'full_cure', 'dispel_magic', 'rest'],
     resistances: ['berserk_immune_equipment', 'high_vitality'],
     stackable: false,
     visible: true
@@ -4036,7 +5249,7 @@ export const STATUS_EFFECTS_DATABASE: Record<StatusEffect, {
       speed_penalty: 50,
       action_delay: true
     },
-    cureMethods: ['heal_1', 'full_cure', 'haste_spell'],
+    cureMethods: ['heal_1', 'full_cure', 'haste_spell', 'rest'],
     resistances: ['slow_immune_equipment', 'high_agility'],
     stackable: false,
     visible: true
@@ -4341,6 +5554,7 @@ export const GAME_CONFIG = {
   BASE_DAMAGE_MULTIPLIER: 1.0,
   CRITICAL_HIT_MULTIPLIER: 2.0,
   CRITICAL_HIT_CHANCE_BASE: 5, // Percentage
+  DAMAGE_VARIANCE: 0.1, // +/- fraction of each hit
   
   // Inventory limits
   MAX_INVENTORY_SLOTS: 32,
@@ -4350,6 +5564,16 @@ export const GAME_CONFIG = {
   STARTING_GOLD: 100,
   MAX_GOLD: 999999,
   
+  // Resting
+  INN_BASE_COST: 10,
+  INN_COST_PER_LEVEL: 5, // Per level of each party member
+  INN_WAKE_HOUR: 8,
+  CAMP_REST_MINUTES: 480,
+  CAMP_LOCATION_TYPES: ['OVERWORLD'], // Location types where camp items may be used
+  
+  // Cutscenes
+  CUTSCENE_FAST_FORWARD: 4, // Playback speed while fast-forwarding
+  
   // Save system
   MAX_SAVE_SLOTS: 10,
   AUTOSAVE_SLOT: 10, // Use slot 10 for auto-save
@@ -4385,6 +5609,94 @@ export function getEnemy(enemyId: string): EnemyDef | null {
   return ENEMIES_DATABASE[enemyId] || null;
 }
 
+/**
+ * Gets the rewards for defeating an enemy
+ * @param enemyId - Enemy ID
+ * @returns Enemy rewards or null if not listed
+ */
+export function getEnemyRewards(enemyId: string): EnemyRewards | null {
+  return ENEMY_REWARDS_DATABASE[enemyId] || null;
+}
+
+/**
+ * Gets a quest definition by ID
+ * @param questId - Quest ID
+ * @returns Quest definition or null if not found
+ */
+export function getQuest(questId: string): QuestDef | null {
+  return QUESTS_DATABASE[questId] || null;
+}
+
+/**
+ * Gets a dialogue graph by ID
+ * @param dialogueId - Dialogue ID
+ * @returns Dialogue graph or null if not found
+ */
+export function getDialogue(dialogueId: string): DialogueGraph | null {
+  return DIALOGUES_DATABASE[dialogueId] || null;
+}
+
+/**
+ * Gets a cutscene definition by ID
+ * @param cutsceneId - Cutscene ID
+ * @returns Cutscene definition or null if not found
+ */
+export function getCutscene(cutsceneId: string): CutsceneDef | null {
+  return CUTSCENES_DATABASE[cutsceneId] || null;
+}
+
+/**
+ * Gets the encounter table of a location at a time of day
+ * @param locationId - Location ID
+ * @param period - Current part of the day
+ * @returns Enemy IDs that can be encountered (empty for unknown locations)
+ */
+export function getLocationEncounters(locationId: string, period: DayPeriod): string[] {
+  const location = WORLD_LOCATIONS_DATABASE[locationId];
+  if (!location) return [];
+
+  return [...location.encounters, ...(location.timedEncounters?.[period] ?? [])];
+}
+
+/**
+ * Gets a spell definition by ID
+ * @param spellId - Spell ID
+ * @returns Spell definition or null if not found
+ */
+export function getSpell(spellId: string): SpellDef | null {
+  return SPELLS_DATABASE[spellId] || null;
+}
+
+/**
+ * Gets a combat skill: a spell, or an ability unlocked by a boss phase
+ * @param skillId - Spell or boss ability ID
+ * @returns Skill definition or null if not found
+ */
+export function getSkill(skillId: string): SpellDef | null {
+  return SPELLS_DATABASE[skillId] || BOSS_ABILITIES_DATABASE[skillId] || null;
+}
+
+/**
+ * Gets a party formation template by ID
+ * @param formationId - Formation ID
+ * @returns Formation template or null if not found
+ */
+export function getFormation(formationId: string): {
+  name: string;
+  description: string;
+  frontRow: number[];
+  backRow: number[];
+  bonuses: Record<string, number>;
+} | null {
+  return (PARTY_FORMATION_DATABASE as Record<string, {
+    name: string;
+    description: string;
+    frontRow: number[];
+    backRow: number[];
+    bonuses: Record<string, number>;
+  }>)[formationId] || null;
+}
+
 /**
  * Calculates experience required for a level
  * @param level - Target level
@@ -4424,6 +5736,10 @@ export default {
   GAME_CONFIG,
   getItem,
   getEnemy,
+  getEnemyRewards,
+  getSpell,
+  getSkill,
+  getFormation,
   getExperienceForLevel,
   getLevelFromExperience
 };
\ No newline at end of file
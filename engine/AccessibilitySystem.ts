@@ -5,6 +5,7 @@
 
 import { logger, LogSource } from '../engine/GlobalLogger';
 import { AccessibilityOptions } from '../types';
+import type { CombatSystem } from './CombatSystem';
 
 /**
  * Color blind filter configurations
@@ -221,6 +222,35 @@ export class AccessibilitySystem {
     logger.debug(LogSource.UI, `Audio indicator: ${type} (${intensity})`);
   }
 
+  /**
+   * Announces combat events and shows visual cues for their sounds
+   * Only the player's own turns are announced, to keep the speech queue short.
+   * @param combat - Combat system to listen to
+   * @returns Unsubscribe function
+   */
+  public subscribeToCombat(combat: CombatSystem): () => void {
+    return combat.subscribe(event => {
+      if (event.type === 'TurnStarted' && !event.isPlayer) return;
+
+      switch (event.type) {
+        case 'DamageDealt':
+          this.showAudioIndicator('damage', Math.min(1, 0.3 + event.amount / 100));
+          break;
+        case 'Healed':
+          this.showAudioIndicator('heal');
+          break;
+        case 'Defeated':
+        case 'Fled':
+          this.showAudioIndicator('alert');
+          break;
+      }
+
+      // Outcomes interrupt whatever is being read out
+      const final = event.type === 'Victory' || event.type === 'Defeat';
+      this.speak(combat.describeEvent(event), final ? 0 : 1);
+    });
+  }
+
   /**
    * Enables keyboard navigation for a container
    * @param container - Container element
@@ -5,6 +5,7 @@
 
 import { AudioData } from '../types';
 import { logger, LogSource } from './GlobalLogger';
+import { CombatSystem, CombatAction } from './CombatSystem';
 
 /**
  * Audio playback state
@@ -524,6 +525,32 @@ export class AudioManager {
     logger.debug(LogSource.AUDIO, 'Stopped all audio');
   }
 
+  /**
+   * Plays sound effects for combat events
+   * @param combat - Combat system to listen to
+   * @returns Unsubscribe function
+   */
+  public subscribeToCombat(combat: CombatSystem): () => void {
+    return combat.subscribe(event => {
+      switch (event.type) {
+        case 'ActionStarted':
+          if (event.action === CombatAction.ATTACK) this.playSFX('sword_swing');
+          if (event.action === CombatAction.SKILL) this.playSFX('spell_cast');
+          break;
+        case 'DamageDealt':
+          if (event.kind === 'physical') this.playSFX('sword_hit', 1, event.critical ? 0.8 : 1);
+          if (event.kind === 'magical') this.playSFX('explosion');
+          break;
+        case 'Healed':
+          this.playSFX('heal_spell');
+          break;
+        case 'Victory':
+          this.playBGM('victory_fanfare', false);
+          break;
+      }
+    });
+  }
+
   /**
    * Gets audio system statistics
    * @returns Audio statistics
@@ -0,0 +1,229 @@
+/**
+ * Battle Simulator
+ * @fileoverview Headless, deterministic battle runner for tests, balancing and replays
+ */
+
+import { WorldManager } from './WorldManager';
+import { CombatSystem, CombatAction, CombatConfig, CombatEvent, CombatResult, CombatState } from './CombatSystem';
+import { EntityId, Health, StatusEffect } from '../types';
+import { RNG } from '../utils/rng';
+
+/**
+ * Fixed step used to advance the combat clock (60 frames per second)
+ */
+const DEFAULT_TIME_STEP = 1 / 60;
+
+/**
+ * Combat time after which an unfinished battle is abandoned
+ */
+const DEFAULT_MAX_TIME = 600;
+
+/**
+ * Battle to simulate
+ */
+export interface BattleSetup {
+  /** World holding the combatants (changed by the battle, see simulateBattle) */
+  world: WorldManager;
+  /** Party (or lone player) entity ID */
+  partyEntityId: EntityId;
+  /** Enemy entity IDs */
+  enemyIds: EntityId[];
+  /** Seed for every random roll in the battle */
+  seed: number;
+  /** Combat configuration overrides */
+  config?: Partial<CombatConfig>;
+  /** Seconds of combat time per step (defaults to 1/60) */
+  timeStep?: number;
+  /** Seconds of combat time before giving up (defaults to 600) */
+  maxTime?: number;
+}
+
+/**
+ * Command for a player-controlled turn
+ */
+export interface BattleInput {
+  /** Action to take */
+  action: CombatAction;
+  /** Target entity ID (null for untargeted actions) */
+  targetId?: EntityId | null;
+  /** Spell ID for SKILL actions */
+  skillId?: string;
+  /** Item ID for ITEM actions */
+  itemId?: string;
+}
+
+/**
+ * Player inputs: a script consumed one per player turn, or a callback asked on each player turn
+ * Once a script runs out, players attack the first living enemy.
+ */
+export type BattleInputs = BattleInput[] | ((actorId: EntityId, combat: CombatSystem) => BattleInput);
+
+/**
+ * Entry in the battle event log (time is combat seconds)
+ */
+export type BattleEvent =
+  | { time: number; type: 'turn_started'; actorId: EntityId; isPlayer: boolean }
+  | { time: number; type: 'action_started'; actorId: EntityId; action: CombatAction; targetId: EntityId | null; skillId?: string; itemId?: string }
+  | { time: number; type: 'damaged'; entityId: EntityId; sourceId: EntityId | null; amount: number; critical: boolean; health: number }
+  | { time: number; type: 'missed'; entityId: EntityId; sourceId: EntityId }
+  | { time: number; type: 'healed'; entityId: EntityId; amount: number; health: number }
+  | { time: number; type: 'status_applied'; entityId: EntityId; status: StatusEffect }
+  | { time: number; type: 'defeated'; entityId: EntityId }
+  | { time: number; type: 'fled'; entityId: EntityId }
+  | { time: number; type: 'ended'; outcome: BattleOutcome };
+
+/**
+ * How a simulated battle finished
+ */
+export type BattleOutcome = 'victory' | 'defeat' | 'timeout';
+
+/**
+ * Result of a simulated battle
+ */
+export interface BattleLog {
+  /** How the battle finished */
+  outcome: BattleOutcome;
+  /** Combat seconds elapsed */
+  duration: number;
+  /** Turns taken */
+  turns: number;
+  /** Rounds played (ROUNDS initiative) */
+  rounds: number;
+  /** Combat result with rewards (null on timeout) */
+  result: CombatResult | null;
+  /** Everything that happened, in order */
+  events: BattleEvent[];
+}
+
+/**
+ * Runs a battle to completion synchronously
+ * The same setup, seed and inputs always produce the same log.
+ * The battle plays out on setup.world itself: damage, spent MP and items stay,
+ * rewards are deposited on victory, and defeated enemies are queued on the
+ * world's command buffer for destruction. Pass a throwaway world to keep the
+ * caller's state untouched.
+ * @param setup - Battle setup
+ * @param inputs - Player inputs
+ * @returns Battle log
+ */
+export function simulateBattle(setup: BattleSetup, inputs: BattleInputs = []): BattleLog {
+  const timeStep = setup.timeStep ?? DEFAULT_TIME_STEP;
+  const maxTime = setup.maxTime ?? DEFAULT_MAX_TIME;
+  const script = Array.isArray(inputs) ? [...inputs] : null;
+
+  const combat = new CombatSystem(setup.config);
+  combat.setWorld(setup.world);
+  combat.setRNG(new RNG(setup.seed));
+
+  const events: BattleEvent[] = [];
+  let inputCount = 0;
+
+  /**
+   * Current health of an entity, read after the event was applied
+   */
+  const healthOf = (entityId: EntityId): number => setup.world.getComponent<Health>(entityId, 'Health')?.current ?? 0;
+
+  /**
+   * Maps a combat event to a log entry (null for events the log leaves out)
+   */
+  const toBattleEvent = (event: CombatEvent, time: number): BattleEvent | null => {
+    switch (event.type) {
+      case 'TurnStarted':
+        return { time, type: 'turn_started', actorId: event.actorId, isPlayer: event.isPlayer };
+      case 'ActionStarted':
+        return {
+          time,
+          type: 'action_started',
+          actorId: event.actorId,
+          action: event.action,
+          targetId: event.targetId,
+          skillId: event.skillId,
+          itemId: event.itemId
+        };
+      case 'DamageDealt':
+        return {
+          time,
+          type: 'damaged',
+          entityId: event.targetId,
+          sourceId: event.sourceId,
+          amount: event.amount,
+          critical: event.critical,
+          health: healthOf(event.targetId)
+        };
+      case 'Missed':
+        return { time, type: 'missed', entityId: event.targetId, sourceId: event.sourceId };
+      case 'Healed':
+        return { time, type: 'healed', entityId: event.targetId, amount: event.amount, health: healthOf(event.targetId) };
+      case 'StatusApplied':
+        return { time, type: 'status_applied', entityId: event.targetId, status: event.status };
+      case 'Defeated':
+        return { time, type: 'defeated', entityId: event.entityId };
+      case 'Fled':
+        return { time, type: 'fled', entityId: event.entityId };
+      default:
+        // Victory and Defeat are logged as the final 'ended' entry
+        return null;
+    }
+  };
+
+  const unsubscribe = combat.subscribe(event => {
+    const entry = toBattleEvent(event, combat.getElapsedTime());
+    if (entry) events.push(entry);
+  });
+
+  combat.startCombat(setup.partyEntityId, setup.enemyIds);
+
+  /**
+   * Picks the next player command
+   */
+  const nextInput = (actorId: EntityId): BattleInput => {
+    if (!script) return (inputs as (actorId: EntityId, combat: CombatSystem) => BattleInput)(actorId, combat);
+
+    const scripted = script.shift();
+    if (scripted) return scripted;
+
+    const target = combat.getParticipants().find(p => !p.isPlayer && !p.defeated);
+    return { action: CombatAction.ATTACK, targetId: target?.entityId ?? null };
+  };
+
+  let outcome: BattleOutcome = 'timeout';
+  while (combat.getElapsedTime() < maxTime) {
+    const state = combat.getCurrentState();
+
+    if (state === CombatState.VICTORY || state === CombatState.DEFEAT) {
+      outcome = state === CombatState.VICTORY ? 'victory' : 'defeat';
+      break;
+    }
+
+    const actorId = combat.getStats().currentTurn;
+    if (state === CombatState.PLAYER_INPUT && actorId !== null) {
+      const input = nextInput(actorId);
+      combat.queueAction({
+        id: `input_${inputCount++}`,
+        type: input.action,
+        actorId,
+        targetId: input.targetId ?? null,
+        data: { skillId: input.skillId, itemId: input.itemId }
+      });
+      continue;
+    }
+
+    combat.update(timeStep);
+  }
+
+  const stats = combat.getStats();
+  const log: BattleLog = {
+    outcome,
+    duration: combat.getElapsedTime(),
+    turns: stats.turnsTaken,
+    rounds: stats.round,
+    result: outcome === 'timeout' ? null : combat.getResult(),
+    events: [...events, { time: combat.getElapsedTime(), type: 'ended', outcome }]
+  };
+
+  unsubscribe();
+  combat.dispose();
+  return log;
+}
+
+export default simulateBattle;
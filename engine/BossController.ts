@@ -0,0 +1,399 @@
+/**
+ * Boss Controller
+ * @fileoverview Runs boss phases and special conditions from BOSS_MECHANICS_DATABASE during combat
+ */
+
+import { WorldManager } from './WorldManager';
+import { logger, LogSource } from './GlobalLogger';
+import { EntityId, Health, Boss, StatusEffect, StatusEffects } from '../types';
+import { BOSS_MECHANICS_DATABASE } from '../data/GameData';
+
+/**
+ * Health percentage at or below which the low_health trigger fires
+ */
+const LOW_HEALTH_PERCENT = 25;
+
+/**
+ * Abilities every boss starts with before any phase adds more
+ */
+const BASE_ABILITIES = ['attack'];
+
+/**
+ * Boss event emitted to listeners
+ */
+export type BossEvent =
+  | {
+    type: 'phase_changed';
+    entityId: EntityId;
+    bossId: string;
+    phaseIndex: number;
+    phaseName: string;
+    abilities: string[];
+    behaviorChanges: string[];
+  }
+  | {
+    type: 'condition_triggered';
+    entityId: EntityId;
+    bossId: string;
+    trigger: string;
+    effect: string;
+    description: string;
+  };
+
+/**
+ * Runtime state for a boss in combat
+ */
+interface BossRuntime {
+  /** Boss definition ID */
+  bossId: string;
+  /** Index of the current phase, or -1 before the first phase */
+  phaseIndex: number;
+  /** Current ability pool */
+  abilities: string[];
+  /** Active behavior changes */
+  behaviors: string[];
+  /** Effects triggered by special conditions */
+  activeEffects: string[];
+  /** State triggers that are currently true (fire again only after they clear) */
+  heldTriggers: Set<string>;
+  /** Turns the boss has taken */
+  turnsTaken: number;
+}
+
+/**
+ * Boss Controller
+ * Watches boss health and turns, transitions phases and fires special conditions
+ */
+export class BossController {
+  /** World manager reference */
+  private world: WorldManager | null = null;
+
+  /** Runtime state by boss entity */
+  private bosses: Map<EntityId, BossRuntime> = new Map();
+
+  /** Event listeners */
+  private listeners: Set<(event: BossEvent) => void> = new Set();
+
+  /**
+   * Creates a new BossController
+   */
+  constructor() {
+    logger.info(LogSource.COMBAT, 'BossController initialized');
+  }
+
+  /**
+   * Sets the world manager reference
+   * @param world - World manager instance
+   */
+  public setWorld(world: WorldManager): void {
+    this.world = world;
+  }
+
+  /**
+   * Starts tracking an entity if it has a Boss component with a known definition
+   * @param entityId - Entity ID
+   * @returns True if the entity is now tracked as a boss
+   */
+  public register(entityId: EntityId): boolean {
+    const boss = this.world?.getComponent<Boss>(entityId, 'Boss');
+    if (!boss) return false;
+
+    if (!BOSS_MECHANICS_DATABASE[boss.bossId]) {
+      logger.warn(LogSource.COMBAT, `Unknown boss definition: ${boss.bossId}`);
+      return false;
+    }
+
+    this.bosses.set(entityId, {
+      bossId: boss.bossId,
+      phaseIndex: -1,
+      abilities: [...BASE_ABILITIES],
+      behaviors: [],
+      activeEffects: [],
+      heldTriggers: new Set(),
+      turnsTaken: 0
+    });
+
+    logger.info(LogSource.COMBAT, `Registered boss ${boss.bossId} (entity ${entityId})`);
+    return true;
+  }
+
+  /**
+   * Checks whether an entity is a tracked boss
+   * @param entityId - Entity ID
+   * @returns True if tracked
+   */
+  public isBoss(entityId: EntityId): boolean {
+    return this.bosses.has(entityId);
+  }
+
+  /**
+   * Subscribes to boss events
+   * @param callback - Event callback
+   * @returns Unsubscribe function
+   */
+  public subscribe(callback: (event: BossEvent) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Checks health thresholds and state-based triggers (call once per frame)
+   */
+  public update(): void {
+    for (const [entityId, runtime] of this.bosses.entries()) {
+      const health = this.world?.getComponent<Health>(entityId, 'Health');
+      if (!health || health.current <= 0) continue;
+
+      const healthPercent = (health.current / health.max) * 100;
+      this.updatePhase(entityId, runtime, healthPercent);
+      this.updateStateTriggers(entityId, runtime, healthPercent);
+    }
+  }
+
+  /**
+   * Handles the start of a boss's turn: turn counters and always-active conditions
+   * @param entityId - Boss entity ID
+   */
+  public onBossTurn(entityId: EntityId): void {
+    const runtime = this.bosses.get(entityId);
+    if (!runtime) return;
+
+    runtime.turnsTaken++;
+
+    for (const condition of this.getConditions(runtime)) {
+      const turnMatch = /^turn_counter_(\d+)$/.exec(condition.trigger);
+      if (condition.trigger === 'always_active' ||
+          (turnMatch && runtime.turnsTaken % Number(turnMatch[1]) === 0)) {
+        this.fireCondition(entityId, runtime, condition);
+      }
+    }
+  }
+
+  /**
+   * Reports a combat event (e.g. 'pirates_defeated', 'fire_damage_received') to a boss
+   * @param entityId - Boss entity ID
+   * @param trigger - Trigger name
+   * @returns True if a special condition fired
+   */
+  public notify(entityId: EntityId, trigger: string): boolean {
+    const runtime = this.bosses.get(entityId);
+    if (!runtime) return false;
+
+    const conditions = this.getConditions(runtime).filter(c => c.trigger === trigger);
+    conditions.forEach(condition => this.fireCondition(entityId, runtime, condition));
+    return conditions.length > 0;
+  }
+
+  /**
+   * Reports a combat event to every tracked boss
+   * @param trigger - Trigger name
+   */
+  public notifyAll(trigger: string): void {
+    for (const entityId of this.bosses.keys()) {
+      this.notify(entityId, trigger);
+    }
+  }
+
+  /**
+   * Gets a boss's current ability pool
+   * @param entityId - Boss entity ID
+   * @returns Ability IDs
+   */
+  public getAbilityPool(entityId: EntityId): string[] {
+    return [...(this.bosses.get(entityId)?.abilities || [])];
+  }
+
+  /**
+   * Gets a boss's active behavior changes
+   * @param entityId - Boss entity ID
+   * @returns Behavior change IDs
+   */
+  public getBehaviors(entityId: EntityId): string[] {
+    return [...(this.bosses.get(entityId)?.behaviors || [])];
+  }
+
+  /**
+   * Gets effects triggered by a boss's special conditions
+   * @param entityId - Boss entity ID
+   * @returns Effect IDs
+   */
+  public getActiveEffects(entityId: EntityId): string[] {
+    return [...(this.bosses.get(entityId)?.activeEffects || [])];
+  }
+
+  /**
+   * Gets a boss's current phase index
+   * @param entityId - Boss entity ID
+   * @returns Phase index, -1 before the first phase, or null if not a boss
+   */
+  public getPhaseIndex(entityId: EntityId): number | null {
+    return this.bosses.get(entityId)?.phaseIndex ?? null;
+  }
+
+  /**
+   * Enters every phase whose threshold the boss's health has crossed
+   * @param entityId - Boss entity ID
+   * @param runtime - Boss runtime state
+   * @param healthPercent - Current health percentage
+   */
+  private updatePhase(entityId: EntityId, runtime: BossRuntime, healthPercent: number): void {
+    const phases = BOSS_MECHANICS_DATABASE[runtime.bossId].phases || [];
+
+    while (runtime.phaseIndex + 1 < phases.length && healthPercent <= phases[runtime.phaseIndex + 1].healthThreshold) {
+      runtime.phaseIndex++;
+      const phase = phases[runtime.phaseIndex];
+
+      runtime.abilities = [...new Set([...runtime.abilities, ...phase.newAbilities])];
+      runtime.behaviors = [...phase.behaviorChanges];
+
+      logger.info(LogSource.COMBAT, `${runtime.bossId} entered ${phase.name}`);
+      this.emit({
+        type: 'phase_changed',
+        entityId,
+        bossId: runtime.bossId,
+        phaseIndex: runtime.phaseIndex,
+        phaseName: phase.name,
+        abilities: [...runtime.abilities],
+        behaviorChanges: [...runtime.behaviors]
+      });
+    }
+  }
+
+  /**
+   * Fires conditions whose trigger describes boss state (health, status effects) on the rising edge
+   * @param entityId - Boss entity ID
+   * @param runtime - Boss runtime state
+   * @param healthPercent - Current health percentage
+   */
+  private updateStateTriggers(entityId: EntityId, runtime: BossRuntime, healthPercent: number): void {
+    for (const condition of this.getConditions(runtime)) {
+      const active = this.isStateTriggerActive(entityId, condition.trigger, healthPercent);
+      if (active === null) continue;
+
+      if (active && !runtime.heldTriggers.has(condition.trigger)) {
+        runtime.heldTriggers.add(condition.trigger);
+        this.fireCondition(entityId, runtime, condition);
+      } else if (!active) {
+        runtime.heldTriggers.delete(condition.trigger);
+      }
+    }
+  }
+
+  /**
+   * Evaluates a state-based trigger
+   * @param entityId - Boss entity ID
+   * @param trigger - Trigger name
+   * @param healthPercent - Current health percentage
+   * @returns Whether the trigger holds, or null if it is not state-based
+   */
+  private isStateTriggerActive(entityId: EntityId, trigger: string, healthPercent: number): boolean | null {
+    if (trigger === 'low_health') {
+      return healthPercent <= LOW_HEALTH_PERCENT;
+    }
+
+    const healthMatch = /^health_below_(\d+)_percent$/.exec(trigger);
+    if (healthMatch) {
+      return healthPercent < Number(healthMatch[1]);
+    }
+
+    const statusMatch = /^([a-z]+)_active$/.exec(trigger);
+    const effect = statusMatch?.[1].toUpperCase() as StatusEffect | undefined;
+    if (effect && Object.values(StatusEffect).includes(effect)) {
+      return !!this.world?.getComponent<StatusEffects>(entityId, 'StatusEffects')?.active[effect];
+    }
+
+    return null;
+  }
+
+  /**
+   * Records a condition's effect, applies built-in effects and emits an event
+   * @param entityId - Boss entity ID
+   * @param runtime - Boss runtime state
+   * @param condition - Special condition
+   */
+  private fireCondition(
+    entityId: EntityId,
+    runtime: BossRuntime,
+    condition: { trigger: string; effect: string; description: string }
+  ): void {
+    if (!runtime.activeEffects.includes(condition.effect)) {
+      runtime.activeEffects.push(condition.effect);
+    }
+
+    // hp_regen_<n>_percent heals the boss each time it fires
+    const regenMatch = /^hp_regen_(\d+)_percent$/.exec(condition.effect);
+    const health = this.world?.getComponent<Health>(entityId, 'Health');
+    if (regenMatch && health) {
+      health.current = Math.min(health.max, health.current + Math.floor(health.max * Number(regenMatch[1]) / 100));
+      this.world?.updateComponent(entityId, 'Health', health);
+    }
+
+    logger.info(LogSource.COMBAT, `${runtime.bossId}: ${condition.trigger} -> ${condition.effect}`);
+    this.emit({
+      type: 'condition_triggered',
+      entityId,
+      bossId: runtime.bossId,
+      trigger: condition.trigger,
+      effect: condition.effect,
+      description: condition.description
+    });
+  }
+
+  /**
+   * Gets a boss's special conditions
+   * @param runtime - Boss runtime state
+   * @returns Special conditions
+   */
+  private getConditions(runtime: BossRuntime): Array<{ trigger: string; effect: string; description: string }> {
+    return BOSS_MECHANICS_DATABASE[runtime.bossId].specialConditions;
+  }
+
+  /**
+   * Sends an event to all listeners
+   * @param event - Boss event
+   */
+  private emit(event: BossEvent): void {
+    this.listeners.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        logger.error(LogSource.COMBAT, `Boss event listener failed: ${error}`);
+      }
+    });
+  }
+
+  /**
+   * Stops tracking all bosses
+   */
+  public clear(): void {
+    this.bosses.clear();
+  }
+
+  /**
+   * Gets controller statistics
+   * @returns Boss controller statistics
+   */
+  public getStats(): {
+    trackedBosses: number;
+    listeners: number;
+  } {
+    return {
+      trackedBosses: this.bosses.size,
+      listeners: this.listeners.size
+    };
+  }
+
+  /**
+   * Disposes of the boss controller
+   */
+  public dispose(): void {
+    this.clear();
+    this.listeners.clear();
+    this.world = null;
+    logger.info(LogSource.COMBAT, 'BossController disposed');
+  }
+}
+
+export default BossController;
@@ -5,6 +5,7 @@
 
 import { WorldManager } from './WorldManager';
 import { logger, LogSource } from './GlobalLogger';
+import type { CombatSystem } from './CombatSystem';
 import { EntityId, Position, Camera, Rectangle } from '../types';
 
 /**
@@ -176,6 +177,14 @@ export class CameraSystem {
     }
   }
 
+  /**
+   * Gets the camera target entity
+   * @returns Entity ID being followed, or null for a static camera
+   */
+  public getTarget(): EntityId | null {
+    return this.camera?.targetEntityId ?? null;
+  }
+
   /**
    * Sets camera boundaries
    * @param bounds - Boundary constraints
@@ -326,6 +335,23 @@ export class CameraSystem {
     logger.debug(LogSource.CAMERA, `Camera shake started: intensity=${intensity}, duration=${duration}s`);
   }
 
+  /**
+   * Shakes the camera when combat damage lands
+   * Harder hits shake harder; critical hits and defeats add extra punch.
+   * @param combat - Combat system to listen to
+   * @returns Unsubscribe function
+   */
+  public subscribeToCombat(combat: CombatSystem): () => void {
+    return combat.subscribe(event => {
+      if (event.type === 'DamageDealt' && event.kind !== 'status') {
+        const intensity = Math.min(12, 2 + event.amount / 10) * (event.critical ? 2 : 1);
+        this.startShake(intensity, event.critical ? 0.4 : 0.25);
+      } else if (event.type === 'Defeated') {
+        this.startShake(6, 0.4);
+      }
+    });
+  }
+
   /**
    * Starts camera transition
    * @param targetX - Target X position
@@ -5,13 +5,58 @@
 
 import { WorldManager } from './WorldManager';
 import { logger, LogSource } from './GlobalLogger';
-import { EntityId, Position, Health, CombatStats, Animation, Sprite } from '../types';
+import { StatusEffectSystem } from './StatusEffectSystem';
+import { BossController } from './BossController';
+import { EnemyAI, AIActionType, createAbilityPoolProfile } from './EnemyAI';
+import { RewardSystem, VictoryRewards } from './RewardSystem';
+import {
+  EntityId, Position, Health, CombatStats, Animation, SpellDef, MagicUser, StatusEffect, Party, BattlePosition,
+  CharacterStats, EnemyInfo
+} from '../types';
+import { getSkill, getItem, getFormation, getEnemy, GAME_CONFIG } from '../data/GameData';
+import {
+  calculateDamage,
+  getEnemyDamageMultiplier,
+  formatDamageBreakdown,
+  DamageBreakdown,
+  DamageElement,
+  DamageKind,
+  Difficulty,
+  ElementalAffinities
+} from '../utils/damage';
+import { RNG, globalRNG } from '../utils/rng';
+
+/**
+ * Damage multiplier for melee attacks made from, or into, the back row
+ */
+const BACK_ROW_MELEE_MULTIPLIER = 0.5;
+
+/**
+ * Seconds the battle intro plays before the first turn
+ */
+const INTRO_DURATION = 2.0;
+
+/**
+ * Seconds an enemy "thinks" before its action starts
+ */
+const ENEMY_TURN_DELAY = 1.0;
+
+/**
+ * Seconds a DEFEND action keeps its defense bonus
+ */
+const DEFEND_DURATION = 2.0;
+
+/**
+ * Seconds the victory or defeat screen shows before combat ends
+ */
+const RESULT_DURATION = 3.0;
 
 /**
  * Combat state enumeration
  */
 export enum CombatState {
   INTRO = 'INTRO',
+  WAITING = 'WAITING',
   PLAYER_INPUT = 'PLAYER_INPUT',
   ACTION_PROCESSING = 'ACTION_PROCESSING',
   ENEMY_TURN = 'ENEMY_TURN',
@@ -31,6 +76,120 @@ export enum CombatAction {
   FLEE = 'FLEE'
 }
 
+/**
+ * Combat actions for each AI decision
+ */
+const AI_ACTIONS: Record<AIActionType, CombatAction> = {
+  ATTACK: CombatAction.ATTACK,
+  DEFEND: CombatAction.DEFEND,
+  SKILL: CombatAction.SKILL,
+  FLEE: CombatAction.FLEE
+};
+
+/**
+ * Initiative models for deciding who acts next
+ */
+export enum InitiativeMode {
+  /** Everyone acts once per round, fastest first */
+  ROUNDS = 'ROUNDS',
+  /** Active-time gauges fill with speed; actors go when their gauge is full */
+  ATB = 'ATB'
+}
+
+/**
+ * Combat configuration
+ */
+export interface CombatConfig {
+  /** Initiative model */
+  initiative: InitiativeMode;
+  /** ATB gauge capacity */
+  atbGaugeMax: number;
+  /** ATB gauge fill per point of speed per second */
+  atbFillRate: number;
+  /** Speed for entities with neither CombatStats.speed nor CharacterStats.agility */
+  defaultSpeed: number;
+  /** Difficulty used to scale enemy damage */
+  difficulty: Difficulty;
+  /** Random damage spread as a fraction (0 disables) */
+  damageVariance: number;
+  /** Critical hit chance for attacks in percent (0 disables) */
+  criticalHitChance: number;
+}
+
+/**
+ * Upcoming turn in the turn timeline
+ */
+export interface TurnTimelineEntry {
+  /** Acting entity ID */
+  entityId: EntityId;
+  /** Whether the actor is on the player's side */
+  isPlayer: boolean;
+  /** Whether the actor would lose the turn to its current status effects */
+  skipped: boolean;
+}
+
+/**
+ * Reasons a skill cast can fail
+ */
+export enum SkillFailureReason {
+  UNKNOWN_SKILL = 'UNKNOWN_SKILL',
+  INVALID_CASTER = 'INVALID_CASTER',
+  SILENCED = 'SILENCED',
+  INSUFFICIENT_MP = 'INSUFFICIENT_MP',
+  NO_TARGET = 'NO_TARGET'
+}
+
+/**
+ * Outcome of a skill on a single target
+ */
+export interface SkillTargetResult {
+  /** Target entity ID */
+  entityId: EntityId;
+  /** Damage dealt */
+  damage: number;
+  /** Health restored */
+  healed: number;
+  /** Status effects applied */
+  statusesApplied: StatusEffect[];
+  /** Status effects removed */
+  statusesCured: StatusEffect[];
+  /** Whether the target was brought back from defeat */
+  revived: boolean;
+}
+
+/**
+ * Outcome of a skill cast
+ */
+export interface SkillResult {
+  /** Whether the skill resolved */
+  success: boolean;
+  /** Failure reason when unsuccessful */
+  reason?: SkillFailureReason;
+  /** Skill ID */
+  skillId: string;
+  /** Caster entity ID */
+  casterId: EntityId;
+  /** MP deducted from the caster */
+  mpSpent: number;
+  /** Per-target outcomes */
+  targets: SkillTargetResult[];
+}
+
+/**
+ * Event emitted as combat plays out, for UI, audio, camera and accessibility
+ */
+export type CombatEvent =
+  | { type: 'TurnStarted'; actorId: EntityId; isPlayer: boolean }
+  | { type: 'ActionStarted'; actorId: EntityId; action: CombatAction; targetId: EntityId | null; skillId?: string; itemId?: string }
+  | { type: 'DamageDealt'; sourceId: EntityId | null; targetId: EntityId; amount: number; kind: DamageKind | 'status'; critical: boolean; element?: DamageElement }
+  | { type: 'Missed'; sourceId: EntityId; targetId: EntityId }
+  | { type: 'Healed'; sourceId: EntityId | null; targetId: EntityId; amount: number; revived: boolean }
+  | { type: 'StatusApplied'; sourceId: EntityId; targetId: EntityId; status: StatusEffect }
+  | { type: 'Defeated'; entityId: EntityId }
+  | { type: 'Fled'; entityId: EntityId }
+  | { type: 'Victory'; result: CombatResult }
+  | { type: 'Defeat'; result: CombatResult };
+
 /**
  * Combat action queue item
  */
@@ -64,14 +223,20 @@ interface CombatActionQueue {
 interface CombatParticipant {
   /** Entity ID */
   entityId: EntityId;
-  /** Whether this is the player */
+  /** Whether this participant is on the player's side */
   isPlayer: boolean;
+  /** Battle row */
+  row: 'FRONT' | 'BACK';
+  /** Formation bonuses (attack, defense, evasion, magic_power, ...) */
+  bonuses: Record<string, number>;
   /** Original position for combat */
   originalPosition: Position;
   /** Current turn order */
   turnOrder: number;
-  /** Whether participant is defeated */
+  /** Whether participant is defeated (or has fled) */
   defeated: boolean;
+  /** Whether participant left combat by fleeing rather than being beaten */
+  fled: boolean;
   /** Last action taken */
   lastAction: CombatAction | null;
   /** Health component data */
@@ -83,7 +248,7 @@ interface CombatParticipant {
 /**
  * Combat result
  */
-interface CombatResult {
+export interface CombatResult {
   /** Whether combat was victorious */
   victory: boolean;
   /** Experience gained */
@@ -92,6 +257,8 @@ interface CombatResult {
   gold: number;
   /** Items obtained */
   items: Array<{ itemId: string; quantity: number }>;
+  /** Per-member shares and level-ups (victory only) */
+  rewards: VictoryRewards | null;
 }
 
 /**
@@ -99,6 +266,9 @@ interface CombatResult {
  * Manages all combat mechanics with proper state machine and action queueing
  */
 export class CombatSystem {
+  /** Combat configuration */
+  private config: CombatConfig;
+
   /** Current combat state */
   private currentState: CombatState = CombatState.INTRO;
 
@@ -114,23 +284,75 @@ export class CombatSystem {
   /** Current turn participant */
   private currentTurn: EntityId | null = null;
 
-  /** Turn order counter */
+  /** Number of turns taken this combat */
   private turnCounter: number = 0;
 
+  /** Current round (ROUNDS initiative) */
+  private round: number = 0;
+
+  /** Actors still to act this round (ROUNDS initiative) */
+  private roundQueue: EntityId[] = [];
+
+  /** Gauge values by participant (ATB initiative) */
+  private atbGauges: Map<EntityId, number> = new Map();
+
+  /** Actors whose gauge is full, in the order they filled (ATB initiative) */
+  private readyQueue: EntityId[] = [];
+
+  /** Countdown for timed states (intro, enemy thinking, result screen) */
+  private stateTimer: number = 0;
+
+  /** Virtual clock: seconds of combat time advanced through update() */
+  private clock: number = 0;
+
+  /** Pending timed callbacks by key, run when the virtual clock reaches them */
+  private timers: Map<string, { at: number; callback: () => void }> = new Map();
+
+  /** Random source for damage rolls */
+  private rng: RNG = globalRNG;
+
   /** Combat result */
   private result: CombatResult | null = null;
 
   /** World manager reference */
   private world: WorldManager | null = null;
 
-  /** Animation callbacks */
-  private onAnimationComplete: Map<string, () => void> = new Map();
+  /** Combat event listeners */
+  private listeners: Set<(event: CombatEvent) => void> = new Set();
+
+  /** Status effect subsystem */
+  private statusEffects: StatusEffectSystem = new StatusEffectSystem();
+
+  /** Boss phase and special-condition controller */
+  private bossController: BossController = new BossController();
+
+  /** Enemy behaviour profiles */
+  private enemyAI: EnemyAI = new EnemyAI();
+
+  /** Victory rewards and levelling */
+  private rewardSystem: RewardSystem = new RewardSystem();
+
+  /** Party (or lone player) entity that started the battle */
+  private partyEntityId: EntityId | null = null;
 
   /**
    * Creates a new CombatSystem instance
+   * @param config - Combat configuration
    */
-  constructor() {
-    logger.info(LogSource.COMBAT, 'CombatSystem initialized');
+  constructor(config: Partial<CombatConfig> = {}) {
+    this.config = {
+      initiative: InitiativeMode.ROUNDS,
+      atbGaugeMax: 100,
+      atbFillRate: 1.0,
+      defaultSpeed: 10,
+      difficulty: 'normal',
+      damageVariance: GAME_CONFIG.DAMAGE_VARIANCE,
+      criticalHitChance: GAME_CONFIG.CRITICAL_HIT_CHANCE_BASE,
+      ...config
+    };
+    this.rewardSystem.setDifficulty(this.config.difficulty);
+
+    logger.info(LogSource.COMBAT, `CombatSystem initialized with ${this.config.initiative} initiative`);
   }
 
   /**
@@ -139,14 +361,107 @@ export class CombatSystem {
    */
   public setWorld(world: WorldManager): void {
     this.world = world;
+    this.statusEffects.setWorld(world);
+    this.bossController.setWorld(world);
+    this.enemyAI.setWorld(world);
+    this.rewardSystem.setWorld(world);
+  }
+
+  /**
+   * Shares a status effect system with other systems (e.g. grid movement)
+   * @param statusEffects - Status effect system instance
+   */
+  public setStatusEffectSystem(statusEffects: StatusEffectSystem): void {
+    this.statusEffects = statusEffects;
+    if (this.world) {
+      this.statusEffects.setWorld(this.world);
+    }
+  }
+
+  /**
+   * Gets the status effect system used by combat
+   * @returns Status effect system
+   */
+  public getStatusEffectSystem(): StatusEffectSystem {
+    return this.statusEffects;
+  }
+
+  /**
+   * Replaces the enemy AI (e.g. with one using a seeded RNG)
+   * @param enemyAI - Enemy AI instance
+   */
+  public setEnemyAI(enemyAI: EnemyAI): void {
+    this.enemyAI = enemyAI;
+    if (this.world) {
+      this.enemyAI.setWorld(this.world);
+    }
+  }
+
+  /**
+   * Gets the enemy AI used for enemy turns
+   * @returns Enemy AI
+   */
+  public getEnemyAI(): EnemyAI {
+    return this.enemyAI;
+  }
+
+  /**
+   * Replaces the random source for combat and its subsystems (damage, status resistances, AI, loot)
+   * @param rng - Random source (pass a seeded RNG for reproducible battles)
+   */
+  public setRNG(rng: RNG): void {
+    this.rng = rng;
+    this.statusEffects.setRNG(rng);
+    this.enemyAI.setRNG(rng);
+    this.rewardSystem.setRNG(rng);
+  }
+
+  /**
+   * Replaces the reward system (e.g. with one using a seeded RNG)
+   * @param rewardSystem - Reward system instance
+   */
+  public setRewardSystem(rewardSystem: RewardSystem): void {
+    this.rewardSystem = rewardSystem;
+    this.rewardSystem.setDifficulty(this.config.difficulty);
+    if (this.world) {
+      this.rewardSystem.setWorld(this.world);
+    }
+  }
+
+  /**
+   * Gets the reward system (subscribe to it for level-up notifications)
+   * @returns Reward system
+   */
+  public getRewardSystem(): RewardSystem {
+    return this.rewardSystem;
+  }
+
+  /**
+   * Subscribes to combat events
+   * @param callback - Event callback
+   * @returns Unsubscribe function
+   */
+  public subscribe(callback: (event: CombatEvent) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Gets the boss controller (subscribe to it for phase banners, camera shake, etc.)
+   * @returns Boss controller
+   */
+  public getBossController(): BossController {
+    return this.bossController;
   }
 
   /**
    * Starts combat with specified participants
-   * @param playerEntityId - Player entity ID
+   * @param partyEntityId - Entity with a Party component, or a lone player entity
    * @param enemyEntityIds - Array of enemy entity IDs
    */
-  public startCombat(playerEntityId: EntityId, enemyEntityIds: EntityId[]): void {
+  public startCombat(partyEntityId: EntityId, enemyEntityIds: EntityId[]): void {
     if (!this.world) {
       logger.error(LogSource.COMBAT, 'World manager not set');
       return;
@@ -154,48 +469,89 @@ export class CombatSystem {
 
     // Clear previous combat state
     this.endCombat();
+    this.partyEntityId = partyEntityId;
 
-    // Add player participant
-    this.participants.set(playerEntityId, {
-      entityId: playerEntityId,
-      isPlayer: true,
-      originalPosition: { ...this.world.getComponent<Position>(playerEntityId, 'Position')! },
-      turnOrder: 0,
-      defeated: false,
-      lastAction: null,
-      health: this.world.getComponent<Health>(playerEntityId, 'Health') || undefined,
-      combatStats: this.world.getComponent<CombatStats>(playerEntityId, 'CombatStats') || undefined
+    // Add party participants in formation order
+    const party = this.world.getComponent<Party>(partyEntityId, 'Party');
+    const memberIds = party ? this.getBattleMembers(party) : [partyEntityId];
+    const formation = party?.formationId ? getFormation(party.formationId) : null;
+
+    memberIds.forEach((memberId, index) => {
+      const row = this.getBattleRow(memberId, formation?.backRow.includes(index) ? 'BACK' : 'FRONT');
+      this.addParticipant(memberId, true, index, row, formation?.bonuses || {});
     });
 
     // Add enemy participants
     enemyEntityIds.forEach((enemyId, index) => {
-      if (this.world) {
-        const position = this.world.getComponent<Position>(enemyId, 'Position');
-        if (position) {
-          this.participants.set(enemyId, {
-            entityId: enemyId,
-            isPlayer: false,
-            originalPosition: { ...position },
-            turnOrder: index + 1,
-            defeated: false,
-            lastAction: null,
-            health: this.world.getComponent<Health>(enemyId, 'Health') || undefined,
-            combatStats: this.world.getComponent<CombatStats>(enemyId, 'CombatStats') || undefined
-          });
-        }
+      if (this.world?.getComponent<Position>(enemyId, 'Position')) {
+        this.addParticipant(enemyId, false, memberIds.length + index, this.getBattleRow(enemyId, 'FRONT'), {});
+        this.bossController.register(enemyId);
       }
     });
 
     // Set initial combat state
     this.currentState = CombatState.INTRO;
     this.turnCounter = 0;
+    this.participants.forEach(p => this.atbGauges.set(p.entityId, 0));
 
-    logger.info(LogSource.COMBAT, `Combat started: Player vs ${enemyEntityIds.length} enemies`);
+    logger.info(LogSource.COMBAT, `Combat started: Party of ${memberIds.length} vs ${enemyEntityIds.length} enemies`);
 
     // Start combat sequence
     this.startCombatSequence();
   }
 
+  /**
+   * Gets the party members that take part in battle, in formation order
+   * @param party - Party component
+   * @returns Member entity IDs
+   */
+  private getBattleMembers(party: Party): EntityId[] {
+    const order = party.formation.length > 0 ? party.formation : party.members;
+    return order.filter(id => party.activeMembers.length === 0 || party.activeMembers.includes(id));
+  }
+
+  /**
+   * Gets an entity's battle row, preferring its BattlePosition component
+   * @param entityId - Entity ID
+   * @param fallback - Row to use without a BattlePosition
+   * @returns Battle row
+   */
+  private getBattleRow(entityId: EntityId, fallback: 'FRONT' | 'BACK'): 'FRONT' | 'BACK' {
+    return this.world?.getComponent<BattlePosition>(entityId, 'BattlePosition')?.row || fallback;
+  }
+
+  /**
+   * Registers a combat participant
+   * @param entityId - Entity ID
+   * @param isPlayer - Whether the entity is on the player's side
+   * @param turnOrder - Turn order index
+   * @param row - Battle row
+   * @param bonuses - Formation bonuses
+   */
+  private addParticipant(
+    entityId: EntityId,
+    isPlayer: boolean,
+    turnOrder: number,
+    row: 'FRONT' | 'BACK',
+    bonuses: Record<string, number>
+  ): void {
+    const position = this.world?.getComponent<Position>(entityId, 'Position');
+
+    this.participants.set(entityId, {
+      entityId,
+      isPlayer,
+      row,
+      bonuses,
+      originalPosition: position ? { ...position } : { x: 0, y: 0 },
+      turnOrder,
+      defeated: false,
+      fled: false,
+      lastAction: null,
+      health: this.world?.getComponent<Health>(entityId, 'Health') || undefined,
+      combatStats: this.world?.getComponent<CombatStats>(entityId, 'CombatStats') || undefined
+    });
+  }
+
   /**
    * Starts the combat sequence
    */
@@ -211,6 +567,9 @@ export class CombatSystem {
       case CombatState.INTRO:
         this.startCombatIntro();
         break;
+      case CombatState.WAITING:
+        logger.debug(LogSource.COMBAT, 'Waiting for an actor to become ready');
+        break;
       case CombatState.PLAYER_INPUT:
         this.startPlayerTurn();
         break;
@@ -218,7 +577,7 @@ export class CombatSystem {
         this.startEnemyTurn();
         break;
       case CombatState.ACTION_PROCESSING:
-        this.processActions();
+        logger.debug(LogSource.COMBAT, 'Processing queued actions');
         break;
       case CombatState.RESOLUTION:
         this.resolveCombat();
@@ -246,18 +605,25 @@ export class CombatSystem {
     // In a real implementation, this would trigger dialog system
     logger.debug(LogSource.COMBAT, 'Combatants appear!');
 
-    // Transition to player input after delay
-    setTimeout(() => {
-      this.currentState = CombatState.PLAYER_INPUT;
-      this.startCombatSequence();
-    }, 2000); // 2 second intro
+    // First turn starts once the intro timer runs out in update()
+    this.stateTimer = INTRO_DURATION;
+  }
+
+  /**
+   * Enters a new combat state, running its entry logic even if re-entering the same state
+   * @param state - State to enter
+   */
+  private setState(state: CombatState): void {
+    this.currentState = state;
+    this.lastProcessedState = null;
+    this.startCombatSequence();
   }
 
   /**
    * Starts player turn
    */
   private startPlayerTurn(): void {
-    logger.debug(LogSource.COMBAT, 'Starting player turn');
+    logger.debug(LogSource.COMBAT, `Starting player turn for ${this.currentTurn}`);
 
     // Clear action queue
     this.actionQueue = [];
@@ -271,25 +637,218 @@ export class CombatSystem {
    * Starts enemy turn
    */
   private startEnemyTurn(): void {
-    logger.debug(LogSource.COMBAT, 'Starting enemy turn');
+    logger.debug(LogSource.COMBAT, `Starting enemy turn for ${this.currentTurn}`);
 
     // Clear action queue
     this.actionQueue = [];
 
-    // Process AI for all alive enemies
-    const aliveEnemies = Array.from(this.participants.values())
-      .filter(p => !p.isPlayer && !p.defeated)
+    if (this.currentTurn !== null) {
+      this.processEnemyAI(this.currentTurn);
+    }
+
+    // Action processing starts once the thinking delay runs out in update()
+    this.stateTimer = ENEMY_TURN_DELAY;
+  }
+
+  /**
+   * Advances to the next actor according to the initiative model
+   */
+  private nextTurn(): void {
+    this.currentTurn = null;
+
+    const actorId = this.config.initiative === InitiativeMode.ROUNDS
+      ? this.nextRoundActor()
+      : this.readyQueue.shift() ?? null;
+
+    if (actorId === null) {
+      this.setState(CombatState.WAITING);
+      return;
+    }
+
+    this.beginActorTurn(actorId);
+  }
+
+  /**
+   * Pops the next living actor of the current round, starting a new round if needed
+   * @returns Actor entity ID or null if nobody can act
+   */
+  private nextRoundActor(): EntityId | null {
+    for (;;) {
+      if (this.roundQueue.length === 0) {
+        this.roundQueue = this.buildRoundOrder();
+        if (this.roundQueue.length === 0) return null;
+        this.round++;
+        logger.debug(LogSource.COMBAT, `Round ${this.round}: ${this.roundQueue.join(', ')}`);
+      }
+
+      const actorId = this.roundQueue.shift()!;
+      if (!this.participants.get(actorId)?.defeated) return actorId;
+    }
+  }
+
+  /**
+   * Orders living participants by effective speed, fastest first
+   * @returns Actor entity IDs
+   */
+  private buildRoundOrder(): EntityId[] {
+    return Array.from(this.participants.values())
+      .filter(p => !p.defeated)
+      .sort((a, b) => this.getEffectiveSpeed(b.entityId) - this.getEffectiveSpeed(a.entityId) || a.turnOrder - b.turnOrder)
+      .map(p => p.entityId);
+  }
+
+  /**
+   * Starts an actor's turn: ticks its status effects, then hands control to the player or AI
+   * @param actorId - Acting entity ID
+   */
+  private beginActorTurn(actorId: EntityId): void {
+    const actor = this.participants.get(actorId);
+    if (!actor) return;
+
+    this.currentTurn = actorId;
+    this.turnCounter++;
+    this.atbGauges.set(actorId, 0);
+    this.bossController.onBossTurn(actorId);
+
+    this.emit({ type: 'TurnStarted', actorId, isPlayer: actor.isPlayer });
+
+    const tick = this.statusEffects.tickTurn(actorId);
+    if (tick.damage > 0) {
+      logger.debug(LogSource.COMBAT, `${actorId} took ${tick.damage} status damage`);
+      this.emit({ type: 'DamageDealt', sourceId: null, targetId: actorId, amount: tick.damage, kind: 'status', critical: false });
+    }
+    if (tick.healed > 0) {
+      this.emit({ type: 'Healed', sourceId: null, targetId: actorId, amount: tick.healed, revived: false });
+    }
+    if (tick.expired.length > 0) {
+      logger.debug(LogSource.COMBAT, `${tick.expired.join(', ')} wore off ${actorId}`);
+    }
+
+    const health = this.world?.getComponent<Health>(actorId, 'Health');
+    if (health && health.current <= 0) {
+      this.markDefeated(actor);
+      this.checkCombatEnd();
+      return;
+    }
+
+    if (!this.statusEffects.canAct(actorId)) {
+      logger.debug(LogSource.COMBAT, `${actorId} is unable to act and loses the turn`);
+      this.nextTurn();
+      return;
+    }
+
+    this.setState(actor.isPlayer ? CombatState.PLAYER_INPUT : CombatState.ENEMY_TURN);
+  }
+
+  /**
+   * Fills ATB gauges and queues actors whose gauge is full
+   * @param deltaTime - Time since last frame
+   */
+  private fillGauges(deltaTime: number): void {
+    const filled: Array<{ entityId: EntityId; overflow: number }> = [];
+
+    for (const participant of this.participants.values()) {
+      if (participant.defeated || this.readyQueue.includes(participant.entityId)) continue;
+
+      const gauge = (this.atbGauges.get(participant.entityId) || 0) +
+        this.getEffectiveSpeed(participant.entityId) * this.config.atbFillRate * deltaTime;
+      this.atbGauges.set(participant.entityId, Math.min(gauge, this.config.atbGaugeMax));
+
+      if (gauge >= this.config.atbGaugeMax) {
+        filled.push({ entityId: participant.entityId, overflow: gauge - this.config.atbGaugeMax });
+      }
+    }
+
+    // Whoever overshot the most filled first
+    filled.sort((a, b) => b.overflow - a.overflow).forEach(f => this.readyQueue.push(f.entityId));
+
+    if (this.readyQueue.length > 0) {
+      this.nextTurn();
+    }
+  }
+
+  /**
+   * Gets an entity's speed after status effects
+   * Uses CombatStats.speed, then CharacterStats.agility, then the configured default.
+   * @param entityId - Entity ID
+   * @returns Effective speed
+   */
+  public getEffectiveSpeed(entityId: EntityId): number {
+    const baseSpeed = this.world?.getComponent<CombatStats>(entityId, 'CombatStats')?.speed ??
+      this.world?.getComponent<CharacterStats>(entityId, 'CharacterStats')?.agility ??
+      this.config.defaultSpeed;
+
+    return Math.max(1, baseSpeed * this.statusEffects.getSpeedMultiplier(entityId));
+  }
+
+  /**
+   * Predicts the upcoming turns from current speeds and gauges
+   * @param count - Number of turns to predict
+   * @returns Upcoming turns, soonest first
+   */
+  public getTurnTimeline(count: number): TurnTimelineEntry[] {
+    const actors = this.config.initiative === InitiativeMode.ROUNDS
+      ? this.predictRounds(count)
+      : this.predictGauges(count);
+
+    return actors.map(entityId => ({
+      entityId,
+      isPlayer: this.participants.get(entityId)!.isPlayer,
+      skipped: !this.statusEffects.canAct(entityId)
+    }));
+  }
+
+  /**
+   * Predicts upcoming actors under ROUNDS initiative
+   * @param count - Number of turns to predict
+   * @returns Actor entity IDs
+   */
+  private predictRounds(count: number): EntityId[] {
+    const upcoming = this.roundQueue.filter(id => !this.participants.get(id)?.defeated);
+    const order = this.buildRoundOrder();
+    if (order.length === 0) return [];
+
+    while (upcoming.length < count) {
+      upcoming.push(...order);
+    }
+    return upcoming.slice(0, count);
+  }
+
+  /**
+   * Predicts upcoming actors under ATB initiative by simulating gauge fill
+   * @param count - Number of turns to predict
+   * @returns Actor entity IDs
+   */
+  private predictGauges(count: number): EntityId[] {
+    const living = Array.from(this.participants.values())
+      .filter(p => !p.defeated)
       .sort((a, b) => a.turnOrder - b.turnOrder);
+    if (living.length === 0) return [];
+
+    const upcoming = this.readyQueue.filter(id => !this.participants.get(id)?.defeated).slice(0, count);
+    const gauges = new Map(living.map(p => [
+      p.entityId,
+      upcoming.includes(p.entityId) ? 0 : this.atbGauges.get(p.entityId) || 0
+    ]));
+    const rates = new Map(living.map(p => [p.entityId, this.getEffectiveSpeed(p.entityId) * this.config.atbFillRate]));
+
+    while (upcoming.length < count) {
+      let nextId = living[0].entityId;
+      let nextTime = Infinity;
+      for (const p of living) {
+        const time = (this.config.atbGaugeMax - gauges.get(p.entityId)!) / rates.get(p.entityId)!;
+        if (time < nextTime) {
+          nextTime = time;
+          nextId = p.entityId;
+        }
+      }
 
-    aliveEnemies.forEach(enemy => {
-      this.processEnemyAI(enemy.entityId);
-    });
+      gauges.forEach((gauge, id) => gauges.set(id, gauge + rates.get(id)! * nextTime));
+      gauges.set(nextId, 0);
+      upcoming.push(nextId);
+    }
 
-    // Transition to action processing after AI decisions
-    setTimeout(() => {
-      this.currentState = CombatState.ACTION_PROCESSING;
-      this.startCombatSequence();
-    }, 1000);
+    return upcoming;
   }
 
   /**
@@ -303,39 +862,29 @@ export class CombatSystem {
     const combatState = this.world?.getComponent<CombatStats>(enemyId, 'CombatStats');
     if (!combatState) return;
 
-    // Simple AI logic
     const health = this.world?.getComponent<Health>(enemyId, 'Health');
     if (!health || health.current <= 0) return;
 
-    // Decision making based on health
-    let action: CombatAction;
-    let targetId: EntityId | null = null;
+    const living = Array.from(this.participants.values()).filter(p => !p.defeated);
+    const context = {
+      allies: living.filter(p => p.isPlayer === enemy.isPlayer).map(p => ({ entityId: p.entityId, row: p.row })),
+      opponents: living.filter(p => p.isPlayer !== enemy.isPlayer).map(p => ({ entityId: p.entityId, row: p.row }))
+    };
 
-    if (health.current < health.max * 0.3) {
-      // Low health - more likely to defend or flee
-      if (Math.random() < 0.7) {
-        action = CombatAction.DEFEND;
-      } else {
-        action = CombatAction.FLEE;
-      }
-    } else {
-      // Good health - more likely to attack
-      action = CombatAction.ATTACK;
-      // Find player target
-      const playerParticipant = Array.from(this.participants.values())
-        .find(p => p.isPlayer && !p.defeated);
-      if (playerParticipant) {
-        targetId = playerParticipant.entityId;
-      }
-    }
+    // Bosses draw from their current phase's ability pool instead of a profile
+    const decision = this.bossController.isBoss(enemyId)
+      ? this.enemyAI.decide(enemyId, context, createAbilityPoolProfile(this.bossController.getAbilityPool(enemyId)))
+      : this.enemyAI.decide(enemyId, context);
+    const action = decision ? AI_ACTIONS[decision.action] : CombatAction.DEFEND;
 
     // Queue the action
     this.queueAction({
-      id: `enemy_${enemyId}_${Date.now()}`,
+      id: `enemy_${enemyId}_${this.turnCounter}`,
       type: action,
       actorId: enemyId,
-      targetId,
+      targetId: decision?.targetId ?? null,
       data: {
+        skillId: decision?.skillId,
         damage: combatState.attack,
         priority: enemy.turnOrder
       }
@@ -358,6 +907,11 @@ export class CombatSystem {
 
     this.actionQueue.push(queueItem);
     logger.debug(LogSource.COMBAT, `Queued action: ${action.type} by ${action.actorId}`);
+
+    // The active party member's choice ends player input
+    if (this.currentState === CombatState.PLAYER_INPUT && action.actorId === this.currentTurn) {
+      this.setState(CombatState.ACTION_PROCESSING);
+    }
   }
 
   /**
@@ -383,13 +937,11 @@ export class CombatSystem {
   }
 
   /**
-   * Processes all queued actions
+   * Advances queued action timers and executes actions that are ready
+   * @param deltaTime - Time since last frame
    */
-  private processActions(): void {
-    logger.debug(LogSource.COMBAT, 'Processing queued actions');
-
+  private processActions(deltaTime: number): void {
     // Update timers and check for ready actions
-    const deltaTime = 1 / 60; // Assuming 60 FPS
     const readyActions: CombatActionQueue[] = [];
 
     this.actionQueue = this.actionQueue.map(action => {
@@ -427,7 +979,20 @@ export class CombatSystem {
     const actor = this.participants.get(action.actorId);
     if (!actor || actor.defeated) return;
 
+    if (!this.statusEffects.canAct(action.actorId)) {
+      logger.debug(LogSource.COMBAT, `${action.actorId} is unable to act`);
+      return;
+    }
+
     logger.debug(LogSource.COMBAT, `Executing ${action.type} by ${action.actorId}`);
+    this.emit({
+      type: 'ActionStarted',
+      actorId: action.actorId,
+      action: action.type,
+      targetId: action.targetId,
+      skillId: action.data.skillId,
+      itemId: action.data.itemId
+    });
 
     switch (action.type) {
       case CombatAction.ATTACK:
@@ -457,41 +1022,96 @@ export class CombatSystem {
    */
   private executeAttack(action: CombatActionQueue): void {
     const attacker = this.participants.get(action.actorId);
-    const target = action.targetId ? this.participants.get(action.targetId) : null;
+    const target = action.targetId !== null ? this.participants.get(action.targetId) : null;
 
     if (!attacker || !target) return;
 
-    const attackerCombat = this.world?.getComponent<CombatStats>(attacker.entityId, 'CombatStats');
     const targetHealth = this.world?.getComponent<Health>(target.entityId, 'Health');
-    const targetCombat = this.world?.getComponent<CombatStats>(target.entityId, 'CombatStats');
+    const breakdown = this.calculateAttackDamage(attacker.entityId, target.entityId);
+
+    if (!targetHealth || !breakdown) return;
 
-    if (!attackerCombat || !targetHealth || !targetCombat) return;
+    // Trigger attack animation
+    this.triggerAnimation(attacker.entityId, 'attack');
 
-    // Calculate damage
-    const baseDamage = attackerCombat.attack;
-    const defense = targetCombat.defense;
-    const damage = Math.max(1, Math.floor(baseDamage - defense / 2));
+    if (!breakdown.hit) {
+      logger.debug(LogSource.COMBAT, `${attacker.entityId} missed ${target.entityId}`);
+      this.emit({ type: 'Missed', sourceId: attacker.entityId, targetId: target.entityId });
+      return;
+    }
+    const damage = breakdown.final;
 
     // Apply damage
     targetHealth.current = Math.max(0, targetHealth.current - damage);
     this.world?.updateComponent(target.entityId, 'Health', targetHealth);
+    this.statusEffects.notifyDamage(target.entityId);
+    this.emit({
+      type: 'DamageDealt',
+      sourceId: attacker.entityId,
+      targetId: target.entityId,
+      amount: damage,
+      kind: 'physical',
+      critical: breakdown.critical
+    });
 
     // Check if target is defeated
     if (targetHealth.current <= 0) {
-      target.defeated = true;
-      this.participants.get(target.entityId)!.defeated = true;
-      logger.info(LogSource.COMBAT, `Target ${target.entityId} defeated`);
+      this.markDefeated(target);
     }
 
-    // Trigger attack animation
-    this.triggerAnimation(attacker.entityId, 'attack', () => {
-      // Apply damage after animation
-      if (!target.defeated) {
-        this.applyDamageEffect(target.entityId, damage);
-      }
-    });
+    logger.debug(LogSource.COMBAT, `Attack on ${target.entityId}: ${formatDamageBreakdown(breakdown)}`);
+  }
+
+  /**
+   * Rolls melee damage between two participants
+   * Includes formation bonuses, row modifiers, status accuracy and mitigation, crits and difficulty.
+   * @param attackerId - Attacking entity ID
+   * @param targetId - Target entity ID
+   * @returns Damage breakdown, or null if either side cannot fight
+   */
+  public calculateAttackDamage(attackerId: EntityId, targetId: EntityId): DamageBreakdown | null {
+    const attacker = this.participants.get(attackerId);
+    const target = this.participants.get(targetId);
+    const attackerCombat = this.world?.getComponent<CombatStats>(attackerId, 'CombatStats');
+    const targetCombat = this.world?.getComponent<CombatStats>(targetId, 'CombatStats');
+
+    if (!attacker || !target || !attackerCombat || !targetCombat) return null;
+
+    let mitigation = this.statusEffects.getDamageMultiplier(targetId, 'physical');
+    if (attacker.row === 'BACK') mitigation *= BACK_ROW_MELEE_MULTIPLIER;
+    if (target.row === 'BACK') mitigation *= BACK_ROW_MELEE_MULTIPLIER;
+
+    return calculateDamage({
+      kind: 'physical',
+      power: attackerCombat.attack + (attacker.bonuses.attack || 0),
+      defense: targetCombat.defense + (target.bonuses.defense || 0),
+      affinities: this.getElementalAffinities(targetId),
+      mitigation,
+      accuracy: 100 * this.statusEffects.getAccuracyMultiplier(attackerId),
+      evasion: target.bonuses.evasion || 0,
+      critChance: this.config.criticalHitChance,
+      variance: this.config.damageVariance,
+      difficulty: this.getDifficultyMultiplier(attacker)
+    }, this.rng);
+  }
 
-    logger.debug(LogSource.COMBAT, `Attack dealt ${damage} damage to ${target.entityId}`);
+  /**
+   * Gets an entity's elemental affinities from its enemy definition
+   * @param entityId - Entity ID
+   * @returns Elemental affinities (empty if none)
+   */
+  private getElementalAffinities(entityId: EntityId): ElementalAffinities {
+    const info = this.world?.getComponent<EnemyInfo>(entityId, 'EnemyInfo');
+    return (info && getEnemy(info.enemyId)?.elementalAffinities) || {};
+  }
+
+  /**
+   * Gets the difficulty multiplier for damage dealt by a participant
+   * @param attacker - Attacking participant
+   * @returns Damage multiplier (only the enemy side is scaled)
+   */
+  private getDifficultyMultiplier(attacker: CombatParticipant): number {
+    return attacker.isPlayer ? 1 : getEnemyDamageMultiplier(this.config.difficulty);
   }
 
   /**
@@ -505,14 +1125,18 @@ export class CombatSystem {
     const defenderCombat = this.world?.getComponent<CombatStats>(defender.entityId, 'CombatStats');
     if (!defenderCombat) return;
 
-    // Increase defense temporarily
-    const originalDefense = defenderCombat.defense;
-    defenderCombat.defense = Math.floor(originalDefense * 1.5);
-
-    // Reset defense after 2 seconds
-    setTimeout(() => {
-      defenderCombat.defense = originalDefense;
-    }, 2000);
+    // Defending again while the bonus is active only extends it
+    const key = `defend_${defender.entityId}`;
+    const pending = this.timers.get(key);
+    if (pending) {
+      pending.at = this.clock + DEFEND_DURATION;
+    } else {
+      const originalDefense = defenderCombat.defense;
+      defenderCombat.defense = Math.floor(originalDefense * 1.5);
+      this.schedule(key, DEFEND_DURATION, () => {
+        defenderCombat.defense = originalDefense;
+      });
+    }
 
     // Trigger defend animation
     this.triggerAnimation(defender.entityId, 'defend');
@@ -528,14 +1152,14 @@ export class CombatSystem {
     const caster = this.participants.get(action.actorId);
     if (!caster || !action.data.skillId) return;
 
-    // In a real implementation, this would handle skill effects
-    logger.debug(LogSource.COMBAT, `Skill ${action.data.skillId} cast by ${action.actorId}`);
+    const result = this.castSpell(action.actorId, action.data.skillId, action.targetId);
+    if (!result.success) {
+      logger.warn(LogSource.COMBAT, `Skill ${action.data.skillId} by ${action.actorId} failed: ${result.reason}`);
+      return;
+    }
 
     // Trigger skill animation
     this.triggerAnimation(caster.entityId, 'cast');
-
-    // Apply skill effects based on skill ID
-    this.applySkillEffects(action.actorId, action.data.skillId);
   }
 
   /**
@@ -564,44 +1188,264 @@ export class CombatSystem {
     const fleer = this.participants.get(action.actorId);
     if (!fleer) return;
 
-    // Mark as defeated and remove from combat
+    // Remove from combat; fled enemies give no rewards
     fleer.defeated = true;
-    this.participants.get(fleer.entityId)!.defeated = true;
+    fleer.fled = true;
 
     logger.debug(LogSource.COMBAT, `${action.actorId} fled from combat`);
+    this.emit({ type: 'Fled', entityId: fleer.entityId });
 
     // Trigger flee animation
     this.triggerAnimation(fleer.entityId, 'flee');
+  }
 
-    // Check if combat should end
-    this.checkCombatEnd();
+  /**
+   * Marks a participant as defeated and announces it
+   * @param participant - Defeated participant
+   */
+  private markDefeated(participant: CombatParticipant): void {
+    if (participant.defeated) return;
+
+    participant.defeated = true;
+    logger.info(LogSource.COMBAT, `Target ${participant.entityId} defeated`);
+    this.emit({ type: 'Defeated', entityId: participant.entityId });
   }
 
   /**
-   * Applies damage effect to target
-   * @param targetId - Target entity ID
-   * @param damage - Damage amount
+   * Casts a spell from SPELLS_DATABASE or a boss ability, deducting MP and applying its effects
+   * @param casterId - Caster entity ID
+   * @param skillId - Spell or boss ability ID
+   * @param targetId - Chosen target, or null to pick a default for single-target spells
+   * @returns Skill result describing the outcome
    */
-  private applyDamageEffect(targetId: EntityId, damage: number): void {
-    // In a real implementation, this would trigger damage numbers, screen shake, etc.
-    logger.debug(LogSource.COMBAT, `Applied ${damage} damage to ${targetId}`);
+  public castSpell(casterId: EntityId, skillId: string, targetId: EntityId | null): SkillResult {
+    const result: SkillResult = {
+      success: false,
+      skillId,
+      casterId,
+      mpSpent: 0,
+      targets: []
+    };
+
+    const spell = getSkill(skillId);
+    if (!spell) {
+      result.reason = SkillFailureReason.UNKNOWN_SKILL;
+      return result;
+    }
+
+    const caster = this.participants.get(casterId);
+    if (!this.world || !caster || caster.defeated) {
+      result.reason = SkillFailureReason.INVALID_CASTER;
+      return result;
+    }
 
-    // Flash target red briefly
-    const sprite = this.world?.getComponent<Sprite>(targetId, 'Sprite');
-    if (sprite) {
-      // In a real implementation, this would change sprite color or add damage effect
-      logger.debug(LogSource.COMBAT, `Damage effect applied to ${targetId}`);
+    if (!this.statusEffects.canCastMagic(casterId)) {
+      result.reason = SkillFailureReason.SILENCED;
+      return result;
     }
+
+    const magicUser = this.world.getComponent<MagicUser>(casterId, 'MagicUser');
+    const currentMana = magicUser ? magicUser.currentMana : 0;
+    if (currentMana < spell.mpCost) {
+      result.reason = SkillFailureReason.INSUFFICIENT_MP;
+      return result;
+    }
+
+    const targets = this.resolveSkillTargets(caster, spell, targetId);
+    if (targets.length === 0) {
+      result.reason = SkillFailureReason.NO_TARGET;
+      return result;
+    }
+
+    if (magicUser && spell.mpCost > 0) {
+      magicUser.currentMana -= spell.mpCost;
+      this.world.updateComponent(casterId, 'MagicUser', magicUser);
+      result.mpSpent = spell.mpCost;
+    }
+
+    for (const target of targets) {
+      result.targets.push(this.applySpellToTarget(caster, target, spell));
+    }
+
+    result.success = true;
+    this.notifyBossesOfSpell(spell, result);
+    logger.debug(LogSource.COMBAT, `${spell.name} cast by ${casterId} on ${targets.length} target(s)`);
+    return result;
   }
 
   /**
-   * Applies skill effects
-   * @param casterId - Caster entity ID
-   * @param skillId - Skill ID
+   * Reports a spell to tracked bosses so element- and spell-based conditions can fire
+   * @param spell - Spell definition
+   * @param result - Skill result
+   */
+  private notifyBossesOfSpell(spell: SpellDef, result: SkillResult): void {
+    const school = spell.school.toLowerCase();
+    this.bossController.notifyAll(`${school}_magic_used`);
+    this.bossController.notifyAll(`${spell.id}_cast`);
+
+    for (const target of result.targets) {
+      if (target.damage > 0) {
+        this.bossController.notify(target.entityId, `${school}_damage_received`);
+      }
+    }
+  }
+
+  /**
+   * Resolves the participants affected by a spell
+   * @param caster - Casting participant
+   * @param spell - Spell definition
+   * @param targetId - Chosen target or null
+   * @returns Affected participants
+   */
+  private resolveSkillTargets(caster: CombatParticipant, spell: SpellDef, targetId: EntityId | null): CombatParticipant[] {
+    const all = Array.from(this.participants.values());
+    const allies = all.filter(p => p.isPlayer === caster.isPlayer);
+    const enemies = all.filter(p => p.isPlayer !== caster.isPlayer);
+
+    switch (spell.target) {
+      case 'SELF':
+        return [caster];
+      case 'ALL_ALLIES':
+        return allies.filter(p => !p.defeated);
+      case 'ALL_ENEMIES':
+        return enemies.filter(p => !p.defeated);
+      case 'ALLY': {
+        const target = targetId !== null ? allies.find(p => p.entityId === targetId) : caster;
+        // Only revival spells may target a fallen ally
+        if (!target || (target.defeated && !this.isReviveSpell(spell))) return [];
+        return [target];
+      }
+      case 'ENEMY': {
+        const target = targetId !== null
+          ? enemies.find(p => p.entityId === targetId)
+          : enemies.find(p => !p.defeated);
+        return target && !target.defeated ? [target] : [];
+      }
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Applies a spell's effect to a single target
+   * @param caster - Casting participant
+   * @param target - Target participant
+   * @param spell - Spell definition
+   * @returns Target outcome
+   */
+  private applySpellToTarget(caster: CombatParticipant, target: CombatParticipant, spell: SpellDef): SkillTargetResult {
+    const outcome: SkillTargetResult = {
+      entityId: target.entityId,
+      damage: 0,
+      healed: 0,
+      statusesApplied: [],
+      statusesCured: [],
+      revived: false
+    };
+    const statuses = (spell.statusEffects || []) as StatusEffect[];
+    const health = this.world?.getComponent<Health>(target.entityId, 'Health');
+
+    switch (spell.type) {
+      case 'DAMAGE': {
+        if (!health) break;
+        const magicDefense = (this.world?.getComponent<MagicUser>(target.entityId, 'MagicUser')?.magicDefense || 0) +
+          (target.bonuses.magic_defense || 0);
+        outcome.damage = calculateDamage({
+          kind: 'magical',
+          power: spell.power + (caster.bonuses.magic_power || 0),
+          defense: magicDefense,
+          element: spell.school,
+          affinities: this.getElementalAffinities(target.entityId),
+          mitigation: this.statusEffects.getDamageMultiplier(target.entityId, 'magical'),
+          variance: this.config.damageVariance,
+          difficulty: this.getDifficultyMultiplier(caster)
+        }, this.rng).final;
+        health.current = Math.max(0, health.current - outcome.damage);
+        this.world?.updateComponent(target.entityId, 'Health', health);
+        if (outcome.damage > 0) {
+          this.statusEffects.notifyDamage(target.entityId);
+          this.emit({
+            type: 'DamageDealt',
+            sourceId: caster.entityId,
+            targetId: target.entityId,
+            amount: outcome.damage,
+            kind: 'magical',
+            critical: false,
+            element: spell.school
+          });
+        }
+
+        if (health.current <= 0) {
+          this.markDefeated(target);
+        } else {
+          outcome.statusesApplied = this.applyStatusEffects(caster, target, statuses, spell);
+        }
+        break;
+      }
+      case 'HEAL': {
+        if (!health) break;
+        outcome.healed = Math.min(spell.power + (caster.bonuses.magic_power || 0), health.max - health.current);
+        health.current += outcome.healed;
+        this.world?.updateComponent(target.entityId, 'Health', health);
+        if (outcome.healed > 0) {
+          this.emit({ type: 'Healed', sourceId: caster.entityId, targetId: target.entityId, amount: outcome.healed, revived: false });
+        }
+        break;
+      }
+      case 'BUFF':
+      case 'DEBUFF':
+        outcome.statusesApplied = this.applyStatusEffects(caster, target, statuses, spell);
+        break;
+      case 'SPECIAL':
+        if (target.isPlayer === caster.isPlayer) {
+          // Supportive specials cure listed ailments or revive fallen allies
+          if (target.defeated && health && this.isReviveSpell(spell)) {
+            health.current = Math.min(health.max, Math.max(1, spell.power));
+            this.world?.updateComponent(target.entityId, 'Health', health);
+            target.defeated = false;
+            outcome.revived = true;
+            outcome.healed = health.current;
+            this.emit({ type: 'Healed', sourceId: caster.entityId, targetId: target.entityId, amount: outcome.healed, revived: true });
+          }
+          outcome.statusesCured = statuses.filter(effect => this.statusEffects.cure(target.entityId, effect));
+        } else {
+          outcome.statusesApplied = this.applyStatusEffects(caster, target, statuses, spell);
+        }
+        break;
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Checks whether a spell revives fallen allies
+   * @param spell - Spell definition
+   * @returns True for revival spells
+   */
+  private isReviveSpell(spell: SpellDef): boolean {
+    return spell.type === 'SPECIAL' && spell.power > 0 && !spell.statusEffects?.length;
+  }
+
+  /**
+   * Applies a list of status effects to a target
+   * @param caster - Casting participant
+   * @param target - Target participant
+   * @param effects - Status effects to apply
+   * @param spell - Source spell
+   * @returns Status effects that took hold
    */
-  private applySkillEffects(casterId: EntityId, skillId: string): void {
-    // In a real implementation, this would apply skill-specific effects
-    logger.debug(LogSource.COMBAT, `Applied skill ${skillId} effects to ${casterId}`);
+  private applyStatusEffects(caster: CombatParticipant, target: CombatParticipant, effects: StatusEffect[], spell: SpellDef): StatusEffect[] {
+    const applied = effects.filter(effect =>
+      this.statusEffects.apply(target.entityId, effect, { potency: spell.power, source: spell.id })
+    );
+    applied.forEach(status => this.emit({ type: 'StatusApplied', sourceId: caster.entityId, targetId: target.entityId, status }));
+
+    if (applied.length > 0 && this.statusEffects.countsAsDefeated(target.entityId)) {
+      logger.debug(LogSource.COMBAT, `Target ${target.entityId} taken out by ${applied.join(', ')}`);
+      this.markDefeated(target);
+    }
+
+    return applied;
   }
 
   /**
@@ -618,9 +1462,8 @@ export class CombatSystem {
    * Triggers an animation for an entity
    * @param entityId - Entity ID
    * @param animationType - Animation type
-   * @param onComplete - Completion callback
    */
-  private triggerAnimation(entityId: EntityId, animationType: string, onComplete?: () => void): void {
+  private triggerAnimation(entityId: EntityId, animationType: string): void {
     const animation = this.world?.getComponent<Animation>(entityId, 'Animation');
     if (!animation) return;
 
@@ -629,7 +1472,7 @@ export class CombatSystem {
     animation.frameIndex = 0;
     animation.frameTimer = 0;
     animation.loop = false;
-    animation.onComplete = onComplete;
+    animation.onComplete = undefined;
 
     logger.debug(LogSource.COMBAT, `Triggered ${animationType} animation for ${entityId}`);
   }
@@ -645,32 +1488,14 @@ export class CombatSystem {
 
     // Combat ends if all enemies defeated or player defeated
     if (alivePlayers.length === 0 || aliveEnemies.length === 0) {
-      this.currentState = CombatState.RESOLUTION;
-      this.startCombatSequence();
+      this.currentTurn = null;
+      this.setState(CombatState.RESOLUTION);
     } else if (this.actionQueue.length === 0) {
       // Continue to next turn
       this.nextTurn();
     }
   }
 
-  /**
-   * Moves to next turn
-   */
-  private nextTurn(): void {
-    this.turnCounter++;
-
-    // Simple turn alternation
-    const isPlayerTurn = this.turnCounter % 2 === 0;
-
-    if (isPlayerTurn) {
-      this.currentState = CombatState.PLAYER_INPUT;
-    } else {
-      this.currentState = CombatState.ENEMY_TURN;
-    }
-
-    this.startCombatSequence();
-  }
-
   /**
    * Resolves combat and determines outcome
    */
@@ -680,15 +1505,21 @@ export class CombatSystem {
     const alivePlayers = Array.from(this.participants.values())
       .filter(p => p.isPlayer && !p.defeated);
     const defeatedEnemies = Array.from(this.participants.values())
-      .filter(p => !p.isPlayer && p.defeated);
+      .filter(p => !p.isPlayer && p.defeated && !p.fled);
 
     if (alivePlayers.length > 0) {
       // Victory
+      const rewards = this.rewardSystem.grantRewards(
+        this.partyEntityId ?? alivePlayers[0].entityId,
+        alivePlayers.map(p => p.entityId),
+        defeatedEnemies.map(p => p.entityId)
+      );
       this.result = {
         victory: true,
-        experience: defeatedEnemies.length * 50, // 50 XP per enemy
-        gold: defeatedEnemies.length * 25, // 25 gold per enemy
-        items: [] // No items for now
+        experience: rewards.experience,
+        gold: rewards.gold,
+        items: rewards.items,
+        rewards
       };
       this.currentState = CombatState.VICTORY;
     } else {
@@ -697,7 +1528,8 @@ export class CombatSystem {
         victory: false,
         experience: 10, // Small consolation XP
         gold: 0,
-        items: []
+        items: [],
+        rewards: null
       };
       this.currentState = CombatState.DEFEAT;
     }
@@ -713,18 +1545,12 @@ export class CombatSystem {
 
     if (!this.result) return;
 
-    // In a real implementation, this would:
-    // - Award experience and gold to player
-    // - Play victory fanfare
-    // - Show victory dialog
-    // - Return to overworld
-
+    // Rewards were applied when combat resolved; the UI shows them from getResult()
     logger.debug(LogSource.COMBAT, `Awarded ${this.result.experience} XP and ${this.result.gold} gold`);
+    this.emit({ type: 'Victory', result: this.result });
 
-    // End combat after delay
-    setTimeout(() => {
-      this.endCombat();
-    }, 3000);
+    // Combat ends once the result timer runs out in update()
+    this.stateTimer = RESULT_DURATION;
   }
 
   /**
@@ -741,11 +1567,10 @@ export class CombatSystem {
     // - Return to title screen with option to reload
 
     logger.debug(LogSource.COMBAT, 'Player defeated - returning to title');
+    this.emit({ type: 'Defeat', result: this.result });
 
-    // End combat after delay
-    setTimeout(() => {
-      this.endCombat();
-    }, 3000);
+    // Combat ends once the result timer runs out in update()
+    this.stateTimer = RESULT_DURATION;
   }
 
   /**
@@ -754,6 +1579,23 @@ export class CombatSystem {
   public endCombat(): void {
     logger.info(LogSource.COMBAT, 'Combat ended');
 
+    // Pending timers undo temporary effects (e.g. DEFEND), so run them now
+    const pending = Array.from(this.timers.values());
+    this.timers.clear();
+    pending.forEach(timer => timer.callback());
+    this.clock = 0;
+
+    // Defeated enemies leave the world at the next sync point, so systems
+    // iterating queries this frame never see them disappear mid-loop
+    if (this.world) {
+      const commands = this.world.getCommandBuffer();
+      for (const participant of this.participants.values()) {
+        if (participant.defeated && !participant.isPlayer) {
+          commands.destroyEntity(participant.entityId);
+        }
+      }
+    }
+
     // Reset combat state
     this.currentState = CombatState.INTRO;
     this.lastProcessedState = null;
@@ -761,8 +1603,15 @@ export class CombatSystem {
     this.actionQueue = [];
     this.currentTurn = null;
     this.turnCounter = 0;
+    this.round = 0;
+    this.roundQueue = [];
+    this.atbGauges.clear();
+    this.readyQueue = [];
+    this.stateTimer = 0;
     this.result = null;
-    this.onAnimationComplete.clear();
+    this.partyEntityId = null;
+    this.bossController.clear();
+    this.enemyAI.reset();
 
     // Restore original positions
     for (const participant of this.participants.values()) {
@@ -792,6 +1641,74 @@ export class CombatSystem {
     return Array.from(this.participants.values());
   }
 
+  /**
+   * Gets a display name for a participant
+   * @param entityId - Entity ID
+   * @returns Enemy name from its definition, or a generic hero/monster name
+   */
+  public getParticipantName(entityId: EntityId): string {
+    const info = this.world?.getComponent<EnemyInfo>(entityId, 'EnemyInfo');
+    const enemy = info ? getEnemy(info.enemyId) : null;
+    if (enemy) return enemy.name;
+
+    return this.participants.get(entityId)?.isPlayer === false ? `Monster ${entityId}` : `Hero ${entityId}`;
+  }
+
+  /**
+   * Describes a combat event for the battle log and screen readers
+   * @param event - Combat event
+   * @returns Human-readable message
+   */
+  public describeEvent(event: CombatEvent): string {
+    const name = (entityId: EntityId | null) => entityId === null ? 'someone' : this.getParticipantName(entityId);
+
+    switch (event.type) {
+      case 'TurnStarted':
+        return `${name(event.actorId)}'s turn`;
+      case 'ActionStarted':
+        switch (event.action) {
+          case CombatAction.ATTACK:
+            return `${name(event.actorId)} attacks ${name(event.targetId)}`;
+          case CombatAction.DEFEND:
+            return `${name(event.actorId)} defends`;
+          case CombatAction.SKILL:
+            return `${name(event.actorId)} casts ${getSkill(event.skillId || '')?.name || event.skillId}`;
+          case CombatAction.ITEM:
+            return `${name(event.actorId)} uses ${getItem(event.itemId || '')?.name || event.itemId}`;
+          case CombatAction.FLEE:
+            return `${name(event.actorId)} tries to flee`;
+        }
+      case 'DamageDealt':
+        return event.kind === 'status'
+          ? `${name(event.targetId)} takes ${event.amount} damage from status effects`
+          : `${name(event.targetId)} takes ${event.amount} damage${event.critical ? ' (critical!)' : ''}`;
+      case 'Missed':
+        return `${name(event.sourceId)} misses ${name(event.targetId)}`;
+      case 'Healed':
+        return event.revived
+          ? `${name(event.targetId)} is revived`
+          : `${name(event.targetId)} recovers ${event.amount} HP`;
+      case 'StatusApplied':
+        return `${name(event.targetId)} is afflicted with ${event.status.toLowerCase()}`;
+      case 'Defeated':
+        return `${name(event.entityId)} is defeated`;
+      case 'Fled':
+        return `${name(event.entityId)} fled`;
+      case 'Victory':
+        return 'Victory! All enemies defeated!';
+      case 'Defeat':
+        return 'Defeat... You have been overwhelmed.';
+    }
+  }
+
+  /**
+   * Gets the virtual combat clock
+   * @returns Seconds of combat time since combat started
+   */
+  public getElapsedTime(): number {
+    return this.clock;
+  }
+
   /**
    * Gets combat result
    * @returns Combat result or null
@@ -839,8 +1756,93 @@ export class CombatSystem {
       }
     }
 
+    if (this.participants.size > 0) {
+      this.advanceClock(Math.max(0, deltaTime));
+    }
+
+    // Boss phases react to health changes from the previous frame
+    this.bossController.update();
+
     // Process combat state machine
     this.startCombatSequence();
+    this.updateCombatState(Math.max(0, deltaTime));
+  }
+
+  /**
+   * Sends an event to all listeners
+   * @param event - Combat event
+   */
+  private emit(event: CombatEvent): void {
+    this.listeners.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        logger.error(LogSource.COMBAT, `Combat event listener failed: ${error}`);
+      }
+    });
+  }
+
+  /**
+   * Schedules a callback on the virtual combat clock, replacing any timer with the same key
+   * @param key - Timer key
+   * @param delay - Delay in seconds of combat time
+   * @param callback - Callback to run
+   */
+  private schedule(key: string, delay: number, callback: () => void): void {
+    this.timers.set(key, { at: this.clock + delay, callback });
+  }
+
+  /**
+   * Advances the virtual clock and runs timers that are due, earliest first
+   * @param deltaTime - Time since last frame
+   */
+  private advanceClock(deltaTime: number): void {
+    this.clock += deltaTime;
+
+    const due = Array.from(this.timers.entries())
+      .filter(([, timer]) => timer.at <= this.clock)
+      .sort((a, b) => a[1].at - b[1].at);
+
+    for (const [key, timer] of due) {
+      this.timers.delete(key);
+      timer.callback();
+    }
+  }
+
+  /**
+   * Runs per-frame logic for the current combat state
+   * @param deltaTime - Time since last frame
+   */
+  private updateCombatState(deltaTime: number): void {
+    if (this.participants.size === 0) return;
+
+    switch (this.currentState) {
+      case CombatState.INTRO:
+        this.stateTimer -= deltaTime;
+        if (this.stateTimer <= 0) {
+          this.nextTurn();
+        }
+        break;
+      case CombatState.ENEMY_TURN:
+        this.stateTimer -= deltaTime;
+        if (this.stateTimer <= 0) {
+          this.setState(CombatState.ACTION_PROCESSING);
+        }
+        break;
+      case CombatState.ACTION_PROCESSING:
+        this.processActions(deltaTime);
+        break;
+      case CombatState.WAITING:
+        this.fillGauges(deltaTime);
+        break;
+      case CombatState.VICTORY:
+      case CombatState.DEFEAT:
+        this.stateTimer -= deltaTime;
+        if (this.stateTimer <= 0) {
+          this.endCombat();
+        }
+        break;
+    }
   }
 
   /**
@@ -875,13 +1877,15 @@ export class CombatSystem {
     currentTurn: EntityId | null;
     currentState: CombatState;
     actionQueueLength: number;
+    turnsTaken: number;
+    round: number;
   } {
     const alivePlayers = Array.from(this.participants.values())
       .filter(p => p.isPlayer && !p.defeated).length;
     const aliveEnemies = Array.from(this.participants.values())
       .filter(p => !p.isPlayer && !p.defeated).length;
     const defeatedEnemies = Array.from(this.participants.values())
-      .filter(p => !p.isPlayer && p.defeated).length;
+      .filter(p => !p.isPlayer && p.defeated && !p.fled).length;
 
     return {
       totalParticipants: this.participants.size,
@@ -890,7 +1894,9 @@ export class CombatSystem {
       defeatedEnemies,
       currentTurn: this.currentTurn,
       currentState: this.currentState,
-      actionQueueLength: this.actionQueue.length
+      actionQueueLength: this.actionQueue.length,
+      turnsTaken: this.turnCounter,
+      round: this.round
     };
   }
 
@@ -899,6 +1905,10 @@ export class CombatSystem {
    */
   public dispose(): void {
     this.endCombat();
+    this.bossController.dispose();
+    this.enemyAI.dispose();
+    this.rewardSystem.dispose();
+    this.listeners.clear();
     logger.info(LogSource.COMBAT, 'CombatSystem disposed');
   }
 }
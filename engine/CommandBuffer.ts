@@ -0,0 +1,106 @@
+/**
+ * Command Buffer
+ * @fileoverview Deferred structural ECS changes, applied by WorldManager at a sync point
+ */
+
+import { EntityId, ComponentType } from '../types';
+import { logger, LogSource } from './GlobalLogger';
+
+/**
+ * Queued structural change
+ */
+export type EntityCommand =
+  | { type: 'create'; entityId: EntityId; components: Record<ComponentType, unknown> }
+  | { type: 'destroy'; entityId: EntityId }
+  | { type: 'add'; entityId: EntityId; componentType: ComponentType; data: unknown }
+  | { type: 'remove'; entityId: EntityId; componentType: ComponentType };
+
+/**
+ * Command Buffer class
+ * Queues entity creation, destruction and component add/remove so systems can
+ * record them while iterating queries. Commands run in the order they were
+ * recorded when the owning world flushes the buffer.
+ */
+export class CommandBuffer {
+  /** Commands waiting for the next flush */
+  private commands: EntityCommand[] = [];
+
+  /** Hands out entity IDs for deferred creations */
+  private reserveEntityId: () => EntityId;
+
+  /**
+   * Creates a new CommandBuffer instance
+   * @param reserveEntityId - Returns an entity ID that no other entity will use
+   */
+  constructor(reserveEntityId: () => EntityId) {
+    this.reserveEntityId = reserveEntityId;
+  }
+
+  /**
+   * Queues creation of an entity
+   * The ID is reserved now, so later commands in the same buffer can target it.
+   * @param components - Initial component data by type
+   * @returns The entity ID the entity will have once created
+   */
+  public createEntity(components: Record<ComponentType, unknown> = {}): EntityId {
+    const entityId = this.reserveEntityId();
+    this.commands.push({ type: 'create', entityId, components });
+    return entityId;
+  }
+
+  /**
+   * Queues destruction of an entity (and its children)
+   * @param entityId - Entity ID to destroy
+   */
+  public destroyEntity(entityId: EntityId): void {
+    this.commands.push({ type: 'destroy', entityId });
+  }
+
+  /**
+   * Queues adding a component
+   * @param entityId - Entity ID
+   * @param componentType - Component type
+   * @param data - Component data
+   */
+  public addComponent<T>(entityId: EntityId, componentType: ComponentType, data: T): void {
+    this.commands.push({ type: 'add', entityId, componentType, data });
+  }
+
+  /**
+   * Queues removing a component
+   * @param entityId - Entity ID
+   * @param componentType - Component type
+   */
+  public removeComponent(entityId: EntityId, componentType: ComponentType): void {
+    this.commands.push({ type: 'remove', entityId, componentType });
+  }
+
+  /**
+   * Gets the number of queued commands
+   */
+  public get size(): number {
+    return this.commands.length;
+  }
+
+  /**
+   * Takes all queued commands, leaving the buffer empty
+   * @returns Commands in recording order
+   */
+  public drain(): EntityCommand[] {
+    const commands = this.commands;
+    this.commands = [];
+    return commands;
+  }
+
+  /**
+   * Discards all queued commands
+   */
+  public clear(): void {
+    if (this.commands.length > 0) {
+      logger.debug(LogSource.ECS, `Discarded ${this.commands.length} queued entity commands`);
+    }
+    this.commands = [];
+  }
+}
+
+export default CommandBuffer;
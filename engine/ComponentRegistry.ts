@@ -0,0 +1,552 @@
+/**
+ * Component Registry
+ * @fileoverview Typed component definitions with schema validation, defaults and serialization hooks
+ */
+
+import {
+  EntityId,
+  ComponentType,
+  Position,
+  Velocity,
+  Facing,
+  Health,
+  Sprite,
+  Animation,
+  Camera,
+  Collision,
+  CombatStats,
+  Parent,
+  Children,
+  CharacterClass,
+  CharacterStats,
+  MagicUser,
+  StatusEffect,
+  StatusEffects,
+  BattlePosition,
+  Party,
+  Boss,
+  EnemyInfo,
+  Inventory
+} from '../types';
+import type { Interaction } from './InteractionSystem';
+import { FieldSchema, ObjectSchema, SchemaValidator, ValidationError } from '../utils/validation';
+import { logger, LogSource } from './GlobalLogger';
+
+/**
+ * TypeScript type of every built-in component, by component name
+ */
+export interface ComponentTypeMap {
+  Position: Position;
+  Velocity: Velocity;
+  Facing: Facing;
+  Health: Health;
+  Sprite: Sprite;
+  Animation: Animation;
+  Camera: Camera;
+  Collision: Collision;
+  CombatStats: CombatStats;
+  Parent: Parent;
+  Children: Children;
+  CharacterStats: CharacterStats;
+  MagicUser: MagicUser;
+  StatusEffects: StatusEffects;
+  BattlePosition: BattlePosition;
+  Party: Party;
+  Boss: Boss;
+  EnemyInfo: EnemyInfo;
+  Inventory: Inventory;
+  Interaction: Interaction;
+}
+
+/**
+ * Definition of a component type
+ */
+export interface ComponentDefinition<T = unknown> {
+  /** Component name */
+  type: ComponentType;
+  /** Validation schema for the component data */
+  schema: ObjectSchema;
+  /** Creates the default component data */
+  defaults: () => T;
+  /** Converts component data to a JSON-safe value (defaults to the data itself) */
+  serialize?: (data: T) => unknown;
+  /** Rebuilds component data from a serialized value (defaults to merging it over the defaults) */
+  deserialize?: (raw: unknown) => T;
+  /** Runtime-only state: world snapshots keep the component but restore it from its defaults */
+  transient?: boolean;
+}
+
+/**
+ * Definition of any built-in component type
+ */
+export type BuiltInComponentDefinition = {
+  [K in keyof ComponentTypeMap]: ComponentDefinition<ComponentTypeMap[K]>;
+}[keyof ComponentTypeMap];
+
+/**
+ * Maps a saved entity ID to its new ID, or null if the entity no longer exists
+ */
+export type EntityRemap = (entityId: EntityId) => EntityId | null;
+
+/** Marks a required entity reference whose target no longer exists */
+const DANGLING = Symbol('dangling');
+
+/**
+ * Rewrites the entity references in a value according to its field rule
+ * Dangling references become null when nullable and are dropped from arrays.
+ */
+function remapValue(value: unknown, rule: FieldSchema, remap: EntityRemap): unknown {
+  if (value === undefined || value === null) {
+    return value;
+  }
+
+  switch (rule.type) {
+    case 'entity': {
+      const mapped = remap(value as EntityId);
+      if (mapped !== null) return mapped;
+      return rule.nullable ? null : DANGLING;
+    }
+    case 'array':
+      if (!rule.items || !Array.isArray(value)) return value;
+      return value.map(item => remapValue(item, rule.items!, remap)).filter(item => item !== DANGLING);
+    case 'object':
+      if (!rule.fields || typeof value !== 'object' || Array.isArray(value)) return value;
+      return remapObject(value as Record<string, unknown>, rule.fields, remap);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Rewrites the entity references in an object according to its schema
+ */
+function remapObject(value: Record<string, unknown>, schema: ObjectSchema, remap: EntityRemap): Record<string, unknown> | typeof DANGLING {
+  const result: Record<string, unknown> = { ...value };
+
+  for (const [field, rule] of Object.entries(schema)) {
+    if (!(field in value)) continue;
+
+    const mapped = remapValue(value[field], rule, remap);
+    if (mapped === DANGLING) {
+      return DANGLING;
+    }
+    result[field] = mapped;
+  }
+
+  return result;
+}
+
+/**
+ * Declares a built-in component so its definition is checked against its TypeScript type
+ */
+function defineComponent<K extends keyof ComponentTypeMap>(
+  definition: ComponentDefinition<ComponentTypeMap[K]> & { type: K }
+): ComponentDefinition<ComponentTypeMap[K]> {
+  return definition;
+}
+
+/**
+ * Whether this is a development build (unknown components are rejected)
+ * Browser builds get process.env.NODE_ENV from the define in vite.config.ts.
+ */
+export function isDevBuild(): boolean {
+  return process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * Built-in component definitions
+ */
+export const COMPONENT_DEFINITIONS: BuiltInComponentDefinition[] = [
+  defineComponent<'Position'>({
+    type: 'Position',
+    schema: { x: { type: 'number' }, y: { type: 'number' } },
+    defaults: () => ({ x: 0, y: 0 })
+  }),
+  defineComponent<'Velocity'>({
+    type: 'Velocity',
+    schema: { dx: { type: 'number' }, dy: { type: 'number' } },
+    defaults: () => ({ dx: 0, dy: 0 }),
+    // Recomputed from input and AI every frame
+    transient: true
+  }),
+  defineComponent<'Facing'>({
+    type: 'Facing',
+    schema: { direction: { type: 'string', values: ['UP', 'DOWN', 'LEFT', 'RIGHT'] } },
+    defaults: () => ({ direction: 'DOWN' })
+  }),
+  defineComponent<'Health'>({
+    type: 'Health',
+    schema: { current: { type: 'number' }, max: { type: 'number', min: 0 } },
+    defaults: () => ({ current: 1, max: 1 })
+  }),
+  defineComponent<'Sprite'>({
+    type: 'Sprite',
+    schema: {
+      textureId: { type: 'string' },
+      frameIndex: { type: 'number', min: 0 },
+      width: { type: 'number', min: 0 },
+      height: { type: 'number', min: 0 }
+    },
+    defaults: () => ({ textureId: '', frameIndex: 0, width: 16, height: 16 })
+  }),
+  defineComponent<'Animation'>({
+    type: 'Animation',
+    schema: {
+      currentAnimation: { type: 'string' },
+      frameIndex: { type: 'number', min: 0 },
+      frameTimer: { type: 'number' },
+      loop: { type: 'boolean' },
+      onComplete: { type: 'function', optional: true }
+    },
+    defaults: () => ({ currentAnimation: 'idle', frameIndex: 0, frameTimer: 0, loop: true }),
+    // Callbacks cannot be saved
+    serialize: ({ onComplete: _onComplete, ...data }) => data
+  }),
+  defineComponent<'Camera'>({
+    type: 'Camera',
+    schema: {
+      x: { type: 'number' },
+      y: { type: 'number' },
+      zoom: { type: 'number', min: 0 },
+      targetEntityId: { type: 'entity', nullable: true }
+    },
+    defaults: () => ({ x: 0, y: 0, zoom: 1, targetEntityId: null })
+  }),
+  defineComponent<'Collision'>({
+    type: 'Collision',
+    schema: { width: { type: 'number', min: 0 }, height: { type: 'number', min: 0 }, solid: { type: 'boolean' } },
+    defaults: () => ({ width: 16, height: 16, solid: true })
+  }),
+  defineComponent<'CombatStats'>({
+    type: 'CombatStats',
+    schema: {
+      attacking: { type: 'boolean' },
+      attack: { type: 'number' },
+      defense: { type: 'number' },
+      actionPoints: { type: 'number' },
+      maxActionPoints: { type: 'number' },
+      speed: { type: 'number', optional: true }
+    },
+    defaults: () => ({ attacking: false, attack: 1, defense: 0, actionPoints: 3, maxActionPoints: 3 })
+  }),
+  defineComponent<'Parent'>({
+    type: 'Parent',
+    schema: {
+      entityId: { type: 'entity' },
+      offset: { type: 'object', fields: { x: { type: 'number' }, y: { type: 'number' } } }
+    },
+    defaults: () => ({ entityId: 0, offset: { x: 0, y: 0 } })
+  }),
+  defineComponent<'Children'>({
+    type: 'Children',
+    schema: { entities: { type: 'array', items: { type: 'entity' } } },
+    defaults: () => ({ entities: [] })
+  }),
+  defineComponent<'CharacterStats'>({
+    type: 'CharacterStats',
+    schema: {
+      class: { type: 'string', values: Object.values(CharacterClass) },
+      level: { type: 'number', min: 1, max: 99 },
+      experience: { type: 'number', min: 0 },
+      experienceToNext: { type: 'number', min: 0 },
+      strength: { type: 'number' },
+      agility: { type: 'number' },
+      intelligence: { type: 'number' },
+      vitality: { type: 'number' },
+      luck: { type: 'number' },
+      baseHealth: { type: 'number', min: 0 },
+      baseMana: { type: 'number', min: 0 }
+    },
+    defaults: () => ({
+      class: CharacterClass.WARRIOR,
+      level: 1,
+      experience: 0,
+      experienceToNext: 100,
+      strength: 10,
+      agility: 10,
+      intelligence: 10,
+      vitality: 10,
+      luck: 10,
+      baseHealth: 100,
+      baseMana: 0
+    })
+  }),
+  defineComponent<'MagicUser'>({
+    type: 'MagicUser',
+    schema: {
+      spellCharges: { type: 'object' },
+      knownSpells: { type: 'object' },
+      maxSpellsPerLevel: { type: 'number', min: 0 },
+      currentMana: { type: 'number' },
+      maxMana: { type: 'number', min: 0 },
+      magicDefense: { type: 'number' }
+    },
+    defaults: () => ({ spellCharges: {}, knownSpells: {}, maxSpellsPerLevel: 0, currentMana: 0, maxMana: 0, magicDefense: 0 })
+  }),
+  defineComponent<'StatusEffects'>({
+    type: 'StatusEffects',
+    schema: {
+      active: { type: 'object' },
+      immunities: { type: 'array', items: { type: 'string', values: Object.values(StatusEffect) } },
+      resistances: { type: 'object' }
+    },
+    defaults: () => ({ active: {}, immunities: [], resistances: {} })
+  }),
+  defineComponent<'BattlePosition'>({
+    type: 'BattlePosition',
+    schema: {
+      row: { type: 'string', values: ['FRONT', 'BACK'] },
+      column: { type: 'number', min: 0 },
+      side: { type: 'string', values: ['PARTY', 'ENEMY'] }
+    },
+    defaults: () => ({ row: 'FRONT', column: 0, side: 'PARTY' })
+  }),
+  defineComponent<'Party'>({
+    type: 'Party',
+    schema: {
+      members: { type: 'array', items: { type: 'entity' } },
+      maxSize: { type: 'number', min: 1 },
+      formation: { type: 'array', items: { type: 'entity' } },
+      activeMembers: { type: 'array', items: { type: 'entity' } },
+      formationId: { type: 'string', optional: true }
+    },
+    defaults: () => ({ members: [], maxSize: 4, formation: [], activeMembers: [] })
+  }),
+  defineComponent<'Boss'>({
+    type: 'Boss',
+    schema: { bossId: { type: 'string' } },
+    defaults: () => ({ bossId: '' })
+  }),
+  defineComponent<'EnemyInfo'>({
+    type: 'EnemyInfo',
+    schema: { enemyId: { type: 'string' }, archetype: { type: 'string', optional: true } },
+    defaults: () => ({ enemyId: '' })
+  }),
+  defineComponent<'Inventory'>({
+    type: 'Inventory',
+    schema: {
+      items: {
+        type: 'array',
+        items: { type: 'object', fields: { itemId: { type: 'string' }, quantity: { type: 'number', min: 0 } } }
+      },
+      gold: { type: 'number', min: 0 }
+    },
+    defaults: () => ({ items: [], gold: 0 })
+  }),
+  defineComponent<'Interaction'>({
+    type: 'Interaction',
+    schema: {
+      id: { type: 'string' },
+      type: { type: 'string' },
+      name: { type: 'string' },
+      description: { type: 'string' },
+      range: { type: 'number', min: 0 },
+      enabled: { type: 'boolean' },
+      singleUse: { type: 'boolean' },
+      used: { type: 'boolean' },
+      conditions: { type: 'array' },
+      actions: { type: 'array' },
+      customCondition: { type: 'function', optional: true }
+    },
+    defaults: () => ({
+      id: '',
+      type: 'EXAMINE' as Interaction['type'],
+      name: '',
+      description: '',
+      range: 32,
+      enabled: true,
+      singleUse: false,
+      used: false,
+      conditions: [],
+      actions: []
+    }),
+    // Callbacks cannot be saved
+    serialize: ({ customCondition: _customCondition, ...data }) => ({
+      ...data,
+      actions: data.actions.map(({ customAction: _customAction, ...action }) => action)
+    })
+  })
+];
+
+/**
+ * Component Registry class
+ * Knows every component type, validates payloads and converts component data for saving
+ */
+export class ComponentRegistry {
+  /** Registered definitions by component name */
+  private definitions: Map<ComponentType, ComponentDefinition> = new Map();
+
+  /** Whether unknown or invalid components are rejected */
+  private strict: boolean;
+
+  /**
+   * Creates a new ComponentRegistry instance
+   * @param definitions - Initial component definitions
+   * @param strict - Reject unknown or invalid components (defaults to dev builds only)
+   */
+  constructor(definitions: BuiltInComponentDefinition[] = [], strict: boolean = isDevBuild()) {
+    definitions.forEach(definition => this.definitions.set(definition.type, definition as ComponentDefinition));
+    this.strict = strict;
+  }
+
+  /**
+   * Registers a component type, replacing any definition with the same name
+   * @param definition - Component definition
+   */
+  public register<T>(definition: ComponentDefinition<T>): void {
+    if (this.definitions.has(definition.type)) {
+      logger.debug(LogSource.ECS, `Replacing component definition ${definition.type}`);
+    }
+    this.definitions.set(definition.type, definition as ComponentDefinition);
+  }
+
+  /**
+   * Checks if a component type is registered
+   * @param componentType - Component type
+   * @returns True if registered
+   */
+  public has(componentType: ComponentType): boolean {
+    return this.definitions.has(componentType);
+  }
+
+  /**
+   * Gets a component definition
+   * @param componentType - Component type
+   * @returns Definition or null
+   */
+  public get(componentType: ComponentType): ComponentDefinition | null {
+    return this.definitions.get(componentType) || null;
+  }
+
+  /**
+   * Gets all registered component types
+   * @returns Component types, in registration order
+   */
+  public getTypes(): ComponentType[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  /**
+   * Gets all registered component definitions
+   * @returns Component definitions, in registration order
+   */
+  public getDefinitions(): ComponentDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  /**
+   * Sets whether unknown or invalid components are rejected
+   * @param strict - Strict mode
+   */
+  public setStrict(strict: boolean): void {
+    this.strict = strict;
+  }
+
+  /**
+   * Checks if unknown or invalid components are rejected
+   * @returns Strict mode
+   */
+  public isStrict(): boolean {
+    return this.strict;
+  }
+
+  /**
+   * Validates component data against its schema
+   * @param componentType - Component type
+   * @param data - Component data
+   * @returns Validation error, or null if the data is valid
+   */
+  public validate(componentType: ComponentType, data: unknown): ValidationError | null {
+    const definition = this.definitions.get(componentType);
+    if (!definition) {
+      return new ValidationError(`Unknown component type: ${componentType}`, componentType, data);
+    }
+
+    try {
+      SchemaValidator.validate(data, definition.schema, componentType);
+      return null;
+    } catch (error) {
+      return error instanceof ValidationError ? error : new ValidationError(String(error), componentType, data);
+    }
+  }
+
+  /**
+   * Creates default data for a component type
+   * @param componentType - Component type
+   * @returns Default data, or null if the type is unknown
+   */
+  public createDefault<T>(componentType: ComponentType): T | null {
+    const definition = this.definitions.get(componentType);
+    return definition ? (definition.defaults() as T) : null;
+  }
+
+  /**
+   * Converts component data to a JSON-safe value
+   * @param componentType - Component type
+   * @param data - Component data
+   * @returns Serialized value
+   */
+  public serialize(componentType: ComponentType, data: unknown): unknown {
+    const definition = this.definitions.get(componentType);
+    return definition?.serialize ? definition.serialize(data) : data;
+  }
+
+  /**
+   * Checks if a component type is runtime-only state
+   * @param componentType - Component type
+   * @returns True if snapshots should restore it from its defaults
+   */
+  public isTransient(componentType: ComponentType): boolean {
+    return this.definitions.get(componentType)?.transient === true;
+  }
+
+  /**
+   * Rewrites the entity IDs referenced by component data, following the fields its schema marks as entities
+   * @param componentType - Component type
+   * @param data - Component data
+   * @param remap - Maps old entity IDs to new ones, or to null if the entity is gone
+   * @returns Copy with references rewritten, or null if a required reference points at a missing entity
+   */
+  public remapEntities<T>(componentType: ComponentType, data: T, remap: EntityRemap): T | null {
+    const definition = this.definitions.get(componentType);
+    if (!definition || typeof data !== 'object' || data === null || Array.isArray(data)) {
+      return data;
+    }
+
+    const remapped = remapObject(data as Record<string, unknown>, definition.schema, remap);
+    return remapped === DANGLING ? null : (remapped as T);
+  }
+
+  /**
+   * Rebuilds component data from a serialized value
+   * Without a hook, the value is merged over the defaults so fields added since the save are filled in.
+   * @param componentType - Component type
+   * @param raw - Serialized value
+   * @returns Component data
+   */
+  public deserialize<T>(componentType: ComponentType, raw: unknown): T {
+    const definition = this.definitions.get(componentType);
+    if (!definition) {
+      return raw as T;
+    }
+    if (definition.deserialize) {
+      return definition.deserialize(raw) as T;
+    }
+
+    const defaults = definition.defaults();
+    if (typeof defaults === 'object' && defaults !== null && typeof raw === 'object' && raw !== null) {
+      return { ...defaults, ...raw } as T;
+    }
+    return raw as T;
+  }
+}
+
+/**
+ * Creates a registry holding the built-in components
+ * @returns Component registry
+ */
+export function createDefaultComponentRegistry(): ComponentRegistry {
+  return new ComponentRegistry(COMPONENT_DEFINITIONS);
+}
+
+export default ComponentRegistry;
@@ -0,0 +1,333 @@
+/**
+ * ECS Component Storage
+ * @fileoverview Sparse-set component stores and incrementally maintained queries
+ */
+
+import { EntityId, ComponentType, Entity } from '../types';
+
+/**
+ * Sparse-set store for one component type
+ * Component data is packed in dense arrays, so iterating a store never walks holes,
+ * while lookups by entity ID go through the sparse index in constant time.
+ * Implements the Map interface so existing `world.components.get(type)` callers keep working.
+ * Removal swaps the last entry into the freed slot, so order is only stable until a delete.
+ */
+export class ComponentStore<T = unknown> implements Map<EntityId, T> {
+  /** Entity IDs, packed */
+  private dense: EntityId[] = [];
+
+  /** Component data, parallel to dense */
+  private data: T[] = [];
+
+  /** Dense index for each entity ID */
+  private sparse: number[] = [];
+
+  /**
+   * Number of entities with data in this store
+   */
+  public get size(): number {
+    return this.dense.length;
+  }
+
+  /**
+   * Tag reported by Object.prototype.toString
+   */
+  public get [Symbol.toStringTag](): string {
+    return 'ComponentStore';
+  }
+
+  /**
+   * Checks if an entity has data in this store
+   * @param entityId - Entity ID
+   * @returns True if data is stored
+   */
+  public has(entityId: EntityId): boolean {
+    const index = this.sparse[entityId];
+    return index !== undefined && this.dense[index] === entityId;
+  }
+
+  /**
+   * Gets the data stored for an entity
+   * @param entityId - Entity ID
+   * @returns Component data or undefined
+   */
+  public get(entityId: EntityId): T | undefined {
+    const index = this.sparse[entityId];
+    return index !== undefined && this.dense[index] === entityId ? this.data[index] : undefined;
+  }
+
+  /**
+   * Stores data for an entity, replacing any previous data
+   * @param entityId - Entity ID
+   * @param value - Component data
+   * @returns This store
+   */
+  public set(entityId: EntityId, value: T): this {
+    const index = this.sparse[entityId];
+    if (index !== undefined && this.dense[index] === entityId) {
+      this.data[index] = value;
+      return this;
+    }
+
+    this.sparse[entityId] = this.dense.length;
+    this.dense.push(entityId);
+    this.data.push(value);
+    return this;
+  }
+
+  /**
+   * Removes the data stored for an entity
+   * @param entityId - Entity ID
+   * @returns True if data was removed
+   */
+  public delete(entityId: EntityId): boolean {
+    const index = this.sparse[entityId];
+    if (index === undefined || this.dense[index] !== entityId) {
+      return false;
+    }
+
+    const lastIndex = this.dense.length - 1;
+    const lastEntity = this.dense[lastIndex];
+    this.dense[index] = lastEntity;
+    this.data[index] = this.data[lastIndex];
+    this.sparse[lastEntity] = index;
+
+    this.dense.pop();
+    this.data.pop();
+    delete this.sparse[entityId];
+    return true;
+  }
+
+  /**
+   * Removes all data
+   */
+  public clear(): void {
+    this.dense = [];
+    this.data = [];
+    this.sparse = [];
+  }
+
+  /**
+   * Calls a function for each stored entry
+   * @param callback - Called with data, entity ID and the store
+   * @param thisArg - Value of this inside the callback
+   */
+  public forEach(callback: (value: T, entityId: EntityId, map: Map<EntityId, T>) => void, thisArg?: unknown): void {
+    for (let i = 0; i < this.dense.length; i++) {
+      callback.call(thisArg, this.data[i], this.dense[i], this);
+    }
+  }
+
+  /**
+   * Iterates entity ID and data pairs
+   */
+  public *entries(): MapIterator<[EntityId, T]> {
+    for (let i = 0; i < this.dense.length; i++) {
+      yield [this.dense[i], this.data[i]];
+    }
+  }
+
+  /**
+   * Iterates entity IDs
+   */
+  public *keys(): MapIterator<EntityId> {
+    for (let i = 0; i < this.dense.length; i++) {
+      yield this.dense[i];
+    }
+  }
+
+  /**
+   * Iterates component data
+   */
+  public *values(): MapIterator<T> {
+    for (let i = 0; i < this.data.length; i++) {
+      yield this.data[i];
+    }
+  }
+
+  /**
+   * Iterates entity ID and data pairs
+   */
+  public [Symbol.iterator](): MapIterator<[EntityId, T]> {
+    return this.entries();
+  }
+}
+
+/**
+ * Cached query over entities that have every listed component type
+ * The WorldManager keeps membership up to date as components are added and removed,
+ * so reading a query never rescans the world. Hold on to the query instead of
+ * asking the world for it every frame.
+ *
+ * @example
+ * const movers = world.query<[Position, Velocity]>('Position', 'Velocity');
+ * movers.forEach(([position, velocity]) => {
+ *   position.x += velocity.dx * deltaTime;
+ * });
+ */
+export class Query<T extends unknown[] = unknown[]> {
+  /** Component types, in tuple order */
+  public readonly types: readonly ComponentType[];
+
+  /** Matching entity IDs */
+  private dense: EntityId[] = [];
+
+  /** Dense index for each matching entity ID */
+  private index: Map<EntityId, number> = new Map();
+
+  /** Whether dense has been handed out and must be copied before the next change */
+  private shared = false;
+
+  /** Entity array a forEach loop is walking */
+  private iterating: EntityId[] | null = null;
+
+  /** Component stores of the owning world */
+  private readonly stores: Map<ComponentType, Map<EntityId, unknown>>;
+
+  /** Tuple reused for every forEach callback */
+  private readonly row: unknown[];
+
+  /**
+   * Creates a new query
+   * @param types - Component types every match must have
+   * @param stores - Component stores of the owning world
+   */
+  constructor(types: readonly ComponentType[], stores: Map<ComponentType, Map<EntityId, unknown>>) {
+    this.types = types;
+    this.stores = stores;
+    this.row = new Array(types.length);
+  }
+
+  /**
+   * Number of matching entities
+   */
+  public get size(): number {
+    return this.dense.length;
+  }
+
+  /**
+   * Matching entity IDs
+   * The array is a snapshot: later changes to the world do not modify it.
+   */
+  public get entities(): readonly EntityId[] {
+    this.shared = true;
+    return this.dense;
+  }
+
+  /**
+   * Checks if an entity currently matches
+   * @param entityId - Entity ID
+   * @returns True if the entity matches
+   */
+  public includes(entityId: EntityId): boolean {
+    return this.index.has(entityId);
+  }
+
+  /**
+   * Calls a function with the component tuple of each matching entity
+   * The tuple is reused between calls; copy it if it has to outlive the callback.
+   * Entities missing data for a listed type are skipped. Creating or destroying
+   * entities inside the callback is safe and takes effect after the loop.
+   * @param callback - Called with the component tuple and entity ID
+   */
+  public forEach(callback: (components: T, entityId: EntityId) => void): void {
+    const entities = this.dense;
+    const row = this.row;
+    const outer = this.iterating;
+    this.iterating = entities;
+
+    try {
+      this.each(entities, row, callback);
+    } finally {
+      this.iterating = outer;
+    }
+  }
+
+  /**
+   * Walks an entity array, filling the tuple for each entity
+   */
+  private each(entities: EntityId[], row: unknown[], callback: (components: T, entityId: EntityId) => void): void {
+    for (let i = 0; i < entities.length; i++) {
+      const entityId = entities[i];
+      let complete = true;
+
+      for (let t = 0; t < this.types.length; t++) {
+        const value = this.stores.get(this.types[t])?.get(entityId);
+        if (value === undefined) {
+          complete = false;
+          break;
+        }
+        row[t] = value;
+      }
+
+      if (complete) {
+        callback(row as T, entityId);
+      }
+    }
+  }
+
+  /**
+   * Checks if an entity has every component type of this query
+   * @param entity - Entity to check
+   * @returns True if the entity matches
+   */
+  public matches(entity: Entity): boolean {
+    for (let t = 0; t < this.types.length; t++) {
+      if (!entity.components.has(this.types[t])) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Adds a matching entity (called by WorldManager)
+   * @param entityId - Entity ID
+   */
+  public add(entityId: EntityId): void {
+    if (this.index.has(entityId)) {
+      return;
+    }
+
+    this.detach();
+    this.index.set(entityId, this.dense.length);
+    this.dense.push(entityId);
+  }
+
+  /**
+   * Removes an entity that no longer matches (called by WorldManager)
+   * @param entityId - Entity ID
+   */
+  public remove(entityId: EntityId): void {
+    const index = this.index.get(entityId);
+    if (index === undefined) {
+      return;
+    }
+
+    this.detach();
+    const lastEntity = this.dense[this.dense.length - 1];
+    this.dense[index] = lastEntity;
+    this.index.set(lastEntity, index);
+    this.dense.pop();
+    this.index.delete(entityId);
+  }
+
+  /**
+   * Removes every entity (called by WorldManager)
+   */
+  public clear(): void {
+    this.dense = [];
+    this.index.clear();
+    this.shared = false;
+  }
+
+  /**
+   * Copies the entity array if callers may still hold the current one
+   */
+  private detach(): void {
+    if (this.shared || this.dense === this.iterating) {
+      this.dense = this.dense.slice();
+      this.shared = false;
+    }
+  }
+}
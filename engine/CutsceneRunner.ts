@@ -0,0 +1,715 @@
+/**
+ * Cutscene Runner
+ * @fileoverview Cutscene sequencer: timed steps for actors, camera, audio, dialogue, flags and battles, with skip and fast-forward
+ */
+
+import { WorldManager } from './WorldManager';
+import { logger, LogSource } from './GlobalLogger';
+import type { AudioManager } from './AudioSystem';
+import type { CameraSystem } from './CameraSystem';
+import type { DialogueRunner } from './DialogueRunner';
+import type { GameClock } from './GameClock';
+import type { InteractionSystem } from './InteractionSystem';
+import { CutsceneDef, CutsceneStep, Direction, EntityId, Facing, Position, Vector2 } from '../types';
+import { CUTSCENES_DATABASE, GAME_CONFIG } from '../data/GameData';
+
+/** Walking speed of move steps without their own speed, in pixels per second */
+const DEFAULT_MOVE_SPEED = 64;
+
+/**
+ * Cutscene event emitted to listeners
+ */
+export type CutsceneEvent =
+  | { type: 'cutscene_started'; cutsceneId: string }
+  | { type: 'step_started'; cutsceneId: string; index: number; step: CutsceneStep }
+  | { type: 'show_text'; cutsceneId: string; text: string }
+  | { type: 'battle_requested'; cutsceneId: string; enemyIds: string[] }
+  | { type: 'cutscene_ended'; cutsceneId: string; skipped: boolean };
+
+/**
+ * Step that takes time to play out
+ */
+interface StepTask {
+  /** Advances the step; returns true once it is done */
+  update: (deltaTime: number) => boolean;
+  /** Jumps to the step's end state */
+  finish: () => void;
+  /** Dismisses a text box the step is waiting on */
+  confirm?: () => void;
+}
+
+/**
+ * Cutscene in progress
+ */
+interface ActiveCutscene {
+  /** Cutscene being played */
+  def: CutsceneDef;
+  /** Index of the next step to start */
+  next: number;
+  /** Step the script is waiting on */
+  blocking: StepTask | null;
+  /** Async steps still playing */
+  background: StepTask[];
+  /** Camera target before the first camera step took over (undefined while the camera is untouched) */
+  cameraTarget: EntityId | null | undefined;
+}
+
+/**
+ * Cutscene Runner
+ * Plays data-authored cutscene scripts step by step, pausing the game clock while they run
+ */
+export class CutsceneRunner {
+  /** World manager reference */
+  private world: WorldManager | null = null;
+
+  /** Player entity ID (the 'player' actor) */
+  private playerId: EntityId | null = null;
+
+  /** Camera panned and shaken by camera steps */
+  private camera: CameraSystem | null = null;
+
+  /** Audio manager for music and sound steps */
+  private audio: AudioManager | null = null;
+
+  /** Dialogue runner for dialogue graph steps and text variables */
+  private dialogueRunner: DialogueRunner | null = null;
+
+  /** Interaction system holding story flags and starting battles */
+  private interactions: InteractionSystem | null = null;
+
+  /** Game clock paused while a cutscene plays */
+  private clock: GameClock | null = null;
+
+  /** Cutscene definitions by ID */
+  private cutscenes: Record<string, CutsceneDef>;
+
+  /** Actor names bound to entities */
+  private actors: Map<string, EntityId> = new Map();
+
+  /** Cutscene in progress */
+  private active: ActiveCutscene | null = null;
+
+  /** Playback speed multiplier */
+  private speed = 1;
+
+  /** IDs of play-once cutscenes already played */
+  private played: Set<string> = new Set();
+
+  /** Cutscenes started */
+  private plays = 0;
+
+  /** Cutscenes skipped */
+  private skips = 0;
+
+  /** Event listeners */
+  private listeners: Set<(event: CutsceneEvent) => void> = new Set();
+
+  /**
+   * Creates a new CutsceneRunner instance
+   * @param cutscenes - Cutscene definitions by ID
+   */
+  constructor(cutscenes: Record<string, CutsceneDef> = CUTSCENES_DATABASE) {
+    this.cutscenes = cutscenes;
+    logger.info(LogSource.GAMEPLAY, 'CutsceneRunner initialized');
+  }
+
+  /**
+   * Sets the world manager reference
+   * @param world - World manager instance
+   */
+  public setWorld(world: WorldManager): void {
+    this.world = world;
+  }
+
+  /**
+   * Sets the player entity ID
+   * @param playerId - Player entity ID
+   */
+  public setPlayer(playerId: EntityId): void {
+    this.playerId = playerId;
+  }
+
+  /**
+   * Sets the camera system
+   * @param camera - Camera system instance
+   */
+  public setCamera(camera: CameraSystem): void {
+    this.camera = camera;
+  }
+
+  /**
+   * Sets the audio manager
+   * @param audio - Audio manager instance
+   */
+  public setAudio(audio: AudioManager): void {
+    this.audio = audio;
+  }
+
+  /**
+   * Sets the dialogue runner
+   * @param dialogueRunner - Dialogue runner instance
+   */
+  public setDialogueRunner(dialogueRunner: DialogueRunner): void {
+    this.dialogueRunner = dialogueRunner;
+  }
+
+  /**
+   * Sets the interaction system holding story flags and starting battles
+   * @param interactions - Interaction system instance
+   */
+  public setInteractionSystem(interactions: InteractionSystem): void {
+    this.interactions = interactions;
+  }
+
+  /**
+   * Sets the game clock
+   * @param clock - Game clock instance
+   */
+  public setClock(clock: GameClock): void {
+    this.clock = clock;
+  }
+
+  /**
+   * Binds an actor name used by scripts to an entity
+   * @param name - Actor name
+   * @param entityId - Entity ID, or null to unbind
+   */
+  public setActor(name: string, entityId: EntityId | null): void {
+    if (entityId === null) {
+      this.actors.delete(name);
+    } else {
+      this.actors.set(name, entityId);
+    }
+  }
+
+  /**
+   * Subscribes to cutscene events
+   * @param callback - Called for every cutscene event
+   * @returns Unsubscribe function
+   */
+  public subscribe(callback: (event: CutsceneEvent) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Starts a cutscene
+   * @param cutsceneId - Cutscene ID
+   * @param triggeredBy - Entity that triggered it; only the player can trigger cutscenes
+   * @returns True if started, false if unknown, already played, another is playing or not triggered by the player
+   */
+  public play(cutsceneId: string, triggeredBy?: EntityId): boolean {
+    const def = this.cutscenes[cutsceneId];
+    if (!def) {
+      logger.warn(LogSource.GAMEPLAY, `Attempted to play unknown cutscene ${cutsceneId}`);
+      return false;
+    }
+
+    if (triggeredBy !== undefined && triggeredBy !== this.playerId) return false;
+
+    if (this.active) {
+      logger.debug(LogSource.GAMEPLAY, `Cutscene ${cutsceneId} not started: ${this.active.def.id} is playing`);
+      return false;
+    }
+
+    if (def.once && this.played.has(cutsceneId)) {
+      logger.debug(LogSource.GAMEPLAY, `Cutscene ${cutsceneId} already played`);
+      return false;
+    }
+
+    if (def.once) {
+      this.played.add(cutsceneId);
+    }
+
+    this.active = { def, next: 0, blocking: null, background: [], cameraTarget: undefined };
+    this.plays++;
+    this.clock?.pause('cutscene');
+    logger.info(LogSource.GAMEPLAY, `Cutscene started: ${def.name}`);
+    this.emit({ type: 'cutscene_started', cutsceneId });
+
+    this.runSteps();
+    return true;
+  }
+
+  /**
+   * Advances the cutscene in progress
+   * @param deltaTime - Time since last frame in seconds
+   */
+  public update(deltaTime: number): void {
+    const active = this.active;
+    if (!active) return;
+
+    const scaled = deltaTime * this.speed;
+    active.background = active.background.filter(task => !task.update(scaled));
+    if (active.blocking?.update(scaled)) {
+      active.blocking = null;
+    }
+
+    this.runSteps();
+  }
+
+  /**
+   * Dismisses the text box the cutscene is waiting on
+   * @returns True if a text box was dismissed
+   */
+  public advance(): boolean {
+    const task = this.active?.blocking;
+    if (!task?.confirm) return false;
+
+    task.confirm();
+    this.update(0);
+    return true;
+  }
+
+  /**
+   * Skips the rest of the cutscene
+   * Lasting outcomes (positions, facing, camera, music, flags and battles) still apply;
+   * waits, shakes, sound effects and text are dropped.
+   * @returns True if skipped, false if none is playing or it cannot be skipped
+   */
+  public skip(): boolean {
+    const active = this.active;
+    if (!active) return false;
+
+    if (active.def.skippable === false) {
+      logger.debug(LogSource.GAMEPLAY, `Cutscene ${active.def.id} cannot be skipped`);
+      return false;
+    }
+
+    active.blocking?.finish();
+    active.background.forEach(task => task.finish());
+    active.blocking = null;
+    active.background = [];
+
+    const remaining = active.def.steps.slice(active.next);
+    active.next = active.def.steps.length;
+    remaining.forEach(step => this.applyOutcome(step));
+
+    this.skips++;
+    this.end(true);
+    return true;
+  }
+
+  /**
+   * Turns fast-forward on or off
+   * @param enabled - Whether to fast-forward
+   */
+  public setFastForward(enabled: boolean): void {
+    this.speed = enabled ? GAME_CONFIG.CUTSCENE_FAST_FORWARD : 1;
+  }
+
+  /**
+   * Checks whether playback is fast-forwarded
+   * @returns Whether fast-forward is on
+   */
+  public isFastForwarding(): boolean {
+    return this.speed > 1;
+  }
+
+  /**
+   * Checks whether a cutscene is playing
+   * @returns Whether a cutscene is in progress
+   */
+  public isPlaying(): boolean {
+    return this.active !== null;
+  }
+
+  /**
+   * Gets the ID of the cutscene in progress
+   * @returns Cutscene ID, or null if none is playing
+   */
+  public getCurrentCutscene(): string | null {
+    return this.active?.def.id ?? null;
+  }
+
+  /**
+   * Checks whether a play-once cutscene has been played
+   * @param cutsceneId - Cutscene ID
+   * @returns Whether it has been played
+   */
+  public hasPlayed(cutsceneId: string): boolean {
+    return this.played.has(cutsceneId);
+  }
+
+  /**
+   * Gets the played play-once cutscenes for saving
+   * @returns Cutscene IDs
+   */
+  public serialize(): string[] {
+    return Array.from(this.played);
+  }
+
+  /**
+   * Restores played play-once cutscenes from a save
+   * @param data - Saved cutscene IDs (anything else clears them)
+   */
+  public restore(data: unknown): void {
+    this.played = new Set(Array.isArray(data) ? data.filter((id): id is string => typeof id === 'string') : []);
+  }
+
+  /**
+   * Starts steps until one has to be waited on or the script runs out
+   */
+  private runSteps(): void {
+    const active = this.active;
+    if (!active) return;
+
+    while (this.active === active && !active.blocking && active.next < active.def.steps.length) {
+      const index = active.next++;
+      const step = active.def.steps[index];
+      this.emit({ type: 'step_started', cutsceneId: active.def.id, index, step });
+
+      const task = this.begin(step);
+      if (!task) continue;
+
+      if ((step.type === 'move' || step.type === 'camera_pan') && step.async) {
+        active.background.push(task);
+      } else {
+        active.blocking = task;
+      }
+    }
+
+    if (this.active === active && !active.blocking && active.background.length === 0 && active.next >= active.def.steps.length) {
+      this.end(false);
+    }
+  }
+
+  /**
+   * Starts a step
+   * @param step - Step to start
+   * @returns Task to wait on, or null if the step finished at once
+   */
+  private begin(step: CutsceneStep): StepTask | null {
+    switch (step.type) {
+      case 'move':
+        return this.beginMove(step.actor, step.path, step.speed ?? DEFAULT_MOVE_SPEED);
+
+      case 'camera_pan':
+        return this.beginPan(step.x, step.y, step.zoom, step.duration);
+
+      case 'wait': {
+        let remaining = step.duration;
+        return { update: deltaTime => (remaining -= deltaTime) <= 0, finish: () => {} };
+      }
+
+      case 'dialogue':
+        return this.beginDialogue(step.text, step.dialogueId);
+
+      case 'camera_shake':
+        this.camera?.startShake(step.intensity, step.duration);
+        return null;
+
+      case 'play_sfx':
+        this.audio?.playSFX(step.sfxId, step.volume ?? 1);
+        return null;
+
+      default:
+        this.applyOutcome(step);
+        return null;
+    }
+  }
+
+  /**
+   * Applies the lasting outcome of a step at once, as when it is skipped
+   * @param step - Step to apply
+   */
+  private applyOutcome(step: CutsceneStep): void {
+    const cutsceneId = this.active?.def.id ?? '';
+
+    switch (step.type) {
+      case 'move': {
+        const entityId = this.resolveActor(step.actor);
+        if (entityId !== null) this.placeAtEnd(entityId, step.path);
+        break;
+      }
+
+      case 'face': {
+        const entityId = this.resolveActor(step.actor);
+        if (entityId !== null) this.setFacing(entityId, step.direction);
+        break;
+      }
+
+      case 'camera_pan':
+        if (this.camera) {
+          this.takeCamera();
+          this.camera.setPosition(step.x, step.y);
+          if (step.zoom !== undefined) this.camera.setZoom(step.zoom);
+        }
+        break;
+
+      case 'play_bgm':
+        this.audio?.playBGM(step.trackId, step.loop ?? true);
+        break;
+
+      case 'set_flag':
+        this.interactions?.setStoryFlag(step.flag, step.value ?? true);
+        break;
+
+      case 'start_battle':
+        logger.info(LogSource.GAMEPLAY, `Cutscene ${cutsceneId} starts a battle with ${step.enemyIds.join(', ')}`);
+        this.interactions?.startBattle(step.enemyIds);
+        this.emit({ type: 'battle_requested', cutsceneId, enemyIds: [...step.enemyIds] });
+        break;
+
+      default:
+        // Waits, shakes, sound effects and text leave nothing behind
+        break;
+    }
+  }
+
+  /**
+   * Starts walking an actor along a path
+   * @param actor - Actor name
+   * @param path - Waypoints, in order
+   * @param speed - Walking speed in pixels per second
+   * @returns Task, or null if the actor cannot move
+   */
+  private beginMove(actor: string, path: Vector2[], speed: number): StepTask | null {
+    const entityId = this.resolveActor(actor);
+    if (entityId === null || path.length === 0) return null;
+
+    let waypoint = 0;
+    return {
+      update: deltaTime => {
+        let budget = speed * deltaTime;
+
+        while (waypoint < path.length) {
+          const position = this.world?.getComponent<Position>(entityId, 'Position');
+          if (!position) return true;
+
+          const target = path[waypoint];
+          const dx = target.x - position.x;
+          const dy = target.y - position.y;
+          const distance = Math.hypot(dx, dy);
+          if (distance > 0) this.setFacing(entityId, CutsceneRunner.directionOf(dx, dy));
+
+          if (distance > budget) {
+            this.world!.updateComponent<Position>(entityId, 'Position', {
+              x: position.x + (dx / distance) * budget,
+              y: position.y + (dy / distance) * budget
+            });
+            return false;
+          }
+
+          this.world!.updateComponent<Position>(entityId, 'Position', { x: target.x, y: target.y });
+          budget -= distance;
+          waypoint++;
+        }
+        return true;
+      },
+      finish: () => this.placeAtEnd(entityId, path)
+    };
+  }
+
+  /**
+   * Starts panning the camera; the cutscene drives the camera so fast-forward and skip apply to it
+   * @param x - Target X position
+   * @param y - Target Y position
+   * @param zoom - Target zoom (default unchanged)
+   * @param duration - Pan duration in seconds
+   * @returns Task, or null without a camera
+   */
+  private beginPan(x: number, y: number, zoom: number | undefined, duration: number): StepTask | null {
+    const camera = this.camera;
+    if (!camera) return null;
+
+    this.takeCamera();
+    const start = camera.getPosition();
+    const startZoom = camera.getZoom();
+    const endZoom = zoom ?? startZoom;
+    let elapsed = 0;
+
+    const moveTo = (progress: number) => {
+      const t = progress * progress * (3 - 2 * progress);
+      camera.setPosition(start.x + (x - start.x) * t, start.y + (y - start.y) * t);
+      camera.setZoom(startZoom + (endZoom - startZoom) * t);
+    };
+
+    return {
+      update: deltaTime => {
+        elapsed += deltaTime;
+        const progress = duration > 0 ? Math.min(1, elapsed / duration) : 1;
+        moveTo(progress);
+        return progress >= 1;
+      },
+      finish: () => moveTo(1)
+    };
+  }
+
+  /**
+   * Starts a dialogue step: a dialogue graph, or a text box shown through listeners
+   * @param text - Text box contents
+   * @param dialogueId - Dialogue graph ID (takes precedence over text)
+   * @returns Task, or null if the dialogue could not start
+   */
+  private beginDialogue(text: string | undefined, dialogueId: string | undefined): StepTask | null {
+    if (dialogueId) {
+      const dialogue = this.dialogueRunner;
+      if (!dialogue?.start(dialogueId)) {
+        logger.warn(LogSource.GAMEPLAY, `Cutscene dialogue ${dialogueId} could not start`);
+        return null;
+      }
+      return { update: () => !dialogue.isActive(), finish: () => dialogue.end() };
+    }
+
+    if (!text) return null;
+
+    let dismissed = false;
+    this.emit({
+      type: 'show_text',
+      cutsceneId: this.active!.def.id,
+      text: this.dialogueRunner?.substitute(text) ?? text
+    });
+    return {
+      update: () => dismissed,
+      finish: () => {},
+      confirm: () => {
+        dismissed = true;
+      }
+    };
+  }
+
+  /**
+   * Moves an actor to the end of a path, facing along its last leg
+   * @param entityId - Actor entity ID
+   * @param path - Waypoints, in order
+   */
+  private placeAtEnd(entityId: EntityId, path: Vector2[]): void {
+    if (!this.world || path.length === 0) return;
+
+    const position = this.world.getComponent<Position>(entityId, 'Position');
+    if (!position) return;
+
+    const end = path[path.length - 1];
+    const from = path.length > 1 ? path[path.length - 2] : position;
+    if (end.x !== from.x || end.y !== from.y) {
+      this.setFacing(entityId, CutsceneRunner.directionOf(end.x - from.x, end.y - from.y));
+    }
+    this.world.updateComponent<Position>(entityId, 'Position', { x: end.x, y: end.y });
+  }
+
+  /**
+   * Turns an entity, giving it a Facing component if it has none
+   * @param entityId - Entity ID
+   * @param direction - Direction to face
+   */
+  private setFacing(entityId: EntityId, direction: Direction): void {
+    if (!this.world) return;
+
+    if (this.world.hasComponent(entityId, 'Facing')) {
+      this.world.updateComponent<Facing>(entityId, 'Facing', { direction });
+    } else {
+      this.world.addComponent<Facing>(entityId, 'Facing', { direction });
+    }
+  }
+
+  /**
+   * Stops the camera following its target until the cutscene ends
+   */
+  private takeCamera(): void {
+    if (!this.camera || !this.active || this.active.cameraTarget !== undefined) return;
+
+    this.active.cameraTarget = this.camera.getTarget();
+    this.camera.setTarget(null);
+  }
+
+  /**
+   * Resolves an actor name to an entity
+   * @param actor - Actor name ('player' for the player)
+   * @returns Entity ID, or null if unbound
+   */
+  private resolveActor(actor: string): EntityId | null {
+    const entityId = actor === 'player' ? this.playerId : this.actors.get(actor) ?? null;
+    if (entityId === null) {
+      logger.warn(LogSource.GAMEPLAY, `Cutscene actor ${actor} is not bound to an entity`);
+    }
+    return entityId;
+  }
+
+  /**
+   * Ends the cutscene in progress, handing the camera and clock back
+   * @param skipped - Whether it was skipped
+   */
+  private end(skipped: boolean): void {
+    const active = this.active;
+    if (!active) return;
+
+    this.active = null;
+    if (active.cameraTarget !== undefined) {
+      this.camera?.setTarget(active.cameraTarget);
+    }
+    this.clock?.resume('cutscene');
+
+    logger.info(LogSource.GAMEPLAY, `Cutscene ${skipped ? 'skipped' : 'ended'}: ${active.def.name}`);
+    this.emit({ type: 'cutscene_ended', cutsceneId: active.def.id, skipped });
+  }
+
+  /**
+   * Gets the grid direction of a movement
+   * @param dx - Horizontal movement
+   * @param dy - Vertical movement
+   * @returns Direction along the dominant axis
+   */
+  private static directionOf(dx: number, dy: number): Direction {
+    if (Math.abs(dx) > Math.abs(dy)) {
+      return dx > 0 ? 'RIGHT' : 'LEFT';
+    }
+    return dy > 0 ? 'DOWN' : 'UP';
+  }
+
+  /**
+   * Sends an event to all listeners
+   * @param event - Cutscene event
+   */
+  private emit(event: CutsceneEvent): void {
+    this.listeners.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        logger.error(LogSource.GAMEPLAY, `Cutscene event listener failed: ${error}`);
+      }
+    });
+  }
+
+  /**
+   * Gets cutscene statistics
+   * @returns Cutscene runner statistics
+   */
+  public getStats(): {
+    plays: number;
+    skips: number;
+    playing: boolean;
+    listeners: number;
+  } {
+    return {
+      plays: this.plays,
+      skips: this.skips,
+      playing: this.active !== null,
+      listeners: this.listeners.size
+    };
+  }
+
+  /**
+   * Disposes of the cutscene runner
+   */
+  public dispose(): void {
+    if (this.active) {
+      this.clock?.resume('cutscene');
+      this.active = null;
+    }
+    this.listeners.clear();
+    this.actors.clear();
+    this.played.clear();
+    this.camera = null;
+    this.audio = null;
+    this.dialogueRunner = null;
+    this.interactions = null;
+    this.clock = null;
+    this.world = null;
+    logger.info(LogSource.GAMEPLAY, 'CutsceneRunner disposed');
+  }
+}
+
+export default CutsceneRunner;
@@ -5,8 +5,9 @@
 
 import { WorldManager } from './WorldManager';
 import { logger, LogSource } from './GlobalLogger';
-import { EntityId, Position, Collision, DebugTools, Health, Entity } from '../types';
-import { ENEMIES_DATABASE, ITEMS_DATABASE } from '../data/GameData';
+import { EntityId, Position, Collision, DebugTools, Health, Entity, CombatStats, EnemyInfo } from '../types';
+import { ENEMIES_DATABASE, ITEMS_DATABASE, GAME_CONFIG, getEnemy } from '../data/GameData';
+import { calculateDamage, formatDamageBreakdown, DamageElement } from '../utils/damage';
 
 /**
  * Debug overlay position
@@ -60,6 +61,8 @@ export interface StateInspectorData {
   components: string[];
   /** Component data */
   componentData: Record<string, any>;
+  /** Validation errors by component type (unregistered types included) */
+  componentErrors: Record<string, string>;
   /** Entity position */
   position: Position | null;
 }
@@ -224,6 +227,14 @@ export class DebugToolsSystem {
     return { ...this.config };
   }
 
+  /**
+   * Gets the current performance metrics
+   * @returns Copy of the performance metrics
+   */
+  public getPerformanceMetrics(): PerformanceMetrics {
+    return { ...this.performanceMetrics, systemTime: { ...this.performanceMetrics.systemTime } };
+  }
+
   /**
    * Toggles a specific debug feature
    * @param feature - Feature to toggle
@@ -334,7 +345,7 @@ export class DebugToolsSystem {
       return null;
     }
 
-    let newEntityId: EntityId;
+    let newEntityId: EntityId | null;
 
     switch (spawnData.category) {
       case 'enemy':
@@ -354,6 +365,10 @@ export class DebugToolsSystem {
         return null;
     }
 
+    if (newEntityId === null) {
+      return null;
+    }
+
     logger.info(LogSource.CORE, `Spawned entity ${entityId} at (${x}, ${y})`);
     return newEntityId;
   }
@@ -399,13 +414,25 @@ export class DebugToolsSystem {
     const entity = this.world.entities.get(entityId);
     if (!entity) return null;
 
+    const registry = this.world.getComponentRegistry();
     const componentData: Record<string, any> = {};
-    
-    // Get all component data
-    for (const componentType of entity.components) {
-      const data = this.world.getComponent(entityId, componentType as any);
+    const componentErrors: Record<string, string> = {};
+
+    // Registered components first, in registry order, then anything unregistered
+    const componentTypes = [
+      ...registry.getTypes().filter(componentType => entity.components.has(componentType)),
+      ...Array.from(entity.components).filter(componentType => !registry.has(componentType))
+    ];
+
+    for (const componentType of componentTypes) {
+      const data = this.world.getComponent(entityId, componentType);
       if (data) {
-        componentData[componentType] = data;
+        componentData[componentType] = registry.serialize(componentType, data);
+      }
+
+      const error = registry.validate(componentType, data);
+      if (error) {
+        componentErrors[componentType] = error.message;
       }
     }
 
@@ -413,8 +440,9 @@ export class DebugToolsSystem {
 
     return {
       entityId,
-      components: Array.from(entity.components),
+      components: componentTypes,
       componentData,
+      componentErrors,
       position
     };
   }
@@ -486,6 +514,12 @@ export class DebugToolsSystem {
           }
           return this.giveItem(args[0], parseInt(args[1])) ? 'Item given' : 'Failed to give item';
           
+        case 'damage':
+          if (args.length < 2) {
+            return 'Usage: damage <attacker_id> <target_id> [element]';
+          }
+          return this.previewDamage(parseInt(args[0]), parseInt(args[1]), args[2]?.toUpperCase() as DamageElement | undefined);
+          
         case 'clear':
           this.clearEntities();
           return 'All entities cleared';
@@ -829,6 +863,13 @@ export class DebugToolsSystem {
       this.performanceMetrics.entityCount = this.world.entities.size;
       this.performanceMetrics.componentCount = Array.from(this.world.components.values())
         .reduce((total, pool) => total + pool.size, 0);
+
+      // Update per-system execution times (milliseconds, most recent run)
+      const systemTime: Record<string, number> = {};
+      this.world.getScheduler().getTimings().forEach(timing => {
+        systemTime[timing.name] = timing.lastTime;
+      });
+      this.performanceMetrics.systemTime = systemTime;
     }
   }
 
@@ -843,71 +884,32 @@ export class DebugToolsSystem {
   }
 
   /**
-   * Spawns an enemy entity
+   * Spawns an enemy entity from its prefab
    * @param enemyId - Enemy ID
    * @param x - X position
    * @param y - Y position
-   * @returns Spawned entity ID
+   * @returns Spawned entity ID or null
    */
-  private spawnEnemy(enemyId: string, x: number, y: number): EntityId {
+  private spawnEnemy(enemyId: string, x: number, y: number): EntityId | null {
     if (!this.world) throw new Error('World not set');
-    
-    const enemy = ENEMIES_DATABASE[enemyId];
-    const entityId = this.world.createEntity(['Position', 'Collision', 'Sprite', 'Health', 'CombatState']);
-    
-    this.world.addComponent(entityId, 'Position', { x, y });
-    this.world.addComponent(entityId, 'Collision', { 
-      width: enemy.sprite.width, 
-      height: enemy.sprite.height, 
-      solid: true 
-    });
-    this.world.addComponent(entityId, 'Sprite', {
-      textureId: enemy.sprite.textureId,
-      frameIndex: 0,
-      width: enemy.sprite.width,
-      height: enemy.sprite.height
-    });
-    this.world.addComponent(entityId, 'Health', {
-      current: enemy.stats.health,
-      max: enemy.stats.health
-    });
-    this.world.addComponent(entityId, 'CombatState', {
-      attacking: false,
-      attack: enemy.stats.attack,
-      defense: enemy.stats.defense,
-      actionPoints: 3,
-      maxActionPoints: 3
-    });
-    
-    return entityId;
+
+    return this.world.instantiate(enemyId, { Position: { x, y } });
   }
 
   /**
-   * Spawns an item entity
+   * Spawns an item pickup entity
    * @param itemId - Item ID
    * @param x - X position
    * @param y - Y position
-   * @returns Spawned entity ID
+   * @returns Spawned entity ID or null
    */
-  private spawnItem(itemId: string, x: number, y: number): EntityId {
+  private spawnItem(itemId: string, x: number, y: number): EntityId | null {
     if (!this.world) throw new Error('World not set');
-    
-    const entityId = this.world.createEntity(['Position', 'Collision', 'Sprite']);
-    
-    this.world.addComponent(entityId, 'Position', { x, y });
-    this.world.addComponent(entityId, 'Collision', { 
-      width: 16, 
-      height: 16, 
-      solid: false 
-    });
-    this.world.addComponent(entityId, 'Sprite', {
-      textureId: 'item_' + itemId,
-      frameIndex: 0,
-      width: 16,
-      height: 16
+
+    return this.world.instantiate('item_pickup', {
+      Position: { x, y },
+      Sprite: { textureId: 'item_' + itemId }
     });
-    
-    return entityId;
   }
 
   /**
@@ -915,27 +917,15 @@ export class DebugToolsSystem {
    * @param npcId - NPC ID
    * @param x - X position
    * @param y - Y position
-   * @returns Spawned entity ID
+   * @returns Spawned entity ID or null
    */
-  private spawnNPC(npcId: string, x: number, y: number): EntityId {
+  private spawnNPC(npcId: string, x: number, y: number): EntityId | null {
     if (!this.world) throw new Error('World not set');
-    
-    const entityId = this.world.createEntity(['Position', 'Collision', 'Sprite']);
-    
-    this.world.addComponent(entityId, 'Position', { x, y });
-    this.world.addComponent(entityId, 'Collision', { 
-      width: 16, 
-      height: 32, 
-      solid: true 
-    });
-    this.world.addComponent(entityId, 'Sprite', {
-      textureId: 'npc_' + npcId,
-      frameIndex: 0,
-      width: 16,
-      height: 32
+
+    return this.world.instantiate('npc', {
+      Position: { x, y },
+      Sprite: { textureId: 'npc_' + npcId }
     });
-    
-    return entityId;
   }
 
   /**
@@ -943,27 +933,15 @@ export class DebugToolsSystem {
    * @param objectId - Object ID
    * @param x - X position
    * @param y - Y position
-   * @returns Spawned entity ID
+   * @returns Spawned entity ID or null
    */
-  private spawnObject(objectId: string, x: number, y: number): EntityId {
+  private spawnObject(objectId: string, x: number, y: number): EntityId | null {
     if (!this.world) throw new Error('World not set');
-    
-    const entityId = this.world.createEntity(['Position', 'Collision', 'Sprite']);
-    
-    this.world.addComponent(entityId, 'Position', { x, y });
-    this.world.addComponent(entityId, 'Collision', { 
-      width: 32, 
-      height: 32, 
-      solid: true 
-    });
-    this.world.addComponent(entityId, 'Sprite', {
-      textureId: 'object_' + objectId,
-      frameIndex: 0,
-      width: 32,
-      height: 32
+
+    return this.world.instantiate('world_object', {
+      Position: { x, y },
+      Sprite: { textureId: 'object_' + objectId }
     });
-    
-    return entityId;
   }
 
   /**
@@ -1047,6 +1025,32 @@ export class DebugToolsSystem {
     logger.info(LogSource.CORE, 'Game state reset');
   }
 
+  /**
+   * Rolls an attack between two entities and describes the damage breakdown
+   * @param attackerId - Attacking entity ID
+   * @param targetId - Target entity ID
+   * @param element - Optional attack element
+   * @returns Breakdown text
+   */
+  private previewDamage(attackerId: EntityId, targetId: EntityId, element?: DamageElement): string {
+    const attacker = this.world?.getComponent<CombatStats>(attackerId, 'CombatStats');
+    const target = this.world?.getComponent<CombatStats>(targetId, 'CombatStats');
+    if (!attacker || !target) return 'Both entities need CombatStats';
+
+    const info = this.world?.getComponent<EnemyInfo>(targetId, 'EnemyInfo');
+    const breakdown = calculateDamage({
+      kind: 'physical',
+      power: attacker.attack,
+      defense: target.defense,
+      element,
+      affinities: (info && getEnemy(info.enemyId)?.elementalAffinities) || {},
+      critChance: GAME_CONFIG.CRITICAL_HIT_CHANCE_BASE,
+      variance: GAME_CONFIG.DAMAGE_VARIANCE
+    });
+
+    return `${attackerId} -> ${targetId}: ${formatDamageBreakdown(breakdown)}`;
+  }
+
   /**
    * Gets help text for debug commands
    * @returns Help text
@@ -1060,6 +1064,7 @@ Available Debug Commands:
   kill <entity_id>         - Kill entity
   heal                    - Heal player to full health
   give <item> <quantity>   - Give item to player
+  damage <a> <t> [element] - Roll attack damage and show the breakdown
   clear                   - Clear all entities except player
   reset                   - Reset game state
 
@@ -0,0 +1,529 @@
+/**
+ * Dialogue Runner
+ * @fileoverview Walks branching dialogue graphs: conditional choices, side effects, variables and DialogSystem text
+ */
+
+import { WorldManager } from './WorldManager';
+import { logger, LogSource } from './GlobalLogger';
+import type { InteractionSystem } from './InteractionSystem';
+import type { QuestSystem } from './QuestSystem';
+import { CharacterStats, DialogueCondition, DialogueEffect, DialogueGraph, DialogueNode, EntityId, Inventory } from '../types';
+import { DIALOGUES_DATABASE, GAME_CONFIG } from '../data/GameData';
+import { DialogueValidator } from '../utils/validation';
+
+/**
+ * Value a dialogue variable can hold
+ */
+export type DialogueValue = string | number | boolean;
+
+/**
+ * Line of dialogue ready to be shown
+ */
+export interface DialogueLine {
+  /** Dialogue ID */
+  dialogueId: string;
+  /** Node ID */
+  nodeId: string;
+  /** Speaker name, or null for narration */
+  speaker: string | null;
+  /** Portrait ID, or null for none */
+  portrait: string | null;
+  /** Speaker emotion, or null for the default portrait */
+  emotion: string | null;
+  /** Line text with variables filled in */
+  text: string;
+  /** Choices whose conditions hold; index is the choice's position in the node */
+  choices: Array<{ index: number; text: string }>;
+  /** Line formatted for DialogSystem ("Speaker: text" with {emotion} and {choice} control codes) */
+  dialogText: string;
+}
+
+/**
+ * Dialogue event emitted to listeners
+ */
+export type DialogueEvent =
+  | { type: 'dialogue_started'; dialogueId: string }
+  | { type: 'line'; line: DialogueLine }
+  | { type: 'choice_selected'; dialogueId: string; nodeId: string; choiceIndex: number; text: string }
+  | { type: 'dialogue_ended'; dialogueId: string; nodeId: string };
+
+/**
+ * Conversation in progress
+ */
+interface ActiveDialogue {
+  /** Graph being walked */
+  graph: DialogueGraph;
+  /** Current node ID */
+  nodeId: string;
+  /** Current line */
+  line: DialogueLine;
+}
+
+/**
+ * Dialogue Runner
+ * Starts conversations, offers the choices whose conditions hold, applies effects and feeds lines to listeners
+ */
+export class DialogueRunner {
+  /** World manager reference */
+  private world: WorldManager | null = null;
+
+  /** Player entity ID (inventory for item conditions and effects, stats for level conditions) */
+  private playerId: EntityId | null = null;
+
+  /** Interaction system holding story flags */
+  private interactions: InteractionSystem | null = null;
+
+  /** Quest system for quest conditions and effects */
+  private questSystem: QuestSystem | null = null;
+
+  /** Dialogue graphs by ID */
+  private dialogues: Record<string, DialogueGraph>;
+
+  /** Conversation in progress */
+  private active: ActiveDialogue | null = null;
+
+  /** Dialogue variables, substituted for {var name} codes */
+  private variables: Map<string, DialogueValue> = new Map();
+
+  /** Conversations started */
+  private conversations = 0;
+
+  /** Choices selected */
+  private choicesMade = 0;
+
+  /** Event listeners */
+  private listeners: Set<(event: DialogueEvent) => void> = new Set();
+
+  /**
+   * Creates a new DialogueRunner instance
+   * @param dialogues - Dialogue graphs by ID
+   */
+  constructor(dialogues: Record<string, DialogueGraph> = DIALOGUES_DATABASE) {
+    this.dialogues = dialogues;
+    logger.info(LogSource.GAMEPLAY, 'DialogueRunner initialized');
+  }
+
+  /**
+   * Sets the world manager reference
+   * @param world - World manager instance
+   */
+  public setWorld(world: WorldManager): void {
+    this.world = world;
+  }
+
+  /**
+   * Sets the player entity ID
+   * @param playerId - Player entity ID
+   */
+  public setPlayer(playerId: EntityId): void {
+    this.playerId = playerId;
+  }
+
+  /**
+   * Sets the interaction system holding story flags
+   * @param interactions - Interaction system instance
+   */
+  public setInteractionSystem(interactions: InteractionSystem): void {
+    this.interactions = interactions;
+  }
+
+  /**
+   * Sets the quest system
+   * @param questSystem - Quest system instance
+   */
+  public setQuestSystem(questSystem: QuestSystem): void {
+    this.questSystem = questSystem;
+  }
+
+  /**
+   * Subscribes to dialogue events
+   * @param callback - Called for every dialogue event
+   * @returns Unsubscribe function
+   */
+  public subscribe(callback: (event: DialogueEvent) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Starts a conversation, ending any conversation in progress
+   * @param dialogueId - Dialogue ID
+   * @returns True if started, false if the dialogue is unknown or invalid
+   */
+  public start(dialogueId: string): boolean {
+    const graph = this.dialogues[dialogueId];
+    if (!graph) {
+      logger.warn(LogSource.GAMEPLAY, `Attempted to start unknown dialogue ${dialogueId}`);
+      return false;
+    }
+
+    try {
+      DialogueValidator.validate(graph);
+    } catch (error) {
+      logger.error(LogSource.GAMEPLAY, `Dialogue ${dialogueId} is invalid: ${(error as Error).message}`);
+      return false;
+    }
+
+    if (this.active) {
+      this.end();
+    }
+
+    this.conversations++;
+    logger.debug(LogSource.GAMEPLAY, `Dialogue started: ${dialogueId}`);
+    this.emit({ type: 'dialogue_started', dialogueId });
+    this.enter(graph, graph.start);
+    return true;
+  }
+
+  /**
+   * Continues past a line without choices, to its next node or the end of the conversation
+   * @returns True if the conversation moved on, false if none is active or a choice is required
+   */
+  public advance(): boolean {
+    if (!this.active) return false;
+
+    if (this.active.line.choices.length > 0) {
+      logger.debug(LogSource.GAMEPLAY, `Dialogue node ${this.active.nodeId} is waiting for a choice`);
+      return false;
+    }
+
+    const next = this.active.graph.nodes[this.active.nodeId].next;
+    if (next) {
+      this.enter(this.active.graph, next);
+    } else {
+      this.end();
+    }
+    return true;
+  }
+
+  /**
+   * Selects a choice of the current line, applying its effects and moving to its node
+   * @param choiceIndex - Position of the choice in the node
+   * @returns True if selected, false if no conversation is active or the choice is not offered
+   */
+  public choose(choiceIndex: number): boolean {
+    if (!this.active) return false;
+
+    const { graph, nodeId, line } = this.active;
+    const choice = graph.nodes[nodeId].choices?.[choiceIndex];
+    if (!choice || !line.choices.some(offered => offered.index === choiceIndex)) {
+      logger.warn(LogSource.GAMEPLAY, `Choice ${choiceIndex} is not offered at dialogue node ${nodeId}`);
+      return false;
+    }
+
+    this.choicesMade++;
+    this.emit({ type: 'choice_selected', dialogueId: graph.id, nodeId, choiceIndex, text: choice.text });
+    this.applyEffects(choice.effects);
+
+    if (choice.next) {
+      this.enter(graph, choice.next);
+    } else {
+      this.end();
+    }
+    return true;
+  }
+
+  /**
+   * Ends the conversation in progress
+   */
+  public end(): void {
+    if (!this.active) return;
+
+    const { graph, nodeId } = this.active;
+    this.active = null;
+    logger.debug(LogSource.GAMEPLAY, `Dialogue ended: ${graph.id}`);
+    this.emit({ type: 'dialogue_ended', dialogueId: graph.id, nodeId });
+  }
+
+  /**
+   * Checks whether a conversation is in progress
+   * @returns Whether a conversation is active
+   */
+  public isActive(): boolean {
+    return this.active !== null;
+  }
+
+  /**
+   * Gets the current line
+   * @returns Current line, or null if no conversation is active
+   */
+  public getCurrentLine(): DialogueLine | null {
+    return this.active?.line ?? null;
+  }
+
+  /**
+   * Sets a dialogue variable
+   * @param name - Variable name
+   * @param value - Variable value
+   */
+  public setVariable(name: string, value: DialogueValue): void {
+    this.variables.set(name, value);
+  }
+
+  /**
+   * Gets a dialogue variable
+   * @param name - Variable name
+   * @returns Variable value, or undefined if unset
+   */
+  public getVariable(name: string): DialogueValue | undefined {
+    return this.variables.get(name);
+  }
+
+  /**
+   * Checks a set of dialogue conditions
+   * @param conditions - Conditions that must all hold
+   * @returns Whether every condition holds
+   */
+  public checkConditions(conditions: DialogueCondition[] = []): boolean {
+    return conditions.every(condition => this.checkCondition(condition) !== Boolean(condition.negate));
+  }
+
+  /**
+   * Fills {var name} codes with dialogue variables; unknown variables are left for DialogSystem
+   * @param text - Line text
+   * @returns Text with variables substituted
+   */
+  public substitute(text: string): string {
+    return text.replace(/\{var ([^\s}]+)\}/g, (code, name: string) =>
+      this.variables.has(name) ? String(this.variables.get(name)) : code
+    );
+  }
+
+  /**
+   * Moves to a node, applying its effects and announcing its line
+   * @param graph - Graph being walked
+   * @param nodeId - Node to enter
+   */
+  private enter(graph: DialogueGraph, nodeId: string): void {
+    const node = graph.nodes[nodeId];
+
+    // Effects apply first so the line's choices and variables reflect them
+    this.applyEffects(node.effects);
+    const line = this.buildLine(graph.id, nodeId, node);
+    this.active = { graph, nodeId, line };
+    this.emit({ type: 'line', line });
+  }
+
+  /**
+   * Builds the line shown for a node
+   * @param dialogueId - Dialogue ID
+   * @param nodeId - Node ID
+   * @param node - Node definition
+   * @returns Line with available choices and DialogSystem text
+   */
+  private buildLine(dialogueId: string, nodeId: string, node: DialogueNode): DialogueLine {
+    const text = this.substitute(node.text);
+    const choices = (node.choices || [])
+      .map((choice, index) => ({ index, text: this.substitute(choice.text), conditions: choice.conditions }))
+      .filter(choice => this.checkConditions(choice.conditions))
+      .map(({ index, text }) => ({ index, text }));
+
+    // DialogSystem reads "{choice text value|text value}", taking the last word of each option as its value
+    const choiceCode = choices.length > 0
+      ? `{choice ${choices.map(choice => `${choice.text.replace(/[{}|]/g, '')} ${choice.index}`).join('|')}}`
+      : '';
+    const dialogText = `${node.speaker ? `${node.speaker}: ` : ''}${node.emotion ? `{emotion ${node.emotion}}` : ''}${text}${choiceCode}`;
+
+    return {
+      dialogueId,
+      nodeId,
+      speaker: node.speaker ?? null,
+      portrait: node.portrait ?? null,
+      emotion: node.emotion ?? null,
+      text,
+      choices,
+      dialogText
+    };
+  }
+
+  /**
+   * Checks a single dialogue condition, before negation
+   * @param condition - Condition to check
+   * @returns Whether the condition holds
+   */
+  private checkCondition(condition: DialogueCondition): boolean {
+    const key = condition.key ?? '';
+
+    switch (condition.type) {
+      case 'flag':
+        return this.interactions?.getStoryFlag(key) ?? false;
+
+      case 'item':
+        return this.countCarried(key) >= Number(condition.value ?? 1);
+
+      case 'level':
+        return this.getPlayerLevel() >= Number(condition.value ?? 1);
+
+      case 'quest':
+        return this.questSystem?.checkCondition(key) ?? false;
+
+      case 'variable':
+        return condition.value === undefined
+          ? Boolean(this.variables.get(key))
+          : this.variables.get(key) === condition.value;
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Applies dialogue effects in order
+   * @param effects - Effects to apply
+   */
+  private applyEffects(effects: DialogueEffect[] = []): void {
+    for (const effect of effects) {
+      const parameters = effect.parameters;
+
+      switch (effect.type) {
+        case 'SET_FLAG':
+          this.interactions?.setStoryFlag(parameters.flag, parameters.value ?? true);
+          break;
+
+        case 'GIVE_ITEM':
+          this.changeItem(parameters.itemId, parameters.quantity ?? 1);
+          break;
+
+        case 'TAKE_ITEM':
+          this.changeItem(parameters.itemId, -(parameters.quantity ?? 1));
+          break;
+
+        case 'GIVE_GOLD':
+          this.changeGold(parameters.amount);
+          break;
+
+        case 'TAKE_GOLD':
+          this.changeGold(-parameters.amount);
+          break;
+
+        case 'SET_VAR':
+          this.variables.set(parameters.name, parameters.value);
+          break;
+
+        case 'START_QUEST':
+          this.questSystem?.startQuest(parameters.questId);
+          break;
+
+        case 'COMPLETE_QUEST':
+          this.questSystem?.completeQuest(parameters.questId);
+          break;
+
+        default:
+          logger.warn(LogSource.GAMEPLAY, `Unknown dialogue effect: ${(effect as DialogueEffect).type}`);
+      }
+    }
+  }
+
+  /**
+   * Adds items to or removes items from the player's inventory, keeping interaction item checks in step
+   * @param itemId - Item ID
+   * @param amount - Quantity to add (negative to remove)
+   */
+  private changeItem(itemId: string, amount: number): void {
+    const inventory = this.getInventory();
+    if (!inventory) return;
+
+    const entry = inventory.items.find(item => item.itemId === itemId);
+    if (entry) {
+      entry.quantity = Math.max(0, entry.quantity + amount);
+    } else if (amount > 0) {
+      inventory.items.push({ itemId, quantity: amount });
+    }
+    inventory.items = inventory.items.filter(item => item.quantity > 0);
+    this.world!.updateComponent(this.playerId!, 'Inventory', inventory);
+
+    if (this.countCarried(itemId) > 0) {
+      this.interactions?.addItemToInventory(itemId);
+    } else {
+      this.interactions?.removeItemFromInventory(itemId);
+    }
+  }
+
+  /**
+   * Adds gold to or removes gold from the player's inventory, within the gold cap
+   * @param amount - Gold to add (negative to remove)
+   */
+  private changeGold(amount: number): void {
+    const inventory = this.getInventory();
+    if (!inventory) return;
+
+    inventory.gold = Math.max(0, Math.min(GAME_CONFIG.MAX_GOLD, inventory.gold + amount));
+    this.world!.updateComponent(this.playerId!, 'Inventory', inventory);
+  }
+
+  /**
+   * Gets the player's inventory
+   * @returns Inventory, or null if there is no player or inventory
+   */
+  private getInventory(): Inventory | null {
+    if (!this.world || this.playerId === null) return null;
+    return this.world.getComponent<Inventory>(this.playerId, 'Inventory') ?? null;
+  }
+
+  /**
+   * Counts how many of an item the player carries
+   * @param itemId - Item ID
+   * @returns Quantity carried
+   */
+  private countCarried(itemId: string): number {
+    return this.getInventory()?.items.find(entry => entry.itemId === itemId)?.quantity ?? 0;
+  }
+
+  /**
+   * Gets the player's level
+   * @returns Level from the player's stats, or 1 without them
+   */
+  private getPlayerLevel(): number {
+    if (!this.world || this.playerId === null) return 1;
+    return this.world.getComponent<CharacterStats>(this.playerId, 'CharacterStats')?.level ?? 1;
+  }
+
+  /**
+   * Sends an event to all listeners
+   * @param event - Dialogue event
+   */
+  private emit(event: DialogueEvent): void {
+    this.listeners.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        logger.error(LogSource.GAMEPLAY, `Dialogue event listener failed: ${error}`);
+      }
+    });
+  }
+
+  /**
+   * Gets dialogue statistics
+   * @returns Dialogue runner statistics
+   */
+  public getStats(): {
+    conversations: number;
+    choicesMade: number;
+    active: boolean;
+    listeners: number;
+  } {
+    return {
+      conversations: this.conversations,
+      choicesMade: this.choicesMade,
+      active: this.active !== null,
+      listeners: this.listeners.size
+    };
+  }
+
+  /**
+   * Disposes of the dialogue runner
+   */
+  public dispose(): void {
+    this.listeners.clear();
+    this.variables.clear();
+    this.active = null;
+    this.interactions = null;
+    this.questSystem = null;
+    this.world = null;
+    logger.info(LogSource.GAMEPLAY, 'DialogueRunner disposed');
+  }
+}
+
+export default DialogueRunner;
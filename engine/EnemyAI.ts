@@ -0,0 +1,462 @@
+/**
+ * Enemy AI
+ * @fileoverview Data-driven enemy behaviour profiles with weighted actions, conditions and target strategies
+ */
+
+import { WorldManager } from './WorldManager';
+import { logger, LogSource } from './GlobalLogger';
+import { EntityId, EnemyInfo, Health, MagicUser, StatusEffect, StatusEffects } from '../types';
+import { getEnemy, getSpell, getSkill } from '../data/GameData';
+import { RNG, globalRNG, weightedRandom } from '../utils/rng';
+
+/**
+ * Aggression used when an enemy has no ENEMIES_DATABASE entry
+ */
+const DEFAULT_AGGRESSION = 3;
+
+/**
+ * Highest aggression value in ENEMIES_DATABASE
+ */
+const MAX_AGGRESSION = 5;
+
+/**
+ * Health percentage below which the default profile turns cautious
+ */
+const LOW_HEALTH_PERCENT = 30;
+
+/**
+ * Relative chance of a front-row target being picked by the FRONT_ROW strategy
+ */
+const FRONT_ROW_TARGET_WEIGHT = 2;
+
+/**
+ * Actions an AI profile can choose
+ */
+export type AIActionType = 'ATTACK' | 'DEFEND' | 'SKILL' | 'FLEE';
+
+/**
+ * How an action picks its target from the eligible side
+ */
+export type AITargetStrategy = 'FRONT_ROW' | 'RANDOM' | 'LOWEST_HP' | 'HIGHEST_HP' | 'HEALER_FIRST';
+
+/**
+ * Conditions that must all hold for an action to be eligible
+ */
+export interface AICondition {
+  /** Actor health percentage is below this value */
+  hpBelow?: number;
+  /** Actor health percentage is at least this value */
+  hpAtLeast?: number;
+  /** Actor has at least this much MP */
+  mpAtLeast?: number;
+  /** Actor has this status effect */
+  hasStatus?: StatusEffect;
+  /** Actor does not have this status effect */
+  lacksStatus?: StatusEffect;
+  /** Actor has taken at least this many turns (1-based, including this one) */
+  minTurn?: number;
+  /** Only on every Nth turn of the actor */
+  everyNTurns?: number;
+  /** Some living ally (including the actor) is below this health percentage */
+  allyHpBelow?: number;
+}
+
+/**
+ * Weighted entry in a profile's action table
+ */
+export interface AIActionEntry {
+  /** Action to take */
+  action: AIActionType;
+  /** Relative weight among eligible entries */
+  weight: number;
+  /** Spell ID for SKILL actions */
+  skillId?: string;
+  /** Target strategy overriding the profile default */
+  target?: AITargetStrategy;
+  /** Conditions for this entry to be eligible */
+  when?: AICondition;
+}
+
+/**
+ * Enemy behaviour profile
+ */
+export interface AIProfile {
+  /** Profile identifier */
+  id: string;
+  /** Weighted action table */
+  actions: AIActionEntry[];
+  /** Default target strategy */
+  target: AITargetStrategy;
+}
+
+/**
+ * Living combatant visible to the AI
+ */
+export interface AICombatant {
+  /** Entity ID */
+  entityId: EntityId;
+  /** Battle row */
+  row: 'FRONT' | 'BACK';
+}
+
+/**
+ * Battlefield as seen by the acting enemy
+ */
+export interface AIContext {
+  /** Living combatants on the actor's side, including the actor */
+  allies: AICombatant[];
+  /** Living combatants on the opposing side */
+  opponents: AICombatant[];
+}
+
+/**
+ * Action chosen by the AI
+ */
+export interface AIDecision {
+  /** Chosen action */
+  action: AIActionType;
+  /** Target entity, or null when the action needs none or targets a whole side */
+  targetId: EntityId | null;
+  /** Spell ID for SKILL actions */
+  skillId?: string;
+  /** Profile that made the decision */
+  profileId: string;
+}
+
+/**
+ * Profiles available by archetype name
+ */
+const ARCHETYPE_PROFILES: AIProfile[] = [
+  {
+    id: 'brute',
+    target: 'LOWEST_HP',
+    actions: [{ action: 'ATTACK', weight: 1 }]
+  },
+  {
+    id: 'caster',
+    target: 'HEALER_FIRST',
+    actions: [
+      { action: 'SKILL', skillId: 'fire_1', weight: 60, when: { lacksStatus: StatusEffect.SILENCE } },
+      { action: 'ATTACK', weight: 40 }
+    ]
+  },
+  {
+    id: 'support',
+    target: 'FRONT_ROW',
+    actions: [
+      { action: 'SKILL', skillId: 'heal_1', weight: 80, target: 'LOWEST_HP', when: { allyHpBelow: 50 } },
+      { action: 'ATTACK', weight: 20 }
+    ]
+  }
+];
+
+/**
+ * Builds the default profile from an enemy's aggression (1 = timid, 5 = reckless)
+ * @param aggression - Aggression from EnemyDef.behavior
+ * @returns Default profile
+ */
+export function createDefaultProfile(aggression: number): AIProfile {
+  const level = Math.max(1, Math.min(MAX_AGGRESSION, aggression));
+  const caution = MAX_AGGRESSION - level;
+
+  return {
+    id: `default_${level}`,
+    target: 'FRONT_ROW',
+    actions: [
+      { action: 'ATTACK', weight: 100, when: { hpAtLeast: LOW_HEALTH_PERCENT } },
+      { action: 'ATTACK', weight: level * 10, when: { hpBelow: LOW_HEALTH_PERCENT } },
+      { action: 'DEFEND', weight: caution * 14, when: { hpBelow: LOW_HEALTH_PERCENT } },
+      { action: 'FLEE', weight: caution * 6, when: { hpBelow: LOW_HEALTH_PERCENT } }
+    ]
+  };
+}
+
+/**
+ * Builds an evenly weighted profile from an ability list (e.g. a boss phase's pool)
+ * @param abilities - Ability IDs; 'attack' maps to a basic attack, anything else to a spell or boss ability
+ * @returns Ability pool profile
+ */
+export function createAbilityPoolProfile(abilities: string[]): AIProfile {
+  return {
+    id: 'ability_pool',
+    target: 'FRONT_ROW',
+    actions: abilities.map(ability => ability === 'attack'
+      ? { action: 'ATTACK' as const, weight: 1 }
+      : { action: 'SKILL' as const, skillId: ability, weight: 1 })
+  };
+}
+
+/**
+ * Enemy AI
+ * Resolves a profile per enemy and picks actions and targets with a seedable RNG
+ */
+export class EnemyAI {
+  /** World manager reference */
+  private world: WorldManager | null = null;
+
+  /** Random source for action and target rolls */
+  private rng: RNG;
+
+  /** Registered profiles by enemy ID or archetype */
+  private profiles: Map<string, AIProfile> = new Map();
+
+  /** Turns taken per entity since the last reset */
+  private turnsTaken: Map<EntityId, number> = new Map();
+
+  /**
+   * Creates a new EnemyAI
+   * @param rng - Random source (pass a seeded RNG for reproducible battles)
+   */
+  constructor(rng: RNG = globalRNG) {
+    this.rng = rng;
+    ARCHETYPE_PROFILES.forEach(profile => this.registerProfile(profile.id, profile));
+    logger.info(LogSource.COMBAT, 'EnemyAI initialized');
+  }
+
+  /**
+   * Sets the world manager reference
+   * @param world - World manager instance
+   */
+  public setWorld(world: WorldManager): void {
+    this.world = world;
+  }
+
+  /**
+   * Replaces the random source
+   * @param rng - Random source
+   */
+  public setRNG(rng: RNG): void {
+    this.rng = rng;
+  }
+
+  /**
+   * Registers a profile for an enemy ID or archetype
+   * @param key - Enemy ID or archetype name
+   * @param profile - Behaviour profile
+   */
+  public registerProfile(key: string, profile: AIProfile): void {
+    if (this.profiles.has(key)) {
+      logger.warn(LogSource.COMBAT, `AI profile ${key} already registered, overwriting`);
+    }
+    this.profiles.set(key, profile);
+  }
+
+  /**
+   * Gets a registered profile
+   * @param key - Enemy ID or archetype name
+   * @returns Profile or null
+   */
+  public getProfile(key: string): AIProfile | null {
+    return this.profiles.get(key) || null;
+  }
+
+  /**
+   * Resolves an entity's profile: enemy ID, then archetype, then the aggression-based default
+   * @param entityId - Enemy entity ID
+   * @returns Behaviour profile
+   */
+  public resolveProfile(entityId: EntityId): AIProfile {
+    const info = this.world?.getComponent<EnemyInfo>(entityId, 'EnemyInfo');
+    if (!info) return createDefaultProfile(DEFAULT_AGGRESSION);
+
+    const profile = this.profiles.get(info.enemyId) || (info.archetype ? this.profiles.get(info.archetype) : undefined);
+    if (profile) return profile;
+
+    return createDefaultProfile(getEnemy(info.enemyId)?.behavior.aggression ?? DEFAULT_AGGRESSION);
+  }
+
+  /**
+   * Chooses an action for an enemy's turn
+   * @param entityId - Acting entity ID
+   * @param context - Living allies and opponents
+   * @param profile - Profile to use (defaults to the entity's resolved profile)
+   * @returns Decision, or null if no action is possible
+   */
+  public decide(entityId: EntityId, context: AIContext, profile: AIProfile = this.resolveProfile(entityId)): AIDecision | null {
+    const turn = (this.turnsTaken.get(entityId) || 0) + 1;
+    this.turnsTaken.set(entityId, turn);
+
+    const options: Array<{ item: AIDecision; weight: number }> = [];
+    for (const entry of profile.actions) {
+      if (entry.weight <= 0 || !this.meetsConditions(entityId, entry.when, turn, context)) continue;
+
+      const decision = this.buildDecision(entityId, entry, profile, context);
+      if (decision) {
+        options.push({ item: decision, weight: entry.weight });
+      }
+    }
+
+    if (options.length === 0) {
+      logger.debug(LogSource.COMBAT, `Enemy ${entityId} has no eligible action in profile ${profile.id}`);
+      return null;
+    }
+
+    return weightedRandom(options, this.rng);
+  }
+
+  /**
+   * Checks an entry's conditions against the actor
+   * @param entityId - Acting entity ID
+   * @param condition - Conditions, if any
+   * @param turn - Actor's current turn number
+   * @param context - Battlefield context
+   * @returns True if every condition holds
+   */
+  private meetsConditions(entityId: EntityId, condition: AICondition | undefined, turn: number, context: AIContext): boolean {
+    if (!condition) return true;
+
+    const hp = this.getHealthPercent(entityId);
+    if (condition.hpBelow !== undefined && !(hp < condition.hpBelow)) return false;
+    if (condition.hpAtLeast !== undefined && !(hp >= condition.hpAtLeast)) return false;
+
+    if (condition.mpAtLeast !== undefined) {
+      const mana = this.world?.getComponent<MagicUser>(entityId, 'MagicUser')?.currentMana || 0;
+      if (mana < condition.mpAtLeast) return false;
+    }
+
+    const active = this.world?.getComponent<StatusEffects>(entityId, 'StatusEffects')?.active || {};
+    if (condition.hasStatus && !active[condition.hasStatus]) return false;
+    if (condition.lacksStatus && active[condition.lacksStatus]) return false;
+
+    if (condition.minTurn !== undefined && turn < condition.minTurn) return false;
+    if (condition.everyNTurns !== undefined && turn % condition.everyNTurns !== 0) return false;
+
+    if (condition.allyHpBelow !== undefined &&
+        !context.allies.some(ally => this.getHealthPercent(ally.entityId) < condition.allyHpBelow!)) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Turns an action entry into a concrete decision
+   * @param entityId - Acting entity ID
+   * @param entry - Action entry
+   * @param profile - Owning profile
+   * @param context - Battlefield context
+   * @returns Decision, or null if the entry cannot be used now
+   */
+  private buildDecision(entityId: EntityId, entry: AIActionEntry, profile: AIProfile, context: AIContext): AIDecision | null {
+    const strategy = entry.target || profile.target;
+    const decision: AIDecision = { action: entry.action, targetId: null, profileId: profile.id };
+
+    switch (entry.action) {
+      case 'ATTACK':
+        decision.targetId = this.selectTarget(context.opponents, strategy);
+        return decision.targetId === null ? null : decision;
+
+      case 'SKILL': {
+        const spell = entry.skillId ? getSkill(entry.skillId) : null;
+        if (!spell) return null;
+
+        const mana = this.world?.getComponent<MagicUser>(entityId, 'MagicUser')?.currentMana || 0;
+        if (mana < spell.mpCost) return null;
+
+        decision.skillId = spell.id;
+        if (spell.target === 'ENEMY') {
+          decision.targetId = this.selectTarget(context.opponents, strategy);
+          return decision.targetId === null ? null : decision;
+        }
+        if (spell.target === 'ALLY') {
+          decision.targetId = this.selectTarget(context.allies, strategy);
+          return decision.targetId === null ? null : decision;
+        }
+        return decision;
+      }
+
+      default:
+        return decision;
+    }
+  }
+
+  /**
+   * Picks a target from candidates using a strategy
+   * @param candidates - Living candidates
+   * @param strategy - Target strategy
+   * @returns Target entity ID or null if there are no candidates
+   */
+  private selectTarget(candidates: AICombatant[], strategy: AITargetStrategy): EntityId | null {
+    if (candidates.length === 0) return null;
+
+    switch (strategy) {
+      case 'RANDOM':
+        return this.rng.randomChoice(candidates).entityId;
+
+      case 'LOWEST_HP':
+        return candidates.reduce((best, c) =>
+          this.getHealthPercent(c.entityId) < this.getHealthPercent(best.entityId) ? c : best).entityId;
+
+      case 'HIGHEST_HP':
+        return candidates.reduce((best, c) =>
+          this.getHealthPercent(c.entityId) > this.getHealthPercent(best.entityId) ? c : best).entityId;
+
+      case 'HEALER_FIRST': {
+        const healers = candidates.filter(c => this.isHealer(c.entityId));
+        return this.selectTarget(healers.length > 0 ? healers : candidates, 'FRONT_ROW');
+      }
+
+      case 'FRONT_ROW':
+      default:
+        return weightedRandom(candidates.map(c => ({
+          item: c.entityId,
+          weight: c.row === 'FRONT' ? FRONT_ROW_TARGET_WEIGHT : 1
+        })), this.rng);
+    }
+  }
+
+  /**
+   * Checks whether an entity knows a healing spell
+   * @param entityId - Entity ID
+   * @returns True if the entity can heal
+   */
+  private isHealer(entityId: EntityId): boolean {
+    const magicUser = this.world?.getComponent<MagicUser>(entityId, 'MagicUser');
+    if (!magicUser) return false;
+
+    return Object.values(magicUser.knownSpells).some(spells => spells.some(id => getSpell(id)?.type === 'HEAL'));
+  }
+
+  /**
+   * Gets an entity's health percentage
+   * @param entityId - Entity ID
+   * @returns Health percentage (0-100), or 0 without a Health component
+   */
+  private getHealthPercent(entityId: EntityId): number {
+    const health = this.world?.getComponent<Health>(entityId, 'Health');
+    return health && health.max > 0 ? (health.current / health.max) * 100 : 0;
+  }
+
+  /**
+   * Clears per-battle state such as turn counts
+   */
+  public reset(): void {
+    this.turnsTaken.clear();
+  }
+
+  /**
+   * Gets AI statistics
+   * @returns Enemy AI statistics
+   */
+  public getStats(): {
+    registeredProfiles: number;
+    trackedEntities: number;
+  } {
+    return {
+      registeredProfiles: this.profiles.size,
+      trackedEntities: this.turnsTaken.size
+    };
+  }
+
+  /**
+   * Disposes of the enemy AI
+   */
+  public dispose(): void {
+    this.profiles.clear();
+    this.turnsTaken.clear();
+    this.world = null;
+    logger.info(LogSource.COMBAT, 'EnemyAI disposed');
+  }
+}
+
+export default EnemyAI;
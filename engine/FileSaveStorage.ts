@@ -0,0 +1,62 @@
+/**
+ * File Save Storage
+ * @fileoverview Filesystem save backend for Node tooling (kept apart from SaveStorage so browser bundles never import fs)
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { SaveStorage } from './SaveStorage';
+
+/**
+ * Stores each key as a JSON file in one directory
+ */
+export class FileSaveStorage implements SaveStorage {
+  public readonly name = 'file';
+
+  /** Directory holding the save files */
+  private readonly directory: string;
+
+  /**
+   * Creates a new FileSaveStorage instance
+   * @param directory - Directory holding the save files (created on first write)
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  public async getItem(key: string): Promise<string | null> {
+    try {
+      return await fs.readFile(this.getPath(key), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  public async setItem(key: string, value: string): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write next to the target and rename, so a crash never leaves a half-written save
+    const target = this.getPath(key);
+    const temporary = `${target}.tmp`;
+    await fs.writeFile(temporary, value, 'utf8');
+    await fs.rename(temporary, target);
+  }
+
+  public async removeItem(key: string): Promise<void> {
+    await fs.rm(this.getPath(key), { force: true });
+  }
+
+  /**
+   * Gets the file path for a key
+   * @param key - Storage key
+   * @returns Path inside the storage directory
+   */
+  private getPath(key: string): string {
+    return path.join(this.directory, `${key.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+  }
+}
+
+export default FileSaveStorage;
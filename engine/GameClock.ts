@@ -0,0 +1,391 @@
+/**
+ * Game Clock
+ * @fileoverview In-game time of day advanced by fixed updates, with day periods, time scale, menu pauses and lighting tint
+ */
+
+import { logger, LogSource } from './GlobalLogger';
+import { DayPeriod } from '../types';
+
+/** Minutes in one in-game day */
+export const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Game clock configuration
+ */
+export interface GameClockConfig {
+  /** In-game minutes that pass per real second at time scale 1 (default: 1, a 24 minute day) */
+  minutesPerSecond?: number;
+  /** In-game minutes elapsed when the clock is created (default: 08:00 on day 1) */
+  startMinutes?: number;
+}
+
+/**
+ * Point in in-game time
+ */
+export interface GameTime {
+  /** Minutes elapsed since 00:00 on day 1 */
+  totalMinutes: number;
+  /** Day number, starting at 1 */
+  day: number;
+  /** Hour of the day (0-23) */
+  hour: number;
+  /** Minute of the hour (0-59) */
+  minute: number;
+  /** Part of the day */
+  period: DayPeriod;
+}
+
+/**
+ * Clock event emitted to listeners
+ */
+export type GameClockEvent =
+  | { type: 'hour_changed'; time: GameTime }
+  | { type: 'period_changed'; time: GameTime; previous: DayPeriod }
+  | { type: 'day_changed'; time: GameTime };
+
+/**
+ * Hour each day period begins, in order through the day
+ */
+const DAY_PERIODS: Array<{ period: DayPeriod; startHour: number }> = [
+  { period: 'night', startHour: 0 },
+  { period: 'dawn', startHour: 5 },
+  { period: 'day', startHour: 7 },
+  { period: 'dusk', startHour: 18 },
+  { period: 'night', startHour: 20 }
+];
+
+/**
+ * Ambient light by hour (0xRRGGBB), interpolated between keyframes
+ */
+const TINT_KEYFRAMES: Array<{ hour: number; color: number }> = [
+  { hour: 0, color: 0x4C5A96 },
+  { hour: 5, color: 0x4C5A96 },
+  { hour: 6, color: 0xFFC8A0 },
+  { hour: 8, color: 0xFFFFFF },
+  { hour: 17, color: 0xFFFFFF },
+  { hour: 19, color: 0xFF9C6E },
+  { hour: 20.5, color: 0x4C5A96 },
+  { hour: 24, color: 0x4C5A96 }
+];
+
+/**
+ * Game Clock
+ * Advances in-game time on each fixed update unless paused, and answers time of day conditions
+ */
+export class GameClock {
+  /** Clock configuration */
+  private config: Required<GameClockConfig>;
+
+  /** In-game minutes elapsed since 00:00 on day 1 */
+  private minutes: number;
+
+  /** Multiplier on the passage of time */
+  private timeScale: number = 1;
+
+  /** Reasons the clock is paused (e.g. open menus) */
+  private pauseReasons: Set<string> = new Set();
+
+  /** Event listeners */
+  private listeners: Set<(event: GameClockEvent) => void> = new Set();
+
+  /**
+   * Creates a new GameClock instance
+   * @param config - Optional configuration
+   */
+  constructor(config: GameClockConfig = {}) {
+    this.config = {
+      minutesPerSecond: 1,
+      startMinutes: 8 * 60,
+      ...config
+    };
+    this.minutes = Math.max(0, this.config.startMinutes);
+
+    logger.info(LogSource.GAMEPLAY, `GameClock initialized at ${this.format()}`);
+  }
+
+  /**
+   * Advances the clock by one fixed update
+   * @param deltaTime - Real time elapsed in seconds
+   */
+  public update(deltaTime: number): void {
+    if (this.isPaused() || this.timeScale === 0) return;
+
+    this.advance(deltaTime * this.config.minutesPerSecond * this.timeScale);
+  }
+
+  /**
+   * Moves time forward regardless of pause state and time scale
+   * @param minutes - In-game minutes to add
+   */
+  public advance(minutes: number): void {
+    if (!(minutes > 0)) return;
+
+    const before = this.getTime();
+    this.minutes += minutes;
+    const after = this.getTime();
+
+    if (after.day !== before.day) {
+      this.emit({ type: 'day_changed', time: after });
+    }
+    if (after.period !== before.period) {
+      this.emit({ type: 'period_changed', time: after, previous: before.period });
+    }
+    if (after.hour !== before.hour || after.day !== before.day) {
+      this.emit({ type: 'hour_changed', time: after });
+    }
+  }
+
+  /**
+   * Moves time forward to the next occurrence of a time of day
+   * @param hour - Target hour (0-23)
+   * @param minute - Target minute (0-59)
+   */
+  public advanceTo(hour: number, minute: number = 0): void {
+    const target = (hour * 60 + minute) % MINUTES_PER_DAY;
+    const current = this.minutes % MINUTES_PER_DAY;
+    const wait = (target - current + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+
+    this.advance(wait === 0 ? MINUTES_PER_DAY : wait);
+  }
+
+  /**
+   * Gets the current in-game time
+   * @returns Current time
+   */
+  public getTime(): GameTime {
+    const whole = Math.floor(this.minutes);
+    const minuteOfDay = whole % MINUTES_PER_DAY;
+    const hour = Math.floor(minuteOfDay / 60);
+
+    return {
+      totalMinutes: whole,
+      day: Math.floor(whole / MINUTES_PER_DAY) + 1,
+      hour,
+      minute: minuteOfDay % 60,
+      period: GameClock.periodAt(hour)
+    };
+  }
+
+  /**
+   * Gets the current part of the day
+   * @returns Day period
+   */
+  public getPeriod(): DayPeriod {
+    return this.getTime().period;
+  }
+
+  /**
+   * Formats the current time as HH:MM
+   * @returns Formatted time
+   */
+  public format(): string {
+    const { hour, minute } = this.getTime();
+    return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+  }
+
+  /**
+   * Checks whether the time of day lies in a range
+   * Ranges wrap past midnight when the end is before the start (e.g. 20-6)
+   * @param startHour - Start hour, inclusive (fractions allowed)
+   * @param endHour - End hour, exclusive (fractions allowed)
+   * @returns Whether the current time is in range
+   */
+  public isBetween(startHour: number, endHour: number): boolean {
+    const current = (this.minutes % MINUTES_PER_DAY) / 60;
+
+    if (startHour === endHour) return true;
+    if (startHour < endHour) return current >= startHour && current < endHour;
+    return current >= startHour || current < endHour;
+  }
+
+  /**
+   * Evaluates a time condition
+   * Accepts a day period ('night') or an hour range ('8-20', '8:30-20', '20-6')
+   * @param value - Condition value
+   * @returns Whether the condition holds, false if it cannot be parsed
+   */
+  public checkCondition(value: string | number | boolean): boolean {
+    const condition = String(value).trim();
+
+    if (DAY_PERIODS.some(({ period }) => period === condition)) {
+      return this.getPeriod() === condition;
+    }
+
+    const [start, end, ...rest] = condition.split('-').map(GameClock.parseHour);
+    if (start === null || end === null || start === undefined || end === undefined || rest.length > 0) {
+      logger.warn(LogSource.GAMEPLAY, `Unrecognized time condition: ${condition}`);
+      return false;
+    }
+
+    return this.isBetween(start, end);
+  }
+
+  /**
+   * Gets the ambient light color for the current time of day
+   * @returns Tint color (0xRRGGBBAA), white at midday
+   */
+  public getTint(): number {
+    const hour = (this.minutes % MINUTES_PER_DAY) / 60;
+    const next = TINT_KEYFRAMES.findIndex(keyframe => keyframe.hour > hour);
+    const to = TINT_KEYFRAMES[next === -1 ? TINT_KEYFRAMES.length - 1 : next];
+    const from = TINT_KEYFRAMES[next <= 0 ? 0 : next - 1];
+    const t = to.hour === from.hour ? 0 : (hour - from.hour) / (to.hour - from.hour);
+
+    const channel = (shift: number): number => {
+      const a = (from.color >> shift) & 0xFF;
+      const b = (to.color >> shift) & 0xFF;
+      return Math.round(a + (b - a) * t);
+    };
+
+    return ((channel(16) << 24) | (channel(8) << 16) | (channel(0) << 8) | 0xFF) >>> 0;
+  }
+
+  /**
+   * Sets how fast time passes
+   * @param scale - Multiplier on the passage of time (0 stops it)
+   */
+  public setTimeScale(scale: number): void {
+    this.timeScale = Math.max(0, Number.isFinite(scale) ? scale : 1);
+    logger.debug(LogSource.GAMEPLAY, `Time scale set to ${this.timeScale}`);
+  }
+
+  /**
+   * Gets how fast time passes
+   * @returns Time scale
+   */
+  public getTimeScale(): number {
+    return this.timeScale;
+  }
+
+  /**
+   * Stops the clock until every pause reason is released
+   * @param reason - Why the clock is paused (e.g. 'menu', 'dialog')
+   */
+  public pause(reason: string = 'menu'): void {
+    this.pauseReasons.add(reason);
+  }
+
+  /**
+   * Releases a pause reason
+   * @param reason - Reason given to pause()
+   */
+  public resume(reason: string = 'menu'): void {
+    this.pauseReasons.delete(reason);
+  }
+
+  /**
+   * Gets whether the clock is paused
+   * @returns Whether any pause reason is held
+   */
+  public isPaused(): boolean {
+    return this.pauseReasons.size > 0;
+  }
+
+  /**
+   * Subscribes to clock events
+   * @param callback - Called for each event
+   * @returns Unsubscribe function
+   */
+  public subscribe(callback: (event: GameClockEvent) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Gets the clock state for a save
+   * @returns In-game minutes elapsed
+   */
+  public serialize(): number {
+    return this.minutes;
+  }
+
+  /**
+   * Restores the clock from a save, ignoring invalid values
+   * @param minutes - In-game minutes elapsed
+   */
+  public restore(minutes: unknown): void {
+    if (typeof minutes !== 'number' || !Number.isFinite(minutes) || minutes < 0) {
+      logger.warn(LogSource.GAMEPLAY, `Ignoring invalid saved game time: ${minutes}`);
+      return;
+    }
+
+    this.minutes = minutes;
+    logger.debug(LogSource.GAMEPLAY, `Game time restored to day ${this.getTime().day}, ${this.format()}`);
+  }
+
+  /**
+   * Gets the day period an hour falls in
+   * @param hour - Hour of the day (0-23)
+   * @returns Day period
+   */
+  public static periodAt(hour: number): DayPeriod {
+    let period: DayPeriod = 'night';
+    for (const entry of DAY_PERIODS) {
+      if (hour >= entry.startHour) period = entry.period;
+    }
+    return period;
+  }
+
+  /**
+   * Parses 'H' or 'H:MM' into fractional hours
+   * @param text - Time text
+   * @returns Hours, or null if invalid
+   */
+  private static parseHour(text: string): number | null {
+    const match = /^(\d{1,2})(?::(\d{2}))?$/.exec(text.trim());
+    if (!match) return null;
+
+    const hours = Number(match[1]);
+    const minutes = match[2] ? Number(match[2]) : 0;
+    if (hours > 24 || minutes > 59) return null;
+
+    return hours + minutes / 60;
+  }
+
+  /**
+   * Notifies listeners of an event
+   * @param event - Clock event
+   */
+  private emit(event: GameClockEvent): void {
+    this.listeners.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        logger.error(LogSource.GAMEPLAY, `Clock event listener failed: ${error}`);
+      }
+    });
+  }
+
+  /**
+   * Gets clock statistics
+   * @returns Game clock statistics
+   */
+  public getStats(): {
+    totalMinutes: number;
+    timeScale: number;
+    paused: boolean;
+    pauseReasons: string[];
+    listeners: number;
+  } {
+    return {
+      totalMinutes: this.minutes,
+      timeScale: this.timeScale,
+      paused: this.isPaused(),
+      pauseReasons: [...this.pauseReasons],
+      listeners: this.listeners.size
+    };
+  }
+
+  /**
+   * Disposes of the game clock
+   */
+  public dispose(): void {
+    this.listeners.clear();
+    this.pauseReasons.clear();
+    logger.info(LogSource.GAMEPLAY, 'GameClock disposed');
+  }
+}
+
+export default GameClock;
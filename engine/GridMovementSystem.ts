@@ -4,7 +4,9 @@
  */
 
 import { WorldManager } from './WorldManager';
-import { EntityId, Position, Collision, Tile, GameMap, Rectangle } from '../types';
+import { StatusEffectSystem } from './StatusEffectSystem';
+import type { CutsceneRunner } from './CutsceneRunner';
+import { EntityId, Position, Collision, Tile, GameMap, Rectangle, Facing } from '../types';
 import { logger, LogSource } from './GlobalLogger';
 
 /**
@@ -93,6 +95,12 @@ export class GridMovementSystem {
   /** World manager reference */
   private world: WorldManager | null = null;
 
+  /** Status effect system for per-step effects */
+  private statusEffects: StatusEffectSystem | null = null;
+
+  /** Cutscene runner played by cutscene trigger tiles */
+  private cutscenes: CutsceneRunner | null = null;
+
   /**
    * Creates a new GridMovementSystem
    * @param config - Movement configuration
@@ -118,6 +126,22 @@ export class GridMovementSystem {
     this.world = world;
   }
 
+  /**
+   * Sets the status effect system used for per-step effects such as poison
+   * @param statusEffects - Status effect system instance
+   */
+  public setStatusEffectSystem(statusEffects: StatusEffectSystem): void {
+    this.statusEffects = statusEffects;
+  }
+
+  /**
+   * Sets the cutscene runner played by cutscene trigger tiles
+   * @param cutscenes - Cutscene runner instance
+   */
+  public setCutsceneRunner(cutscenes: CutsceneRunner): void {
+    this.cutscenes = cutscenes;
+  }
+
   /**
    * Loads a game map into the grid system
    * @param map - Game map to load
@@ -187,6 +211,11 @@ export class GridMovementSystem {
       return { success: false, newPosition: { x: 0, y: 0 }, reason: 'collision' };
     }
 
+    // Turn toward the move even when it is blocked
+    if (this.world.hasComponent(entityId, 'Facing')) {
+      this.world.updateComponent<Facing>(entityId, 'Facing', { direction });
+    }
+
     // Calculate target position
     const targetPos = this.getTargetPosition(position, direction);
     
@@ -220,6 +249,12 @@ export class GridMovementSystem {
       this.startMovementAnimation(entityId, oldPos, targetPos, direction);
     }
 
+    // Apply per-step status effects
+    const stepDamage = this.statusEffects?.onStep(entityId) || 0;
+    if (stepDamage > 0) {
+      logger.debug(LogSource.PHYSICS, `Entity ${entityId} took ${stepDamage} step damage`);
+    }
+
     logger.debug(LogSource.PHYSICS, `Entity ${entityId} moved to ${targetPos.x},${targetPos.y}`);
 
     return { success: true, newPosition: targetPos };
@@ -425,6 +460,9 @@ export class GridMovementSystem {
       case 'teleport':
         // Handle teleportation
         break;
+      case 'cutscene':
+        this.cutscenes?.play(cell.properties.cutsceneId as string, entityId);
+        break;
     }
   }
 
@@ -563,6 +601,7 @@ export class GridMovementSystem {
     this.movementStates.clear();
     this.gameMap = null;
     this.world = null;
+    this.statusEffects = null;
 
     logger.info(LogSource.PHYSICS, 'GridMovementSystem disposed');
   }
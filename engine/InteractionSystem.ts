@@ -5,6 +5,13 @@
 
 import { WorldManager } from './WorldManager';
 import { logger, LogSource } from './GlobalLogger';
+import type { QuestSystem } from './QuestSystem';
+import type { GameClock } from './GameClock';
+import type { ShopSystem } from './ShopSystem';
+import type { RestSystem } from './RestSystem';
+import type { DialogueRunner } from './DialogueRunner';
+import type { CutsceneRunner } from './CutsceneRunner';
+import type { CombatSystem } from './CombatSystem';
 import { EntityId, Position, Health } from '../types';
 
 /**
@@ -47,7 +54,7 @@ export enum InteractionCondition {
   REQUIRES_LEVEL = 'REQUIRES_LEVEL',
   /** Requires specific quest state */
   REQUIRES_QUEST = 'REQUIRES_QUEST',
-  /** Time of day */
+  /** Time of day, as a day period ('night') or hour range ('8-20') */
   REQUIRES_TIME = 'REQUIRES_TIME',
   /** Custom condition function */
   CUSTOM = 'CUSTOM'
@@ -89,7 +96,7 @@ export interface Interaction {
  * Interaction action types
  */
 export enum InteractionActionType {
-  /** Show dialog */
+  /** Show dialog: flat { text }, or a dialogue graph with { dialogueId } */
   DIALOG = 'DIALOG',
   /** Give item to player */
   GIVE_ITEM = 'GIVE_ITEM',
@@ -107,6 +114,12 @@ export enum InteractionActionType {
   START_QUEST = 'START_QUEST',
   /** Complete quest */
   COMPLETE_QUEST = 'COMPLETE_QUEST',
+  /** Open a location's shop */
+  OPEN_SHOP = 'OPEN_SHOP',
+  /** Stay at a location's inn */
+  REST = 'REST',
+  /** Play a cutscene */
+  PLAY_CUTSCENE = 'PLAY_CUTSCENE',
   /** Heal player */
   HEAL = 'HEAL',
   /** Save game */
@@ -172,6 +185,27 @@ export class InteractionSystem {
   /** Player level */
   private playerLevel: number = 1;
 
+  /** Quest system for quest conditions, quest actions and talk objectives */
+  private questSystem: QuestSystem | null = null;
+
+  /** Game clock for time of day conditions */
+  private clock: GameClock | null = null;
+
+  /** Shop system opened by shop actions */
+  private shopSystem: ShopSystem | null = null;
+
+  /** Rest system used by inn actions */
+  private restSystem: RestSystem | null = null;
+
+  /** Dialogue runner for DIALOG actions that start a dialogue graph */
+  private dialogueRunner: DialogueRunner | null = null;
+
+  /** Cutscene runner for cutscene actions; interactions are blocked while one plays */
+  private cutsceneRunner: CutsceneRunner | null = null;
+
+  /** Combat system that START_BATTLE actions and cutscene battles start */
+  private combatSystem: CombatSystem | null = null;
+
   /**
    * Creates a new InteractionSystem instance
    */
@@ -196,6 +230,62 @@ export class InteractionSystem {
     logger.debug(LogSource.GAMEPLAY, `Player entity set to ${playerId}`);
   }
 
+  /**
+   * Sets the quest system
+   * @param questSystem - Quest system instance
+   */
+  public setQuestSystem(questSystem: QuestSystem): void {
+    this.questSystem = questSystem;
+  }
+
+  /**
+   * Sets the game clock
+   * @param clock - Game clock instance
+   */
+  public setClock(clock: GameClock): void {
+    this.clock = clock;
+  }
+
+  /**
+   * Sets the shop system
+   * @param shopSystem - Shop system instance
+   */
+  public setShopSystem(shopSystem: ShopSystem): void {
+    this.shopSystem = shopSystem;
+  }
+
+  /**
+   * Sets the rest system
+   * @param restSystem - Rest system instance
+   */
+  public setRestSystem(restSystem: RestSystem): void {
+    this.restSystem = restSystem;
+  }
+
+  /**
+   * Sets the dialogue runner
+   * @param dialogueRunner - Dialogue runner instance
+   */
+  public setDialogueRunner(dialogueRunner: DialogueRunner): void {
+    this.dialogueRunner = dialogueRunner;
+  }
+
+  /**
+   * Sets the cutscene runner
+   * @param cutsceneRunner - Cutscene runner instance
+   */
+  public setCutsceneRunner(cutsceneRunner: CutsceneRunner): void {
+    this.cutsceneRunner = cutsceneRunner;
+  }
+
+  /**
+   * Sets the combat system
+   * @param combatSystem - Combat system instance
+   */
+  public setCombatSystem(combatSystem: CombatSystem): void {
+    this.combatSystem = combatSystem;
+  }
+
   /**
    * Sets interaction range multiplier
    * @param multiplier - Range multiplier
@@ -251,6 +341,22 @@ export class InteractionSystem {
     return this.playerInventory.has(itemId);
   }
 
+  /**
+   * Uses an item from the field menu
+   * Camp items (bedroll, tent, pavilion) make camp through the rest system.
+   * @param itemId - Item ID
+   * @param locationId - Location the party is at
+   * @returns Whether the item was used
+   */
+  public useItem(itemId: string, locationId: string): boolean {
+    if (this.restSystem?.isCampItem(itemId)) {
+      return this.restSystem.camp(locationId, itemId).success;
+    }
+
+    logger.debug(LogSource.GAMEPLAY, `Item ${itemId} has no field use`);
+    return false;
+  }
+
   /**
    * Sets player level
    * @param level - Player level
@@ -303,7 +409,12 @@ export class InteractionSystem {
    * @returns Whether interaction was successful
    */
   public interact(): boolean {
-    if (!this.world || !this.playerId) return false;
+    if (!this.world || this.playerId === null) return false;
+
+    if (this.cutsceneRunner?.isPlaying()) {
+      logger.debug(LogSource.GAMEPLAY, 'Interactions are blocked during cutscenes');
+      return false;
+    }
 
     // Sort interactions by priority and distance
     const sortedInteractions = this.availableInteractions
@@ -461,6 +572,14 @@ export class InteractionSystem {
           conditionMet = this.playerLevel >= (condition.value as number);
           break;
 
+        case InteractionCondition.REQUIRES_QUEST:
+          conditionMet = this.questSystem?.checkCondition(condition.value as string) ?? false;
+          break;
+
+        case InteractionCondition.REQUIRES_TIME:
+          conditionMet = this.clock?.checkCondition(condition.value) ?? false;
+          break;
+
         case InteractionCondition.CUSTOM:
           if (interaction.customCondition) {
             conditionMet = interaction.customCondition(playerId, entityId);
@@ -499,6 +618,11 @@ export class InteractionSystem {
       interaction.used = true;
     }
 
+    // Count the conversation before actions run, so a turn-in can follow a talk objective
+    if (interaction.type === InteractionType.TALK) {
+      this.questSystem?.recordTalk(interaction.id);
+    }
+
     // Execute actions
     this.executeInteractionActions(entityId, interaction);
   }
@@ -531,7 +655,11 @@ export class InteractionSystem {
 
     switch (action.type) {
       case InteractionActionType.DIALOG:
-        this.showDialog(action.parameters.text);
+        if (action.parameters.dialogueId) {
+          this.dialogueRunner?.start(action.parameters.dialogueId);
+        } else {
+          this.showDialog(action.parameters.text);
+        }
         break;
 
       case InteractionActionType.GIVE_ITEM:
@@ -555,6 +683,26 @@ export class InteractionSystem {
         this.startBattle(action.parameters.enemyIds);
         break;
 
+      case InteractionActionType.START_QUEST:
+        this.questSystem?.startQuest(action.parameters.questId);
+        break;
+
+      case InteractionActionType.COMPLETE_QUEST:
+        this.questSystem?.completeQuest(action.parameters.questId);
+        break;
+
+      case InteractionActionType.OPEN_SHOP:
+        this.shopSystem?.openShop(action.parameters.shopId);
+        break;
+
+      case InteractionActionType.REST:
+        this.restSystem?.restAtInn(action.parameters.locationId, { savePrompt: action.parameters.savePrompt });
+        break;
+
+      case InteractionActionType.PLAY_CUTSCENE:
+        this.cutsceneRunner?.play(action.parameters.cutsceneId);
+        break;
+
       case InteractionActionType.HEAL:
         this.healPlayer(action.parameters.amount || 999);
         break;
@@ -564,7 +712,7 @@ export class InteractionSystem {
         break;
 
       case InteractionActionType.CUSTOM:
-        if (action.customAction && this.playerId) {
+        if (action.customAction && this.playerId !== null) {
           action.customAction(this.playerId, entityId);
         }
         break;
@@ -643,7 +791,7 @@ export class InteractionSystem {
    * @param y - Target Y position
    */
   private teleportPlayer(x: number, y: number): void {
-    if (!this.world || !this.playerId) return;
+    if (!this.world || this.playerId === null) return;
 
     const position = this.world.getComponent<Position>(this.playerId, 'Position');
     if (position) {
@@ -655,12 +803,33 @@ export class InteractionSystem {
   }
 
   /**
-   * Starts battle with enemies
-   * @param enemyIds - Array of enemy entity IDs
+   * Starts a battle between the player's party and newly spawned enemies
+   * Enemies are spawned at the player's position; unknown enemy IDs are skipped.
+   * @param enemyIds - Enemy definition IDs
+   * @returns Whether combat started
    */
-  private startBattle(enemyIds: string[]): void {
-    logger.debug(LogSource.GAMEPLAY, `Starting battle with enemies: ${enemyIds.join(', ')} `);
-    // This would integrate with the combat system
+  public startBattle(enemyIds: string[]): boolean {
+    if (!this.world || this.playerId === null || !this.combatSystem) {
+      logger.warn(LogSource.GAMEPLAY, `Cannot start battle with ${enemyIds.join(', ')}: no world, player or combat system`);
+      return false;
+    }
+
+    const position = this.world.getComponent<Position>(this.playerId, 'Position') ?? { x: 0, y: 0 };
+    const enemyEntityIds: EntityId[] = [];
+    for (const enemyId of enemyIds) {
+      const entityId = this.world.instantiate(enemyId, { Position: { ...position } });
+      if (entityId === null) {
+        logger.warn(LogSource.GAMEPLAY, `Unknown enemy ${enemyId} left out of battle`);
+        continue;
+      }
+      enemyEntityIds.push(entityId);
+    }
+
+    if (enemyEntityIds.length === 0) return false;
+
+    logger.debug(LogSource.GAMEPLAY, `Starting battle with enemies: ${enemyIds.join(', ')}`);
+    this.combatSystem.startCombat(this.playerId, enemyEntityIds);
+    return true;
   }
 
   /**
@@ -668,7 +837,7 @@ export class InteractionSystem {
    * @param amount - Amount to heal
    */
   private healPlayer(amount: number): void {
-    if (!this.world || !this.playerId) return;
+    if (!this.world || this.playerId === null) return;
 
     const health = this.world.getComponent<Health>(this.playerId, 'Health');
     if (health) {
@@ -0,0 +1,212 @@
+/**
+ * Prefab Registry
+ * @fileoverview Named component blueprints with inheritance and per-instance overrides
+ */
+
+import { ComponentType, PrefabDef, PrefabChildDef, PrefabOverrides } from '../types';
+import { PREFABS_DATABASE } from '../data/GameData';
+import { logger, LogSource } from './GlobalLogger';
+
+/**
+ * Prefab with its inheritance chain flattened
+ */
+export interface ResolvedPrefab {
+  /** Prefab identifier */
+  id: string;
+  /** Default component values, inherited ones included */
+  components: Record<ComponentType, unknown>;
+  /** Children, inherited ones first */
+  children: PrefabChildDef[];
+}
+
+/**
+ * Checks if a value is a plain object (merged key by key rather than replaced)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep copies plain objects and arrays so instances never share component data
+ */
+function cloneValue<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(item => cloneValue(item)) as T;
+  }
+  if (isPlainObject(value)) {
+    const copy: Record<string, unknown> = {};
+    for (const key of Object.keys(value)) {
+      copy[key] = cloneValue(value[key]);
+    }
+    return copy as T;
+  }
+  return value;
+}
+
+/**
+ * Merges an override over a base value
+ * Plain objects merge key by key; anything else replaces the base.
+ */
+function mergeValue(base: unknown, override: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return cloneValue(override);
+  }
+
+  const merged: Record<string, unknown> = cloneValue(base);
+  for (const key of Object.keys(override)) {
+    merged[key] = key in merged ? mergeValue(merged[key], override[key]) : cloneValue(override[key]);
+  }
+  return merged;
+}
+
+/**
+ * Prefab Registry class
+ * Stores prefab definitions and builds component sets for new instances
+ */
+export class PrefabRegistry {
+  /** Registered prefab definitions */
+  private prefabs: Map<string, PrefabDef> = new Map();
+
+  /** Flattened prefabs, cleared whenever a definition changes */
+  private resolved: Map<string, ResolvedPrefab> = new Map();
+
+  /**
+   * Creates a new PrefabRegistry instance
+   * @param prefabs - Initial prefab definitions
+   */
+  constructor(prefabs: Record<string, PrefabDef> = {}) {
+    Object.values(prefabs).forEach(prefab => this.prefabs.set(prefab.id, prefab));
+  }
+
+  /**
+   * Registers a prefab, replacing any prefab with the same ID
+   * @param prefab - Prefab definition
+   */
+  public register(prefab: PrefabDef): void {
+    if (this.prefabs.has(prefab.id)) {
+      logger.debug(LogSource.ECS, `Replacing prefab ${prefab.id}`);
+    }
+
+    this.prefabs.set(prefab.id, prefab);
+    this.resolved.clear();
+  }
+
+  /**
+   * Removes a prefab
+   * @param prefabId - Prefab ID
+   * @returns True if the prefab was registered
+   */
+  public unregister(prefabId: string): boolean {
+    this.resolved.clear();
+    return this.prefabs.delete(prefabId);
+  }
+
+  /**
+   * Checks if a prefab is registered
+   * @param prefabId - Prefab ID
+   * @returns True if registered
+   */
+  public has(prefabId: string): boolean {
+    return this.prefabs.has(prefabId);
+  }
+
+  /**
+   * Gets a prefab definition as registered
+   * @param prefabId - Prefab ID
+   * @returns Prefab definition or null
+   */
+  public get(prefabId: string): PrefabDef | null {
+    return this.prefabs.get(prefabId) || null;
+  }
+
+  /**
+   * Gets all registered prefab IDs
+   * @returns Prefab IDs
+   */
+  public getPrefabIds(): string[] {
+    return Array.from(this.prefabs.keys());
+  }
+
+  /**
+   * Flattens a prefab's inheritance chain
+   * @param prefabId - Prefab ID
+   * @returns Resolved prefab, or null if it or an ancestor is missing or the chain loops
+   */
+  public resolve(prefabId: string): ResolvedPrefab | null {
+    const cached = this.resolved.get(prefabId);
+    if (cached) {
+      return cached;
+    }
+
+    // Walk up to the root, then merge back down
+    const chain: PrefabDef[] = [];
+    const seen = new Set<string>();
+    let currentId: string | undefined = prefabId;
+
+    while (currentId !== undefined) {
+      if (seen.has(currentId)) {
+        logger.error(LogSource.ECS, `Prefab ${prefabId} has an inheritance cycle through ${currentId}`);
+        return null;
+      }
+
+      const prefab = this.prefabs.get(currentId);
+      if (!prefab) {
+        logger.error(LogSource.ECS, currentId === prefabId ? `Unknown prefab: ${prefabId}` : `Prefab ${prefabId} extends unknown prefab ${currentId}`);
+        return null;
+      }
+
+      seen.add(currentId);
+      chain.unshift(prefab);
+      currentId = prefab.extends;
+    }
+
+    const resolved: ResolvedPrefab = { id: prefabId, components: {}, children: [] };
+    for (const prefab of chain) {
+      for (const [componentType, data] of Object.entries(prefab.components)) {
+        resolved.components[componentType] = mergeValue(resolved.components[componentType], data);
+      }
+      resolved.children.push(...(prefab.children || []));
+    }
+
+    this.resolved.set(prefabId, resolved);
+    return resolved;
+  }
+
+  /**
+   * Builds fresh component data for a new instance
+   * @param prefabId - Prefab ID
+   * @param overrides - Component values replacing the defaults (null removes a component)
+   * @returns Component data by type, or null if the prefab cannot be resolved
+   */
+  public build(prefabId: string, overrides: PrefabOverrides = {}): Record<ComponentType, unknown> | null {
+    const prefab = this.resolve(prefabId);
+    if (!prefab) {
+      return null;
+    }
+
+    const components: Record<ComponentType, unknown> = {};
+    for (const [componentType, data] of Object.entries(prefab.components)) {
+      components[componentType] = cloneValue(data);
+    }
+
+    for (const [componentType, data] of Object.entries(overrides)) {
+      if (data === null) {
+        delete components[componentType];
+      } else {
+        components[componentType] = mergeValue(components[componentType], data);
+      }
+    }
+
+    return components;
+  }
+}
+
+/**
+ * Creates a registry holding the game's prefabs
+ * @returns Prefab registry
+ */
+export function createDefaultPrefabRegistry(): PrefabRegistry {
+  return new PrefabRegistry(PREFABS_DATABASE);
+}
+
+export default PrefabRegistry;
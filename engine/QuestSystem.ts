@@ -0,0 +1,532 @@
+/**
+ * Quest System
+ * @fileoverview Quest state, multi-stage objective tracking fed by combat and interaction events, rewards and journal queries
+ */
+
+import { WorldManager } from './WorldManager';
+import { logger, LogSource } from './GlobalLogger';
+import type { CombatSystem } from './CombatSystem';
+import type { RewardSystem } from './RewardSystem';
+import { EntityId, EnemyInfo, Inventory, Position, QuestDef, QuestObjective } from '../types';
+import { GAME_CONFIG, QUESTS_DATABASE } from '../data/GameData';
+
+/**
+ * Where a quest stands for the player
+ */
+export type QuestStatus = 'inactive' | 'active' | 'completed';
+
+/**
+ * Journal view of one objective
+ */
+export interface ObjectiveProgress {
+  /** Objective ID */
+  id: string;
+  /** Journal text */
+  description: string;
+  /** Amount reached so far */
+  current: number;
+  /** Amount required */
+  required: number;
+  /** Whether the objective is met */
+  complete: boolean;
+}
+
+/**
+ * Journal view of one quest
+ */
+export interface QuestProgress {
+  /** Quest ID */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Journal summary */
+  description: string;
+  /** Quest status */
+  status: QuestStatus;
+  /** Current stage index (equal to the stage count once completed) */
+  stageIndex: number;
+  /** Current stage text, or null once completed */
+  stageDescription: string | null;
+  /** Objectives of the current stage */
+  objectives: ObjectiveProgress[];
+}
+
+/**
+ * Quest state as stored in a save's game state
+ */
+export interface QuestSaveData {
+  completedQuests: string[];
+  activeQuests: Array<{ id: string; progress: number; data: Record<string, any> }>;
+}
+
+/**
+ * Quest event emitted to listeners
+ */
+export type QuestEvent =
+  | { type: 'quest_started'; questId: string }
+  | { type: 'objective_progress'; questId: string; objective: ObjectiveProgress }
+  | { type: 'stage_completed'; questId: string; stageId: string }
+  | { type: 'quest_completed'; questId: string };
+
+/**
+ * Progress through an active quest
+ */
+interface ActiveQuest {
+  /** Current stage index */
+  stage: number;
+  /** Counted progress per objective ID (talk, defeat and reach objectives) */
+  counts: Record<string, number>;
+}
+
+/**
+ * Quest System
+ * Starts and completes quests, advances their stages as objectives are met and grants rewards
+ */
+export class QuestSystem {
+  /** World manager reference */
+  private world: WorldManager | null = null;
+
+  /** Player entity ID (position for reach objectives, inventory for collect objectives and rewards) */
+  private playerId: EntityId | null = null;
+
+  /** Reward system used to grant quest experience */
+  private rewardSystem: RewardSystem | null = null;
+
+  /** Quest definitions by ID */
+  private quests: Record<string, QuestDef>;
+
+  /** Quests in progress */
+  private active: Map<string, ActiveQuest> = new Map();
+
+  /** Completed quest IDs, in completion order */
+  private completed: Set<string> = new Set();
+
+  /** Event listeners */
+  private listeners: Set<(event: QuestEvent) => void> = new Set();
+
+  /**
+   * Creates a new QuestSystem instance
+   * @param quests - Quest definitions by ID
+   */
+  constructor(quests: Record<string, QuestDef> = QUESTS_DATABASE) {
+    this.quests = quests;
+    logger.info(LogSource.GAMEPLAY, 'QuestSystem initialized');
+  }
+
+  /**
+   * Sets the world manager reference
+   * @param world - World manager instance
+   */
+  public setWorld(world: WorldManager): void {
+    this.world = world;
+  }
+
+  /**
+   * Sets the player entity ID
+   * @param playerId - Player entity ID
+   */
+  public setPlayer(playerId: EntityId): void {
+    this.playerId = playerId;
+  }
+
+  /**
+   * Sets the reward system used to grant quest experience
+   * @param rewardSystem - Reward system instance
+   */
+  public setRewardSystem(rewardSystem: RewardSystem): void {
+    this.rewardSystem = rewardSystem;
+  }
+
+  /**
+   * Counts enemies defeated in a combat system's battles towards defeat objectives
+   * @param combat - Combat system to follow
+   * @returns Unsubscribe function
+   */
+  public trackCombat(combat: CombatSystem): () => void {
+    return combat.subscribe(event => {
+      if (event.type !== 'Defeated') return;
+
+      const enemyInfo = this.world?.getComponent<EnemyInfo>(event.entityId, 'EnemyInfo');
+      if (enemyInfo) {
+        this.recordDefeat(enemyInfo.enemyId);
+      }
+    });
+  }
+
+  /**
+   * Subscribes to quest events
+   * @param callback - Event callback
+   * @returns Unsubscribe function
+   */
+  public subscribe(callback: (event: QuestEvent) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Starts a quest
+   * @param questId - Quest ID
+   * @returns True if started, false if unknown, already started or its prerequisites are not completed
+   */
+  public startQuest(questId: string): boolean {
+    const quest = this.quests[questId];
+    if (!quest) {
+      logger.warn(LogSource.GAMEPLAY, `Attempted to start unknown quest ${questId}`);
+      return false;
+    }
+
+    if (this.getQuestStatus(questId) !== 'inactive') {
+      logger.debug(LogSource.GAMEPLAY, `Quest ${questId} already started`);
+      return false;
+    }
+
+    const missing = (quest.prerequisites || []).filter(prerequisite => !this.completed.has(prerequisite));
+    if (missing.length > 0) {
+      logger.debug(LogSource.GAMEPLAY, `Quest ${questId} requires ${missing.join(', ')}`);
+      return false;
+    }
+
+    this.active.set(questId, { stage: 0, counts: {} });
+    logger.info(LogSource.GAMEPLAY, `Quest started: ${quest.name}`);
+    this.emit({ type: 'quest_started', questId });
+
+    // Collect objectives may already be met by items carried
+    this.advance(questId);
+    return true;
+  }
+
+  /**
+   * Completes an active quest regardless of its remaining objectives and grants its rewards
+   * @param questId - Quest ID
+   * @returns True if the quest was active
+   */
+  public completeQuest(questId: string): boolean {
+    if (!this.active.has(questId)) {
+      logger.warn(LogSource.GAMEPLAY, `Attempted to complete quest ${questId}, which is not active`);
+      return false;
+    }
+
+    this.finish(questId);
+    return true;
+  }
+
+  /**
+   * Records talking to an NPC
+   * @param interactionId - ID of the TALK interaction used
+   */
+  public recordTalk(interactionId: string): void {
+    this.record('talk', interactionId, 1);
+  }
+
+  /**
+   * Records defeating an enemy
+   * @param enemyId - Enemy definition ID
+   */
+  public recordDefeat(enemyId: string): void {
+    this.record('defeat', enemyId, 1);
+  }
+
+  /**
+   * Re-checks position- and inventory-based objectives
+   * @param _deltaTime - Time since last frame in seconds
+   */
+  public update(_deltaTime: number): void {
+    if (!this.world || this.playerId === null || this.active.size === 0) return;
+
+    const position = this.world.getComponent<Position>(this.playerId, 'Position');
+    if (position) {
+      for (const [questId, progress] of this.active) {
+        this.getStageObjectives(questId, progress)
+          .filter(objective => objective.type === 'reach' && objective.area && (progress.counts[objective.id] || 0) === 0)
+          .filter(objective => Math.hypot(position.x - objective.area!.x, position.y - objective.area!.y) <= objective.area!.radius)
+          .forEach(objective => {
+            progress.counts[objective.id] = 1;
+            this.emit({ type: 'objective_progress', questId, objective: this.describeObjective(objective, progress) });
+          });
+      }
+    }
+
+    Array.from(this.active.keys()).forEach(questId => this.advance(questId));
+  }
+
+  /**
+   * Checks a REQUIRES_QUEST interaction condition
+   * The value is a quest ID (met once completed), or "questId:active", "questId:completed",
+   * "questId:inactive" or "questId:<stageId>" (met while that stage is current).
+   * @param value - Condition value
+   * @returns Whether the condition is met
+   */
+  public checkCondition(value: string): boolean {
+    const [questId, state = 'completed'] = value.split(':');
+    const status = this.getQuestStatus(questId);
+
+    if (state === 'active' || state === 'completed' || state === 'inactive') {
+      return status === state;
+    }
+
+    const progress = this.active.get(questId);
+    return Boolean(progress && this.quests[questId].stages[progress.stage]?.id === state);
+  }
+
+  /**
+   * Gets a quest's status
+   * @param questId - Quest ID
+   * @returns Quest status
+   */
+  public getQuestStatus(questId: string): QuestStatus {
+    if (this.completed.has(questId)) return 'completed';
+    if (this.active.has(questId)) return 'active';
+    return 'inactive';
+  }
+
+  /**
+   * Gets a quest's journal entry
+   * @param questId - Quest ID
+   * @returns Quest progress, or null if the quest is unknown
+   */
+  public getQuestProgress(questId: string): QuestProgress | null {
+    const quest = this.quests[questId];
+    if (!quest) return null;
+
+    const status = this.getQuestStatus(questId);
+    const progress = this.active.get(questId);
+    const stageIndex = status === 'completed' ? quest.stages.length : progress?.stage ?? 0;
+    const stage = status === 'completed' ? null : quest.stages[stageIndex];
+
+    return {
+      id: quest.id,
+      name: quest.name,
+      description: quest.description,
+      status,
+      stageIndex,
+      stageDescription: stage?.description ?? null,
+      objectives: stage && progress ? stage.objectives.map(objective => this.describeObjective(objective, progress)) : []
+    };
+  }
+
+  /**
+   * Gets journal entries for all active quests, in the order they were started
+   * @returns Active quest progress
+   */
+  public getActiveQuests(): QuestProgress[] {
+    return Array.from(this.active.keys()).map(questId => this.getQuestProgress(questId)!);
+  }
+
+  /**
+   * Gets journal entries for all completed quests, in completion order
+   * @returns Completed quest progress
+   */
+  public getCompletedQuests(): QuestProgress[] {
+    return Array.from(this.completed).filter(questId => this.quests[questId]).map(questId => this.getQuestProgress(questId)!);
+  }
+
+  /**
+   * Gets quest state for a save file
+   * @returns Quest save data
+   */
+  public serialize(): QuestSaveData {
+    return {
+      completedQuests: Array.from(this.completed),
+      activeQuests: Array.from(this.active, ([id, progress]) => ({ id, progress: progress.stage, data: { counts: { ...progress.counts } } }))
+    };
+  }
+
+  /**
+   * Replaces quest state with the state from a save file
+   * Quests no longer defined are dropped; stage indices are clamped to the quest's stages.
+   * @param data - Quest save data
+   */
+  public restore(data: QuestSaveData): void {
+    this.active.clear();
+    this.completed = new Set((Array.isArray(data.completedQuests) ? data.completedQuests : []).filter(questId => this.quests[questId]));
+
+    for (const { id, progress, data: questData } of Array.isArray(data.activeQuests) ? data.activeQuests : []) {
+      const quest = this.quests[id];
+      if (!quest || this.completed.has(id)) {
+        logger.warn(LogSource.GAMEPLAY, `Dropping saved progress for unknown quest ${id}`);
+        continue;
+      }
+
+      this.active.set(id, {
+        stage: Math.max(0, Math.min(quest.stages.length - 1, progress)),
+        counts: { ...(questData?.counts || {}) }
+      });
+    }
+
+    logger.info(LogSource.GAMEPLAY, `Restored ${this.active.size} active and ${this.completed.size} completed quests`);
+  }
+
+  /**
+   * Adds progress to matching objectives of every active quest's current stage
+   * @param type - Objective type
+   * @param target - Objective target
+   * @param amount - Progress to add
+   */
+  private record(type: QuestObjective['type'], target: string, amount: number): void {
+    for (const [questId, progress] of this.active) {
+      for (const objective of this.getStageObjectives(questId, progress)) {
+        if (objective.type !== type || objective.target !== target) continue;
+
+        const required = objective.count ?? 1;
+        const current = progress.counts[objective.id] || 0;
+        if (current >= required) continue;
+
+        progress.counts[objective.id] = Math.min(required, current + amount);
+        this.emit({ type: 'objective_progress', questId, objective: this.describeObjective(objective, progress) });
+      }
+    }
+
+    Array.from(this.active.keys()).forEach(questId => this.advance(questId));
+  }
+
+  /**
+   * Moves a quest through every stage whose objectives are all met, finishing it after the last
+   * @param questId - Active quest ID
+   */
+  private advance(questId: string): void {
+    const quest = this.quests[questId];
+    const progress = this.active.get(questId);
+    if (!progress) return;
+
+    while (progress.stage < quest.stages.length) {
+      const stage = quest.stages[progress.stage];
+      if (!stage.objectives.every(objective => this.describeObjective(objective, progress).complete)) {
+        return;
+      }
+
+      progress.stage++;
+      logger.info(LogSource.GAMEPLAY, `Quest ${quest.name}: stage ${stage.id} complete`);
+      this.emit({ type: 'stage_completed', questId, stageId: stage.id });
+    }
+
+    this.finish(questId);
+  }
+
+  /**
+   * Marks a quest completed and grants its rewards
+   * @param questId - Active quest ID
+   */
+  private finish(questId: string): void {
+    const quest = this.quests[questId];
+    this.active.delete(questId);
+    this.completed.add(questId);
+
+    this.grantRewards(quest);
+    logger.info(LogSource.GAMEPLAY, `Quest completed: ${quest.name}`);
+    this.emit({ type: 'quest_completed', questId });
+  }
+
+  /**
+   * Gives a quest's rewards to the player
+   * @param quest - Completed quest
+   */
+  private grantRewards(quest: QuestDef): void {
+    if (!this.world || this.playerId === null) {
+      logger.warn(LogSource.GAMEPLAY, `No player to reward for quest ${quest.id}`);
+      return;
+    }
+
+    const { experience = 0, gold = 0, items = [] } = quest.rewards;
+    if (experience > 0) {
+      this.rewardSystem?.awardExperience(this.playerId, experience);
+    }
+
+    const inventory = this.world.getComponent<Inventory>(this.playerId, 'Inventory');
+    if (!inventory) return;
+
+    inventory.gold = Math.min(GAME_CONFIG.MAX_GOLD, inventory.gold + gold);
+    for (const { itemId, quantity } of items) {
+      const stack = inventory.items.find(entry => entry.itemId === itemId);
+      if (stack) {
+        stack.quantity += quantity;
+      } else {
+        inventory.items.push({ itemId, quantity });
+      }
+    }
+    this.world.updateComponent(this.playerId, 'Inventory', inventory);
+  }
+
+  /**
+   * Gets the objectives of a quest's current stage
+   * @param questId - Quest ID
+   * @param progress - Quest progress
+   * @returns Current objectives
+   */
+  private getStageObjectives(questId: string, progress: ActiveQuest): QuestObjective[] {
+    return this.quests[questId].stages[progress.stage]?.objectives || [];
+  }
+
+  /**
+   * Builds the journal view of an objective
+   * Collect objectives count items carried now, so dropping items undoes their progress.
+   * @param objective - Objective
+   * @param progress - Quest progress
+   * @returns Objective progress
+   */
+  private describeObjective(objective: QuestObjective, progress: ActiveQuest): ObjectiveProgress {
+    const required = objective.count ?? 1;
+    const current = objective.type === 'collect'
+      ? Math.min(required, this.countCarried(objective.target))
+      : progress.counts[objective.id] || 0;
+
+    return { id: objective.id, description: objective.description, current, required, complete: current >= required };
+  }
+
+  /**
+   * Counts how many of an item the player carries
+   * @param itemId - Item ID
+   * @returns Quantity carried
+   */
+  private countCarried(itemId: string): number {
+    if (!this.world || this.playerId === null) return 0;
+
+    const inventory = this.world.getComponent<Inventory>(this.playerId, 'Inventory');
+    return inventory?.items.find(entry => entry.itemId === itemId)?.quantity ?? 0;
+  }
+
+  /**
+   * Sends an event to all listeners
+   * @param event - Quest event
+   */
+  private emit(event: QuestEvent): void {
+    this.listeners.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        logger.error(LogSource.GAMEPLAY, `Quest event listener failed: ${error}`);
+      }
+    });
+  }
+
+  /**
+   * Gets quest statistics
+   * @returns Quest system statistics
+   */
+  public getStats(): {
+    activeQuests: number;
+    completedQuests: number;
+    listeners: number;
+  } {
+    return {
+      activeQuests: this.active.size,
+      completedQuests: this.completed.size,
+      listeners: this.listeners.size
+    };
+  }
+
+  /**
+   * Disposes of the quest system
+   */
+  public dispose(): void {
+    this.listeners.clear();
+    this.active.clear();
+    this.completed.clear();
+    this.rewardSystem = null;
+    this.world = null;
+    logger.info(LogSource.GAMEPLAY, 'QuestSystem disposed');
+  }
+}
+
+export default QuestSystem;
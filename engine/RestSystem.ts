@@ -0,0 +1,442 @@
+/**
+ * Rest System
+ * @fileoverview Inn stays and camping: party recovery, status cleansing, inn fees, passing time and save prompts
+ */
+
+import { WorldManager } from './WorldManager';
+import { logger, LogSource } from './GlobalLogger';
+import type { GameClock } from './GameClock';
+import type { StatusEffectSystem } from './StatusEffectSystem';
+import { CharacterStats, EntityId, Health, Inventory, MagicUser, Party, StatusEffect } from '../types';
+import { GAME_CONFIG, WORLD_LOCATIONS_DATABASE, getItem } from '../data/GameData';
+
+/**
+ * Where the party rested
+ */
+export type RestKind = 'inn' | 'camp';
+
+/**
+ * What one party member recovered
+ */
+export interface MemberRecovery {
+  /** Member entity ID */
+  entityId: EntityId;
+  /** Health restored */
+  healthRestored: number;
+  /** Mana restored */
+  manaRestored: number;
+  /** Whether the member was brought back from 0 HP */
+  revived: boolean;
+  /** Status effects cured */
+  cured: StatusEffect[];
+}
+
+/**
+ * Why a rest was refused
+ */
+export type RestFailureReason =
+  | 'no_party'
+  | 'no_inn'
+  | 'insufficient_gold'
+  | 'camping_not_allowed'
+  | 'not_camp_item'
+  | 'not_carried';
+
+/**
+ * Outcome of resting
+ */
+export interface RestResult {
+  /** Whether the party rested */
+  success: boolean;
+  /** Inn or camp */
+  kind: RestKind;
+  /** Location ID */
+  locationId: string;
+  /** Camp item used, or null at an inn */
+  itemId: string | null;
+  /** Gold charged */
+  cost: number;
+  /** In-game minutes that passed */
+  minutesPassed: number;
+  /** Recovery per party member */
+  members: MemberRecovery[];
+  /** Whether the player should be offered a save */
+  savePrompt: boolean;
+  /** Why the rest was refused, or null */
+  reason: RestFailureReason | null;
+}
+
+/**
+ * Rest event emitted to listeners
+ */
+export type RestEvent =
+  | { type: 'rested'; result: RestResult }
+  | { type: 'rest_refused'; result: RestResult }
+  | { type: 'save_prompt'; result: RestResult };
+
+/**
+ * How much a rest restores
+ */
+interface Recovery {
+  /** Health restored per member (Infinity for full) */
+  health: number;
+  /** Whether mana is refilled */
+  mana: boolean;
+  /** Whether members at 0 HP are revived */
+  revive: boolean;
+  /** Whether statuses curable by rest are cured */
+  cleanse: boolean;
+}
+
+/**
+ * Recovery at an inn: full HP and MP with statuses cleansed, but no revival
+ */
+const INN_RECOVERY: Recovery = { health: Infinity, mana: true, revive: false, cleanse: true };
+
+/**
+ * Location as listed in the locations database
+ */
+type RestLocation = { name: string; type: string; innAvailable?: boolean };
+
+/**
+ * Rest System
+ * Restores the player's party at inns for a fee or at camp with camp items
+ */
+export class RestSystem {
+  /** World manager reference */
+  private world: WorldManager | null = null;
+
+  /** Player entity ID (holds the Inventory; its Party, if any, rests together) */
+  private playerId: EntityId | null = null;
+
+  /** Locations with their inn and type */
+  private locations: Record<string, RestLocation>;
+
+  /** Status effect system used to cure statuses */
+  private statusEffects: StatusEffectSystem | null = null;
+
+  /** Game clock advanced while resting */
+  private clock: GameClock | null = null;
+
+  /** Completed rests */
+  private rests: number = 0;
+
+  /** Event listeners */
+  private listeners: Set<(event: RestEvent) => void> = new Set();
+
+  /**
+   * Creates a new RestSystem instance
+   * @param locations - Locations with their inn and type
+   */
+  constructor(locations: Record<string, RestLocation> = WORLD_LOCATIONS_DATABASE) {
+    this.locations = locations;
+    logger.info(LogSource.GAMEPLAY, 'RestSystem initialized');
+  }
+
+  /**
+   * Sets the world manager reference
+   * @param world - World manager instance
+   */
+  public setWorld(world: WorldManager): void {
+    this.world = world;
+  }
+
+  /**
+   * Sets the player entity ID
+   * @param playerId - Player entity ID
+   */
+  public setPlayer(playerId: EntityId): void {
+    this.playerId = playerId;
+  }
+
+  /**
+   * Sets the status effect system used to cure statuses
+   * @param statusEffects - Status effect system instance
+   */
+  public setStatusEffectSystem(statusEffects: StatusEffectSystem): void {
+    this.statusEffects = statusEffects;
+  }
+
+  /**
+   * Sets the game clock advanced while resting
+   * @param clock - Game clock instance
+   */
+  public setClock(clock: GameClock): void {
+    this.clock = clock;
+  }
+
+  /**
+   * Gets the fee for a night at an inn
+   * The fee grows with the level of every party member.
+   * @returns Fee in gold
+   */
+  public getInnCost(): number {
+    const levels = this.getPartyMembers().reduce((sum, entityId) => {
+      return sum + (this.world?.getComponent<CharacterStats>(entityId, 'CharacterStats')?.level ?? 1);
+    }, 0);
+
+    return GAME_CONFIG.INN_BASE_COST + GAME_CONFIG.INN_COST_PER_LEVEL * levels;
+  }
+
+  /**
+   * Checks whether camp items may be used at a location
+   * @param locationId - Location ID
+   * @returns Whether the location type permits camping
+   */
+  public canCamp(locationId: string): boolean {
+    const location = this.locations[locationId];
+    return !!location && GAME_CONFIG.CAMP_LOCATION_TYPES.includes(location.type);
+  }
+
+  /**
+   * Stays the night at a location's inn
+   * Charges the fee, restores HP and MP of members still standing, cures statuses and passes time until morning.
+   * @param locationId - Location ID
+   * @param options - savePrompt offers a save afterwards
+   * @returns Rest outcome
+   */
+  public restAtInn(locationId: string, options: { savePrompt?: boolean } = {}): RestResult {
+    const result = this.createResult('inn', locationId, null);
+    const inventory = this.getInventory();
+    const cost = this.getInnCost();
+
+    if (!this.locations[locationId]?.innAvailable) return this.refuse(result, 'no_inn');
+    if (!this.world || this.playerId === null || !inventory || this.getPartyMembers().length === 0) {
+      return this.refuse(result, 'no_party');
+    }
+    if (inventory.gold < cost) return this.refuse(result, 'insufficient_gold');
+
+    inventory.gold -= cost;
+    this.world.updateComponent(this.playerId, 'Inventory', inventory);
+    result.cost = cost;
+
+    return this.rest(result, INN_RECOVERY, () => this.clock?.advanceTo(GAME_CONFIG.INN_WAKE_HOUR), options.savePrompt ?? false);
+  }
+
+  /**
+   * Makes camp with a camp item (bedroll, tent or pavilion)
+   * The item is used up, recovery follows its effects and a save is offered (every camp item saves on the world map).
+   * @param locationId - Location ID
+   * @param itemId - Camp item ID
+   * @returns Rest outcome
+   */
+  public camp(locationId: string, itemId: string): RestResult {
+    const result = this.createResult('camp', locationId, itemId);
+    const inventory = this.getInventory();
+    const entry = inventory?.items.find(carried => carried.itemId === itemId);
+    const recovery = RestSystem.getCampRecovery(itemId);
+
+    if (!recovery) return this.refuse(result, 'not_camp_item');
+    if (!this.canCamp(locationId)) return this.refuse(result, 'camping_not_allowed');
+    if (!this.world || this.playerId === null || !inventory || this.getPartyMembers().length === 0) {
+      return this.refuse(result, 'no_party');
+    }
+    if (!entry || entry.quantity <= 0) return this.refuse(result, 'not_carried');
+
+    entry.quantity--;
+    if (entry.quantity === 0) {
+      inventory.items.splice(inventory.items.indexOf(entry), 1);
+    }
+    this.world.updateComponent(this.playerId, 'Inventory', inventory);
+
+    return this.rest(result, recovery, () => this.clock?.advance(GAME_CONFIG.CAMP_REST_MINUTES), true);
+  }
+
+  /**
+   * Checks whether an item is used for camping
+   * @param itemId - Item ID
+   * @returns True for camp items (bedroll, tent, pavilion)
+   */
+  public isCampItem(itemId: string): boolean {
+    return RestSystem.getCampRecovery(itemId) !== null;
+  }
+
+  /**
+   * Subscribes to rest events
+   * @param callback - Called for each event
+   * @returns Unsubscribe function
+   */
+  public subscribe(callback: (event: RestEvent) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Reads how much a camp item restores from its effects
+   * @param itemId - Item ID
+   * @returns Recovery, or null if the item is not for camping
+   */
+  private static getCampRecovery(itemId: string): Recovery | null {
+    const effects = getItem(itemId)?.properties.effects ?? [];
+    if (!effects.some(effect => effect.type === 'save_world_map')) return null;
+
+    const recovery: Recovery = { health: 0, mana: false, revive: false, cleanse: false };
+    for (const effect of effects) {
+      switch (effect.type) {
+        case 'heal':
+        case 'heal_party':
+          recovery.health = Math.max(recovery.health, effect.value);
+          break;
+        case 'heal_full_party':
+          Object.assign(recovery, { health: Infinity, mana: true, cleanse: true });
+          break;
+        case 'revive_party':
+          recovery.revive = true;
+          break;
+      }
+    }
+
+    return recovery;
+  }
+
+  /**
+   * Restores the party, passes time and reports the rest
+   * @param result - Result to fill in
+   * @param recovery - How much to restore
+   * @param passTime - Advances the clock
+   * @param savePrompt - Whether to offer a save
+   * @returns Completed result
+   */
+  private rest(result: RestResult, recovery: Recovery, passTime: () => void, savePrompt: boolean): RestResult {
+    result.members = this.getPartyMembers().map(entityId => this.recover(entityId, recovery));
+
+    const before = this.clock?.serialize() ?? 0;
+    passTime();
+    result.minutesPassed = (this.clock?.serialize() ?? 0) - before;
+
+    result.success = true;
+    result.savePrompt = savePrompt;
+    this.rests++;
+
+    logger.info(LogSource.GAMEPLAY, `Party rested (${result.kind}) at ${result.locationId} for ${result.cost} gold`);
+    this.emit({ type: 'rested', result });
+    if (savePrompt) {
+      this.emit({ type: 'save_prompt', result });
+    }
+    return result;
+  }
+
+  /**
+   * Restores one party member
+   * @param entityId - Member entity ID
+   * @param recovery - How much to restore
+   * @returns What the member recovered
+   */
+  private recover(entityId: EntityId, recovery: Recovery): MemberRecovery {
+    const report: MemberRecovery = { entityId, healthRestored: 0, manaRestored: 0, revived: false, cured: [] };
+    if (!this.world) return report;
+
+    const health = this.world.getComponent<Health>(entityId, 'Health');
+    const down = !!health && health.current <= 0;
+
+    if (down && !recovery.revive) return report;
+
+    if (health) {
+      const before = health.current;
+      health.current = Math.min(health.max, health.current + (down ? health.max : recovery.health));
+      report.healthRestored = health.current - before;
+      report.revived = down && health.current > 0;
+      this.world.updateComponent(entityId, 'Health', health);
+    }
+
+    const magicUser = this.world.getComponent<MagicUser>(entityId, 'MagicUser');
+    if (magicUser && recovery.mana) {
+      report.manaRestored = magicUser.maxMana - magicUser.currentMana;
+      magicUser.currentMana = magicUser.maxMana;
+      this.world.updateComponent(entityId, 'MagicUser', magicUser);
+    }
+
+    if (recovery.cleanse && this.statusEffects) {
+      report.cured = this.statusEffects.cureByMethod(entityId, 'rest');
+    }
+
+    return report;
+  }
+
+  /**
+   * Gets the members who rest together
+   * @returns Party members, or just the player without a Party
+   */
+  private getPartyMembers(): EntityId[] {
+    if (!this.world || this.playerId === null) return [];
+
+    const party = this.world.getComponent<Party>(this.playerId, 'Party');
+    return party?.members.length ? party.members : [this.playerId];
+  }
+
+  /**
+   * Gets the player's inventory
+   * @returns Inventory component, or null if there is no player
+   */
+  private getInventory(): Inventory | null {
+    if (!this.world || this.playerId === null) return null;
+    return this.world.getComponent<Inventory>(this.playerId, 'Inventory') ?? null;
+  }
+
+  /**
+   * Creates an empty result
+   * @param kind - Inn or camp
+   * @param locationId - Location ID
+   * @param itemId - Camp item ID
+   * @returns Unsuccessful result with nothing restored
+   */
+  private createResult(kind: RestKind, locationId: string, itemId: string | null): RestResult {
+    return { success: false, kind, locationId, itemId, cost: 0, minutesPassed: 0, members: [], savePrompt: false, reason: null };
+  }
+
+  /**
+   * Reports a refused rest
+   * @param result - Result to refuse
+   * @param reason - Why the rest was refused
+   * @returns The same result
+   */
+  private refuse(result: RestResult, reason: RestFailureReason): RestResult {
+    result.reason = reason;
+    logger.debug(LogSource.GAMEPLAY, `Rest (${result.kind}) at ${result.locationId} refused: ${result.reason}`);
+    this.emit({ type: 'rest_refused', result });
+    return result;
+  }
+
+  /**
+   * Sends an event to all listeners
+   * @param event - Rest event
+   */
+  private emit(event: RestEvent): void {
+    this.listeners.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        logger.error(LogSource.GAMEPLAY, `Rest event listener failed: ${error}`);
+      }
+    });
+  }
+
+  /**
+   * Gets rest statistics
+   * @returns Rest system statistics
+   */
+  public getStats(): {
+    rests: number;
+    listeners: number;
+  } {
+    return {
+      rests: this.rests,
+      listeners: this.listeners.size
+    };
+  }
+
+  /**
+   * Disposes of the rest system
+   */
+  public dispose(): void {
+    this.listeners.clear();
+    this.statusEffects = null;
+    this.clock = null;
+    this.world = null;
+    logger.info(LogSource.GAMEPLAY, 'RestSystem disposed');
+  }
+}
+
+export default RestSystem;
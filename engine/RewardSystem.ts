@@ -0,0 +1,433 @@
+/**
+ * Reward System
+ * @fileoverview Victory rewards: experience and gold splitting, levelling with class growth, and loot drops
+ */
+
+import { WorldManager } from './WorldManager';
+import { logger, LogSource } from './GlobalLogger';
+import type { AudioManager } from './AudioSystem';
+import type { AccessibilitySystem } from './AccessibilitySystem';
+import { EntityId, Boss, CharacterStats, EnemyInfo, Health, Inventory, MagicUser } from '../types';
+import {
+  BOSS_MECHANICS_DATABASE,
+  CHARACTER_CLASSES_DATABASE,
+  GAME_CONFIG,
+  getEnemy,
+  getEnemyRewards,
+  getExperienceForLevel,
+  getLevelFromExperience
+} from '../data/GameData';
+import { RNG, globalRNG, weightedRandom } from '../utils/rng';
+import { Difficulty } from '../utils/damage';
+
+/**
+ * Experience for an enemy with no definition (matches the old flat reward)
+ */
+const DEFAULT_EXPERIENCE = 50;
+
+/**
+ * Gold for an enemy with no definition
+ */
+const DEFAULT_GOLD = 25;
+
+/**
+ * Stats that grow on level-up
+ */
+const GROWTH_STATS = ['strength', 'agility', 'intelligence', 'vitality', 'luck'] as const;
+
+/**
+ * Growable character stat
+ */
+export type GrowthStat = typeof GROWTH_STATS[number];
+
+/**
+ * Result of a character gaining one or more levels
+ */
+export interface LevelUpReport {
+  /** Character entity ID */
+  entityId: EntityId;
+  /** Level before the reward */
+  fromLevel: number;
+  /** Level after the reward */
+  toLevel: number;
+  /** Stat increases */
+  statGains: Record<GrowthStat, number>;
+  /** Maximum health increase */
+  healthGain: number;
+  /** Maximum mana increase */
+  manaGain: number;
+}
+
+/**
+ * Share of the rewards received by one party member
+ */
+export interface MemberReward {
+  /** Member entity ID */
+  entityId: EntityId;
+  /** Experience received */
+  experience: number;
+  /** Gold share */
+  gold: number;
+  /** Level-up, if the experience caused one */
+  levelUp: LevelUpReport | null;
+}
+
+/**
+ * Everything a victory screen needs to show
+ */
+export interface VictoryRewards {
+  /** Total experience earned */
+  experience: number;
+  /** Total gold earned */
+  gold: number;
+  /** Items obtained */
+  items: Array<{ itemId: string; quantity: number }>;
+  /** Per-member shares */
+  members: MemberReward[];
+  /** Level-ups that happened */
+  levelUps: LevelUpReport[];
+}
+
+/**
+ * Reward event emitted to listeners
+ */
+export type RewardEvent =
+  | { type: 'rewards_granted'; rewards: VictoryRewards }
+  | { type: 'level_up'; levelUp: LevelUpReport };
+
+/**
+ * Reward System
+ * Turns defeated enemies into experience, gold and items and applies them to the party
+ */
+export class RewardSystem {
+  /** World manager reference */
+  private world: WorldManager | null = null;
+
+  /** Random source for loot rolls */
+  private rng: RNG;
+
+  /** Difficulty used for experience and gold multipliers */
+  private difficulty: Difficulty = 'normal';
+
+  /** Audio manager for level-up fanfare */
+  private audio: AudioManager | null = null;
+
+  /** Accessibility system for level-up announcements */
+  private accessibility: AccessibilitySystem | null = null;
+
+  /** Event listeners */
+  private listeners: Set<(event: RewardEvent) => void> = new Set();
+
+  /** Number of victories rewarded */
+  private victoriesRewarded = 0;
+
+  /**
+   * Creates a new RewardSystem
+   * @param rng - Random source for loot (pass a seeded RNG for reproducible drops)
+   */
+  constructor(rng: RNG = globalRNG) {
+    this.rng = rng;
+    logger.info(LogSource.GAMEPLAY, 'RewardSystem initialized');
+  }
+
+  /**
+   * Sets the world manager reference
+   * @param world - World manager instance
+   */
+  public setWorld(world: WorldManager): void {
+    this.world = world;
+  }
+
+  /**
+   * Replaces the random source
+   * @param rng - Random source
+   */
+  public setRNG(rng: RNG): void {
+    this.rng = rng;
+  }
+
+  /**
+   * Sets the difficulty used for experience and gold multipliers
+   * @param difficulty - Difficulty setting
+   */
+  public setDifficulty(difficulty: Difficulty): void {
+    this.difficulty = difficulty;
+  }
+
+  /**
+   * Sets the audio manager used for the level-up sound
+   * @param audio - Audio manager instance
+   */
+  public setAudioManager(audio: AudioManager): void {
+    this.audio = audio;
+  }
+
+  /**
+   * Sets the accessibility system used for level-up announcements
+   * @param accessibility - Accessibility system instance
+   */
+  public setAccessibilitySystem(accessibility: AccessibilitySystem): void {
+    this.accessibility = accessibility;
+  }
+
+  /**
+   * Subscribes to reward events
+   * @param callback - Event callback
+   * @returns Unsubscribe function
+   */
+  public subscribe(callback: (event: RewardEvent) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Totals experience and gold and rolls loot for defeated enemies
+   * @param enemyIds - Defeated enemy entity IDs
+   * @returns Totals and items (not yet applied to anyone)
+   */
+  public calculateRewards(enemyIds: EntityId[]): Pick<VictoryRewards, 'experience' | 'gold' | 'items'> {
+    const multipliers = GAME_CONFIG.DIFFICULTY_MULTIPLIERS[this.difficulty];
+    const items = new Map<string, number>();
+    let experience = 0;
+    let gold = 0;
+
+    const addItem = (itemId: string, quantity: number) => {
+      items.set(itemId, (items.get(itemId) || 0) + quantity);
+    };
+
+    for (const enemyId of enemyIds) {
+      const boss = this.world?.getComponent<Boss>(enemyId, 'Boss');
+      const bossRewards = boss ? BOSS_MECHANICS_DATABASE[boss.bossId]?.rewards : undefined;
+      if (bossRewards) {
+        experience += bossRewards.experience;
+        gold += bossRewards.gold;
+        [...(bossRewards.keyItems || []), ...(bossRewards.uniqueDrops || [])].forEach(itemId => addItem(itemId, 1));
+        continue;
+      }
+
+      const info = this.world?.getComponent<EnemyInfo>(enemyId, 'EnemyInfo');
+      const rewards = info ? getEnemyRewards(info.enemyId) : null;
+      if (rewards) {
+        experience += rewards.experience;
+        gold += rewards.gold;
+        for (let roll = 0; roll < rewards.dropRolls && rewards.drops.length > 0; roll++) {
+          if (this.rng.randomInt(1, 101) > rewards.dropChance) continue;
+          const drop = weightedRandom(rewards.drops.map(entry => ({ item: entry, weight: entry.weight })), this.rng);
+          addItem(drop.itemId, drop.quantity || 1);
+        }
+        continue;
+      }
+
+      // Unlisted enemies earn rewards from their stats
+      const enemy = info ? getEnemy(info.enemyId) : null;
+      if (enemy) {
+        const { health, attack, defense, speed } = enemy.stats;
+        const derived = Math.floor((health + (attack + defense) * 2 + speed) / 4);
+        experience += derived;
+        gold += Math.floor(derived / 2);
+      } else {
+        experience += DEFAULT_EXPERIENCE;
+        gold += DEFAULT_GOLD;
+      }
+    }
+
+    return {
+      experience: Math.floor(experience * multipliers.experience_gain),
+      gold: Math.floor(gold * multipliers.gold_find),
+      items: Array.from(items.entries()).map(([itemId, quantity]) => ({ itemId, quantity }))
+    };
+  }
+
+  /**
+   * Rewards a victory: splits experience and gold across survivors and stores loot
+   * Gold and items go to the party entity's Inventory, or are shared across survivors' inventories.
+   * @param partyEntityId - Party (or lone player) entity ID
+   * @param survivorIds - Living party members
+   * @param enemyIds - Defeated enemy entity IDs
+   * @returns Full reward report
+   */
+  public grantRewards(partyEntityId: EntityId, survivorIds: EntityId[], enemyIds: EntityId[]): VictoryRewards {
+    const totals = this.calculateRewards(enemyIds);
+    const rewards: VictoryRewards = { ...totals, members: [], levelUps: [] };
+    if (survivorIds.length === 0) return rewards;
+
+    const experienceShare = Math.floor(totals.experience / survivorIds.length);
+    const goldShare = Math.floor(totals.gold / survivorIds.length);
+
+    for (const memberId of survivorIds) {
+      const levelUp = this.awardExperience(memberId, experienceShare);
+      rewards.members.push({ entityId: memberId, experience: experienceShare, gold: goldShare, levelUp });
+      if (levelUp) rewards.levelUps.push(levelUp);
+    }
+
+    const partyInventory = this.world?.getComponent<Inventory>(partyEntityId, 'Inventory');
+    if (partyInventory) {
+      this.deposit(partyEntityId, partyInventory, totals.gold, totals.items);
+    } else {
+      const holders = survivorIds.filter(id => this.world?.getComponent<Inventory>(id, 'Inventory'));
+      holders.forEach((memberId, index) => {
+        // The first member with an inventory carries the loot
+        this.deposit(memberId, this.world!.getComponent<Inventory>(memberId, 'Inventory')!, goldShare, index === 0 ? totals.items : []);
+      });
+    }
+
+    this.victoriesRewarded++;
+    logger.info(LogSource.GAMEPLAY, `Victory rewards: ${totals.experience} XP, ${totals.gold} gold, ${totals.items.length} item type(s)`);
+    this.emit({ type: 'rewards_granted', rewards });
+    return rewards;
+  }
+
+  /**
+   * Gives experience to a character and applies any level-ups
+   * @param entityId - Character entity ID
+   * @param amount - Experience to add
+   * @returns Level-up report, or null if the level did not change
+   */
+  public awardExperience(entityId: EntityId, amount: number): LevelUpReport | null {
+    const stats = this.world?.getComponent<CharacterStats>(entityId, 'CharacterStats');
+    if (!stats || amount <= 0) return null;
+
+    const fromLevel = stats.level;
+    stats.experience += amount;
+    const toLevel = Math.max(fromLevel, Math.min(GAME_CONFIG.MAX_LEVEL, getLevelFromExperience(stats.experience)));
+    stats.experienceToNext = toLevel >= GAME_CONFIG.MAX_LEVEL
+      ? 0
+      : getExperienceForLevel(toLevel + 1) - stats.experience;
+
+    if (toLevel === fromLevel) {
+      this.world?.updateComponent(entityId, 'CharacterStats', stats);
+      return null;
+    }
+
+    const levelUp = this.applyLevelUp(entityId, stats, toLevel);
+    this.announceLevelUp(levelUp);
+    return levelUp;
+  }
+
+  /**
+   * Applies class stat growth and recalculates maximum HP and MP
+   * Growth is fractional per level, so gains are the difference of floored totals.
+   * @param entityId - Character entity ID
+   * @param stats - Character stats (mutated)
+   * @param toLevel - New level
+   * @returns Level-up report
+   */
+  private applyLevelUp(entityId: EntityId, stats: CharacterStats, toLevel: number): LevelUpReport {
+    const classDef = CHARACTER_CLASSES_DATABASE[stats.class];
+    const fromLevel = stats.level;
+    const statGains = {} as Record<GrowthStat, number>;
+
+    for (const stat of GROWTH_STATS) {
+      const growth = classDef?.statGrowthPerLevel[stat] || 0;
+      statGains[stat] = Math.floor(growth * (toLevel - 1)) - Math.floor(growth * (fromLevel - 1));
+      stats[stat] += statGains[stat];
+    }
+
+    const oldHealth = stats.baseHealth;
+    const oldMana = stats.baseMana;
+    if (classDef) {
+      stats.baseHealth = stats.vitality * classDef.healthPerVitality;
+      stats.baseMana = stats.intelligence * classDef.manaPerIntelligence;
+    }
+    stats.level = toLevel;
+    this.world?.updateComponent(entityId, 'CharacterStats', stats);
+
+    // Raise maximums by the same amount and give the new points to the character
+    const healthGain = Math.max(0, stats.baseHealth - oldHealth);
+    const health = this.world?.getComponent<Health>(entityId, 'Health');
+    if (health && healthGain > 0) {
+      health.max += healthGain;
+      health.current += healthGain;
+      this.world?.updateComponent(entityId, 'Health', health);
+    }
+
+    const manaGain = Math.max(0, stats.baseMana - oldMana);
+    const magicUser = this.world?.getComponent<MagicUser>(entityId, 'MagicUser');
+    if (magicUser && manaGain > 0) {
+      magicUser.maxMana += manaGain;
+      magicUser.currentMana += manaGain;
+      this.world?.updateComponent(entityId, 'MagicUser', magicUser);
+    }
+
+    return { entityId, fromLevel, toLevel, statGains, healthGain, manaGain };
+  }
+
+  /**
+   * Plays the level-up sound, announces it and notifies listeners
+   * @param levelUp - Level-up report
+   */
+  private announceLevelUp(levelUp: LevelUpReport): void {
+    logger.info(LogSource.GAMEPLAY, `Entity ${levelUp.entityId} reached level ${levelUp.toLevel}`);
+
+    this.audio?.playSFX('level_up');
+    this.accessibility?.showAudioIndicator('levelup');
+    this.accessibility?.speak(`Level up! Now level ${levelUp.toLevel}.`, 1);
+
+    this.emit({ type: 'level_up', levelUp });
+  }
+
+  /**
+   * Adds gold and items to an inventory
+   * @param entityId - Inventory owner
+   * @param inventory - Inventory component (mutated)
+   * @param gold - Gold to add
+   * @param items - Items to add
+   */
+  private deposit(entityId: EntityId, inventory: Inventory, gold: number, items: Array<{ itemId: string; quantity: number }>): void {
+    inventory.gold = Math.min(GAME_CONFIG.MAX_GOLD, inventory.gold + gold);
+
+    for (const { itemId, quantity } of items) {
+      const stack = inventory.items.find(entry => entry.itemId === itemId);
+      if (stack) {
+        stack.quantity += quantity;
+      } else {
+        inventory.items.push({ itemId, quantity });
+      }
+    }
+
+    this.world?.updateComponent(entityId, 'Inventory', inventory);
+  }
+
+  /**
+   * Sends an event to all listeners
+   * @param event - Reward event
+   */
+  private emit(event: RewardEvent): void {
+    this.listeners.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        logger.error(LogSource.GAMEPLAY, `Reward event listener failed: ${error}`);
+      }
+    });
+  }
+
+  /**
+   * Gets reward statistics
+   * @returns Reward system statistics
+   */
+  public getStats(): {
+    victoriesRewarded: number;
+    listeners: number;
+  } {
+    return {
+      victoriesRewarded: this.victoriesRewarded,
+      listeners: this.listeners.size
+    };
+  }
+
+  /**
+   * Disposes of the reward system
+   */
+  public dispose(): void {
+    this.listeners.clear();
+    this.audio = null;
+    this.accessibility = null;
+    this.world = null;
+    logger.info(LogSource.GAMEPLAY, 'RewardSystem disposed');
+  }
+}
+
+export default RewardSystem;
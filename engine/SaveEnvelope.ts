@@ -0,0 +1,214 @@
+/**
+ * Save Envelope
+ * @fileoverview Checksummed, optionally compressed wrapper around stored save data
+ */
+
+import { RawSaveData, isRawSaveData } from './SaveMigrations';
+
+/** Marks a stored value as an envelope rather than bare save JSON */
+export const SAVE_ENVELOPE_FORMAT = 'aetherial-vanguard-save';
+
+/** Saves whose JSON is larger than this many characters are compressed */
+export const DEFAULT_COMPRESSION_THRESHOLD = 64 * 1024;
+
+/**
+ * How the envelope payload is encoded
+ */
+export type SaveEncoding = 'json' | 'deflate-base64';
+
+/**
+ * How the envelope checksum was computed
+ * SHA-256 needs crypto.subtle, which browsers only expose on secure origins; elsewhere saves
+ * fall back to 32-bit FNV-1a, which still catches truncation and accidental corruption.
+ */
+export type ChecksumAlgorithm = 'sha-256' | 'fnv1a-32';
+
+/**
+ * Stored form of a save
+ */
+export interface SaveEnvelope {
+  /** Always SAVE_ENVELOPE_FORMAT */
+  format: typeof SAVE_ENVELOPE_FORMAT;
+  /** Payload encoding */
+  encoding: SaveEncoding;
+  /** Checksum algorithm (envelopes written before this field existed used SHA-256) */
+  algorithm?: ChecksumAlgorithm;
+  /** Checksum of the save JSON, in hex, taken before compression */
+  checksum: string;
+  /** Save JSON, compressed and base64-encoded if the encoding says so */
+  payload: string;
+}
+
+/**
+ * Outcome of reading a stored save
+ */
+export interface DecodedSave {
+  /** Save data, or null if it could not be read */
+  data: RawSaveData | null;
+  /** Whether a checksum confirmed the data (false for bare JSON from older versions or hand-made files) */
+  verified: boolean;
+  /** Why the save could not be read */
+  error: string | null;
+}
+
+/**
+ * Wraps save data in a checksummed envelope
+ * @param data - Save data
+ * @param compressAbove - JSON length above which the payload is compressed
+ * @returns Serialized envelope
+ */
+export async function encodeSave(data: unknown, compressAbove: number = DEFAULT_COMPRESSION_THRESHOLD): Promise<string> {
+  const json = JSON.stringify(data);
+  const compress = json.length > compressAbove && typeof CompressionStream !== 'undefined';
+  const algorithm: ChecksumAlgorithm = hasSubtleCrypto() ? 'sha-256' : 'fnv1a-32';
+
+  const envelope: SaveEnvelope = {
+    format: SAVE_ENVELOPE_FORMAT,
+    encoding: compress ? 'deflate-base64' : 'json',
+    algorithm,
+    checksum: await checksum(json, algorithm),
+    payload: compress ? await deflate(json) : json
+  };
+
+  return JSON.stringify(envelope);
+}
+
+/**
+ * Reads a stored save, verifying its checksum
+ * Bare save JSON (written before envelopes existed, or hand-made) is accepted unverified, as is
+ * a SHA-256 envelope read where crypto.subtle is unavailable.
+ * @param serialized - Stored value
+ * @returns Decoded save
+ */
+export async function decodeSave(serialized: string): Promise<DecodedSave> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(serialized);
+  } catch {
+    return { data: null, verified: false, error: 'The save file is not valid JSON.' };
+  }
+
+  if (!isRawSaveData(parsed)) {
+    return { data: null, verified: false, error: 'The save file is not valid JSON.' };
+  }
+
+  if (parsed.format !== SAVE_ENVELOPE_FORMAT) {
+    return { data: parsed, verified: false, error: null };
+  }
+
+  const { encoding, payload } = parsed;
+  const algorithm = parsed.algorithm ?? 'sha-256';
+  if (typeof payload !== 'string' || typeof parsed.checksum !== 'string') {
+    return { data: null, verified: false, error: 'The save file is damaged and cannot be read.' };
+  }
+  if (!isChecksumAlgorithm(algorithm)) {
+    return { data: null, verified: false, error: `The save uses an unknown checksum (${algorithm}).` };
+  }
+
+  let json: string;
+  try {
+    if (encoding === 'json') {
+      json = payload;
+    } else if (encoding === 'deflate-base64') {
+      json = await inflate(payload);
+    } else {
+      return { data: null, verified: false, error: `The save uses an unknown encoding (${encoding}).` };
+    }
+  } catch {
+    return { data: null, verified: false, error: 'The save file is damaged and cannot be decompressed.' };
+  }
+
+  const verifiable = algorithm !== 'sha-256' || hasSubtleCrypto();
+  if (verifiable && (await checksum(json, algorithm)) !== parsed.checksum) {
+    return { data: null, verified: false, error: 'The save file is damaged (checksum mismatch).' };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { data: null, verified: false, error: 'The save file is damaged and cannot be read.' };
+  }
+
+  return isRawSaveData(data)
+    ? { data, verified: verifiable, error: null }
+    : { data: null, verified: false, error: 'The save file is damaged and cannot be read.' };
+}
+
+/**
+ * Checks for a supported checksum algorithm
+ * @param value - Value read from an envelope
+ * @returns True if the algorithm is supported
+ */
+function isChecksumAlgorithm(value: unknown): value is ChecksumAlgorithm {
+  return value === 'sha-256' || value === 'fnv1a-32';
+}
+
+/**
+ * Checks whether Web Crypto digests are available (browsers hide them on insecure origins)
+ * @returns True if crypto.subtle can be used
+ */
+function hasSubtleCrypto(): boolean {
+  return typeof crypto !== 'undefined' && typeof crypto.subtle !== 'undefined';
+}
+
+/**
+ * Checksums text with the given algorithm
+ * @param text - Text to checksum
+ * @param algorithm - Checksum algorithm
+ * @returns Lowercase hex digest
+ */
+async function checksum(text: string, algorithm: ChecksumAlgorithm): Promise<string> {
+  return algorithm === 'sha-256' ? sha256(text) : fnv1a32(text);
+}
+
+/**
+ * Hashes text with SHA-256
+ * @param text - Text to hash
+ * @returns Lowercase hex digest
+ */
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Hashes text with 32-bit FNV-1a over its UTF-8 bytes
+ * @param text - Text to hash
+ * @returns Lowercase hex digest
+ */
+function fnv1a32(text: string): string {
+  let hash = 0x811c9dc5;
+  for (const byte of new TextEncoder().encode(text)) {
+    hash = Math.imul(hash ^ byte, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Compresses text with deflate
+ * @param text - Text to compress
+ * @returns Base64 of the compressed bytes
+ */
+async function deflate(text: string): Promise<string> {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate'));
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+
+  // Build the binary string in chunks to stay under argument count limits
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decompresses text produced by deflate()
+ * @param base64 - Base64 of the compressed bytes
+ * @returns Original text
+ */
+async function inflate(base64: string): Promise<string> {
+  const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Response(stream).text();
+}
@@ -0,0 +1,252 @@
+/**
+ * Save Migrations
+ * @fileoverview Ordered, validated upgrades of save data from older save versions
+ */
+
+import { logger, LogSource } from './GlobalLogger';
+
+/**
+ * Save data as stored, before it is known to match the current format
+ */
+export type RawSaveData = Record<string, unknown>;
+
+/**
+ * One upgrade step between two consecutive save versions
+ */
+export interface SaveMigration {
+  /** Version the step reads */
+  from: string;
+  /** Version the step produces */
+  to: string;
+  /** What the step changes */
+  description: string;
+  /** Transforms a save from `from` to `to` (the input must not be modified) */
+  migrate: (data: RawSaveData) => RawSaveData;
+}
+
+/**
+ * Outcome of migrating a save
+ */
+export interface SaveMigrationResult {
+  /** Whether the save is now at the target version and valid */
+  success: boolean;
+  /** Migrated save data, or null on failure */
+  data: RawSaveData | null;
+  /** Version the save started at */
+  fromVersion: string;
+  /** Version the save was migrated to */
+  toVersion: string;
+  /** Steps applied, as "from -> to" */
+  applied: string[];
+  /** Player-facing reason the save could not be loaded */
+  error: string | null;
+}
+
+/**
+ * Checks whether a parsed value is a JSON object (a save, or one of its sections)
+ * @param value - Parsed value
+ * @returns True for non-null, non-array objects
+ */
+export function isRawSaveData(value: unknown): value is RawSaveData {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Compares two dotted version strings numerically
+ * @returns Negative if a < b, positive if a > b, zero if equal
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(part => parseInt(part, 10) || 0);
+  const right = b.split('.').map(part => parseInt(part, 10) || 0);
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] || 0) - (right[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Built-in migrations, oldest first
+ */
+export const SAVE_MIGRATIONS: SaveMigration[] = [
+  {
+    from: '1.0.0',
+    to: '1.1.0',
+    description: 'Move the player into a whole-world snapshot',
+    migrate: data => {
+      if (data.worldData) {
+        return data;
+      }
+
+      if (!isRawSaveData(data.player) || typeof data.player.entityId !== 'number') {
+        throw new Error('1.0.0 save has no player entity');
+      }
+
+      // 1.0.0 saves only held the player, partly in fixed fields and partly as serialized components
+      const { components, ...player } = data.player;
+      const entityId = data.player.entityId;
+      const playerComponents: Record<string, unknown> = {
+        ...(isRawSaveData(components) ? components : {}),
+        Position: player.position,
+        Health: player.health,
+        CombatStats: player.combatState,
+        Sprite: player.sprite,
+        Velocity: player.velocity
+      };
+
+      const componentData: Record<string, Record<number, unknown>> = {};
+      Object.entries(playerComponents).forEach(([componentType, value]) => {
+        if (value !== undefined) {
+          componentData[componentType] = { [entityId]: value };
+        }
+      });
+
+      return {
+        ...data,
+        player,
+        worldData: {
+          entities: [{ id: entityId, components: Object.keys(componentData) }],
+          componentData
+        }
+      };
+    }
+  }
+];
+
+/**
+ * Save Migration Registry class
+ * Chains registered steps from a save's version up to the target version
+ */
+export class SaveMigrationRegistry {
+  /** Registered steps by the version they read */
+  private migrations: Map<string, SaveMigration> = new Map();
+
+  /**
+   * Creates a new SaveMigrationRegistry instance
+   * @param migrations - Initial migration steps
+   */
+  constructor(migrations: SaveMigration[] = []) {
+    migrations.forEach(migration => this.register(migration));
+  }
+
+  /**
+   * Registers a migration step
+   * @param migration - Migration step
+   * @returns True if registered, false if it does not move forward or another step already reads its version
+   */
+  public register(migration: SaveMigration): boolean {
+    if (compareVersions(migration.to, migration.from) <= 0) {
+      logger.error(LogSource.CORE, `Save migration ${migration.from} -> ${migration.to} does not move forward`);
+      return false;
+    }
+
+    if (this.migrations.has(migration.from)) {
+      logger.error(LogSource.CORE, `A save migration from ${migration.from} is already registered`);
+      return false;
+    }
+
+    this.migrations.set(migration.from, migration);
+    return true;
+  }
+
+  /**
+   * Gets all registered steps, oldest first
+   * @returns Migration steps
+   */
+  public getMigrations(): SaveMigration[] {
+    return Array.from(this.migrations.values()).sort((a, b) => compareVersions(a.from, b.from));
+  }
+
+  /**
+   * Finds the steps leading from one version to another
+   * @param fromVersion - Starting version
+   * @param toVersion - Target version
+   * @returns Steps in order, or null if the versions are not connected
+   */
+  public getPath(fromVersion: string, toVersion: string): SaveMigration[] | null {
+    const path: SaveMigration[] = [];
+    let version = fromVersion;
+
+    while (version !== toVersion) {
+      const step = this.migrations.get(version);
+      if (!step || compareVersions(step.to, toVersion) > 0) {
+        return null;
+      }
+      path.push(step);
+      version = step.to;
+    }
+
+    return path;
+  }
+
+  /**
+   * Migrates a save to the target version, validating after every step
+   * @param data - Save data as stored
+   * @param toVersion - Target version
+   * @param validate - Structural check the save must pass after each step
+   * @returns Migration result; the input is never modified
+   */
+  public migrate(data: RawSaveData, toVersion: string, validate: (data: RawSaveData) => boolean): SaveMigrationResult {
+    const fromVersion = isRawSaveData(data.meta) && typeof data.meta.version === 'string' ? data.meta.version : 'unknown';
+    const result: SaveMigrationResult = { success: false, data: null, fromVersion, toVersion, applied: [], error: null };
+
+    if (fromVersion === 'unknown') {
+      result.error = 'This save file has no version and cannot be loaded.';
+      return result;
+    }
+
+    if (compareVersions(fromVersion, toVersion) > 0) {
+      result.error = `This save was made by a newer version of the game (save version ${fromVersion}, supported up to ${toVersion}).`;
+      return result;
+    }
+
+    const path = this.getPath(fromVersion, toVersion);
+    if (!path) {
+      result.error = `Save version ${fromVersion} is not supported and cannot be upgraded to ${toVersion}.`;
+      return result;
+    }
+
+    let current = data;
+    if (path.length === 0 && !validate(current)) {
+      result.error = 'This save file is damaged and cannot be loaded.';
+      return result;
+    }
+
+    for (const step of path) {
+      const label = `${step.from} -> ${step.to}`;
+
+      try {
+        current = step.migrate(structuredClone(current));
+        current.meta = { ...(isRawSaveData(current.meta) ? current.meta : {}), version: step.to };
+      } catch (error) {
+        logger.error(LogSource.CORE, `Save migration ${label} threw: ${error}`);
+        result.error = `Upgrading this save from ${step.from} to ${step.to} failed.`;
+        return result;
+      }
+
+      if (!validate(current)) {
+        logger.error(LogSource.CORE, `Save migration ${label} produced invalid data`);
+        result.error = `Upgrading this save from ${step.from} to ${step.to} produced invalid data.`;
+        return result;
+      }
+
+      result.applied.push(label);
+      logger.info(LogSource.CORE, `Migrated save ${label}: ${step.description}`);
+    }
+
+    result.success = true;
+    result.data = current;
+    return result;
+  }
+}
+
+/**
+ * Creates a registry holding the built-in migrations
+ * @returns Save migration registry
+ */
+export function createDefaultSaveMigrations(): SaveMigrationRegistry {
+  return new SaveMigrationRegistry(SAVE_MIGRATIONS);
+}
+
+export default SaveMigrationRegistry;
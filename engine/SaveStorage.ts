@@ -0,0 +1,186 @@
+/**
+ * Save Storage
+ * @fileoverview Pluggable key-value backends for save files
+ */
+
+import { logger, LogSource } from './GlobalLogger';
+
+/**
+ * Asynchronous key-value store holding serialized save files
+ */
+export interface SaveStorage {
+  /** Backend name, for logs */
+  readonly name: string;
+  /**
+   * Reads a value
+   * @param key - Storage key
+   * @returns Stored value, or null if missing
+   */
+  getItem(key: string): Promise<string | null>;
+  /**
+   * Writes a value, replacing any existing one
+   * @param key - Storage key
+   * @param value - Value to store
+   */
+  setItem(key: string, value: string): Promise<void>;
+  /**
+   * Removes a value (missing keys are ignored)
+   * @param key - Storage key
+   */
+  removeItem(key: string): Promise<void>;
+}
+
+/**
+ * In-memory storage, for tests and tools that should not touch disk or the browser
+ */
+export class MemorySaveStorage implements SaveStorage {
+  public readonly name = 'memory';
+
+  /** Stored values */
+  private values: Map<string, string> = new Map();
+
+  public async getItem(key: string): Promise<string | null> {
+    return this.values.get(key) ?? null;
+  }
+
+  public async setItem(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+  }
+
+  public async removeItem(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+}
+
+/**
+ * Browser localStorage (a few MB at most)
+ */
+export class LocalSaveStorage implements SaveStorage {
+  public readonly name = 'localStorage';
+
+  public async getItem(key: string): Promise<string | null> {
+    return localStorage.getItem(key);
+  }
+
+  public async setItem(key: string, value: string): Promise<void> {
+    localStorage.setItem(key, value);
+  }
+
+  public async removeItem(key: string): Promise<void> {
+    localStorage.removeItem(key);
+  }
+}
+
+/**
+ * Browser IndexedDB, for saves too large for localStorage
+ */
+export class IndexedDBSaveStorage implements SaveStorage {
+  public readonly name = 'indexedDB';
+
+  /** Database name */
+  private readonly databaseName: string;
+
+  /** Object store holding the saves */
+  private readonly storeName: string;
+
+  /** Storage read when a key is missing, so saves written before the switch still load */
+  private readonly legacy: SaveStorage | null;
+
+  /** Open database, shared by all operations */
+  private database: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Creates a new IndexedDBSaveStorage instance
+   * @param databaseName - Database name
+   * @param storeName - Object store name
+   * @param legacy - Storage to fall back to for reads (and to clean up on removal)
+   */
+  constructor(databaseName: string = 'aetherial_vanguard', storeName: string = 'saves', legacy: SaveStorage | null = null) {
+    this.databaseName = databaseName;
+    this.storeName = storeName;
+    this.legacy = legacy;
+  }
+
+  public async getItem(key: string): Promise<string | null> {
+    const value = await this.run<string | undefined>('readonly', store => store.get(key));
+    if (value !== undefined) {
+      return value;
+    }
+    return this.legacy ? this.legacy.getItem(key) : null;
+  }
+
+  public async setItem(key: string, value: string): Promise<void> {
+    await this.run('readwrite', store => store.put(value, key));
+  }
+
+  public async removeItem(key: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(key));
+    await this.legacy?.removeItem(key);
+  }
+
+  /**
+   * Opens the database, creating the object store on first use
+   * @returns Open database
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      }).catch(error => {
+        // Allow a later call to retry
+        this.database = null;
+        logger.error(LogSource.CORE, `Failed to open save database ${this.databaseName}: ${error}`);
+        throw error;
+      });
+    }
+
+    return this.database;
+  }
+
+  /**
+   * Runs one request in its own transaction
+   * @param mode - Transaction mode
+   * @param operation - Issues the request against the object store
+   * @returns Request result, once the transaction has committed
+   */
+  private async run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const database = await this.open();
+
+    return new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(this.storeName, mode);
+      const request = operation(transaction.objectStore(this.storeName));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+
+/**
+ * Picks the best storage available in the current environment
+ * IndexedDB (reading older localStorage saves) in browsers, localStorage where
+ * only that exists, and memory otherwise. Node tools can pass a FileSaveStorage instead.
+ * @returns Save storage
+ */
+export function createDefaultSaveStorage(): SaveStorage {
+  const hasLocalStorage = typeof localStorage !== 'undefined';
+
+  if (typeof indexedDB !== 'undefined') {
+    return new IndexedDBSaveStorage('aetherial_vanguard', 'saves', hasLocalStorage ? new LocalSaveStorage() : null);
+  }
+  if (hasLocalStorage) {
+    return new LocalSaveStorage();
+  }
+
+  logger.warn(LogSource.CORE, 'No persistent storage available, saves will be kept in memory');
+  return new MemorySaveStorage();
+}
+
+export default SaveStorage;
@@ -5,8 +5,15 @@
 
 import { WorldManager } from './WorldManager';
 import { logger, LogSource } from './GlobalLogger';
-import { EntityId, Position, Health, CombatStats, Sprite, Velocity } from '../types';
+import { EntityId, ComponentType, GameState, Position, Health, CombatStats, Sprite, Velocity } from '../types';
 import { GAME_CONFIG } from '../data/GameData';
+import { SaveMigrationRegistry, SaveMigrationResult, compareVersions, createDefaultSaveMigrations, isRawSaveData } from './SaveMigrations';
+import { SaveStorage, createDefaultSaveStorage } from './SaveStorage';
+import { encodeSave, decodeSave } from './SaveEnvelope';
+import type { QuestSystem } from './QuestSystem';
+import type { GameClock } from './GameClock';
+import type { ShopSystem } from './ShopSystem';
+import type { CutsceneRunner } from './CutsceneRunner';
 
 /**
  * Save game data structure
@@ -51,6 +58,9 @@ export interface SaveGameData {
     gold: number;
   };
 
+  /** Every entity and its serialized components (added in 1.1.0) */
+  worldData?: GameState['worldData'];
+
   /** Game state */
   gameState: {
     /** Current scene */
@@ -69,6 +79,12 @@ export interface SaveGameData {
     switches: Record<string, boolean>;
     /** Global variables */
     variables: Record<string, number>;
+    /** In-game minutes elapsed (absent in saves made before the game clock) */
+    gameMinutes?: number;
+    /** Play-once cutscenes already seen (absent in saves made before cutscenes) */
+    playedCutscenes?: string[];
+    /** Units left of limited shop items, by shop and item (absent in saves made before stock was saved) */
+    shopStock?: Record<string, Record<string, number>>;
   };
 
   /** Inventory data */
@@ -153,6 +169,18 @@ export interface SaveSlotInfo {
   size?: number;
 }
 
+/**
+ * Stored save after verification and migration
+ */
+interface SlotRead {
+  /** Migrated save data, or null if it cannot be used */
+  data: SaveGameData | null;
+  /** Player-facing reason the save cannot be used */
+  error: string | null;
+  /** Stored size in bytes */
+  size: number;
+}
+
 /**
  * Save System
  * Handles all save/load operations with versioning and migration
@@ -162,16 +190,45 @@ export class SaveSystem {
   private world: WorldManager | null = null;
 
   /** Current save version */
-  private readonly CURRENT_VERSION = '1.0.0';
+  private readonly CURRENT_VERSION = '1.1.0';
+
+  /** Upgrades applied to saves from older versions */
+  private migrations: SaveMigrationRegistry = createDefaultSaveMigrations();
+
+  /** Quest system whose progress is saved with the game */
+  private questSystem: QuestSystem | null = null;
+
+  /** Game clock whose time is saved with the game */
+  private clock: GameClock | null = null;
+
+  /** Shop system whose gold totals are saved in the statistics */
+  private shopSystem: ShopSystem | null = null;
+
+  /** Cutscene runner whose played cutscenes are saved with the game */
+  private cutsceneRunner: CutsceneRunner | null = null;
+
+  /** Why the most recent load or import failed */
+  private lastLoadError: string | null = null;
 
-  /** Local storage key prefix */
+  /** Backend holding the save files */
+  private storage: SaveStorage;
+
+  /** Storage key prefix */
   private readonly STORAGE_PREFIX = 'aetherial_vanguard_save_';
 
+  /** Suffix of the key holding a slot's previous save */
+  private readonly BACKUP_SUFFIX = '.bak';
+
+  /** Suffix of the key a new save is written to before it replaces the slot */
+  private readonly PENDING_SUFFIX = '.tmp';
+
   /**
    * Creates a new SaveSystem instance
+   * @param storage - Backend holding the save files (defaults to the best one available)
    */
-  constructor() {
-    logger.info(LogSource.CORE, 'SaveSystem initialized');
+  constructor(storage: SaveStorage = createDefaultSaveStorage()) {
+    this.storage = storage;
+    logger.info(LogSource.CORE, `SaveSystem initialized with ${storage.name} storage`);
   }
 
   /**
@@ -182,13 +239,53 @@ export class SaveSystem {
     this.world = world;
   }
 
+  /**
+   * Sets the quest system whose progress is saved and restored
+   * @param questSystem - Quest system instance
+   */
+  public setQuestSystem(questSystem: QuestSystem): void {
+    this.questSystem = questSystem;
+  }
+
+  /**
+   * Sets the game clock whose time is saved and restored
+   * @param clock - Game clock instance
+   */
+  public setClock(clock: GameClock): void {
+    this.clock = clock;
+  }
+
+  /**
+   * Sets the shop system whose gold totals and remaining stock are saved and restored
+   * @param shopSystem - Shop system instance
+   */
+  public setShopSystem(shopSystem: ShopSystem): void {
+    this.shopSystem = shopSystem;
+  }
+
+  /**
+   * Sets the cutscene runner whose played cutscenes are saved and restored
+   * @param cutsceneRunner - Cutscene runner instance
+   */
+  public setCutsceneRunner(cutsceneRunner: CutsceneRunner): void {
+    this.cutsceneRunner = cutsceneRunner;
+  }
+
+  /**
+   * Gets the storage backend
+   * @returns Save storage
+   */
+  public getStorage(): SaveStorage {
+    return this.storage;
+  }
+
   /**
    * Saves the current game state to the specified slot
    * @param slot - Save slot number (1-10)
    * @param saveName - Optional custom save name
    * @returns Success status
    */
-  public saveGame(slot: number, saveName?: string): boolean {
+  public async saveGame(slot: number, saveName?: string): Promise<boolean> {
     if (!this.world) {
       logger.error(LogSource.CORE, 'World manager not set for save operation');
       return false;
@@ -210,10 +307,7 @@ export class SaveSystem {
       }
 
       // Serialize and store
-      const serializedData = JSON.stringify(saveData);
-      const storageKey = this.getStorageKey(slot);
-
-      localStorage.setItem(storageKey, serializedData);
+      await this.writeSlot(slot, await encodeSave(saveData));
 
       logger.info(LogSource.CORE, `Game saved to slot ${slot}: ${saveData.meta.name}`);
 
@@ -232,7 +326,7 @@ export class SaveSystem {
    * @param slot - Save slot number (1-10)
    * @returns Success status
    */
-  public loadGame(slot: number): boolean {
+  public async loadGame(slot: number): Promise<boolean> {
     if (!this.world) {
       logger.error(LogSource.CORE, 'World manager not set for load operation');
       return false;
@@ -243,26 +337,25 @@ export class SaveSystem {
       return false;
     }
 
+    this.lastLoadError = null;
+
     try {
-      const storageKey = this.getStorageKey(slot);
-      const serializedData = localStorage.getItem(storageKey);
+      // Verify, migrate and validate, falling back to the previous save if needed
+      const saved = await this.readSlot(slot);
 
-      if (!serializedData) {
+      if (!saved) {
         logger.warn(LogSource.CORE, `No save data found in slot ${slot}`);
+        this.lastLoadError = `There is no save in slot ${slot}.`;
         return false;
       }
 
-      // Deserialize save data
-      const saveData: SaveGameData = JSON.parse(serializedData);
-
-      // Validate loaded data
-      if (!this.validateSaveData(saveData)) {
-        logger.error(LogSource.CORE, `Invalid save data in slot ${slot}`);
+      if (!saved.data) {
+        logger.error(LogSource.CORE, `Cannot load slot ${slot}: ${saved.error}`);
+        this.lastLoadError = saved.error;
         return false;
       }
 
-      // Check version and migrate if necessary
-      const migratedData = this.migrateSaveData(saveData);
+      const migratedData = saved.data;
 
       // Apply save data to world
       this.applySaveData(migratedData);
@@ -272,16 +365,33 @@ export class SaveSystem {
       return true;
     } catch (error) {
       logger.error(LogSource.CORE, `Failed to load game from slot ${slot}: ${error}`);
+      this.lastLoadError = `The save in slot ${slot} could not be read.`;
       return false;
     }
   }
 
+  /**
+   * Gets a player-facing explanation of why the last load or import failed
+   * @returns Failure reason, or null if the last attempt succeeded
+   */
+  public getLastLoadError(): string | null {
+    return this.lastLoadError;
+  }
+
+  /**
+   * Gets the save migration registry
+   * @returns Migration registry
+   */
+  public getMigrations(): SaveMigrationRegistry {
+    return this.migrations;
+  }
+
   /**
    * Deletes the save file in the specified slot
    * @param slot - Save slot number (1-10)
    * @returns Success status
    */
-  public deleteSave(slot: number): boolean {
+  public async deleteSave(slot: number): Promise<boolean> {
     if (slot < 1 || slot > GAME_CONFIG.MAX_SAVE_SLOTS) {
       logger.error(LogSource.CORE, `Invalid save slot: ${slot}`);
       return false;
@@ -289,7 +399,9 @@ export class SaveSystem {
 
     try {
       const storageKey = this.getStorageKey(slot);
-      localStorage.removeItem(storageKey);
+      await this.storage.removeItem(storageKey);
+      await this.storage.removeItem(storageKey + this.BACKUP_SUFFIX);
+      await this.storage.removeItem(storageKey + this.PENDING_SUFFIX);
 
       logger.info(LogSource.CORE, `Save file deleted from slot ${slot}`);
       return true;
@@ -303,29 +415,25 @@ export class SaveSystem {
    * Gets information about all save slots
    * @returns Array of save slot information
    */
-  public getSaveSlots(): SaveSlotInfo[] {
+  public async getSaveSlots(): Promise<SaveSlotInfo[]> {
     const slots: SaveSlotInfo[] = [];
 
     for (let slot = 1; slot <= GAME_CONFIG.MAX_SAVE_SLOTS; slot++) {
-      const storageKey = this.getStorageKey(slot);
-      const serializedData = localStorage.getItem(storageKey);
-
-      if (serializedData) {
-        try {
-          const saveData: SaveGameData = JSON.parse(serializedData);
-          slots.push({
-            slot,
-            occupied: true,
-            data: saveData,
-            size: new Blob([serializedData]).size
-          });
-        } catch (error) {
-          logger.warn(LogSource.CORE, `Corrupted save data in slot ${slot}`);
-          slots.push({
-            slot,
-            occupied: false
-          });
-        }
+      const saved = await this.readSlot(slot);
+
+      if (saved?.data) {
+        slots.push({
+          slot,
+          occupied: true,
+          data: saved.data,
+          size: saved.size
+        });
+      } else if (saved) {
+        logger.warn(LogSource.CORE, `Corrupted save data in slot ${slot}: ${saved.error}`);
+        slots.push({
+          slot,
+          occupied: false
+        });
       } else {
         slots.push({
           slot,
@@ -338,35 +446,24 @@ export class SaveSystem {
   }
 
   /**
-   * Checks if a save slot exists and is valid
+   * Checks if a save slot holds a loadable save (or a loadable backup)
    * @param slot - Save slot number (1-10)
    * @returns Whether slot exists and is valid
    */
-  public saveExists(slot: number): boolean {
+  public async saveExists(slot: number): Promise<boolean> {
     if (slot < 1 || slot > GAME_CONFIG.MAX_SAVE_SLOTS) {
       return false;
     }
 
-    const storageKey = this.getStorageKey(slot);
-    const serializedData = localStorage.getItem(storageKey);
-
-    if (!serializedData) {
-      return false;
-    }
-
-    try {
-      const saveData: SaveGameData = JSON.parse(serializedData);
-      return this.validateSaveData(saveData);
-    } catch {
-      return false;
-    }
+    const saved = await this.readSlot(slot);
+    return Boolean(saved?.data);
   }
 
   /**
    * Performs auto-save to the designated auto-save slot
    * @returns Success status
    */
-  public autoSave(): boolean {
+  public autoSave(): Promise<boolean> {
     return this.saveGame(GAME_CONFIG.AUTOSAVE_SLOT, `Auto Save ${new Date().toLocaleString()}`);
   }
 
@@ -421,13 +518,17 @@ export class SaveSystem {
         gold: 100
       },
 
+      worldData: this.snapshotWorld(),
+
       gameState: {
         currentScene: 'OVERWORLD',
         storyFlags: {},
-        completedQuests: [],
-        activeQuests: [],
+        ...(this.questSystem?.serialize() ?? { completedQuests: [], activeQuests: [] }),
         switches: {},
-        variables: {}
+        variables: {},
+        ...(this.clock ? { gameMinutes: this.clock.serialize() } : {}),
+        ...(this.cutsceneRunner ? { playedCutscenes: this.cutsceneRunner.serialize() } : {}),
+        ...(this.shopSystem ? { shopStock: this.shopSystem.serializeStock() } : {})
       },
 
       inventory: {
@@ -469,8 +570,7 @@ export class SaveSystem {
           enemiesDefeated: 0,
           itemsUsed: 0,
           stepsTaken: 0,
-          goldEarned: 100,
-          goldSpent: 0,
+          ...(this.shopSystem?.getTotals() ?? { goldEarned: 100, goldSpent: 0 }),
           saveCount: 1
         },
         settings: {
@@ -516,27 +616,55 @@ export class SaveSystem {
       return false;
     }
 
+    // Validate world snapshot (required from 1.1.0)
+    if (data.worldData === undefined) {
+      if (compareVersions(data.meta.version, '1.1.0') >= 0) {
+        logger.warn(LogSource.CORE, 'Missing world data in save file');
+        return false;
+      }
+    } else if (!this.validateWorldData(data.worldData)) {
+      logger.warn(LogSource.CORE, 'Invalid world data in save file');
+      return false;
+    }
+
     return true;
   }
 
   /**
-   * Migrates save data to current version
-   * @param data - Save data to migrate
-   * @returns Migrated save data
+   * Checks the shape of a world snapshot, so restoring it cannot fail halfway through
+   * @param worldData - World snapshot to check
+   * @returns Whether the snapshot is well formed
    */
-  private migrateSaveData(data: SaveGameData): SaveGameData {
-    // For now, just return the data as-is
-    // In a real implementation, this would handle version migrations
-    if (data.meta.version !== this.CURRENT_VERSION) {
-      logger.info(LogSource.CORE, `Migrating save from version ${data.meta.version} to ${this.CURRENT_VERSION}`);
+  private validateWorldData(worldData: unknown): boolean {
+    if (!isRawSaveData(worldData) || !Array.isArray(worldData.entities) || !isRawSaveData(worldData.componentData)) {
+      return false;
+    }
 
-      // Update version
-      data.meta.version = this.CURRENT_VERSION;
+    const ids = new Set<unknown>();
+    for (const entity of worldData.entities) {
+      if (!isRawSaveData(entity) || !Number.isInteger(entity.id) || ids.has(entity.id) || !Array.isArray(entity.components)) {
+        return false;
+      }
+      if (!entity.components.every(componentType => typeof componentType === 'string')) {
+        return false;
+      }
+      ids.add(entity.id);
+    }
 
-      // Add migration logic here as needed
+    return Object.values(worldData.componentData).every(isRawSaveData);
+  }
+
+  /**
+   * Migrates save data to current version
+   * @param data - Save data as stored
+   * @returns Migration result holding the upgraded data, or the reason it failed
+   */
+  private migrateSaveData(data: unknown): SaveMigrationResult {
+    if (!isRawSaveData(data)) {
+      return { success: false, data: null, fromVersion: 'unknown', toVersion: this.CURRENT_VERSION, applied: [], error: 'This save file is damaged and cannot be loaded.' };
     }
 
-    return data;
+    return this.migrations.migrate(data, this.CURRENT_VERSION, candidate => this.validateSaveData(candidate));
   }
 
   /**
@@ -551,24 +679,112 @@ export class SaveSystem {
     // Clear current world state
     this.world.clear();
 
-    // Recreate player entity
-    const playerEntityId = this.world.createEntity(['Position', 'Health', 'CombatStats', 'Sprite', 'Velocity']);
+    // Migration guarantees a world snapshot
+    const idMap = this.restoreWorld(data.worldData!);
+    logger.info(LogSource.CORE, `Restored ${idMap.size} entities, player is now ${idMap.get(data.player.entityId) ?? 'missing'}`);
 
-    // Apply player data
-    this.world.addComponent(playerEntityId, 'Position', data.player.position);
-    this.world.addComponent(playerEntityId, 'Health', data.player.health);
-    this.world.addComponent(playerEntityId, 'CombatStats', data.player.combatState);
-    this.world.addComponent(playerEntityId, 'Sprite', data.player.sprite);
-    this.world.addComponent(playerEntityId, 'Velocity', data.player.velocity);
+    if (this.questSystem) {
+      this.questSystem.restore(data.gameState);
+      const playerId = idMap.get(data.player.entityId);
+      if (playerId !== undefined) {
+        this.questSystem.setPlayer(playerId);
+      }
+    }
 
-    logger.info(LogSource.CORE, `Player entity recreated: ${playerEntityId}`);
+    if (this.shopSystem) {
+      this.shopSystem.restoreTotals(data.system.stats);
+      this.shopSystem.restoreStock(data.gameState.shopStock);
+    }
 
-    // Apply other game state data
-    // This would include recreating other entities, setting switches, etc.
+    if (this.clock && data.gameState.gameMinutes !== undefined) {
+      this.clock.restore(data.gameState.gameMinutes);
+    }
+
+    if (this.cutsceneRunner && data.gameState.playedCutscenes !== undefined) {
+      this.cutsceneRunner.restore(data.gameState.playedCutscenes);
+    }
 
     logger.info(LogSource.CORE, 'Save data applied successfully');
   }
 
+  /**
+   * Serializes every entity in the world
+   * Transient components are listed but their data is not saved, and
+   * unregistered components are skipped because they cannot be serialized.
+   * @returns World snapshot
+   */
+  private snapshotWorld(): GameState['worldData'] {
+    const registry = this.world!.getComponentRegistry();
+    const snapshot: GameState['worldData'] = { entities: [], componentData: {} };
+
+    for (const [entityId, entity] of this.world!.entities) {
+      const components: ComponentType[] = [];
+
+      for (const componentType of entity.components) {
+        if (!registry.has(componentType)) {
+          logger.debug(LogSource.CORE, `Not saving unregistered component ${componentType} of entity ${entityId}`);
+          continue;
+        }
+
+        components.push(componentType);
+        if (registry.isTransient(componentType)) continue;
+
+        const data = this.world!.getComponent(entityId, componentType);
+        if (data !== null) {
+          snapshot.componentData[componentType] ??= {};
+          snapshot.componentData[componentType][entityId] = registry.serialize(componentType, data);
+        }
+      }
+
+      snapshot.entities.push({ id: entityId, components });
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Recreates every entity in a world snapshot
+   * Entities get fresh IDs, so references between them are rewritten; components
+   * pointing at entities missing from the snapshot are dropped.
+   * @param worldData - World snapshot
+   * @returns Map from saved entity IDs to their new IDs
+   */
+  private restoreWorld(worldData: GameState['worldData']): Map<EntityId, EntityId> {
+    const registry = this.world!.getComponentRegistry();
+    const idMap = new Map<EntityId, EntityId>();
+
+    // Allocate every entity first so references can be rewritten in one pass
+    worldData.entities.forEach(({ id }) => idMap.set(id, this.world!.createEntity()));
+    const remap = (entityId: EntityId): EntityId | null => idMap.get(entityId) ?? null;
+
+    for (const { id, components } of worldData.entities) {
+      const entityId = idMap.get(id)!;
+
+      for (const componentType of components) {
+        if (!registry.has(componentType)) {
+          logger.warn(LogSource.CORE, `Skipping unknown component ${componentType} in save data`);
+          continue;
+        }
+
+        const raw = worldData.componentData[componentType]?.[id];
+        if (raw === undefined) {
+          this.world!.addComponent(entityId, componentType, registry.createDefault(componentType));
+          continue;
+        }
+
+        const remapped = registry.remapEntities(componentType, raw, remap);
+        if (remapped === null) {
+          logger.warn(LogSource.CORE, `Dropping ${componentType} of entity ${id}: it references a missing entity`);
+          continue;
+        }
+
+        this.world!.addComponent(entityId, componentType, registry.deserialize(componentType, remapped));
+      }
+    }
+
+    return idMap;
+  }
+
   /**
    * Gets the storage key for a save slot
    * @param slot - Save slot number
@@ -578,6 +794,86 @@ export class SaveSystem {
     return `${this.STORAGE_PREFIX}${slot}`;
   }
 
+  /**
+   * Writes a save to a slot without ever leaving the slot half-written
+   * The save goes to a pending key first and is read back; only then does the
+   * slot's current save become its backup and the new save replace it.
+   * @param slot - Save slot number
+   * @param serializedData - Encoded save
+   */
+  private async writeSlot(slot: number, serializedData: string): Promise<void> {
+    const storageKey = this.getStorageKey(slot);
+    const pendingKey = storageKey + this.PENDING_SUFFIX;
+
+    await this.storage.setItem(pendingKey, serializedData);
+    if ((await this.storage.getItem(pendingKey)) !== serializedData) {
+      throw new Error(`Save for slot ${slot} did not survive the write`);
+    }
+
+    // Only keep the previous save as a backup if it can still be read
+    const previous = await this.storage.getItem(storageKey);
+    if (previous && (await decodeSave(previous)).data) {
+      await this.storage.setItem(storageKey + this.BACKUP_SUFFIX, previous);
+    }
+
+    await this.storage.setItem(storageKey, serializedData);
+    await this.storage.removeItem(pendingKey);
+  }
+
+  /**
+   * Reads the save in a slot, falling back to the slot's backup when it fails verification
+   * @param slot - Save slot number
+   * @returns The save read, or null if the slot is empty
+   */
+  private async readSlot(slot: number): Promise<SlotRead | null> {
+    const storageKey = this.getStorageKey(slot);
+    const primary = await this.readSave(storageKey);
+    if (!primary || primary.data) {
+      return primary;
+    }
+
+    const backup = await this.readSave(storageKey + this.BACKUP_SUFFIX);
+    if (backup?.data) {
+      logger.warn(LogSource.CORE, `Save in slot ${slot} failed verification (${primary.error}), using the previous save`);
+      return backup;
+    }
+
+    return primary;
+  }
+
+  /**
+   * Reads, verifies, migrates and validates one stored save
+   * @param storageKey - Storage key
+   * @returns The save read, or null if nothing is stored under the key
+   */
+  private async readSave(storageKey: string): Promise<SlotRead | null> {
+    let serializedData: string | null;
+    try {
+      serializedData = await this.storage.getItem(storageKey);
+    } catch (error) {
+      logger.error(LogSource.CORE, `Could not read ${storageKey}: ${error}`);
+      return { data: null, error: 'The save could not be read from storage.', size: 0 };
+    }
+
+    if (!serializedData) {
+      return null;
+    }
+
+    const size = new Blob([serializedData]).size;
+    const decoded = await decodeSave(serializedData);
+    if (!decoded.data) {
+      return { data: null, error: decoded.error, size };
+    }
+
+    // Check version and migrate if necessary (validated after every step)
+    const migration = this.migrateSaveData(decoded.data);
+    if (!migration.success || !this.validateSaveData(migration.data)) {
+      return { data: null, error: migration.error, size };
+    }
+
+    return { data: migration.data, error: null, size };
+  }
+
   /**
    * Updates the save count in statistics
    */
@@ -592,10 +888,10 @@ export class SaveSystem {
    * @param slot - Save slot to export
    * @returns Success status
    */
-  public exportSave(slot: number): boolean {
+  public async exportSave(slot: number): Promise<boolean> {
     try {
       const storageKey = this.getStorageKey(slot);
-      const serializedData = localStorage.getItem(storageKey);
+      const serializedData = await this.storage.getItem(storageKey);
 
       if (!serializedData) {
         logger.warn(LogSource.CORE, `No save data to export in slot ${slot}`);
@@ -628,27 +924,33 @@ export class SaveSystem {
    * @returns Success status
    */
   public async importSave(file: File, slot: number): Promise<boolean> {
-    try {
-      const text = await file.text();
-      const saveData: SaveGameData = JSON.parse(text);
+    this.lastLoadError = null;
 
-      if (!this.validateSaveData(saveData)) {
-        logger.error(LogSource.CORE, 'Invalid save file data');
+    try {
+      // Verify the checksum of exported saves; bare JSON is accepted if it validates
+      const decoded = await decodeSave(await file.text());
+      if (!decoded.data) {
+        logger.error(LogSource.CORE, `Invalid save file: ${decoded.error}`);
+        this.lastLoadError = decoded.error;
         return false;
       }
 
       // Migrate if necessary
-      const migratedData = this.migrateSaveData(saveData);
+      const migration = this.migrateSaveData(decoded.data);
+      if (!migration.success) {
+        logger.error(LogSource.CORE, `Invalid save file data: ${migration.error}`);
+        this.lastLoadError = migration.error;
+        return false;
+      }
 
       // Store in specified slot
-      const serializedData = JSON.stringify(migratedData);
-      const storageKey = this.getStorageKey(slot);
-      localStorage.setItem(storageKey, serializedData);
+      await this.writeSlot(slot, await encodeSave(migration.data));
 
       logger.info(LogSource.CORE, `Save imported to slot ${slot}`);
       return true;
     } catch (error) {
       logger.error(LogSource.CORE, `Failed to import save: ${error}`);
+      this.lastLoadError = 'The save file could not be read.';
       return false;
     }
   }
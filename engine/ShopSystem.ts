@@ -0,0 +1,512 @@
+/**
+ * Shop System
+ * @fileoverview Town shop transactions: pricing from item values, stock limits, gold accounting and equip previews
+ */
+
+import { WorldManager } from './WorldManager';
+import { logger, LogSource } from './GlobalLogger';
+import { CharacterClass, CharacterStats, EntityId, Inventory, ItemDef, Party } from '../types';
+import { CHARACTER_CLASSES_DATABASE, GAME_CONFIG, WORLD_LOCATIONS_DATABASE, getItem } from '../data/GameData';
+
+/**
+ * Price rules applied to item values
+ */
+export interface ShopPricing {
+  /** Multiplier on an item's value when buying (minimum price 1) */
+  buyMarkup: number;
+  /** Fraction of an item's value paid when selling (rounded down) */
+  sellRate: number;
+}
+
+/**
+ * Default price rules: buy at value, sell for half
+ */
+export const DEFAULT_SHOP_PRICING: ShopPricing = {
+  buyMarkup: 1,
+  sellRate: 0.5
+};
+
+/**
+ * Whether one party member could equip an item
+ */
+export interface EquipPreview {
+  /** Party member entity ID */
+  entityId: EntityId;
+  /** Member's class */
+  characterClass: CharacterClass;
+  /** Whether the class may equip the item */
+  canEquip: boolean;
+}
+
+/**
+ * One item on a shop's shelf
+ */
+export interface ShopListing {
+  /** Item ID */
+  itemId: string;
+  /** Display name */
+  name: string;
+  /** Item description */
+  description: string;
+  /** Item type */
+  type: ItemDef['type'];
+  /** Price of one unit */
+  price: number;
+  /** Units left, or null if unlimited */
+  stock: number | null;
+  /** Whether the customer can afford one unit */
+  affordable: boolean;
+  /** Equip preview per party member (empty for items that are not equipment) */
+  equipPreview: EquipPreview[];
+}
+
+/**
+ * Why a transaction was refused
+ */
+export type ShopFailureReason =
+  | 'unknown_shop'
+  | 'no_customer'
+  | 'invalid_quantity'
+  | 'not_stocked'
+  | 'out_of_stock'
+  | 'insufficient_gold'
+  | 'inventory_full'
+  | 'not_carried'
+  | 'not_sellable'
+  | 'gold_cap';
+
+/**
+ * Outcome of a purchase or sale
+ */
+export interface ShopTransaction {
+  /** Whether the transaction went through */
+  success: boolean;
+  /** Shop (location) ID */
+  shopId: string;
+  /** Item ID */
+  itemId: string;
+  /** Units requested */
+  quantity: number;
+  /** Gold paid or received in total (0 if refused) */
+  gold: number;
+  /** Why the transaction was refused, or null */
+  reason: ShopFailureReason | null;
+}
+
+/**
+ * Shop event emitted to listeners
+ */
+export type ShopEvent =
+  | { type: 'shop_opened'; shopId: string; listings: ShopListing[] }
+  | { type: 'item_bought'; transaction: ShopTransaction }
+  | { type: 'item_sold'; transaction: ShopTransaction }
+  | { type: 'transaction_failed'; transaction: ShopTransaction };
+
+/**
+ * Shop definition as listed in the locations database
+ */
+type ShopLocation = { name: string; shopItems?: string[]; shopStock?: Record<string, number> };
+
+/**
+ * Shop System
+ * Buys and sells items for the player's gold at the shops listed by each location
+ */
+export class ShopSystem {
+  /** World manager reference */
+  private world: WorldManager | null = null;
+
+  /** Customer entity ID (holds the Inventory; its Party, if any, gets equip previews) */
+  private playerId: EntityId | null = null;
+
+  /** Locations with their shop lists */
+  private locations: Record<string, ShopLocation>;
+
+  /** Price rules */
+  private pricing: ShopPricing;
+
+  /** Units left of limited items, per shop */
+  private stock: Map<string, Map<string, number>> = new Map();
+
+  /** Gold received from sales */
+  private goldEarned: number = 0;
+
+  /** Gold paid for purchases */
+  private goldSpent: number = 0;
+
+  /** Completed transactions */
+  private transactions: number = 0;
+
+  /** Event listeners */
+  private listeners: Set<(event: ShopEvent) => void> = new Set();
+
+  /**
+   * Creates a new ShopSystem instance
+   * @param locations - Locations with their shop lists
+   * @param pricing - Price rules (defaults to DEFAULT_SHOP_PRICING)
+   */
+  constructor(locations: Record<string, ShopLocation> = WORLD_LOCATIONS_DATABASE, pricing: Partial<ShopPricing> = {}) {
+    this.locations = locations;
+    this.pricing = { ...DEFAULT_SHOP_PRICING, ...pricing };
+    logger.info(LogSource.GAMEPLAY, 'ShopSystem initialized');
+  }
+
+  /**
+   * Sets the world manager reference
+   * @param world - World manager instance
+   */
+  public setWorld(world: WorldManager): void {
+    this.world = world;
+  }
+
+  /**
+   * Sets the customer entity ID
+   * @param playerId - Player entity ID
+   */
+  public setPlayer(playerId: EntityId): void {
+    this.playerId = playerId;
+  }
+
+  /**
+   * Opens a shop and notifies listeners with its shelf
+   * @param shopId - Location ID
+   * @returns Listings, or null if the location has no shop
+   */
+  public openShop(shopId: string): ShopListing[] | null {
+    const listings = this.getListings(shopId);
+    if (!listings) {
+      logger.warn(LogSource.GAMEPLAY, `No shop at ${shopId}`);
+      return null;
+    }
+
+    this.emit({ type: 'shop_opened', shopId, listings });
+    return listings;
+  }
+
+  /**
+   * Gets the items a shop sells
+   * Entries that are not items (such as spells) are left out.
+   * @param shopId - Location ID
+   * @returns Listings, or null if the location has no shop
+   */
+  public getListings(shopId: string): ShopListing[] | null {
+    const location = this.locations[shopId];
+    if (!location?.shopItems?.length) return null;
+
+    const gold = this.getInventory()?.gold ?? 0;
+    const listings: ShopListing[] = [];
+
+    for (const itemId of location.shopItems) {
+      const item = getItem(itemId);
+      const price = this.getBuyPrice(itemId);
+      if (!item || price === null) continue;
+
+      listings.push({
+        itemId,
+        name: item.name,
+        description: item.description,
+        type: item.type,
+        price,
+        stock: this.getStock(shopId, itemId),
+        affordable: gold >= price,
+        equipPreview: this.previewEquip(itemId)
+      });
+    }
+
+    return listings;
+  }
+
+  /**
+   * Gets the price of buying one unit of an item
+   * @param itemId - Item ID
+   * @returns Price, or null if the item has no value
+   */
+  public getBuyPrice(itemId: string): number | null {
+    const value = getItem(itemId)?.properties.value;
+    if (value === undefined) return null;
+
+    return Math.max(1, Math.ceil(value * this.pricing.buyMarkup));
+  }
+
+  /**
+   * Gets the gold received for selling one unit of an item
+   * @param itemId - Item ID
+   * @returns Price, or null if shops will not buy the item
+   */
+  public getSellPrice(itemId: string): number | null {
+    const item = getItem(itemId);
+    if (!item || item.type === 'KEY' || item.properties.value === undefined) return null;
+
+    return Math.floor(item.properties.value * this.pricing.sellRate);
+  }
+
+  /**
+   * Gets how many units of an item a shop has left
+   * @param shopId - Location ID
+   * @param itemId - Item ID
+   * @returns Units left, or null if unlimited
+   */
+  public getStock(shopId: string, itemId: string): number | null {
+    const remaining = this.stock.get(shopId)?.get(itemId);
+    if (remaining !== undefined) return remaining;
+
+    return this.locations[shopId]?.shopStock?.[itemId] ?? null;
+  }
+
+  /**
+   * Buys items from a shop with the player's gold
+   * @param shopId - Location ID
+   * @param itemId - Item ID
+   * @param quantity - Units to buy
+   * @returns Transaction outcome
+   */
+  public buy(shopId: string, itemId: string, quantity: number = 1): ShopTransaction {
+    const location = this.locations[shopId];
+    const inventory = this.getInventory();
+    const price = this.getBuyPrice(itemId);
+    const stock = this.getStock(shopId, itemId);
+    const entry = inventory?.items.find(carried => carried.itemId === itemId);
+    const total = (price ?? 0) * quantity;
+
+    const refuse = (reason: ShopFailureReason) => this.refuse(shopId, itemId, quantity, reason);
+    if (!location?.shopItems?.length) return refuse('unknown_shop');
+    if (!this.world || this.playerId === null || !inventory) return refuse('no_customer');
+    if (!Number.isInteger(quantity) || quantity <= 0) return refuse('invalid_quantity');
+    if (!location.shopItems.includes(itemId) || price === null) return refuse('not_stocked');
+    if (stock !== null && stock < quantity) return refuse('out_of_stock');
+    if (inventory.gold < total) return refuse('insufficient_gold');
+    if (!entry && inventory.items.length >= GAME_CONFIG.MAX_INVENTORY_SLOTS) return refuse('inventory_full');
+
+    inventory.gold -= total;
+    if (entry) {
+      entry.quantity += quantity;
+    } else {
+      inventory.items.push({ itemId, quantity });
+    }
+    this.world.updateComponent(this.playerId, 'Inventory', inventory);
+
+    if (stock !== null) {
+      const shopStock = this.stock.get(shopId) ?? new Map<string, number>();
+      shopStock.set(itemId, stock - quantity);
+      this.stock.set(shopId, shopStock);
+    }
+
+    this.goldSpent += total;
+    this.transactions++;
+
+    const transaction: ShopTransaction = { success: true, shopId, itemId, quantity, gold: total, reason: null };
+    logger.info(LogSource.GAMEPLAY, `Bought ${quantity}x ${itemId} at ${shopId} for ${total} gold`);
+    this.emit({ type: 'item_bought', transaction });
+    return transaction;
+  }
+
+  /**
+   * Sells items from the player's inventory to a shop
+   * Any shop buys any item with a value except key items.
+   * @param shopId - Location ID
+   * @param itemId - Item ID
+   * @param quantity - Units to sell
+   * @returns Transaction outcome
+   */
+  public sell(shopId: string, itemId: string, quantity: number = 1): ShopTransaction {
+    const location = this.locations[shopId];
+    const inventory = this.getInventory();
+    const price = this.getSellPrice(itemId);
+    const entry = inventory?.items.find(carried => carried.itemId === itemId);
+    const total = (price ?? 0) * quantity;
+
+    const refuse = (reason: ShopFailureReason) => this.refuse(shopId, itemId, quantity, reason);
+    if (!location?.shopItems?.length) return refuse('unknown_shop');
+    if (!this.world || this.playerId === null || !inventory) return refuse('no_customer');
+    if (!Number.isInteger(quantity) || quantity <= 0) return refuse('invalid_quantity');
+    if (!entry || entry.quantity < quantity) return refuse('not_carried');
+    if (price === null) return refuse('not_sellable');
+    if (inventory.gold + total > GAME_CONFIG.MAX_GOLD) return refuse('gold_cap');
+
+    entry.quantity -= quantity;
+    if (entry.quantity === 0) {
+      inventory.items.splice(inventory.items.indexOf(entry), 1);
+    }
+    inventory.gold += total;
+    this.world.updateComponent(this.playerId, 'Inventory', inventory);
+
+    this.goldEarned += total;
+    this.transactions++;
+
+    const transaction: ShopTransaction = { success: true, shopId, itemId, quantity, gold: total, reason: null };
+    logger.info(LogSource.GAMEPLAY, `Sold ${quantity}x ${itemId} at ${shopId} for ${total} gold`);
+    this.emit({ type: 'item_sold', transaction });
+    return transaction;
+  }
+
+  /**
+   * Checks whether a class may equip an item
+   * @param itemId - Item ID
+   * @param characterClass - Character class
+   * @returns Whether the class may equip it (false for items that are not equipment)
+   */
+  public canEquip(itemId: string, characterClass: CharacterClass): boolean {
+    const item = getItem(itemId);
+    if (!item || (item.type !== 'WEAPON' && item.type !== 'ARMOR')) return false;
+
+    const equipmentType = item.properties.equipmentType;
+    if (equipmentType === undefined) return true;
+
+    const restrictions = CHARACTER_CLASSES_DATABASE[characterClass]?.equipmentRestrictions;
+    if (!restrictions) return false;
+
+    const allowed = item.type === 'WEAPON' ? restrictions.weaponTypes : restrictions.armorTypes;
+    return allowed.includes(equipmentType);
+  }
+
+  /**
+   * Previews which party members could equip an item
+   * @param itemId - Item ID
+   * @returns Preview per party member with a class (empty for items that are not equipment)
+   */
+  public previewEquip(itemId: string): EquipPreview[] {
+    const type = getItem(itemId)?.type;
+    if (!this.world || this.playerId === null || (type !== 'WEAPON' && type !== 'ARMOR')) return [];
+
+    const party = this.world.getComponent<Party>(this.playerId, 'Party');
+    const members = party?.members.length ? party.members : [this.playerId];
+    const previews: EquipPreview[] = [];
+
+    for (const entityId of members) {
+      const stats = this.world.getComponent<CharacterStats>(entityId, 'CharacterStats');
+      if (!stats) continue;
+      previews.push({ entityId, characterClass: stats.class, canEquip: this.canEquip(itemId, stats.class) });
+    }
+
+    return previews;
+  }
+
+  /**
+   * Gets the gold totals recorded in save statistics
+   * @returns Gold earned from sales and spent on purchases
+   */
+  public getTotals(): { goldEarned: number; goldSpent: number } {
+    return { goldEarned: this.goldEarned, goldSpent: this.goldSpent };
+  }
+
+  /**
+   * Restores gold totals from save statistics, ignoring invalid values
+   * @param stats - Save statistics
+   */
+  public restoreTotals(stats: { goldEarned?: unknown; goldSpent?: unknown }): void {
+    const valid = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+    if (valid(stats.goldEarned)) this.goldEarned = stats.goldEarned;
+    if (valid(stats.goldSpent)) this.goldSpent = stats.goldSpent;
+  }
+
+  /**
+   * Gets the units left of limited items for saving
+   * @returns Remaining stock by shop and item (only items bought from so far)
+   */
+  public serializeStock(): Record<string, Record<string, number>> {
+    const saved: Record<string, Record<string, number>> = {};
+    this.stock.forEach((items, shopId) => {
+      saved[shopId] = Object.fromEntries(items);
+    });
+    return saved;
+  }
+
+  /**
+   * Restores the units left of limited items from a save, ignoring invalid entries
+   * @param data - Saved stock by shop and item (anything else resets every shop to its full stock)
+   */
+  public restoreStock(data: unknown): void {
+    this.stock.clear();
+    if (typeof data !== 'object' || data === null) return;
+
+    for (const [shopId, items] of Object.entries(data)) {
+      if (typeof items !== 'object' || items === null) continue;
+
+      const remaining = new Map<string, number>();
+      for (const [itemId, units] of Object.entries(items)) {
+        if (typeof units === 'number' && Number.isInteger(units) && units >= 0) remaining.set(itemId, units);
+      }
+      this.stock.set(shopId, remaining);
+    }
+  }
+
+  /**
+   * Subscribes to shop events
+   * @param callback - Called for each event
+   * @returns Unsubscribe function
+   */
+  public subscribe(callback: (event: ShopEvent) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Gets the customer's inventory
+   * @returns Inventory component, or null if there is no customer
+   */
+  private getInventory(): Inventory | null {
+    if (!this.world || this.playerId === null) return null;
+    return this.world.getComponent<Inventory>(this.playerId, 'Inventory') ?? null;
+  }
+
+  /**
+   * Records and reports a refused transaction
+   * @param shopId - Location ID
+   * @param itemId - Item ID
+   * @param quantity - Units requested
+   * @param reason - Why it was refused
+   * @returns Failed transaction
+   */
+  private refuse(shopId: string, itemId: string, quantity: number, reason: ShopFailureReason): ShopTransaction {
+    const transaction: ShopTransaction = { success: false, shopId, itemId, quantity, gold: 0, reason };
+    logger.debug(LogSource.GAMEPLAY, `Shop transaction for ${itemId} at ${shopId} refused: ${reason}`);
+    this.emit({ type: 'transaction_failed', transaction });
+    return transaction;
+  }
+
+  /**
+   * Sends an event to all listeners
+   * @param event - Shop event
+   */
+  private emit(event: ShopEvent): void {
+    this.listeners.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        logger.error(LogSource.GAMEPLAY, `Shop event listener failed: ${error}`);
+      }
+    });
+  }
+
+  /**
+   * Gets shop statistics
+   * @returns Shop system statistics
+   */
+  public getStats(): {
+    transactions: number;
+    goldEarned: number;
+    goldSpent: number;
+    listeners: number;
+  } {
+    return {
+      transactions: this.transactions,
+      goldEarned: this.goldEarned,
+      goldSpent: this.goldSpent,
+      listeners: this.listeners.size
+    };
+  }
+
+  /**
+   * Disposes of the shop system
+   */
+  public dispose(): void {
+    this.listeners.clear();
+    this.stock.clear();
+    this.world = null;
+    logger.info(LogSource.GAMEPLAY, 'ShopSystem disposed');
+  }
+}
+
+export default ShopSystem;
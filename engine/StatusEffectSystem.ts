@@ -0,0 +1,463 @@
+/**
+ * Status Effect System
+ * @fileoverview Applies, ticks and cures status effects using STATUS_EFFECTS_DATABASE and STATUS_EFFECT_INTERACTIONS
+ */
+
+import { WorldManager } from './WorldManager';
+import { logger, LogSource } from './GlobalLogger';
+import { EntityId, Health, StatusEffect, StatusEffects } from '../types';
+import { STATUS_EFFECTS_DATABASE, STATUS_EFFECT_INTERACTIONS } from '../data/GameData';
+import { RNG, globalRNG } from '../utils/rng';
+
+/**
+ * Durations at or above this value never expire on their own
+ */
+const PERMANENT_DURATION = 999;
+
+/**
+ * Effects that suppress others while active, and remove them when applied
+ */
+const OVERRIDES: Partial<Record<StatusEffect, StatusEffect[]>> = {
+  [StatusEffect.STONE]: STATUS_EFFECT_INTERACTIONS.stone_overrides_all as StatusEffect[],
+  [StatusEffect.SLEEP]: STATUS_EFFECT_INTERACTIONS.sleep_overrides as StatusEffect[],
+  [StatusEffect.PARALYSIS]: STATUS_EFFECT_INTERACTIONS.paralysis_overrides as StatusEffect[]
+};
+
+/**
+ * Groups of effects that cannot coexist; the newest one replaces the rest
+ */
+const INCOMPATIBLE_GROUPS: StatusEffect[][] = [
+  STATUS_EFFECT_INTERACTIONS.haste_slow_incompatible as StatusEffect[],
+  STATUS_EFFECT_INTERACTIONS.berserk_control_incompatible as StatusEffect[]
+];
+
+/**
+ * [cancelled, canceller] pairs: the canceller removes the cancelled effect and prevents it while active
+ */
+const CANCELLING_PAIRS: StatusEffect[][] = [
+  STATUS_EFFECT_INTERACTIONS.poison_regen_cancel as StatusEffect[]
+];
+
+/**
+ * Options when applying a status effect
+ */
+export interface ApplyStatusOptions {
+  /** Duration in turns (defaults to the database duration) */
+  duration?: number;
+  /** Effect strength */
+  potency?: number;
+  /** Source identifier, such as a spell or item ID */
+  source?: string;
+  /** Skip the resistance roll */
+  ignoreResistance?: boolean;
+}
+
+/**
+ * Result of ticking an entity's status effects
+ */
+export interface StatusTickResult {
+  /** Damage taken from effects */
+  damage: number;
+  /** Health restored by effects */
+  healed: number;
+  /** Effects that ran out this tick */
+  expired: StatusEffect[];
+}
+
+/**
+ * Status Effect System
+ * Shared by combat turns and overworld movement
+ */
+export class StatusEffectSystem {
+  /** World manager reference */
+  private world: WorldManager | null = null;
+
+  /** Random source for resistance rolls */
+  private rng: RNG;
+
+  /**
+   * Creates a new StatusEffectSystem
+   * @param rng - Random source for resistance rolls
+   */
+  constructor(rng: RNG = globalRNG) {
+    this.rng = rng;
+    logger.info(LogSource.GAMEPLAY, 'StatusEffectSystem initialized');
+  }
+
+  /**
+   * Sets the world manager reference
+   * @param world - World manager instance
+   */
+  public setWorld(world: WorldManager): void {
+    this.world = world;
+  }
+
+  /**
+   * Replaces the random source
+   * @param rng - Random source
+   */
+  public setRNG(rng: RNG): void {
+    this.rng = rng;
+  }
+
+  /**
+   * Applies a status effect to an entity
+   * Resistances are percentages (0-100) chance to shrug the effect off.
+   * @param entityId - Target entity ID
+   * @param effect - Status effect to apply
+   * @param options - Apply options
+   * @returns True if the effect took hold
+   */
+  public apply(entityId: EntityId, effect: StatusEffect, options: ApplyStatusOptions = {}): boolean {
+    if (!this.world || !this.world.entities.has(entityId)) {
+      logger.warn(LogSource.GAMEPLAY, `Cannot apply ${effect} to missing entity ${entityId}`);
+      return false;
+    }
+
+    const status = this.getOrCreateComponent(entityId);
+
+    if (status.immunities.includes(effect)) {
+      logger.debug(LogSource.GAMEPLAY, `Entity ${entityId} is immune to ${effect}`);
+      return false;
+    }
+
+    const resistance = status.resistances[effect] || 0;
+    if (!options.ignoreResistance && resistance > 0 && this.rng.randomInt(1, 101) <= resistance) {
+      logger.debug(LogSource.GAMEPLAY, `Entity ${entityId} resisted ${effect}`);
+      return false;
+    }
+
+    // An active overriding effect suppresses this one
+    for (const [overrider, overridden] of Object.entries(OVERRIDES)) {
+      if (status.active[overrider as StatusEffect] && overridden!.includes(effect)) {
+        logger.debug(LogSource.GAMEPLAY, `${effect} blocked by ${overrider} on ${entityId}`);
+        return false;
+      }
+    }
+
+    for (const [cancelled, canceller] of CANCELLING_PAIRS) {
+      if (effect === cancelled && status.active[canceller]) {
+        logger.debug(LogSource.GAMEPLAY, `${effect} cancelled by ${canceller} on ${entityId}`);
+        return false;
+      }
+    }
+
+    // Remove effects this one overrides or is incompatible with
+    const removed = new Set<StatusEffect>(OVERRIDES[effect] || []);
+    for (const group of INCOMPATIBLE_GROUPS) {
+      if (group.includes(effect)) {
+        group.filter(e => e !== effect).forEach(e => removed.add(e));
+      }
+    }
+
+    for (const [cancelled, canceller] of CANCELLING_PAIRS) {
+      if (effect === canceller) {
+        removed.add(cancelled);
+      }
+    }
+
+    // Effects such as REGEN also declare remove_<status> flags
+    const definition = STATUS_EFFECTS_DATABASE[effect];
+    for (const [key, value] of Object.entries(definition?.effects || {})) {
+      if (key.startsWith('remove_') && value === true) {
+        removed.add(key.slice('remove_'.length).toUpperCase() as StatusEffect);
+      }
+    }
+
+    removed.forEach(e => delete status.active[e]);
+
+    const duration = options.duration ?? definition?.duration ?? 3;
+    const existing = status.active[effect];
+    status.active[effect] = {
+      duration: existing ? Math.max(existing.duration, duration) : duration,
+      potency: options.potency ?? existing?.potency ?? 1,
+      source: options.source ?? existing?.source ?? 'unknown'
+    };
+
+    this.world.updateComponent(entityId, 'StatusEffects', status);
+    logger.debug(LogSource.GAMEPLAY, `Applied ${effect} to ${entityId}`);
+    return true;
+  }
+
+  /**
+   * Removes a status effect from an entity
+   * @param entityId - Entity ID
+   * @param effect - Status effect to remove
+   * @returns True if the effect was active
+   */
+  public cure(entityId: EntityId, effect: StatusEffect): boolean {
+    const status = this.world?.getComponent<StatusEffects>(entityId, 'StatusEffects');
+    if (!status || !status.active[effect]) return false;
+
+    delete status.active[effect];
+    this.world?.updateComponent(entityId, 'StatusEffects', status);
+    logger.debug(LogSource.GAMEPLAY, `Cured ${effect} on ${entityId}`);
+    return true;
+  }
+
+  /**
+   * Cures every active effect that lists the given cure method
+   * @param entityId - Entity ID
+   * @param method - Cure method, such as an item or spell ID
+   * @returns Effects that were cured
+   */
+  public cureByMethod(entityId: EntityId, method: string): StatusEffect[] {
+    const fullCure = STATUS_EFFECT_INTERACTIONS.full_cure_cures_all as StatusEffect[];
+
+    return this.getActive(entityId).filter(effect => {
+      const curable = method === 'full_cure'
+        ? fullCure.includes(effect)
+        : !!STATUS_EFFECTS_DATABASE[effect]?.cureMethods.includes(method);
+      return curable && this.cure(entityId, effect);
+    });
+  }
+
+  /**
+   * Checks whether an entity has a status effect
+   * @param entityId - Entity ID
+   * @param effect - Status effect
+   * @returns True if active
+   */
+  public has(entityId: EntityId, effect: StatusEffect): boolean {
+    return !!this.world?.getComponent<StatusEffects>(entityId, 'StatusEffects')?.active[effect];
+  }
+
+  /**
+   * Gets all active effects on an entity
+   * @param entityId - Entity ID
+   * @returns Active status effects
+   */
+  public getActive(entityId: EntityId): StatusEffect[] {
+    const status = this.world?.getComponent<StatusEffects>(entityId, 'StatusEffects');
+    return status ? (Object.keys(status.active) as StatusEffect[]) : [];
+  }
+
+  /**
+   * Advances an entity's effects by one combat turn
+   * Applies damage_per_turn and heal_per_turn, then counts durations down.
+   * @param entityId - Entity ID
+   * @returns Tick result
+   */
+  public tickTurn(entityId: EntityId): StatusTickResult {
+    const result: StatusTickResult = { damage: 0, healed: 0, expired: [] };
+    const status = this.world?.getComponent<StatusEffects>(entityId, 'StatusEffects');
+    if (!status) return result;
+
+    const immuneToDamage = this.hasFlag(entityId, 'immune_to_all_damage');
+    const preventRegeneration = this.hasFlag(entityId, 'prevent_regeneration');
+
+    for (const effect of this.getActive(entityId)) {
+      const effects = STATUS_EFFECTS_DATABASE[effect]?.effects || {};
+      if (typeof effects.damage_per_turn === 'number' && !immuneToDamage) {
+        result.damage += effects.damage_per_turn;
+      }
+      if (typeof effects.heal_per_turn === 'number' && !preventRegeneration) {
+        result.healed += effects.heal_per_turn;
+      }
+    }
+
+    const health = this.world?.getComponent<Health>(entityId, 'Health');
+    if (health && (result.damage > 0 || result.healed > 0)) {
+      health.current = Math.max(0, Math.min(health.max, health.current - result.damage + result.healed));
+      this.world?.updateComponent(entityId, 'Health', health);
+    }
+
+    for (const effect of this.getActive(entityId)) {
+      const active = status.active[effect]!;
+      if (active.duration >= PERMANENT_DURATION) continue;
+
+      active.duration--;
+      if (active.duration <= 0) {
+        delete status.active[effect];
+        result.expired.push(effect);
+      }
+    }
+
+    this.world?.updateComponent(entityId, 'StatusEffects', status);
+    return result;
+  }
+
+  /**
+   * Applies per-step effects when an entity moves on the overworld
+   * Step damage never drops an entity below 1 HP.
+   * @param entityId - Entity ID
+   * @returns Damage taken
+   */
+  public onStep(entityId: EntityId): number {
+    const health = this.world?.getComponent<Health>(entityId, 'Health');
+    if (!health) return 0;
+
+    let damage = 0;
+    for (const effect of this.getActive(entityId)) {
+      const perStep = STATUS_EFFECTS_DATABASE[effect]?.effects.damage_per_step;
+      if (typeof perStep === 'number') {
+        damage += perStep;
+      }
+    }
+
+    damage = Math.min(damage, Math.max(0, health.current - 1));
+    if (damage > 0) {
+      health.current -= damage;
+      this.world?.updateComponent(entityId, 'Health', health);
+    }
+
+    return damage;
+  }
+
+  /**
+   * Notifies the system that an entity took damage
+   * Wakes sleepers and breaks effects curable by damage.
+   * @param entityId - Entity ID
+   * @returns Effects that were removed
+   */
+  public notifyDamage(entityId: EntityId): StatusEffect[] {
+    return this.cureByMethod(entityId, 'damage');
+  }
+
+  /**
+   * Checks whether an entity may act this turn
+   * @param entityId - Entity ID
+   * @returns False when an effect prevents all actions
+   */
+  public canAct(entityId: EntityId): boolean {
+    return !this.hasFlag(entityId, 'prevent_all_actions');
+  }
+
+  /**
+   * Checks whether an entity may cast magic
+   * @param entityId - Entity ID
+   * @returns False when silenced or otherwise prevented
+   */
+  public canCastMagic(entityId: EntityId): boolean {
+    return this.canAct(entityId) && !this.hasFlag(entityId, 'prevent_magic');
+  }
+
+  /**
+   * Checks whether an entity may use items
+   * @param entityId - Entity ID
+   * @returns False when an effect prevents item usage
+   */
+  public canUseItems(entityId: EntityId): boolean {
+    return this.canAct(entityId) && !this.hasFlag(entityId, 'prevent_item_usage');
+  }
+
+  /**
+   * Checks whether an entity's effects count it as defeated (e.g. STONE)
+   * @param entityId - Entity ID
+   * @returns True if defeated by status
+   */
+  public countsAsDefeated(entityId: EntityId): boolean {
+    return this.hasFlag(entityId, 'count_as_defeated');
+  }
+
+  /**
+   * Gets the accuracy multiplier from accuracy penalties
+   * Penalties stack multiplicatively, so DARKNESS and BLIND together leave 12.5%.
+   * @param entityId - Entity ID
+   * @returns Multiplier between 0 and 1
+   */
+  public getAccuracyMultiplier(entityId: EntityId): number {
+    return this.getActive(entityId).reduce((multiplier, effect) => {
+      const penalty = STATUS_EFFECTS_DATABASE[effect]?.effects.accuracy_penalty;
+      return typeof penalty === 'number' ? multiplier * (1 - penalty / 100) : multiplier;
+    }, 1);
+  }
+
+  /**
+   * Gets the speed multiplier from HASTE, SLOW and similar effects
+   * @param entityId - Entity ID
+   * @returns Speed multiplier
+   */
+  public getSpeedMultiplier(entityId: EntityId): number {
+    return this.getActive(entityId).reduce((multiplier, effect) => {
+      const effects = STATUS_EFFECTS_DATABASE[effect]?.effects || {};
+      const bonus = typeof effects.speed_bonus === 'number' ? effects.speed_bonus : 0;
+      const penalty = typeof effects.speed_penalty === 'number' ? effects.speed_penalty : 0;
+      return multiplier * (1 + bonus / 100) * (1 - penalty / 100);
+    }, 1);
+  }
+
+  /**
+   * Gets the incoming damage multiplier for a damage kind
+   * PROTECT and SHELL together reduce all damage types.
+   * @param entityId - Entity ID
+   * @param kind - Physical or magical damage
+   * @returns Damage multiplier
+   */
+  public getDamageMultiplier(entityId: EntityId, kind: 'physical' | 'magical'): number {
+    const synergy = STATUS_EFFECT_INTERACTIONS.protect_shell_synergy as StatusEffect[];
+    const active = this.getActive(entityId);
+    const flag = kind === 'physical' ? 'damage_reduction_physical' : 'damage_reduction_magical';
+
+    let reduction = 0;
+    if (synergy.every(effect => active.includes(effect))) {
+      reduction = 25;
+    } else {
+      for (const effect of active) {
+        const value = STATUS_EFFECTS_DATABASE[effect]?.effects[flag];
+        if (typeof value === 'number') {
+          reduction = Math.max(reduction, value);
+        }
+      }
+    }
+
+    return 1 - reduction / 100;
+  }
+
+  /**
+   * Checks whether any active effect sets a boolean flag
+   * @param entityId - Entity ID
+   * @param flag - Effect flag name
+   * @returns True if an active effect sets the flag
+   */
+  private hasFlag(entityId: EntityId, flag: string): boolean {
+    return this.getActive(entityId).some(effect => STATUS_EFFECTS_DATABASE[effect]?.effects[flag] === true);
+  }
+
+  /**
+   * Gets an entity's StatusEffects component, creating an empty one if needed
+   * @param entityId - Entity ID
+   * @returns StatusEffects component
+   */
+  private getOrCreateComponent(entityId: EntityId): StatusEffects {
+    let status = this.world!.getComponent<StatusEffects>(entityId, 'StatusEffects');
+    if (!status) {
+      status = { active: {}, immunities: [], resistances: {} };
+      this.world!.addComponent(entityId, 'StatusEffects', status);
+    }
+    return status;
+  }
+
+  /**
+   * Gets system statistics
+   * @returns Status effect statistics
+   */
+  public getStats(): {
+    affectedEntities: number;
+    activeEffects: number;
+  } {
+    const components = this.world?.components.get('StatusEffects');
+    let affectedEntities = 0;
+    let activeEffects = 0;
+
+    components?.forEach(component => {
+      const count = Object.keys((component as StatusEffects).active).length;
+      if (count > 0) {
+        affectedEntities++;
+        activeEffects += count;
+      }
+    });
+
+    return { affectedEntities, activeEffects };
+  }
+
+  /**
+   * Disposes of the status effect system
+   */
+  public dispose(): void {
+    this.world = null;
+    logger.info(LogSource.GAMEPLAY, 'StatusEffectSystem disposed');
+  }
+}
+
+export default StatusEffectSystem;
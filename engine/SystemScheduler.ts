@@ -0,0 +1,350 @@
+/**
+ * System Scheduler
+ * @fileoverview Runs named systems in stages, honouring declared ordering dependencies and recording per-system timings
+ */
+
+import type { WorldManager } from './WorldManager';
+import { logger, LogSource } from './GlobalLogger';
+
+/**
+ * Execution stages, in the order they run
+ */
+export enum SystemStage {
+  /** Reads input and turns it into intent (velocities, actions) */
+  INPUT = 'INPUT',
+  /** Fixed-step game simulation */
+  SIMULATION = 'SIMULATION',
+  /** Reacts to the simulation result (hierarchies, collisions, cameras) */
+  POST_SIMULATION = 'POST_SIMULATION',
+  /** Prepares data for the renderer, once per rendered frame */
+  RENDER_PREP = 'RENDER_PREP'
+}
+
+/** Stages run on each fixed update */
+export const FIXED_STAGES: SystemStage[] = [SystemStage.INPUT, SystemStage.SIMULATION, SystemStage.POST_SIMULATION];
+
+/** Stages run on each rendered frame */
+export const RENDER_STAGES: SystemStage[] = [SystemStage.RENDER_PREP];
+
+/**
+ * Scheduled system function
+ * @param world - World manager instance
+ * @param deltaTime - Fixed step in seconds, or the interpolation factor for render-prep systems
+ */
+export type ScheduledSystem = (world: WorldManager, deltaTime: number) => void;
+
+/**
+ * System registration
+ */
+export interface SystemDescriptor {
+  /** Unique system name */
+  name: string;
+  /** System function */
+  system: ScheduledSystem;
+  /** Stage the system runs in */
+  stage: SystemStage;
+  /** Systems in the same stage this one must run before */
+  before?: string[];
+  /** Systems in the same stage this one must run after */
+  after?: string[];
+  /** Whether the system starts enabled (default true) */
+  enabled?: boolean;
+}
+
+/**
+ * Per-system timing, in milliseconds
+ */
+export interface SystemTiming {
+  /** System name */
+  name: string;
+  /** Stage the system runs in */
+  stage: SystemStage;
+  /** Whether the system is enabled */
+  enabled: boolean;
+  /** Duration of the most recent run */
+  lastTime: number;
+  /** Mean duration over all runs */
+  averageTime: number;
+  /** Longest run */
+  maxTime: number;
+  /** Number of runs */
+  calls: number;
+}
+
+/**
+ * Registered system with its timing data
+ */
+interface ScheduledEntry {
+  descriptor: SystemDescriptor;
+  enabled: boolean;
+  lastTime: number;
+  totalTime: number;
+  maxTime: number;
+  calls: number;
+}
+
+/**
+ * System Scheduler class
+ * Orders systems by stage and dependency and times every run
+ */
+export class SystemScheduler {
+  /** Registered systems, in registration order */
+  private entries: Map<string, ScheduledEntry> = new Map();
+
+  /** Execution order per stage, rebuilt when systems are added or removed */
+  private order: Map<SystemStage, ScheduledEntry[]> | null = null;
+
+  /**
+   * Registers a system
+   * @param descriptor - System registration
+   * @returns True if registered, false if the name is already taken
+   */
+  public add(descriptor: SystemDescriptor): boolean {
+    if (this.entries.has(descriptor.name)) {
+      logger.warn(LogSource.ECS, `System ${descriptor.name} is already registered`);
+      return false;
+    }
+
+    this.entries.set(descriptor.name, {
+      descriptor,
+      enabled: descriptor.enabled ?? true,
+      lastTime: 0,
+      totalTime: 0,
+      maxTime: 0,
+      calls: 0
+    });
+    this.order = null;
+
+    logger.debug(LogSource.ECS, `Scheduled system ${descriptor.name} in stage ${descriptor.stage}`);
+    return true;
+  }
+
+  /**
+   * Removes a system
+   * @param name - System name
+   * @returns True if the system was registered
+   */
+  public remove(name: string): boolean {
+    if (!this.entries.delete(name)) {
+      logger.warn(LogSource.ECS, `Attempted to remove unscheduled system ${name}`);
+      return false;
+    }
+
+    this.order = null;
+    return true;
+  }
+
+  /**
+   * Checks if a system is registered
+   * @param name - System name
+   * @returns True if registered
+   */
+  public has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  /**
+   * Enables or disables a system without changing the execution order
+   * @param name - System name
+   * @param enabled - Whether the system should run
+   * @returns True if the system is registered
+   */
+  public setEnabled(name: string, enabled: boolean): boolean {
+    const entry = this.entries.get(name);
+    if (!entry) {
+      logger.warn(LogSource.ECS, `Attempted to toggle unscheduled system ${name}`);
+      return false;
+    }
+
+    entry.enabled = enabled;
+    logger.debug(LogSource.ECS, `System ${name} ${enabled ? 'enabled' : 'disabled'}`);
+    return true;
+  }
+
+  /**
+   * Checks if a system is registered and enabled
+   * @param name - System name
+   * @returns True if the system will run
+   */
+  public isEnabled(name: string): boolean {
+    return this.entries.get(name)?.enabled ?? false;
+  }
+
+  /**
+   * Gets the execution order of a stage
+   * @param stage - Stage to inspect
+   * @returns System names in the order they run
+   */
+  public getOrder(stage: SystemStage): string[] {
+    return this.getStageEntries(stage).map(entry => entry.descriptor.name);
+  }
+
+  /**
+   * Runs every enabled system in a stage
+   * @param stage - Stage to run
+   * @param world - World manager instance
+   * @param deltaTime - Time step in seconds
+   */
+  public runStage(stage: SystemStage, world: WorldManager, deltaTime: number): void {
+    for (const entry of this.getStageEntries(stage)) {
+      if (!entry.enabled) {
+        continue;
+      }
+
+      const start = performance.now();
+      try {
+        entry.descriptor.system(world, deltaTime);
+      } catch (error) {
+        logger.error(LogSource.ECS, `System ${entry.descriptor.name} failed: ${error}`);
+      }
+
+      const elapsed = performance.now() - start;
+      entry.lastTime = elapsed;
+      entry.totalTime += elapsed;
+      entry.maxTime = Math.max(entry.maxTime, elapsed);
+      entry.calls++;
+    }
+  }
+
+  /**
+   * Runs the fixed-update stages (input, simulation, post-simulation)
+   * @param world - World manager instance
+   * @param deltaTime - Fixed step in seconds
+   */
+  public runFixed(world: WorldManager, deltaTime: number): void {
+    FIXED_STAGES.forEach(stage => this.runStage(stage, world, deltaTime));
+  }
+
+  /**
+   * Runs the render stages
+   * @param world - World manager instance
+   * @param interpolation - Interpolation factor between fixed steps
+   */
+  public runRender(world: WorldManager, interpolation: number): void {
+    RENDER_STAGES.forEach(stage => this.runStage(stage, world, interpolation));
+  }
+
+  /**
+   * Gets timings for every registered system, in execution order
+   * @returns System timings
+   */
+  public getTimings(): SystemTiming[] {
+    return [...FIXED_STAGES, ...RENDER_STAGES].flatMap(stage =>
+      this.getStageEntries(stage).map(entry => ({
+        name: entry.descriptor.name,
+        stage,
+        enabled: entry.enabled,
+        lastTime: entry.lastTime,
+        averageTime: entry.calls > 0 ? entry.totalTime / entry.calls : 0,
+        maxTime: entry.maxTime,
+        calls: entry.calls
+      }))
+    );
+  }
+
+  /**
+   * Resets all timings
+   */
+  public resetTimings(): void {
+    this.entries.forEach(entry => {
+      entry.lastTime = 0;
+      entry.totalTime = 0;
+      entry.maxTime = 0;
+      entry.calls = 0;
+    });
+  }
+
+  /**
+   * Gets scheduler statistics
+   * @returns Statistics object
+   */
+  public getStats(): { systemCount: number; enabledCount: number; totalTime: number } {
+    let enabledCount = 0;
+    let totalTime = 0;
+
+    this.entries.forEach(entry => {
+      if (entry.enabled) {
+        enabledCount++;
+        totalTime += entry.lastTime;
+      }
+    });
+
+    return { systemCount: this.entries.size, enabledCount, totalTime };
+  }
+
+  /**
+   * Removes all systems
+   */
+  public dispose(): void {
+    this.entries.clear();
+    this.order = null;
+  }
+
+  /**
+   * Gets a stage's entries in execution order, rebuilding the order if needed
+   * @param stage - Stage to look up
+   * @returns Ordered entries
+   */
+  private getStageEntries(stage: SystemStage): ScheduledEntry[] {
+    if (!this.order) {
+      this.order = new Map();
+      [...FIXED_STAGES, ...RENDER_STAGES].forEach(s => this.order!.set(s, this.sortStage(s)));
+    }
+
+    return this.order.get(stage) || [];
+  }
+
+  /**
+   * Topologically sorts a stage by its before/after constraints
+   * Ties keep registration order. Dependencies on systems that are missing or
+   * in other stages are ignored; on a cycle the remaining systems run in
+   * registration order.
+   * @param stage - Stage to sort
+   * @returns Ordered entries
+   */
+  private sortStage(stage: SystemStage): ScheduledEntry[] {
+    const entries = Array.from(this.entries.values()).filter(entry => entry.descriptor.stage === stage);
+    const names = new Set(entries.map(entry => entry.descriptor.name));
+
+    // Edges point from a system to the systems that must run after it
+    const successors: Map<string, string[]> = new Map();
+    const inDegree: Map<string, number> = new Map();
+    entries.forEach(entry => {
+      successors.set(entry.descriptor.name, []);
+      inDegree.set(entry.descriptor.name, 0);
+    });
+
+    const addEdge = (from: string, to: string): void => {
+      if (!names.has(from) || !names.has(to) || from === to) {
+        return;
+      }
+      successors.get(from)!.push(to);
+      inDegree.set(to, inDegree.get(to)! + 1);
+    };
+
+    entries.forEach(({ descriptor }) => {
+      descriptor.after?.forEach(name => addEdge(name, descriptor.name));
+      descriptor.before?.forEach(name => addEdge(descriptor.name, name));
+    });
+
+    const sorted: ScheduledEntry[] = [];
+    const remaining = [...entries];
+
+    while (remaining.length > 0) {
+      const index = remaining.findIndex(entry => inDegree.get(entry.descriptor.name) === 0);
+      if (index === -1) {
+        logger.error(LogSource.ECS, `System dependency cycle in stage ${stage}: ${remaining.map(entry => entry.descriptor.name).join(', ')}`);
+        sorted.push(...remaining);
+        break;
+      }
+
+      const [entry] = remaining.splice(index, 1);
+      sorted.push(entry);
+      successors.get(entry.descriptor.name)!.forEach(name => inDegree.set(name, inDegree.get(name)! - 1));
+    }
+
+    return sorted;
+  }
+}
+
+export default SystemScheduler;
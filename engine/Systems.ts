@@ -6,6 +6,7 @@
 import { Position, Velocity, Sprite, Animation } from '../types';
 import { WorldManager } from './WorldManager';
 import { logger, LogSource } from './GlobalLogger';
+import { SystemDescriptor, SystemStage } from './SystemScheduler';
 import { ANIMATION_REGISTRY } from '../assets/SpriteAssets';
 
 /**
@@ -30,6 +31,21 @@ export function movementSystem(world: WorldManager, deltaTime: number): void {
   }
 }
 
+/**
+ * Transform system
+ * Moves child entities along with their parents
+ */
+export function transformSystem(world: WorldManager, _deltaTime: number): void {
+  const parents = world.query(['Children']);
+
+  for (const entityId of parents) {
+    // Roots update their whole subtree
+    if (world.getParent(entityId) === null) {
+      world.propagateTransform(entityId);
+    }
+  }
+}
+
 /**
  * Animation system
  * Updates sprite animations based on timing
@@ -205,31 +221,33 @@ export function renderPrepSystem(world: WorldManager, _deltaTime: number): void
 
 /**
  * System registry
- * Contains all available systems with their execution priorities
+ * Game systems with their stages and ordering constraints. The input system
+ * needs the current input state, so registerAllSystems adds it separately.
  */
-export const SYSTEM_REGISTRY = [
-  { system: inputSystem, priority: 0 },
-  { system: movementSystem, priority: 10 },
-  { system: animationSystem, priority: 20 },
-  { system: collisionSystem, priority: 30 },
-  { system: cameraSystem, priority: 40 },
-  { system: renderPrepSystem, priority: 50 }
+export const SYSTEM_REGISTRY: SystemDescriptor[] = [
+  { name: 'movement', system: movementSystem, stage: SystemStage.SIMULATION },
+  { name: 'animation', system: animationSystem, stage: SystemStage.SIMULATION, after: ['movement'] },
+  { name: 'transform', system: transformSystem, stage: SystemStage.POST_SIMULATION, before: ['collision'] },
+  { name: 'collision', system: collisionSystem, stage: SystemStage.POST_SIMULATION },
+  { name: 'camera', system: cameraSystem, stage: SystemStage.POST_SIMULATION, after: ['collision'] },
+  { name: 'renderPrep', system: renderPrepSystem, stage: SystemStage.RENDER_PREP }
 ];
 
 /**
- * Registers all systems with the world manager
+ * Registers all systems with the world's scheduler
  * @param world - World manager instance
+ * @param inputState - Input state read by the input system
+ * @returns Number of systems registered
  */
-export function registerAllSystems(_world: any): void {
-  // Sort systems by priority
-  const sortedSystems = [...SYSTEM_REGISTRY].sort((a, b) => a.priority - b.priority);
-  
-  // Add systems to world
-  sortedSystems.forEach(({ system }) => {
-    // Note: This would need to be adapted to work with the actual world manager
-    // For now, this is a placeholder
-    logger.debug(LogSource.ECS, `Registered system: ${system.name}`);
-  });
-  
-  logger.info(LogSource.ECS, `Registered ${sortedSystems.length} systems`);
-}
\ No newline at end of file
+export function registerAllSystems(world: WorldManager, inputState: Map<string, boolean> = new Map()): number {
+  const scheduler = world.getScheduler();
+  const descriptors: SystemDescriptor[] = [
+    { name: 'input', system: (w, deltaTime) => inputSystem(w, deltaTime, inputState), stage: SystemStage.INPUT },
+    ...SYSTEM_REGISTRY
+  ];
+
+  const registered = descriptors.filter(descriptor => scheduler.add(descriptor)).length;
+
+  logger.info(LogSource.ECS, `Registered ${registered} systems`);
+  return registered;
+}
@@ -89,6 +89,9 @@ export class WebGLRenderer {
     height: 768
   };
   
+  /** Ambient light multiplied into every sprite (RGBA, 0-1) */
+  private ambientTint: [number, number, number, number] = [1, 1, 1, 1];
+  
   /** Context lost flag */
   private contextLost: boolean = false;
   
@@ -112,12 +115,13 @@ export class WebGLRenderer {
     fragment: `
       precision mediump float;
       uniform sampler2D u_texture;
+      uniform vec4 u_tint;
       varying vec2 v_uv;
       varying vec4 v_color;
       
       void main() {
         vec4 texColor = texture2D(u_texture, v_uv);
-        gl_FragColor = texColor * v_color;
+        gl_FragColor = texColor * v_color * u_tint;
       }
     `
   };
@@ -510,6 +514,23 @@ export class WebGLRenderer {
     // Set texture uniform
     const textureLocation = this.gl.getUniformLocation(this.program, 'u_texture');
     this.gl.uniform1i(textureLocation, 0);
+
+    // Set ambient tint uniform
+    const tintLocation = this.gl.getUniformLocation(this.program, 'u_tint');
+    this.gl.uniform4fv(tintLocation, this.ambientTint);
+  }
+
+  /**
+   * Sets the ambient light applied to every sprite, e.g. the time of day tint
+   * @param color - Tint color (RGBA), white for none
+   */
+  public setAmbientTint(color: number): void {
+    this.ambientTint = [
+      ((color >>> 24) & 0xFF) / 255,
+      ((color >>> 16) & 0xFF) / 255,
+      ((color >>> 8) & 0xFF) / 255,
+      (color & 0xFF) / 255
+    ];
   }
 
   /**
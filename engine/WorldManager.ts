@@ -3,23 +3,51 @@
  * @fileoverview Core ECS implementation for game state management
  */
 
-import { EntityId, ComponentType, World, Entity, SystemFunction, QueryResult } from '../types';
+import { EntityId, ComponentType, World, Entity, SystemFunction, QueryResult, EntityLifecycleListener, EntityLifecycleAction, Position, Parent, Children, PrefabOverrides } from '../types';
 import { logger, LogSource } from './GlobalLogger';
+import { ComponentStore, Query } from './ComponentStorage';
+import { PrefabRegistry, createDefaultPrefabRegistry } from './PrefabRegistry';
+import { SystemScheduler } from './SystemScheduler';
+import { CommandBuffer } from './CommandBuffer';
+import { ComponentRegistry, createDefaultComponentRegistry } from './ComponentRegistry';
 
 /**
  * World Manager class implementing ECS architecture
- * Provides efficient entity management, component storage, and system execution
+ * Provides efficient entity management, component storage, and system execution.
+ * Component data lives in sparse-set stores and query results are updated
+ * incrementally whenever an entity gains or loses a component type.
  */
 export class WorldManager {
   /** The ECS world instance */
   private world: World;
 
-  /** Query cache for performance optimization */
-  private queryCache: Map<string, EntityId[]> = new Map();
+  /** Registered queries, keyed by their component types */
+  private queries: Map<string, Query> = new Map();
+
+  /** Registered queries that involve each component type */
+  private queriesByType: Map<ComponentType, Query[]> = new Map();
+
+  /** Registered queries with no component types (every entity matches) */
+  private unfilteredQueries: Query[] = [];
+
+  /** Known component types (unknown or invalid components are rejected in strict mode) */
+  private componentRegistry: ComponentRegistry = createDefaultComponentRegistry();
+
+  /** Prefabs available to instantiate */
+  private prefabs: PrefabRegistry = createDefaultPrefabRegistry();
+
+  /** Staged systems, run after the legacy priority list */
+  private scheduler: SystemScheduler = new SystemScheduler();
 
   /** Component change listeners */
   private listeners: Map<EntityId, Map<ComponentType, Set<(data: unknown) => void>>> = new Map();
 
+  /** Entity creation/destruction listeners */
+  private lifecycleListeners: Set<EntityLifecycleListener> = new Set();
+
+  /** Structural changes deferred until the next sync point */
+  private commands: CommandBuffer = new CommandBuffer(() => this.world.nextEntityId++);
+
   /**
    * Creates a new WorldManager instance
    */
@@ -41,33 +69,45 @@ export class WorldManager {
    */
   public createEntity(components?: ComponentType[]): EntityId {
     const entityId = this.world.nextEntityId++;
+    this.spawnEntity(entityId, components);
+    this.notifyLifecycle(entityId, 'created');
+
+    return entityId;
+  }
 
+  /**
+   * Registers an entity under an already allocated ID
+   * @param entityId - Entity ID
+   * @param components - Optional initial component types
+   */
+  private spawnEntity(entityId: EntityId, components?: ComponentType[]): void {
     const entity: Entity = {
       id: entityId,
-      components: new Set(components || [])
+      components: new Set((components || []).filter(componentType => this.checkComponent(entityId, componentType)))
     };
 
     this.world.entities.set(entityId, entity);
 
-    // Initialize component data maps for new entity
-    if (components) {
-      components.forEach(componentType => {
-        if (!this.world.components.has(componentType)) {
-          this.world.components.set(componentType, new Map());
+    // Initialize component stores for new entity
+    entity.components.forEach(componentType => {
+      this.getStore(componentType);
+    });
+
+    // Add to matching queries
+    this.unfilteredQueries.forEach(query => query.add(entityId));
+    entity.components.forEach(componentType => {
+      this.queriesByType.get(componentType)?.forEach(query => {
+        if (query.matches(entity)) {
+          query.add(entityId);
         }
       });
-    }
-
-    // Invalidate query cache
-    this.invalidateQueryCache();
+    });
 
     logger.debug(LogSource.ECS, `Created entity ${entityId} with components: ${components?.join(', ') || 'none'}`);
-
-    return entityId;
   }
 
   /**
-   * Destroys an entity and removes all its components
+   * Destroys an entity, its children and all their components
    * @param entityId - Entity ID to destroy
    */
   public destroyEntity(entityId: EntityId): void {
@@ -77,6 +117,12 @@ export class WorldManager {
       return;
     }
 
+    // Cascade to children, then detach from the parent
+    [...this.getChildren(entityId)].forEach(childId => this.destroyEntity(childId));
+    if (this.getParent(entityId) !== null) {
+      this.setParent(entityId, null);
+    }
+
     // Remove all components
     entity.components.forEach(componentType => {
       this.removeComponent(entityId, componentType);
@@ -88,10 +134,11 @@ export class WorldManager {
     // Clean up listeners
     this.listeners.delete(entityId);
 
-    // Invalidate query cache
-    this.invalidateQueryCache();
+    // Remove from queries matching every entity
+    this.unfilteredQueries.forEach(query => query.remove(entityId));
 
     logger.debug(LogSource.ECS, `Destroyed entity ${entityId}`);
+    this.notifyLifecycle(entityId, 'destroyed');
   }
 
   /**
@@ -107,23 +154,26 @@ export class WorldManager {
       return;
     }
 
-    // Initialize component map if needed
-    if (!this.world.components.has(componentType)) {
-      this.world.components.set(componentType, new Map());
+    if (!this.checkComponent(entityId, componentType, data)) {
+      return;
     }
 
-    // Add component to entity
-    entity.components.add(componentType);
-
     // Store component data
-    this.world.components.get(componentType)!.set(entityId, data);
+    this.getStore(componentType).set(entityId, data);
+
+    // Add component to entity, updating queries only when its signature changes
+    if (!entity.components.has(componentType)) {
+      entity.components.add(componentType);
+      this.queriesByType.get(componentType)?.forEach(query => {
+        if (query.matches(entity)) {
+          query.add(entityId);
+        }
+      });
+    }
 
     // Notify listeners
     this.notifyListeners(entityId, componentType, data);
 
-    // Invalidate query cache
-    this.invalidateQueryCache();
-
     logger.debug(LogSource.ECS, `Added component ${componentType} to entity ${entityId}`);
   }
 
@@ -139,8 +189,10 @@ export class WorldManager {
       return;
     }
 
-    // Remove component from entity
-    entity.components.delete(componentType);
+    // Remove component from entity and from queries that need it
+    if (entity.components.delete(componentType)) {
+      this.queriesByType.get(componentType)?.forEach(query => query.remove(entityId));
+    }
 
     // Remove component data
     const componentMap = this.world.components.get(componentType);
@@ -154,9 +206,6 @@ export class WorldManager {
       entityListeners.delete(componentType);
     }
 
-    // Invalidate query cache
-    this.invalidateQueryCache();
-
     logger.debug(LogSource.ECS, `Removed component ${componentType} from entity ${entityId}`);
   }
 
@@ -199,6 +248,10 @@ export class WorldManager {
       return;
     }
 
+    if (!this.checkComponent(entityId, componentType, data)) {
+      return;
+    }
+
     componentMap.set(entityId, data);
 
     // Notify listeners
@@ -208,43 +261,272 @@ export class WorldManager {
   }
 
   /**
-   * Queries for entities with specific component types
-   * @param componentTypes - Array of component types to query for
-   * @returns Array of entity IDs matching the query
+   * Creates an entity from a prefab, along with the prefab's children
+   * @param prefabId - Prefab ID
+   * @param overrides - Component values replacing the prefab defaults (null removes a component)
+   * @returns The new entity ID, or null if the prefab cannot be resolved
    */
-  public query(componentTypes: ComponentType[]): EntityId[] {
-    // Create cache key
-    const cacheKey = componentTypes.sort().join(',');
+  public instantiate(prefabId: string, overrides: PrefabOverrides = {}): EntityId | null {
+    const components = this.prefabs.build(prefabId, overrides);
+    if (!components) {
+      logger.error(LogSource.ECS, `Cannot instantiate prefab ${prefabId}`);
+      return null;
+    }
+
+    const entityId = this.createEntity(Object.keys(components));
+    Object.entries(components).forEach(([componentType, data]) => {
+      this.addComponent(entityId, componentType, data);
+    });
+
+    this.prefabs.resolve(prefabId)!.children.forEach(child => {
+      const childId = this.instantiate(child.prefab, child.overrides);
+      if (childId !== null) {
+        this.setParent(childId, entityId, child.offset || { x: 0, y: 0 });
+      }
+    });
 
-    // Check cache first
-    if (this.queryCache.has(cacheKey)) {
-      return this.queryCache.get(cacheKey)!;
+    logger.debug(LogSource.ECS, `Instantiated prefab ${prefabId} as entity ${entityId}`);
+
+    return entityId;
+  }
+
+  /**
+   * Sets the component registry used to check component types and payloads
+   * @param registry - Component registry
+   */
+  public setComponentRegistry(registry: ComponentRegistry): void {
+    this.componentRegistry = registry;
+  }
+
+  /**
+   * Gets the component registry
+   * @returns Component registry
+   */
+  public getComponentRegistry(): ComponentRegistry {
+    return this.componentRegistry;
+  }
+
+  /**
+   * Checks a component type, and its data when given, against the registry
+   * Only rejects in strict mode (dev builds by default).
+   * @param entityId - Entity the component is for
+   * @param componentType - Component type
+   * @param data - Component data
+   * @returns True if the component may be stored
+   */
+  private checkComponent(entityId: EntityId, componentType: ComponentType, data?: unknown): boolean {
+    if (!this.componentRegistry.isStrict()) {
+      return true;
     }
 
-    // If no component types specified, return all entities
-    if (componentTypes.length === 0) {
-      const allEntities = Array.from(this.world.entities.keys());
-      this.queryCache.set(cacheKey, allEntities);
-      return allEntities;
+    if (!this.componentRegistry.has(componentType)) {
+      logger.error(LogSource.ECS, `Rejected unknown component type ${componentType} for entity ${entityId}`);
+      return false;
     }
 
-    // Find entities with all specified components
-    const matchingEntities: EntityId[] = [];
+    if (data !== undefined) {
+      const error = this.componentRegistry.validate(componentType, data);
+      if (error) {
+        logger.error(LogSource.ECS, `Rejected invalid ${componentType} for entity ${entityId}: ${error.message}`);
+        return false;
+      }
+    }
 
-    for (const [entityId, entity] of this.world.entities) {
-      const hasAllComponents = componentTypes.every(componentType =>
-        entity.components.has(componentType)
-      );
+    return true;
+  }
+
+  /**
+   * Sets the prefab registry used by instantiate
+   * @param prefabs - Prefab registry
+   */
+  public setPrefabRegistry(prefabs: PrefabRegistry): void {
+    this.prefabs = prefabs;
+  }
+
+  /**
+   * Gets the prefab registry used by instantiate
+   * @returns Prefab registry
+   */
+  public getPrefabRegistry(): PrefabRegistry {
+    return this.prefabs;
+  }
+
+  /**
+   * Attaches an entity to a parent, or detaches it
+   * Children follow their parent's position and are destroyed with it.
+   * @param childId - Entity to attach
+   * @param parentId - New parent, or null to detach
+   * @param offset - Position relative to the parent (defaults to the current distance)
+   * @returns True if the hierarchy changed
+   */
+  public setParent(childId: EntityId, parentId: EntityId | null, offset?: Position): boolean {
+    if (!this.world.entities.has(childId) || (parentId !== null && !this.world.entities.has(parentId))) {
+      logger.error(LogSource.ECS, `Cannot parent entity ${childId} to ${parentId}: entity does not exist`);
+      return false;
+    }
+
+    // A parent may not be the child itself or one of its descendants
+    for (let ancestor = parentId; ancestor !== null; ancestor = this.getParent(ancestor)) {
+      if (ancestor === childId) {
+        logger.error(LogSource.ECS, `Cannot parent entity ${childId} to its own descendant ${parentId}`);
+        return false;
+      }
+    }
 
-      if (hasAllComponents) {
-        matchingEntities.push(entityId);
+    // Detach from the previous parent
+    const previousId = this.getParent(childId);
+    if (previousId !== null) {
+      const siblings = this.getComponent<Children>(previousId, 'Children')!;
+      siblings.entities = siblings.entities.filter(id => id !== childId);
+      if (siblings.entities.length === 0) {
+        this.removeComponent(previousId, 'Children');
+      } else {
+        this.updateComponent(previousId, 'Children', siblings);
       }
     }
 
-    // Cache result
-    this.queryCache.set(cacheKey, matchingEntities);
+    if (parentId === null) {
+      this.removeComponent(childId, 'Parent');
+      return true;
+    }
+
+    const childPosition = this.getComponent<Position>(childId, 'Position');
+    const parentPosition = this.getComponent<Position>(parentId, 'Position');
+    const relative = offset || (childPosition && parentPosition
+      ? { x: childPosition.x - parentPosition.x, y: childPosition.y - parentPosition.y }
+      : { x: 0, y: 0 });
+
+    this.addComponent<Parent>(childId, 'Parent', { entityId: parentId, offset: { ...relative } });
 
-    return matchingEntities;
+    const children = this.getComponent<Children>(parentId, 'Children');
+    if (children) {
+      children.entities.push(childId);
+      this.updateComponent(parentId, 'Children', children);
+    } else {
+      this.addComponent<Children>(parentId, 'Children', { entities: [childId] });
+    }
+
+    this.propagateTransform(parentId);
+    return true;
+  }
+
+  /**
+   * Gets an entity's parent
+   * @param entityId - Entity ID
+   * @returns Parent entity ID or null
+   */
+  public getParent(entityId: EntityId): EntityId | null {
+    return this.getComponent<Parent>(entityId, 'Parent')?.entityId ?? null;
+  }
+
+  /**
+   * Gets an entity's children
+   * @param entityId - Entity ID
+   * @returns Child entity IDs, in attach order
+   */
+  public getChildren(entityId: EntityId): readonly EntityId[] {
+    return this.getComponent<Children>(entityId, 'Children')?.entities ?? [];
+  }
+
+  /**
+   * Moves every descendant of an entity to its parent's position plus its offset
+   * @param entityId - Entity whose subtree to update
+   */
+  public propagateTransform(entityId: EntityId): void {
+    const position = this.getComponent<Position>(entityId, 'Position');
+
+    for (const childId of this.getChildren(entityId)) {
+      const parent = this.getComponent<Parent>(childId, 'Parent');
+      const childPosition = this.getComponent<Position>(childId, 'Position');
+
+      if (position && parent && childPosition) {
+        const x = position.x + parent.offset.x;
+        const y = position.y + parent.offset.y;
+        if (childPosition.x !== x || childPosition.y !== y) {
+          childPosition.x = x;
+          childPosition.y = y;
+          this.updateComponent(childId, 'Position', childPosition);
+        }
+      }
+
+      this.propagateTransform(childId);
+    }
+  }
+
+  /**
+   * Queries for entities with specific component types
+   *
+   * Passing an array returns the matching entity IDs. The array is a snapshot
+   * that later world changes do not modify.
+   *
+   * Passing the types as arguments returns a typed, live query whose forEach
+   * yields component tuples without allocating:
+   * `world.query<[Position, Velocity]>('Position', 'Velocity')`.
+   *
+   * Both forms read incrementally maintained results and never rescan the world.
+   * @param componentTypes - Component types to query for (none matches every entity)
+   * @returns Matching entity IDs, or the typed query
+   */
+  public query(componentTypes: ComponentType[]): EntityId[];
+  public query<T extends unknown[]>(...componentTypes: ComponentType[]): Query<T>;
+  public query(...args: Array<ComponentType | ComponentType[]>): EntityId[] | Query {
+    if (Array.isArray(args[0])) {
+      return this.getQuery(args[0]).entities as EntityId[];
+    }
+
+    return this.getQuery(args as ComponentType[]);
+  }
+
+  /**
+   * Gets or registers the query for a list of component types
+   * @param componentTypes - Component types, in tuple order
+   * @returns The registered query
+   */
+  private getQuery(componentTypes: ComponentType[]): Query {
+    const key = componentTypes.join(',');
+    const existing = this.queries.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const types = [...new Set(componentTypes)];
+    const query = new Query(types, this.world.components);
+
+    // Populate once; afterwards membership is maintained incrementally
+    for (const [entityId, entity] of this.world.entities) {
+      if (query.matches(entity)) {
+        query.add(entityId);
+      }
+    }
+
+    this.queries.set(key, query);
+    if (types.length === 0) {
+      this.unfilteredQueries.push(query);
+    }
+    types.forEach(componentType => {
+      if (!this.queriesByType.has(componentType)) {
+        this.queriesByType.set(componentType, []);
+      }
+      this.queriesByType.get(componentType)!.push(query);
+    });
+
+    logger.debug(LogSource.ECS, `Registered query for components: ${key || 'all'}`);
+
+    return query;
+  }
+
+  /**
+   * Gets the store for a component type, creating it if needed
+   * @param componentType - Component type
+   * @returns The component store
+   */
+  private getStore(componentType: ComponentType): Map<EntityId, unknown> {
+    let store = this.world.components.get(componentType);
+    if (!store) {
+      store = new ComponentStore();
+      this.world.components.set(componentType, store);
+    }
+    return store;
   }
 
   /**
@@ -315,7 +597,7 @@ export class WorldManager {
   }
 
   /**
-   * Executes all systems in order
+   * Executes all systems in order, then the scheduler's fixed-update stages
    * @param deltaTime - Time since last frame in seconds
    */
   public update(deltaTime: number): void {
@@ -326,6 +608,78 @@ export class WorldManager {
         logger.error(LogSource.ECS, `System execution failed: ${error}`);
       }
     }
+
+    this.scheduler.runFixed(this, deltaTime);
+
+    // Sync point: structural changes recorded by systems are safe to apply now
+    this.flushCommands();
+  }
+
+  /**
+   * Gets the command buffer for deferring structural changes
+   * Use it instead of createEntity/destroyEntity/addComponent/removeComponent
+   * while iterating query results.
+   * @returns Command buffer, flushed at the end of each update
+   */
+  public getCommandBuffer(): CommandBuffer {
+    return this.commands;
+  }
+
+  /**
+   * Applies all queued structural changes in recording order
+   * Commands queued while flushing (e.g. by lifecycle listeners) are applied too.
+   * @returns Number of commands applied
+   */
+  public flushCommands(): number {
+    let applied = 0;
+
+    while (this.commands.size > 0) {
+      for (const command of this.commands.drain()) {
+        switch (command.type) {
+          case 'create':
+            this.spawnEntity(command.entityId);
+            Object.entries(command.components).forEach(([componentType, data]) => {
+              this.addComponent(command.entityId, componentType, data);
+            });
+            this.notifyLifecycle(command.entityId, 'created');
+            break;
+          case 'destroy':
+            // Several systems may destroy the same entity, or a parent may already have taken it
+            if (this.world.entities.has(command.entityId)) {
+              this.destroyEntity(command.entityId);
+            }
+            break;
+          case 'add':
+            this.addComponent(command.entityId, command.componentType, command.data);
+            break;
+          case 'remove':
+            this.removeComponent(command.entityId, command.componentType);
+            break;
+        }
+        applied++;
+      }
+    }
+
+    if (applied > 0) {
+      logger.debug(LogSource.ECS, `Applied ${applied} queued entity commands`);
+    }
+    return applied;
+  }
+
+  /**
+   * Runs the scheduler's render-prep stage
+   * @param interpolation - Interpolation factor between fixed steps
+   */
+  public prepareRender(interpolation: number): void {
+    this.scheduler.runRender(this, interpolation);
+  }
+
+  /**
+   * Gets the system scheduler
+   * @returns System scheduler
+   */
+  public getScheduler(): SystemScheduler {
+    return this.scheduler;
   }
 
   /**
@@ -369,6 +723,34 @@ export class WorldManager {
     };
   }
 
+  /**
+   * Subscribes to entity creation and destruction
+   * @param callback - Called with the entity ID and what happened to it
+   * @returns Unsubscribe function
+   */
+  public subscribeLifecycle(callback: EntityLifecycleListener): () => void {
+    this.lifecycleListeners.add(callback);
+
+    return () => {
+      this.lifecycleListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Notifies lifecycle listeners
+   * @param entityId - Entity ID
+   * @param action - What happened to the entity
+   */
+  private notifyLifecycle(entityId: EntityId, action: EntityLifecycleAction): void {
+    this.lifecycleListeners.forEach(callback => {
+      try {
+        callback(entityId, action);
+      } catch (error) {
+        logger.error(LogSource.ECS, `Lifecycle listener failed: ${error}`);
+      }
+    });
+  }
+
   /**
    * Notifies all listeners of a component change
    * @param entityId - Entity ID
@@ -395,13 +777,6 @@ export class WorldManager {
     });
   }
 
-  /**
-   * Invalidates the query cache
-   */
-  private invalidateQueryCache(): void {
-    this.queryCache.clear();
-  }
-
   /**
    * Gets the current world state (for debugging/saving)
    * @returns Deep copy of the world state
@@ -439,6 +814,7 @@ export class WorldManager {
     entityCount: number;
     componentCount: number;
     systemCount: number;
+    queryCount: number;
     componentTypes: string[];
   } {
     const componentTypes = Array.from(this.world.components.keys());
@@ -447,21 +823,23 @@ export class WorldManager {
       entityCount: this.world.entities.size,
       componentCount: Array.from(this.world.components.values())
         .reduce((total, map) => total + map.size, 0),
-      systemCount: this.world.systems.length,
+      systemCount: this.world.systems.length + this.scheduler.getStats().systemCount,
+      queryCount: this.queries.size,
       componentTypes
     };
   }
 
   /**
    * Clears all entities and components from the world
+   * Registered systems stay, so a world refilled from a save keeps running them.
    */
   public clear(): void {
     this.world.entities.clear();
     this.world.components.clear();
-    this.world.systems = [];
+    this.commands.clear();
     this.world.nextEntityId = 0;
     this.listeners.clear();
-    this.invalidateQueryCache();
+    this.queries.forEach(query => query.clear());
 
     logger.info(LogSource.ECS, 'World cleared');
   }
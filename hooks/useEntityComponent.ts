@@ -4,7 +4,7 @@
  */
 
 import { useEffect, useState } from 'react';
-import { EntityId, ComponentType } from '../types';
+import { EntityId, ComponentType, EntityLifecycleAction } from '../types';
 import { useGameEngine } from './useGameEngine';
 
 /**
@@ -122,15 +122,13 @@ export function useEntityQuery(componentTypes: ComponentType[]): EntityId[] {
  * React hook for watching entity lifecycle (creation/destruction)
  * @param callback - Function called when entities are created or destroyed
  */
-export function useEntityLifecycle(callback: (entityId: EntityId, action: 'created' | 'destroyed') => void): void {
+export function useEntityLifecycle(callback: (entityId: EntityId, action: EntityLifecycleAction) => void): void {
+  const { subscribeToLifecycle } = useGameEngine();
+
   useEffect(() => {
-    // This would need to be connected to the world manager's entity lifecycle events
-    // For now, this is a placeholder implementation
-    
-    return () => {
-      // Cleanup
-    };
-  }, [callback]);
+    // Entities created or destroyed through a command buffer are reported when the buffer is flushed
+    return subscribeToLifecycle(callback);
+  }, [callback, subscribeToLifecycle]);
 }
 
 export default useEntityComponent;
\ No newline at end of file
@@ -8,8 +8,9 @@ import { GameLoop } from '../engine/GameLoop';
 import { WebGLRenderer } from '../engine/WebGLRenderer';
 import { InputSystem } from '../engine/InputSystem';
 import { WorldManager } from '../engine/WorldManager';
+import { GameClock } from '../engine/GameClock';
 import { logger, LogSource } from '../engine/GlobalLogger';
-import { EntityId, ComponentType, Position, Sprite } from '../types';
+import { EntityId, ComponentType, EntityLifecycleListener, Position, Sprite } from '../types';
 
 /**
  * Game engine state interface
@@ -52,6 +53,10 @@ interface UseGameEngineReturn {
     componentType: ComponentType,
     callback: (data: unknown) => void
   ) => () => void;
+  /** Subscribe to entity creation and destruction */
+  subscribeToLifecycle: (callback: EntityLifecycleListener) => () => void;
+  /** Get the in-game clock */
+  getClock: () => GameClock | null;
 }
 
 /**
@@ -71,6 +76,7 @@ export function useGameEngine(
   const rendererRef = useRef<WebGLRenderer | null>(null);
   const inputSystemRef = useRef<InputSystem | null>(null);
   const worldManagerRef = useRef<WorldManager | null>(null);
+  const gameClockRef = useRef<GameClock | null>(null);
   
   // State
   const [state, setState] = useState<GameEngineState>({
@@ -114,6 +120,11 @@ export function useGameEngine(
       inputSystemRef.current.update();
     }
 
+    // Advance in-game time
+    if (gameClockRef.current) {
+      gameClockRef.current.update(deltaTime);
+    }
+
     // Update world (runs all systems)
     world.update(deltaTime);
 
@@ -133,8 +144,15 @@ export function useGameEngine(
     // Begin frame
     renderer.beginFrame();
 
+    // Light the scene for the time of day
+    if (gameClockRef.current) {
+      renderer.setAmbientTint(gameClockRef.current.getTint());
+    }
+
     // Render entities with Sprite and Position components
     if (worldManagerRef.current) {
+      worldManagerRef.current.prepareRender(interpolation);
+
       const entities = worldManagerRef.current.query(['Sprite', 'Position']);
       
       // Sort by Y position for proper depth ordering
@@ -182,6 +200,9 @@ export function useGameEngine(
       // Create world manager
       worldManagerRef.current = new WorldManager();
 
+      // Create game clock
+      gameClockRef.current = new GameClock();
+
       // Create input system
       inputSystemRef.current = new InputSystem();
       inputSystemRef.current.enable();
@@ -283,6 +304,18 @@ export function useGameEngine(
     return worldManagerRef.current.subscribe(entityId, componentType, callback);
   }, []);
 
+  // Subscribe to entity lifecycle events
+  const subscribeToLifecycle = useCallback((callback: EntityLifecycleListener) => {
+    if (!worldManagerRef.current) {
+      return () => {}; // Return empty unsubscribe function
+    }
+
+    return worldManagerRef.current.subscribeLifecycle(callback);
+  }, []);
+
+  // Get the in-game clock
+  const getClock = useCallback(() => gameClockRef.current, []);
+
   // Handle canvas resize
   const handleResize = useCallback(() => {
     if (!canvasRef.current || !rendererRef.current) {
@@ -343,6 +376,9 @@ export function useGameEngine(
       if (inputSystemRef.current) {
         inputSystemRef.current.dispose();
       }
+      if (gameClockRef.current) {
+        gameClockRef.current.dispose();
+      }
       if (worldManagerRef.current) {
         // World manager doesn't have dispose method, but we can clear it
         worldManagerRef.current.clear();
@@ -359,6 +395,8 @@ export function useGameEngine(
     stopGame,
     togglePause,
     getComponent,
-    subscribeToComponent
+    subscribeToComponent,
+    subscribeToLifecycle,
+    getClock
   };
 }
\ No newline at end of file
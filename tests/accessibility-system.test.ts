@@ -8,6 +8,8 @@ import { setupDOMMock, getMockDocument, getMockWindow } from './dom-mock';
 setupDOMMock();
 
 import { AccessibilitySystem } from '../engine/AccessibilitySystem';
+import { CombatSystem } from '../engine/CombatSystem';
+import { WorldManager } from '../engine/WorldManager';
 import { AccessibilityOptions } from '../types';
 
 /**
@@ -511,6 +513,42 @@ runner.test('AccessibilitySystem - Settings persistence', () => {
   runner.assertEqual(loadedOptions.reducedMotion, true, 'Reduced motion should be persisted');
 });
 
+// ============= COMBAT ANNOUNCEMENT TESTS =============
+
+runner.test('AccessibilitySystem - Combat events are announced', () => {
+  const world = new WorldManager();
+  const combat = new CombatSystem({ damageVariance: 0, criticalHitChance: 0 });
+  combat.setWorld(world);
+  const [caster, enemy] = [0, 1].map(() => {
+    const entityId = world.createEntity(['Position', 'Health', 'CombatStats', 'MagicUser']);
+    world.addComponent(entityId, 'Position', { x: 0, y: 0 });
+    world.addComponent(entityId, 'Health', { current: 100, max: 100 });
+    world.addComponent(entityId, 'CombatStats', { attacking: false, attack: 10, defense: 4, actionPoints: 3, maxActionPoints: 3 });
+    world.addComponent(entityId, 'MagicUser', {
+      spellCharges: {}, knownSpells: {}, maxSpellsPerLevel: 3, currentMana: 100, maxMana: 100, magicDefense: 0
+    });
+    return entityId;
+  });
+  world.addComponent(enemy, 'EnemyInfo', { enemyId: 'goblin' });
+  combat.startCombat(caster, [enemy]);
+
+  const accessibilitySystem = new AccessibilitySystem();
+  const spoken: string[] = [];
+  const indicators: string[] = [];
+  accessibilitySystem.speak = (text: string) => {
+    spoken.push(text);
+  };
+  accessibilitySystem.showAudioIndicator = (type) => {
+    indicators.push(type);
+  };
+  accessibilitySystem.subscribeToCombat(combat);
+
+  combat.castSpell(caster, 'fire_1', enemy);
+
+  runner.assert(spoken.some(text => text.startsWith('Goblin takes')), 'Damage should be announced by name');
+  runner.assert(indicators.includes('damage'), 'Damage should show a visual cue');
+});
+
 // Run all tests
 runner.run();
 
@@ -0,0 +1,206 @@
+/**
+ * Battle Simulator Tests
+ * @fileoverview Tests for deterministic headless battles and their event logs
+ */
+
+import { simulateBattle, BattleSetup, BattleInput } from '../engine/BattleSimulator';
+import { CombatAction } from '../engine/CombatSystem';
+import { WorldManager } from '../engine/WorldManager';
+import { CombatStats, EntityId, Health, Party } from '../types';
+
+/**
+ * Test runner for battle simulator tests
+ */
+class BattleSimulatorTestRunner {
+  private tests: Array<{ name: string; fn: () => void }> = [];
+  private passed = 0;
+  private failed = 0;
+
+  /**
+   * Registers a test
+   */
+  public test(name: string, fn: () => void): void {
+    this.tests.push({ name, fn });
+  }
+
+  /**
+   * Runs all registered tests
+   */
+  public run(): { passed: number; failed: number } {
+    console.log('Running Battle Simulator Tests...\n');
+
+    for (const test of this.tests) {
+      try {
+        test.fn();
+        console.log(`✓ ${test.name}`);
+        this.passed++;
+      } catch (error) {
+        console.log(`✗ ${test.name}`);
+        console.log(`  Error: ${error}`);
+        this.failed++;
+      }
+    }
+
+    console.log(`\nBattle Simulator Test Results: ${this.passed} passed, ${this.failed} failed`);
+    return { passed: this.passed, failed: this.failed };
+  }
+
+  /**
+   * Assertion helper
+   */
+  public assert(condition: boolean, message: string): void {
+    if (!condition) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Equality assertion helper
+   */
+  public assertEqual<T>(actual: T, expected: T, message: string): void {
+    if (actual !== expected) {
+      throw new Error(`${message}. Expected: ${expected}, Actual: ${actual}`);
+    }
+  }
+
+  /**
+   * Creates an entity with the components combat needs
+   */
+  public createCombatant(world: WorldManager, health: number, attack: number, speed: number): EntityId {
+    const entityId = world.createEntity(['Position', 'Health', 'CombatStats']);
+    world.addComponent(entityId, 'Position', { x: 0, y: 0 });
+    world.addComponent(entityId, 'Health', { current: health, max: health });
+    world.addComponent<CombatStats>(entityId, 'CombatStats', {
+      attacking: false,
+      attack,
+      defense: 4,
+      actionPoints: 3,
+      maxActionPoints: 3,
+      speed
+    });
+    return entityId;
+  }
+
+  /**
+   * Creates a two-member party against goblins
+   */
+  public setup(seed: number, heroAttack: number = 30, enemyAttack: number = 12): BattleSetup & { memberIds: EntityId[] } {
+    const world = new WorldManager();
+    const memberIds = [this.createCombatant(world, 80, heroAttack, 12), this.createCombatant(world, 60, heroAttack, 9)];
+    const partyEntityId = world.createEntity(['Party']);
+    world.addComponent<Party>(partyEntityId, 'Party', {
+      members: memberIds,
+      maxSize: 4,
+      formation: [...memberIds],
+      activeMembers: [...memberIds]
+    });
+    const enemyIds = [this.createCombatant(world, 50, enemyAttack, 10), this.createCombatant(world, 50, enemyAttack, 8)];
+    enemyIds.forEach(id => world.addComponent(id, 'EnemyInfo', { enemyId: 'goblin' }));
+
+    return { world, partyEntityId, enemyIds, seed, memberIds };
+  }
+}
+
+// Create test runner instance
+const runner = new BattleSimulatorTestRunner();
+
+// ============= DETERMINISM TESTS =============
+
+runner.test('BattleSimulator - Same seed and inputs replay the same battle', () => {
+  const first = simulateBattle(runner.setup(1234));
+  const second = simulateBattle(runner.setup(1234));
+
+  runner.assert(first.events.length > 5, 'Battle should produce events');
+  runner.assertEqual(JSON.stringify(first), JSON.stringify(second), 'Logs should be identical');
+});
+
+runner.test('BattleSimulator - Different seeds change the rolls', () => {
+  const logs = [1, 2, 3, 4].map(seed => JSON.stringify(simulateBattle(runner.setup(seed)).events));
+
+  runner.assert(new Set(logs).size > 1, 'Seeds should lead to different battles');
+});
+
+// ============= OUTCOME TESTS =============
+
+runner.test('BattleSimulator - Strong party wins and logs every defeat', () => {
+  const setup = runner.setup(7);
+  const log = simulateBattle(setup);
+
+  runner.assertEqual(log.outcome, 'victory', 'Party should win');
+  runner.assert(log.result!.victory, 'Combat result should be a victory');
+  setup.enemyIds.forEach(id => {
+    runner.assert(log.events.some(e => e.type === 'defeated' && e.entityId === id), `Enemy ${id} should be logged as defeated`);
+  });
+  runner.assertEqual(log.events[log.events.length - 1].type, 'ended', 'Log should end with the outcome');
+  runner.assert(log.duration > 0 && log.turns > 0, 'Duration and turns should be recorded');
+});
+
+runner.test('BattleSimulator - Weak party loses', () => {
+  const log = simulateBattle(runner.setup(7, 5, 60));
+
+  runner.assertEqual(log.outcome, 'defeat', 'Party should lose');
+  runner.assertEqual(log.result!.victory, false, 'Combat result should be a defeat');
+});
+
+runner.test('BattleSimulator - Unfinished battles time out', () => {
+  const log = simulateBattle({ ...runner.setup(7), maxTime: 3 });
+
+  runner.assertEqual(log.outcome, 'timeout', 'Battle should time out');
+  runner.assertEqual(log.result, null, 'Timed out battles have no result');
+});
+
+// ============= INPUT TESTS =============
+
+runner.test('BattleSimulator - Scripted inputs are used in order', () => {
+  const setup = runner.setup(7);
+  const script: BattleInput[] = [
+    { action: CombatAction.DEFEND },
+    { action: CombatAction.ATTACK, targetId: setup.enemyIds[1] }
+  ];
+
+  const log = simulateBattle(setup, script);
+  const playerActions = log.events.filter(e => e.type === 'action_started' && setup.memberIds.includes(e.actorId));
+
+  runner.assertEqual(playerActions[0].type === 'action_started' && playerActions[0].action, CombatAction.DEFEND, 'First input should defend');
+  runner.assertEqual(playerActions[1].type === 'action_started' && playerActions[1].targetId, setup.enemyIds[1], 'Second input should pick its target');
+  setup.memberIds.forEach(id => {
+    runner.assertEqual(setup.world.getComponent<CombatStats>(id, 'CombatStats')!.defense, 4, 'Defend bonuses should not outlive the battle');
+  });
+});
+
+runner.test('BattleSimulator - Flees and actions without damage are logged', () => {
+  const setup = runner.setup(7);
+  const [fleer, defender] = setup.memberIds;
+
+  const log = simulateBattle(setup, [{ action: CombatAction.FLEE }, { action: CombatAction.DEFEND }]);
+
+  runner.assert(log.events.some(e => e.type === 'fled' && e.entityId === fleer), 'The flee should be logged');
+  runner.assert(!log.events.some(e => e.type === 'defeated' && e.entityId === fleer), 'Fleeing is not a defeat');
+  runner.assert(
+    log.events.some(e => e.type === 'action_started' && e.actorId === defender && e.action === CombatAction.DEFEND),
+    'The defend should be logged'
+  );
+  runner.assert(
+    log.events.some(e => e.type === 'damaged' && e.entityId === defender && e.sourceId !== null && setup.enemyIds.includes(e.sourceId)),
+    'Damage should name its source'
+  );
+});
+
+runner.test('BattleSimulator - Input callback is asked on each player turn', () => {
+  const setup = runner.setup(7);
+  const asked: EntityId[] = [];
+  const isStanding = (id: EntityId) => setup.world.getComponent<Health>(id, 'Health')!.current > 0;
+
+  const log = simulateBattle(setup, actorId => {
+    asked.push(actorId);
+    return { action: CombatAction.ATTACK, targetId: setup.enemyIds.find(isStanding) ?? null };
+  });
+
+  runner.assertEqual(log.outcome, 'victory', 'Callback inputs should win the battle');
+  runner.assertEqual(asked.length, log.events.filter(e => e.type === 'turn_started' && e.isPlayer).length, 'Each player turn should ask once');
+});
+
+// Run all tests
+runner.run();
+
+export { runner as battleSimulatorTestRunner };
@@ -0,0 +1,309 @@
+/**
+ * Boss Controller Tests
+ * @fileoverview Unit tests for boss phases, ability pools and special-condition triggers
+ */
+
+import { BossController, BossEvent } from '../engine/BossController';
+import { CombatSystem } from '../engine/CombatSystem';
+import { StatusEffectSystem } from '../engine/StatusEffectSystem';
+import { WorldManager } from '../engine/WorldManager';
+import { EntityId, Health, MagicUser, StatusEffect } from '../types';
+import { RNG } from '../utils/rng';
+
+/**
+ * Test runner for boss controller tests
+ */
+class BossControllerTestRunner {
+  private tests: Array<{ name: string; fn: () => void }> = [];
+  private passed = 0;
+  private failed = 0;
+
+  /**
+   * Registers a test
+   */
+  public test(name: string, fn: () => void): void {
+    this.tests.push({ name, fn });
+  }
+
+  /**
+   * Runs all registered tests
+   */
+  public run(): { passed: number; failed: number } {
+    console.log('Running Boss Controller Tests...\n');
+
+    for (const test of this.tests) {
+      try {
+        test.fn();
+        console.log(`✓ ${test.name}`);
+        this.passed++;
+      } catch (error) {
+        console.log(`✗ ${test.name}`);
+        console.log(`  Error: ${error}`);
+        this.failed++;
+      }
+    }
+
+    console.log(`\nBoss Controller Test Results: ${this.passed} passed, ${this.failed} failed`);
+    return { passed: this.passed, failed: this.failed };
+  }
+
+  /**
+   * Assertion helper
+   */
+  public assert(condition: boolean, message: string): void {
+    if (!condition) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Equality assertion helper
+   */
+  public assertEqual<T>(actual: T, expected: T, message: string): void {
+    if (actual !== expected) {
+      throw new Error(`${message}. Expected: ${expected}, Actual: ${actual}`);
+    }
+  }
+
+  /**
+   * Creates a world, a registered boss and an event log
+   */
+  public setup(bossId: string, health: number = 100): {
+    world: WorldManager;
+    controller: BossController;
+    bossEntity: EntityId;
+    events: BossEvent[];
+  } {
+    const world = new WorldManager();
+    const controller = new BossController();
+    controller.setWorld(world);
+
+    const bossEntity = world.createEntity(['Position', 'Health', 'Boss']);
+    world.addComponent(bossEntity, 'Position', { x: 0, y: 0 });
+    world.addComponent(bossEntity, 'Health', { current: health, max: health });
+    world.addComponent(bossEntity, 'Boss', { bossId });
+    controller.register(bossEntity);
+
+    const events: BossEvent[] = [];
+    controller.subscribe(event => events.push(event));
+    return { world, controller, bossEntity, events };
+  }
+
+  /**
+   * Sets an entity's current health
+   */
+  public setHealth(world: WorldManager, entityId: EntityId, current: number): void {
+    const health = world.getComponent<Health>(entityId, 'Health')!;
+    health.current = current;
+    world.updateComponent(entityId, 'Health', health);
+  }
+}
+
+// Create test runner instance
+const runner = new BossControllerTestRunner();
+
+// ============= REGISTRATION TESTS =============
+
+runner.test('BossController - Registers only known bosses', () => {
+  const { world, controller, bossEntity } = runner.setup('captain_dread');
+
+  const plain = world.createEntity(['Health']);
+  world.addComponent(plain, 'Health', { current: 10, max: 10 });
+  const unknown = world.createEntity(['Health', 'Boss']);
+  world.addComponent(unknown, 'Boss', { bossId: 'not_a_boss' });
+
+  runner.assert(controller.isBoss(bossEntity), 'Boss should be tracked');
+  runner.assert(!controller.register(plain), 'Entity without Boss component should be rejected');
+  runner.assert(!controller.register(unknown), 'Unknown boss definition should be rejected');
+  runner.assertEqual(controller.getPhaseIndex(bossEntity), -1, 'Boss should start before the first phase');
+  runner.assertEqual(controller.getAbilityPool(bossEntity).join(','), 'attack', 'Boss should start with the base pool');
+});
+
+// ============= PHASE TESTS =============
+
+runner.test('BossController - Health thresholds advance phases and swap abilities', () => {
+  const { world, controller, bossEntity, events } = runner.setup('captain_dread');
+
+  controller.update();
+  runner.assertEqual(events.length, 0, 'Full health should not change phase');
+
+  runner.setHealth(world, bossEntity, 70);
+  controller.update();
+  runner.assertEqual(controller.getPhaseIndex(bossEntity), 0, 'Boss should enter phase 1 at 70%');
+  runner.assert(controller.getAbilityPool(bossEntity).includes('summon_pirates'), 'Phase 1 should add summon_pirates');
+  runner.assertEqual(controller.getBehaviors(bossEntity)[0], 'summons_2_pirates', 'Phase 1 behavior should be active');
+
+  runner.setHealth(world, bossEntity, 20);
+  controller.update();
+  controller.update();
+  runner.assertEqual(controller.getPhaseIndex(bossEntity), 1, 'Boss should enter phase 2 at 30%');
+  runner.assert(controller.getAbilityPool(bossEntity).includes('desperation_cannon_fire'), 'Phase 2 should add cannon fire');
+  runner.assertEqual(controller.getBehaviors(bossEntity)[0], 'uses_ship_cannons', 'Phase 2 behavior should replace phase 1');
+
+  const phaseEvents = events.filter(e => e.type === 'phase_changed');
+  runner.assertEqual(phaseEvents.length, 2, 'Each phase should be announced once');
+});
+
+runner.test('BossController - Large hits enter skipped phases in order', () => {
+  const { world, controller, bossEntity, events } = runner.setup('captain_dread');
+
+  runner.setHealth(world, bossEntity, 10);
+  controller.update();
+
+  const phases = events.filter(e => e.type === 'phase_changed').map(e => e.type === 'phase_changed' ? e.phaseName : '');
+  runner.assertEqual(phases.join(','), 'Phase 1,Phase 2', 'Both phases should be entered in order');
+  runner.assert(controller.getAbilityPool(bossEntity).includes('summon_pirates'), 'Earlier phase abilities should be kept');
+});
+
+// ============= CONDITION TESTS =============
+
+runner.test('BossController - Low health fires once until health recovers', () => {
+  const { world, controller, bossEntity, events } = runner.setup('lord_vane');
+
+  runner.setHealth(world, bossEntity, 20);
+  controller.update();
+  controller.update();
+  runner.assertEqual(events.filter(e => e.type === 'condition_triggered').length, 1, 'Low health should fire once');
+  runner.assert(controller.getActiveEffects(bossEntity).includes('desperation_attack'), 'Desperation attack should be active');
+
+  runner.setHealth(world, bossEntity, 80);
+  controller.update();
+  runner.setHealth(world, bossEntity, 10);
+  controller.update();
+  runner.assertEqual(events.filter(e => e.type === 'condition_triggered').length, 2, 'Low health should fire again after recovering');
+});
+
+runner.test('BossController - Status triggers follow the boss status effects', () => {
+  const { world, controller, bossEntity } = runner.setup('storm_hydra');
+  const status = new StatusEffectSystem();
+  status.setWorld(world);
+
+  controller.update();
+  runner.assert(!controller.getActiveEffects(bossEntity).includes('damage_over_time'), 'Poison trigger should wait for poison');
+
+  status.apply(bossEntity, StatusEffect.POISON, { ignoreResistance: true });
+  controller.update();
+  runner.assert(controller.getActiveEffects(bossEntity).includes('damage_over_time'), 'Poison trigger should fire');
+});
+
+runner.test('BossController - Turn counter fires on every Nth turn', () => {
+  const { controller, bossEntity, events } = runner.setup('guardian_mech');
+
+  for (let turn = 0; turn < 8; turn++) {
+    controller.onBossTurn(bossEntity);
+  }
+
+  const fired = events.filter(e => e.type === 'condition_triggered' && e.effect === 'cataclysm_cast');
+  runner.assertEqual(fired.length, 2, 'Cataclysm should fire on turns 4 and 8');
+});
+
+runner.test('BossController - Always-active regeneration heals each turn', () => {
+  const { world, controller, bossEntity } = runner.setup('omega_drone', 200);
+  runner.setHealth(world, bossEntity, 100);
+
+  controller.onBossTurn(bossEntity);
+
+  runner.assertEqual(world.getComponent<Health>(bossEntity, 'Health')!.current, 110, 'Boss should regenerate 5% of max HP');
+});
+
+runner.test('BossController - Event triggers fire through notify', () => {
+  const { controller, bossEntity } = runner.setup('captain_dread');
+
+  runner.assert(!controller.notify(bossEntity, 'fire_damage_received'), 'Unrelated triggers should not fire');
+  runner.assert(controller.notify(bossEntity, 'pirates_defeated'), 'Matching trigger should fire');
+  runner.assert(controller.getActiveEffects(bossEntity).includes('captain_vulnerable'), 'Effect should be recorded');
+});
+
+runner.test('BossController - Failing listener does not block others', () => {
+  const { world, controller, bossEntity } = runner.setup('captain_dread');
+  let received = 0;
+  controller.subscribe(() => { throw new Error('listener failure'); });
+  const unsubscribe = controller.subscribe(() => { received++; });
+
+  runner.setHealth(world, bossEntity, 50);
+  controller.update();
+  unsubscribe();
+  runner.setHealth(world, bossEntity, 10);
+  controller.update();
+
+  runner.assertEqual(received, 1, 'Listener should receive events until unsubscribed');
+});
+
+// ============= COMBAT INTEGRATION TESTS =============
+
+runner.test('BossController - Combat tracks bosses and reports spell elements', () => {
+  const world = new WorldManager();
+  const combat = new CombatSystem();
+  combat.setWorld(world);
+
+  const hero = world.createEntity(['Position', 'Health', 'CombatStats', 'MagicUser']);
+  world.addComponent(hero, 'Position', { x: 0, y: 0 });
+  world.addComponent(hero, 'Health', { current: 100, max: 100 });
+  world.addComponent(hero, 'CombatStats', { attacking: false, attack: 10, defense: 4, actionPoints: 3, maxActionPoints: 3 });
+  world.addComponent<MagicUser>(hero, 'MagicUser', {
+    spellCharges: {},
+    knownSpells: {},
+    maxSpellsPerLevel: 3,
+    currentMana: 100,
+    maxMana: 100,
+    magicDefense: 5
+  });
+
+  const boss = world.createEntity(['Position', 'Health', 'CombatStats', 'Boss']);
+  world.addComponent(boss, 'Position', { x: 1, y: 0 });
+  world.addComponent(boss, 'Health', { current: 1000, max: 1000 });
+  world.addComponent(boss, 'CombatStats', { attacking: false, attack: 10, defense: 4, actionPoints: 3, maxActionPoints: 3 });
+  world.addComponent(boss, 'Boss', { bossId: 'rot_king' });
+
+  combat.startCombat(hero, [boss]);
+  const controller = combat.getBossController();
+  runner.assert(controller.isBoss(boss), 'Combat should register the boss');
+
+  combat.castSpell(hero, 'fire_1', boss);
+  runner.assert(controller.getActiveEffects(boss).includes('weakness_exposed'), 'Fire damage should trigger the boss condition');
+
+  runner.setHealth(world, boss, 100);
+  combat.update(0.016);
+  runner.assert(controller.getPhaseIndex(boss)! >= 0, 'Combat update should advance boss phases');
+
+  combat.endCombat();
+  runner.assert(!controller.isBoss(boss), 'Ending combat should stop tracking the boss');
+});
+
+runner.test('BossController - Boss uses abilities unlocked by its phase', () => {
+  const world = new WorldManager();
+  const combat = new CombatSystem();
+  combat.setWorld(world);
+  combat.setRNG(new RNG(3));
+
+  const hero = world.createEntity(['Position', 'Health', 'CombatStats']);
+  world.addComponent(hero, 'Position', { x: 0, y: 0 });
+  world.addComponent(hero, 'Health', { current: 5000, max: 5000 });
+  world.addComponent(hero, 'CombatStats', { attacking: false, attack: 10, defense: 4, actionPoints: 3, maxActionPoints: 3 });
+
+  const boss = world.createEntity(['Position', 'Health', 'CombatStats', 'Boss']);
+  world.addComponent(boss, 'Position', { x: 1, y: 0 });
+  world.addComponent(boss, 'Health', { current: 200, max: 1000 });
+  world.addComponent(boss, 'CombatStats', { attacking: false, attack: 10, defense: 4, actionPoints: 3, maxActionPoints: 3, speed: 20 });
+  world.addComponent(boss, 'Boss', { bossId: 'captain_dread' });
+
+  const skills: string[] = [];
+  combat.subscribe(event => {
+    if (event.type === 'ActionStarted' && event.actorId === boss && event.skillId) skills.push(event.skillId);
+  });
+
+  combat.startCombat(hero, [boss]);
+  for (let t = 0; t < 20 && skills.length === 0; t += 0.1) {
+    combat.update(0.1);
+  }
+
+  const pool = combat.getBossController().getAbilityPool(boss);
+  runner.assert(skills.length > 0, 'Boss should use a phase ability');
+  runner.assert(pool.includes(skills[0]), `${skills[0]} should come from the phase ability pool`);
+  runner.assert(world.getComponent<Health>(hero, 'Health')!.current < 5000, 'Phase ability should damage the party');
+});
+
+// Run all tests
+runner.run();
+
+export { runner as bossControllerTestRunner };
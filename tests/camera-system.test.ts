@@ -4,6 +4,7 @@
  */
 
 import { CameraSystem, CameraFollowMode, CameraBounds } from '../engine/CameraSystem';
+import { CombatSystem } from '../engine/CombatSystem';
 import { WorldManager } from '../engine/WorldManager';
 import { logger, LogSource } from '../engine/GlobalLogger';
 import { EntityId, Position } from '../types';
@@ -548,6 +549,40 @@ runner.test('CameraSystem - Reset camera', () => {
   runner.assertEqual(zoom, 1.0, 'Zoom should reset to 1.0');
 });
 
+// ============= COMBAT EVENT TESTS =============
+
+runner.test('CameraSystem - Combat damage shakes the camera', () => {
+  const world = new WorldManager();
+  const combat = new CombatSystem({ damageVariance: 0, criticalHitChance: 0 });
+  combat.setWorld(world);
+  const [caster, enemy] = [0, 1].map(() => {
+    const entityId = world.createEntity(['Position', 'Health', 'CombatStats', 'MagicUser']);
+    world.addComponent(entityId, 'Position', { x: 0, y: 0 });
+    world.addComponent(entityId, 'Health', { current: 100, max: 100 });
+    world.addComponent(entityId, 'CombatStats', { attacking: false, attack: 10, defense: 4, actionPoints: 3, maxActionPoints: 3 });
+    world.addComponent(entityId, 'MagicUser', {
+      spellCharges: {}, knownSpells: {}, maxSpellsPerLevel: 3, currentMana: 100, maxMana: 100, magicDefense: 0
+    });
+    return entityId;
+  });
+  combat.startCombat(caster, [enemy]);
+
+  const cameraSystem = new CameraSystem();
+  const shakes: number[] = [];
+  cameraSystem.startShake = (intensity: number) => {
+    shakes.push(intensity);
+  };
+  const unsubscribe = cameraSystem.subscribeToCombat(combat);
+
+  combat.castSpell(caster, 'fire_1', enemy);
+  runner.assertEqual(shakes.length, 1, 'Damage should shake the camera');
+  runner.assert(shakes[0] > 2, 'Shake should scale with damage');
+
+  unsubscribe();
+  combat.castSpell(caster, 'fire_1', enemy);
+  runner.assertEqual(shakes.length, 1, 'Unsubscribed camera should stay still');
+});
+
 // Run all tests
 runner.run();
 
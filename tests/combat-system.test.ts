@@ -0,0 +1,673 @@
+/**
+ * Combat System Tests
+ * @fileoverview Unit tests for combat skill resolution
+ */
+
+import { CombatSystem, CombatAction, CombatEvent, CombatState, InitiativeMode, SkillFailureReason } from '../engine/CombatSystem';
+import { WorldManager } from '../engine/WorldManager';
+import { CharacterStats, CombatStats, EntityId, Health, MagicUser, Party, StatusEffect, StatusEffects } from '../types';
+
+/**
+ * Combat config without damage variance or critical hits, so damage values are exact
+ */
+const EXACT_DAMAGE = { damageVariance: 0, criticalHitChance: 0 };
+
+/**
+ * Test runner for combat system tests
+ */
+class CombatSystemTestRunner {
+  private tests: Array<{ name: string; fn: () => void }> = [];
+  private passed = 0;
+  private failed = 0;
+
+  /**
+   * Registers a test
+   */
+  public test(name: string, fn: () => void): void {
+    this.tests.push({ name, fn });
+  }
+
+  /**
+   * Runs all registered tests
+   */
+  public run(): { passed: number; failed: number } {
+    console.log('Running Combat System Tests...\n');
+
+    for (const test of this.tests) {
+      try {
+        test.fn();
+        console.log(`✓ ${test.name}`);
+        this.passed++;
+      } catch (error) {
+        console.log(`✗ ${test.name}`);
+        console.log(`  Error: ${error}`);
+        this.failed++;
+      }
+    }
+
+    console.log(`\nCombat System Test Results: ${this.passed} passed, ${this.failed} failed`);
+    return { passed: this.passed, failed: this.failed };
+  }
+
+  /**
+   * Assertion helper
+   */
+  public assert(condition: boolean, message: string): void {
+    if (!condition) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Equality assertion helper
+   */
+  public assertEqual<T>(actual: T, expected: T, message: string): void {
+    if (actual !== expected) {
+      throw new Error(`${message}. Expected: ${expected}, Actual: ${actual}`);
+    }
+  }
+
+  /**
+   * Not null assertion helper
+   */
+  public assertNotNull<T>(value: T | null | undefined, message: string): void {
+    if (value === null || value === undefined) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Array length assertion helper
+   */
+  public assertArrayLength<T>(array: T[], expectedLength: number, message: string): void {
+    this.assertEqual(array.length, expectedLength, message);
+  }
+
+  /**
+   * Creates an entity with the components combat needs
+   */
+  public createCombatant(world: WorldManager, health: number, mana: number = 0): EntityId {
+    const entityId = world.createEntity(['Position', 'Health', 'CombatStats', 'MagicUser']);
+    world.addComponent(entityId, 'Position', { x: 0, y: 0 });
+    world.addComponent(entityId, 'Health', { current: health, max: health });
+    world.addComponent(entityId, 'CombatStats', {
+      attacking: false,
+      attack: 10,
+      defense: 4,
+      actionPoints: 3,
+      maxActionPoints: 3
+    });
+    world.addComponent<MagicUser>(entityId, 'MagicUser', {
+      spellCharges: {},
+      knownSpells: {},
+      maxSpellsPerLevel: 3,
+      currentMana: mana,
+      maxMana: mana,
+      magicDefense: 0
+    });
+    return entityId;
+  }
+
+  /**
+   * Creates a world with a caster and the given number of enemies in combat
+   */
+  public setupBattle(enemyCount: number, mana: number = 100): {
+    world: WorldManager;
+    combat: CombatSystem;
+    casterId: EntityId;
+    enemyIds: EntityId[];
+  } {
+    const world = new WorldManager();
+    const combat = new CombatSystem(EXACT_DAMAGE);
+    combat.setWorld(world);
+
+    const casterId = this.createCombatant(world, 100, mana);
+    const enemyIds: EntityId[] = [];
+    for (let i = 0; i < enemyCount; i++) {
+      enemyIds.push(this.createCombatant(world, 100));
+    }
+
+    combat.startCombat(casterId, enemyIds);
+    return { world, combat, casterId, enemyIds };
+  }
+
+  /**
+   * Creates a world with a four-member party in the given formation against one enemy
+   */
+  public setupPartyBattle(formationId?: string): {
+    world: WorldManager;
+    combat: CombatSystem;
+    partyId: EntityId;
+    memberIds: EntityId[];
+    enemyId: EntityId;
+  } {
+    const world = new WorldManager();
+    const combat = new CombatSystem(EXACT_DAMAGE);
+    combat.setWorld(world);
+
+    const memberIds = [0, 1, 2, 3].map(() => this.createCombatant(world, 100, 100));
+    const partyId = world.createEntity(['Party']);
+    world.addComponent<Party>(partyId, 'Party', {
+      members: memberIds,
+      maxSize: 4,
+      formation: [...memberIds],
+      activeMembers: [...memberIds],
+      formationId
+    });
+    const enemyId = this.createCombatant(world, 100);
+
+    combat.startCombat(partyId, [enemyId]);
+    return { world, combat, partyId, memberIds, enemyId };
+  }
+
+  /**
+   * Sets an entity's combat speed
+   */
+  public setSpeed(world: WorldManager, entityId: EntityId, speed: number): void {
+    world.getComponent<CombatStats>(entityId, 'CombatStats')!.speed = speed;
+  }
+
+  /**
+   * Advances combat by the given number of seconds in 0.1s frames
+   */
+  public advance(combat: CombatSystem, seconds: number): void {
+    for (let t = 0; t < seconds; t += 0.1) {
+      combat.update(0.1);
+    }
+  }
+}
+
+// Create test runner instance
+const runner = new CombatSystemTestRunner();
+
+// ============= SPELL DAMAGE TESTS =============
+
+runner.test('CombatSystem - Damage spell deducts MP and hurts target', () => {
+  const { world, combat, casterId, enemyIds } = runner.setupBattle(1, 10);
+
+  const result = combat.castSpell(casterId, 'fire_1', enemyIds[0]);
+
+  runner.assert(result.success, 'Fire should resolve');
+  runner.assertEqual(result.mpSpent, 4, 'Fire should cost its MP');
+  runner.assertEqual(world.getComponent<MagicUser>(casterId, 'MagicUser')!.currentMana, 6, 'Caster MP should drop');
+  runner.assertEqual(world.getComponent<Health>(enemyIds[0], 'Health')!.current, 80, 'Target should take spell power damage');
+});
+
+runner.test('CombatSystem - Magic defense reduces spell damage', () => {
+  const { world, combat, casterId, enemyIds } = runner.setupBattle(1);
+  world.getComponent<MagicUser>(enemyIds[0], 'MagicUser')!.magicDefense = 10;
+
+  const result = combat.castSpell(casterId, 'fire_1', enemyIds[0]);
+
+  runner.assertEqual(result.targets[0].damage, 15, 'Damage should subtract half of magic defense');
+});
+
+runner.test('CombatSystem - All-enemies spell hits every living enemy', () => {
+  const { world, combat, casterId, enemyIds } = runner.setupBattle(3);
+
+  const result = combat.castSpell(casterId, 'earth_2', null);
+
+  runner.assert(result.success, 'Earth 2 should resolve');
+  runner.assertArrayLength(result.targets, 3, 'All enemies should be targeted');
+  enemyIds.forEach(id => {
+    runner.assertEqual(world.getComponent<Health>(id, 'Health')!.current, 65, 'Each enemy should take damage');
+  });
+  runner.assertEqual(world.getComponent<Health>(casterId, 'Health')!.current, 100, 'Caster should be unharmed');
+});
+
+runner.test('CombatSystem - Lethal spell marks target defeated', () => {
+  const { world, combat, casterId, enemyIds } = runner.setupBattle(1);
+  world.getComponent<Health>(enemyIds[0], 'Health')!.current = 10;
+
+  combat.castSpell(casterId, 'fire_1', enemyIds[0]);
+
+  const enemy = combat.getParticipants().find(p => p.entityId === enemyIds[0]);
+  runner.assert(enemy!.defeated, 'Enemy should be defeated');
+});
+
+runner.test('CombatSystem - Damage spell applies its status to survivors', () => {
+  const { world, combat, casterId, enemyIds } = runner.setupBattle(2);
+
+  combat.castSpell(casterId, 'bio', null);
+
+  enemyIds.forEach(id => {
+    const status = world.getComponent<StatusEffects>(id, 'StatusEffects');
+    runner.assertNotNull(status?.active[StatusEffect.POISON], 'Survivors should be poisoned');
+  });
+});
+
+// ============= SUPPORT SPELL TESTS =============
+
+runner.test('CombatSystem - Heal spell restores health up to max', () => {
+  const { world, combat, casterId } = runner.setupBattle(1);
+  world.getComponent<Health>(casterId, 'Health')!.current = 90;
+
+  const result = combat.castSpell(casterId, 'heal_1', casterId);
+
+  runner.assertEqual(result.targets[0].healed, 10, 'Healing should be capped at max health');
+  runner.assertEqual(world.getComponent<Health>(casterId, 'Health')!.current, 100, 'Caster should be at full health');
+});
+
+runner.test('CombatSystem - Buff spell applies its status', () => {
+  const { world, combat, casterId } = runner.setupBattle(1);
+
+  const result = combat.castSpell(casterId, 'protect', casterId);
+
+  runner.assertEqual(result.targets[0].statusesApplied[0], StatusEffect.PROTECT, 'Protect should be reported');
+  runner.assertNotNull(
+    world.getComponent<StatusEffects>(casterId, 'StatusEffects')?.active[StatusEffect.PROTECT],
+    'Protect should be active'
+  );
+});
+
+runner.test('CombatSystem - Cure spell removes its status', () => {
+  const { world, combat, casterId } = runner.setupBattle(1);
+  world.addComponent<StatusEffects>(casterId, 'StatusEffects', {
+    active: { [StatusEffect.POISON]: { duration: 5, potency: 5, source: 'test' } },
+    immunities: [],
+    resistances: {}
+  });
+
+  const result = combat.castSpell(casterId, 'cure_1', casterId);
+
+  runner.assertEqual(result.targets[0].statusesCured[0], StatusEffect.POISON, 'Poison should be reported cured');
+  runner.assert(
+    !world.getComponent<StatusEffects>(casterId, 'StatusEffects')!.active[StatusEffect.POISON],
+    'Poison should be removed'
+  );
+});
+
+runner.test('CombatSystem - Stone special defeats the target', () => {
+  const { combat, casterId, enemyIds } = runner.setupBattle(1);
+
+  const result = combat.castSpell(casterId, 'death', enemyIds[0]);
+
+  runner.assertEqual(result.targets[0].statusesApplied[0], StatusEffect.STONE, 'Stone should be applied');
+  runner.assert(combat.getParticipants().find(p => p.entityId === enemyIds[0])!.defeated, 'Stoned enemy should count as defeated');
+});
+
+runner.test('CombatSystem - Immunity blocks status application', () => {
+  const { world, combat, casterId, enemyIds } = runner.setupBattle(1);
+  world.addComponent<StatusEffects>(enemyIds[0], 'StatusEffects', {
+    active: {},
+    immunities: [StatusEffect.STONE],
+    resistances: {}
+  });
+
+  const result = combat.castSpell(casterId, 'death', enemyIds[0]);
+
+  runner.assertArrayLength(result.targets[0].statusesApplied, 0, 'Immune target should not be stoned');
+  runner.assert(!combat.getParticipants().find(p => p.entityId === enemyIds[0])!.defeated, 'Immune enemy should stay in the fight');
+});
+
+// ============= SPELL FAILURE TESTS =============
+
+runner.test('CombatSystem - Insufficient MP fails without cost', () => {
+  const { world, combat, casterId, enemyIds } = runner.setupBattle(1, 3);
+
+  const result = combat.castSpell(casterId, 'fire_1', enemyIds[0]);
+
+  runner.assert(!result.success, 'Cast should fail');
+  runner.assertEqual(result.reason, SkillFailureReason.INSUFFICIENT_MP, 'Failure should be insufficient MP');
+  runner.assertEqual(world.getComponent<MagicUser>(casterId, 'MagicUser')!.currentMana, 3, 'MP should be unchanged');
+  runner.assertEqual(world.getComponent<Health>(enemyIds[0], 'Health')!.current, 100, 'Target should be unharmed');
+});
+
+runner.test('CombatSystem - Silenced caster cannot cast', () => {
+  const { world, combat, casterId, enemyIds } = runner.setupBattle(1);
+  world.addComponent<StatusEffects>(casterId, 'StatusEffects', {
+    active: { [StatusEffect.SILENCE]: { duration: 3, potency: 1, source: 'test' } },
+    immunities: [],
+    resistances: {}
+  });
+
+  const result = combat.castSpell(casterId, 'fire_1', enemyIds[0]);
+
+  runner.assertEqual(result.reason, SkillFailureReason.SILENCED, 'Failure should be silence');
+  runner.assertEqual(world.getComponent<MagicUser>(casterId, 'MagicUser')!.currentMana, 100, 'MP should be unchanged');
+});
+
+runner.test('CombatSystem - Unknown spell fails', () => {
+  const { combat, casterId } = runner.setupBattle(1);
+
+  const result = combat.castSpell(casterId, 'not_a_spell', null);
+
+  runner.assertEqual(result.reason, SkillFailureReason.UNKNOWN_SKILL, 'Failure should be unknown skill');
+});
+
+runner.test('CombatSystem - Defeated target is not a valid single target', () => {
+  const { combat, casterId, enemyIds } = runner.setupBattle(1);
+  combat.getParticipants().find(p => p.entityId === enemyIds[0])!.defeated = true;
+
+  const result = combat.castSpell(casterId, 'fire_1', enemyIds[0]);
+
+  runner.assertEqual(result.reason, SkillFailureReason.NO_TARGET, 'Failure should be no target');
+});
+
+// ============= PARTY BATTLE TESTS =============
+
+runner.test('CombatSystem - Party component adds every active member', () => {
+  const { combat, memberIds } = runner.setupPartyBattle('balanced');
+
+  const members = combat.getParticipants().filter(p => p.isPlayer);
+
+  runner.assertArrayLength(members, 4, 'All four members should fight');
+  runner.assertEqual(combat.getStats().alivePlayers, 4, 'Stats should count every member');
+  runner.assertEqual(members[0].entityId, memberIds[0], 'Members should follow formation order');
+});
+
+runner.test('CombatSystem - Inactive members stay out of battle', () => {
+  const world = new WorldManager();
+  const combat = new CombatSystem(EXACT_DAMAGE);
+  combat.setWorld(world);
+  const memberIds = [0, 1, 2].map(() => runner.createCombatant(world, 100));
+  const partyId = world.createEntity(['Party']);
+  world.addComponent<Party>(partyId, 'Party', {
+    members: memberIds,
+    maxSize: 4,
+    formation: memberIds,
+    activeMembers: [memberIds[0], memberIds[2]]
+  });
+
+  combat.startCombat(partyId, [runner.createCombatant(world, 50)]);
+
+  runner.assertEqual(combat.getStats().alivePlayers, 2, 'Only active members should fight');
+});
+
+runner.test('CombatSystem - Formation template assigns rows', () => {
+  const { combat, memberIds } = runner.setupPartyBattle('offensive');
+  const rowOf = (id: EntityId) => combat.getParticipants().find(p => p.entityId === id)!.row;
+
+  runner.assertEqual(rowOf(memberIds[2]), 'FRONT', 'Third member should be in the front row');
+  runner.assertEqual(rowOf(memberIds[3]), 'BACK', 'Fourth member should be in the back row');
+});
+
+runner.test('CombatSystem - BattlePosition overrides formation row', () => {
+  const world = new WorldManager();
+  const combat = new CombatSystem(EXACT_DAMAGE);
+  combat.setWorld(world);
+  const memberId = runner.createCombatant(world, 100);
+  world.addComponent(memberId, 'BattlePosition', { row: 'BACK', column: 0, side: 'PARTY' });
+  const partyId = world.createEntity(['Party']);
+  world.addComponent<Party>(partyId, 'Party', {
+    members: [memberId],
+    maxSize: 4,
+    formation: [memberId],
+    activeMembers: [memberId],
+    formationId: 'offensive'
+  });
+
+  combat.startCombat(partyId, [runner.createCombatant(world, 50)]);
+
+  runner.assertEqual(combat.getParticipants()[0].row, 'BACK', 'BattlePosition row should win');
+});
+
+runner.test('CombatSystem - Back row halves melee damage', () => {
+  const { combat, memberIds, enemyId } = runner.setupPartyBattle('balanced');
+
+  // attack 10 vs defense 4 -> 8 base damage
+  runner.assertEqual(combat.calculateAttackDamage(memberIds[0], enemyId)!.final, 8, 'Front row attacks at full strength');
+  runner.assertEqual(combat.calculateAttackDamage(memberIds[2], enemyId)!.final, 4, 'Back row attacks are halved');
+  // balanced grants +5 defense: (10 - 9 / 2) * 0.5 -> 2
+  runner.assertEqual(combat.calculateAttackDamage(enemyId, memberIds[3])!.final, 2, 'Attacks into the back row are halved');
+});
+
+runner.test('CombatSystem - Formation bonuses modify attack and defense', () => {
+  const { combat, memberIds, enemyId } = runner.setupPartyBattle('offensive');
+
+  // offensive: attack +10, defense -5
+  runner.assertEqual(combat.calculateAttackDamage(memberIds[0], enemyId)!.final, 18, 'Attack bonus should apply');
+  runner.assertEqual(combat.calculateAttackDamage(enemyId, memberIds[0])!.final, 10, 'Defense penalty should apply');
+});
+
+runner.test('CombatSystem - Magic power bonus boosts spells', () => {
+  const { world, combat, memberIds, enemyId } = runner.setupPartyBattle('magic_focus');
+
+  combat.castSpell(memberIds[1], 'fire_1', enemyId);
+
+  runner.assertEqual(world.getComponent<Health>(enemyId, 'Health')!.current, 60, 'Fire should gain +20 power');
+});
+
+runner.test('CombatSystem - Ally spells reach the whole party', () => {
+  const { world, combat, memberIds } = runner.setupPartyBattle('balanced');
+  memberIds.forEach(id => { world.getComponent<Health>(id, 'Health')!.current = 10; });
+  combat.getParticipants().find(p => p.entityId === memberIds[3])!.defeated = true;
+
+  const result = combat.castSpell(memberIds[0], 'raise', memberIds[3]);
+
+  runner.assert(result.targets[0].revived, 'Raise should revive a fallen party member');
+  runner.assert(!combat.getParticipants().find(p => p.entityId === memberIds[3])!.defeated, 'Member should be back in the fight');
+});
+
+// ============= TURN ORDER TESTS =============
+
+runner.test('CombatSystem - Timeline orders rounds by speed', () => {
+  const { world, combat, casterId, enemyIds } = runner.setupBattle(2);
+  runner.setSpeed(world, casterId, 12);
+  runner.setSpeed(world, enemyIds[0], 5);
+  runner.setSpeed(world, enemyIds[1], 20);
+
+  const timeline = combat.getTurnTimeline(6).map(entry => entry.entityId);
+
+  runner.assertEqual(timeline.join(','), [enemyIds[1], casterId, enemyIds[0], enemyIds[1], casterId, enemyIds[0]].join(','), 'Fastest should act first every round');
+});
+
+runner.test('CombatSystem - Agility is used when speed is missing', () => {
+  const { world, combat, casterId } = runner.setupBattle(1);
+  const stats = world.getComponentRegistry().createDefault<CharacterStats>('CharacterStats')!;
+  world.addComponent<CharacterStats>(casterId, 'CharacterStats', { ...stats, agility: 25 });
+
+  runner.assertEqual(combat.getEffectiveSpeed(casterId), 25, 'Agility should act as speed');
+});
+
+runner.test('CombatSystem - Haste and slow change speed', () => {
+  const { world, combat, casterId, enemyIds } = runner.setupBattle(1);
+  runner.setSpeed(world, casterId, 8);
+  runner.setSpeed(world, enemyIds[0], 12);
+  const status = combat.getStatusEffectSystem();
+
+  status.apply(casterId, StatusEffect.HASTE);
+  runner.assertEqual(combat.getEffectiveSpeed(casterId), 16, 'Haste should double speed');
+  runner.assertEqual(combat.getTurnTimeline(1)[0].entityId, casterId, 'Hasted caster should act first');
+
+  status.apply(casterId, StatusEffect.SLOW);
+  runner.assertEqual(combat.getEffectiveSpeed(casterId), 4, 'Slow should replace haste and halve speed');
+});
+
+runner.test('CombatSystem - Fastest actor takes the first turn after the intro', () => {
+  const { world, combat, enemyIds } = runner.setupBattle(1);
+  runner.setSpeed(world, enemyIds[0], 30);
+
+  runner.advance(combat, 2.1);
+
+  runner.assertEqual(combat.getCurrentState(), CombatState.ENEMY_TURN, 'Enemy should be acting');
+  runner.assertEqual(combat.getStats().currentTurn, enemyIds[0], 'Enemy should hold the turn');
+});
+
+runner.test('CombatSystem - Player action resolves and passes the turn', () => {
+  const { world, combat, casterId, enemyIds } = runner.setupBattle(1);
+  runner.advance(combat, 2.1);
+  runner.assertEqual(combat.getCurrentState(), CombatState.PLAYER_INPUT, 'Caster should be choosing');
+
+  combat.queueAction({ id: 'attack', type: CombatAction.ATTACK, actorId: casterId, targetId: enemyIds[0], data: {} });
+  runner.assertEqual(combat.getCurrentState(), CombatState.ACTION_PROCESSING, 'Queueing should end input');
+
+  runner.advance(combat, 1.1);
+  runner.assertEqual(world.getComponent<Health>(enemyIds[0], 'Health')!.current, 92, 'Attack should land');
+  runner.assertEqual(combat.getStats().currentTurn, enemyIds[0], 'Turn should pass to the enemy');
+
+  runner.advance(combat, 2.5);
+  runner.assertEqual(world.getComponent<Health>(casterId, 'Health')!.current, 92, 'Enemy should strike back');
+  runner.assertEqual(combat.getStats().round, 2, 'A new round should begin');
+  runner.assertEqual(combat.getCurrentState(), CombatState.PLAYER_INPUT, 'Caster should choose again');
+});
+
+runner.test('CombatSystem - Paralyzed actors lose their turn', () => {
+  const { combat, casterId, enemyIds } = runner.setupBattle(1);
+  combat.getStatusEffectSystem().apply(casterId, StatusEffect.PARALYSIS);
+
+  runner.assert(combat.getTurnTimeline(1)[0].skipped, 'Timeline should flag the skipped turn');
+  runner.advance(combat, 2.1);
+
+  runner.assertEqual(combat.getStats().currentTurn, enemyIds[0], 'Enemy should act instead');
+});
+
+runner.test('CombatSystem - ATB timeline favours faster actors', () => {
+  const world = new WorldManager();
+  const combat = new CombatSystem({ ...EXACT_DAMAGE, initiative: InitiativeMode.ATB });
+  combat.setWorld(world);
+  const fastId = runner.createCombatant(world, 100);
+  const slowId = runner.createCombatant(world, 100);
+  runner.setSpeed(world, fastId, 20);
+  runner.setSpeed(world, slowId, 10);
+  combat.startCombat(fastId, [slowId]);
+
+  const timeline = combat.getTurnTimeline(6).map(entry => entry.entityId);
+
+  runner.assertEqual(timeline.filter(id => id === fastId).length, 4, 'Fast actor should get twice the turns');
+  runner.assertEqual(timeline[0], fastId, 'Fast actor should go first');
+});
+
+runner.test('CombatSystem - ATB gauges fill before turns start', () => {
+  const world = new WorldManager();
+  const combat = new CombatSystem({ ...EXACT_DAMAGE, initiative: InitiativeMode.ATB, atbGaugeMax: 10 });
+  combat.setWorld(world);
+  const playerId = runner.createCombatant(world, 100);
+  const enemyId = runner.createCombatant(world, 100);
+  runner.setSpeed(world, playerId, 5);
+  runner.setSpeed(world, enemyId, 20);
+  combat.startCombat(playerId, [enemyId]);
+
+  runner.advance(combat, 2.1);
+  runner.assertEqual(combat.getCurrentState(), CombatState.WAITING, 'Gauges should be filling');
+
+  runner.advance(combat, 0.6);
+  runner.assertEqual(combat.getStats().currentTurn, enemyId, 'Faster gauge should fill first');
+});
+
+// ============= COMBAT CLOCK TESTS =============
+
+runner.test('CombatSystem - Defend bonus expires on the combat clock', () => {
+  const { world, combat, casterId } = runner.setupBattle(1);
+  const stats = world.getComponent<CombatStats>(casterId, 'CombatStats')!;
+  runner.advance(combat, 2.1);
+
+  combat.queueAction({ id: 'defend', type: CombatAction.DEFEND, actorId: casterId, targetId: null, data: {} });
+  runner.advance(combat, 0.6);
+  runner.assertEqual(stats.defense, 6, 'Defending should raise defense');
+
+  runner.advance(combat, 1.0);
+  runner.assertEqual(stats.defense, 6, 'Bonus should last while combat time passes');
+
+  runner.advance(combat, 1.1);
+  runner.assertEqual(stats.defense, 4, 'Bonus should expire after two seconds of combat time');
+});
+
+runner.test('CombatSystem - Ending combat undoes pending defend bonuses', () => {
+  const { world, combat, casterId } = runner.setupBattle(1);
+  runner.advance(combat, 2.1);
+  combat.queueAction({ id: 'defend', type: CombatAction.DEFEND, actorId: casterId, targetId: null, data: {} });
+  runner.advance(combat, 0.6);
+
+  combat.endCombat();
+
+  runner.assertEqual(world.getComponent<CombatStats>(casterId, 'CombatStats')!.defense, 4, 'Defense should be restored');
+  runner.assertEqual(combat.getElapsedTime(), 0, 'Combat clock should reset');
+});
+
+runner.test('CombatSystem - Result screen ends combat on the combat clock', () => {
+  const { world, combat, casterId, enemyIds } = runner.setupBattle(1);
+  world.getComponent<Health>(enemyIds[0], 'Health')!.current = 1;
+  runner.advance(combat, 2.1);
+  combat.queueAction({ id: 'attack', type: CombatAction.ATTACK, actorId: casterId, targetId: enemyIds[0], data: {} });
+  runner.advance(combat, 1.1);
+  runner.assertEqual(combat.getCurrentState(), CombatState.VICTORY, 'Combat should be won');
+
+  runner.advance(combat, 2.5);
+  runner.assert(combat.getResult() !== null, 'Result should stay available while it is shown');
+
+  runner.advance(combat, 1.0);
+  runner.assertEqual(combat.getResult(), null, 'Combat should end after the result screen');
+  runner.assertEqual(combat.getParticipants().length, 0, 'Participants should be cleared');
+});
+
+runner.test('CombatSystem - Defeated enemies are removed at the next world sync point', () => {
+  const { world, combat, casterId, enemyIds } = runner.setupBattle(2);
+  world.getComponent<Health>(enemyIds[0], 'Health')!.current = 1;
+  runner.advance(combat, 2.1);
+  combat.queueAction({ id: 'attack', type: CombatAction.ATTACK, actorId: casterId, targetId: enemyIds[0], data: {} });
+  runner.advance(combat, 1.1);
+
+  combat.endCombat();
+  runner.assert(world.entities.has(enemyIds[0]), 'Removal should wait for the sync point');
+
+  world.update(0.1);
+  runner.assert(!world.entities.has(enemyIds[0]), 'Defeated enemy should be destroyed');
+  runner.assert(world.entities.has(enemyIds[1]), 'Surviving enemy should remain');
+  runner.assert(world.entities.has(casterId), 'Player should remain');
+});
+
+// ============= COMBAT EVENT TESTS =============
+
+runner.test('CombatSystem - Attacks emit events through to victory', () => {
+  const { world, combat, casterId, enemyIds } = runner.setupBattle(1);
+  const events: CombatEvent[] = [];
+  combat.subscribe(event => events.push(event));
+  world.getComponent<Health>(enemyIds[0], 'Health')!.current = 1;
+
+  runner.advance(combat, 2.1);
+  combat.queueAction({ id: 'attack', type: CombatAction.ATTACK, actorId: casterId, targetId: enemyIds[0], data: {} });
+  runner.advance(combat, 1.1);
+
+  runner.assertEqual(
+    events.map(event => event.type).join(','),
+    'TurnStarted,ActionStarted,DamageDealt,Defeated,Victory',
+    'Events should follow the attack'
+  );
+  const damage = events.find(event => event.type === 'DamageDealt');
+  runner.assert(damage?.type === 'DamageDealt' && damage.sourceId === casterId && damage.amount === 8, 'Damage should name its source and amount');
+});
+
+runner.test('CombatSystem - Spells emit heal and status events', () => {
+  const { world, combat, casterId } = runner.setupBattle(1);
+  const events: CombatEvent[] = [];
+  combat.subscribe(event => events.push(event));
+  world.getComponent<Health>(casterId, 'Health')!.current = 90;
+
+  combat.castSpell(casterId, 'heal_1', casterId);
+  combat.castSpell(casterId, 'protect', casterId);
+
+  runner.assert(events.some(event => event.type === 'Healed' && event.amount === 10), 'Healing should be reported');
+  runner.assert(events.some(event => event.type === 'StatusApplied' && event.status === StatusEffect.PROTECT), 'Protect should be reported');
+});
+
+runner.test('CombatSystem - Listeners can unsubscribe and failures are contained', () => {
+  const { combat, casterId, enemyIds } = runner.setupBattle(1);
+  let received = 0;
+  combat.subscribe(() => {
+    throw new Error('listener failure');
+  });
+  const unsubscribe = combat.subscribe(() => received++);
+
+  combat.castSpell(casterId, 'fire_1', enemyIds[0]);
+  const afterFirst = received;
+  unsubscribe();
+  combat.castSpell(casterId, 'fire_1', enemyIds[0]);
+
+  runner.assert(afterFirst > 0, 'Listener should receive events despite a failing neighbour');
+  runner.assertEqual(received, afterFirst, 'Unsubscribed listener should not receive events');
+});
+
+runner.test('CombatSystem - Events are described with participant names', () => {
+  const { world, combat, casterId, enemyIds } = runner.setupBattle(1);
+  world.addComponent(enemyIds[0], 'EnemyInfo', { enemyId: 'goblin' });
+
+  const message = combat.describeEvent({ type: 'Missed', sourceId: casterId, targetId: enemyIds[0] });
+
+  runner.assertEqual(message, `Hero ${casterId} misses Goblin`, 'Message should use display names');
+});
+
+// Run all tests
+runner.run();
+
+export { runner as combatSystemTestRunner };
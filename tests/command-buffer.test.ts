@@ -0,0 +1,194 @@
+/**
+ * Command Buffer Tests
+ * @fileoverview Tests for deferred structural changes and entity lifecycle events
+ */
+
+import { WorldManager } from '../engine/WorldManager';
+import { SystemStage } from '../engine/SystemScheduler';
+import { EntityId, EntityLifecycleAction, Health, Position } from '../types';
+
+/**
+ * Test runner for command buffer tests
+ */
+class CommandBufferTestRunner {
+  private tests: Array<{ name: string; fn: () => void }> = [];
+  private passed = 0;
+  private failed = 0;
+
+  /**
+   * Registers a test
+   */
+  public test(name: string, fn: () => void): void {
+    this.tests.push({ name, fn });
+  }
+
+  /**
+   * Runs all registered tests
+   */
+  public run(): { passed: number; failed: number } {
+    console.log('Running Command Buffer Tests...\n');
+
+    for (const test of this.tests) {
+      try {
+        test.fn();
+        console.log(`✓ ${test.name}`);
+        this.passed++;
+      } catch (error) {
+        console.log(`✗ ${test.name}`);
+        console.log(`  Error: ${error}`);
+        this.failed++;
+      }
+    }
+
+    console.log(`\nCommand Buffer Test Results: ${this.passed} passed, ${this.failed} failed`);
+    return { passed: this.passed, failed: this.failed };
+  }
+
+  /**
+   * Assertion helper
+   */
+  public assert(condition: boolean, message: string): void {
+    if (!condition) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Equality assertion helper
+   */
+  public assertEqual<T>(actual: T, expected: T, message: string): void {
+    if (actual !== expected) {
+      throw new Error(`${message}. Expected: ${expected}, Actual: ${actual}`);
+    }
+  }
+}
+
+// Create test runner instance
+const runner = new CommandBufferTestRunner();
+
+// ============= QUEUEING TESTS =============
+
+runner.test('CommandBuffer - Commands wait for the flush', () => {
+  const world = new WorldManager();
+  const commands = world.getCommandBuffer();
+  const entityId = world.createEntity();
+
+  const spawnedId = commands.createEntity({ Position: { x: 3, y: 4 } });
+  commands.addComponent<Health>(entityId, 'Health', { current: 5, max: 5 });
+
+  runner.assert(!world.entities.has(spawnedId), 'Creation should be deferred');
+  runner.assert(!world.hasComponent(entityId, 'Health'), 'Component add should be deferred');
+  runner.assertEqual(commands.size, 2, 'Both commands should be queued');
+
+  runner.assertEqual(world.flushCommands(), 2, 'Both commands should be applied');
+  runner.assertEqual(world.getComponent<Position>(spawnedId, 'Position')!.y, 4, 'Created entity should have its data');
+  runner.assert(world.hasComponent(entityId, 'Health'), 'Component should be added');
+  runner.assertEqual(commands.size, 0, 'Buffer should be empty');
+});
+
+runner.test('CommandBuffer - Reserved IDs never collide with direct creation', () => {
+  const world = new WorldManager();
+  const commands = world.getCommandBuffer();
+
+  const reservedId = commands.createEntity();
+  const directId = world.createEntity();
+  commands.addComponent<Position>(reservedId, 'Position', { x: 1, y: 1 });
+  world.flushCommands();
+
+  runner.assert(reservedId !== directId, 'IDs should be unique');
+  runner.assert(world.hasComponent(reservedId, 'Position'), 'Later commands may target a reserved ID');
+  runner.assert(!world.hasComponent(directId, 'Position'), 'Direct entity should be untouched');
+});
+
+runner.test('CommandBuffer - Destroying twice or after a parent is harmless', () => {
+  const world = new WorldManager();
+  const commands = world.getCommandBuffer();
+  const parentId = world.createEntity();
+  const childId = world.createEntity();
+  world.setParent(childId, parentId);
+
+  commands.destroyEntity(parentId);
+  commands.destroyEntity(childId);
+  commands.destroyEntity(parentId);
+  world.flushCommands();
+
+  runner.assertEqual(world.entities.size, 0, 'Both entities should be gone');
+});
+
+runner.test('CommandBuffer - Removals keep queries consistent', () => {
+  const world = new WorldManager();
+  const commands = world.getCommandBuffer();
+  const ids = [0, 1, 2, 3].map(() => {
+    const entityId = world.createEntity();
+    world.addComponent<Health>(entityId, 'Health', { current: 0, max: 10 });
+    return entityId;
+  });
+  const healthQuery = world.query<[Health]>('Health');
+
+  healthQuery.forEach(([health], entityId) => {
+    if (health.current <= 0 && entityId % 2 === 0) {
+      commands.removeComponent(entityId, 'Health');
+    }
+  });
+  world.flushCommands();
+
+  runner.assertEqual(healthQuery.size, 2, 'Only odd entities should still match');
+  runner.assert(healthQuery.includes(ids[1]) && healthQuery.includes(ids[3]), 'Odd entities should remain');
+});
+
+// ============= WORLD INTEGRATION TESTS =============
+
+runner.test('WorldManager - Update flushes commands recorded by systems', () => {
+  const world = new WorldManager();
+  const enemyId = world.createEntity();
+  world.addComponent<Health>(enemyId, 'Health', { current: 0, max: 10 });
+  let seenAfterReaper = true;
+
+  world.getScheduler().add({
+    name: 'reaper',
+    stage: SystemStage.SIMULATION,
+    system: w => w.query(['Health']).forEach(entityId => {
+      if (w.getComponent<Health>(entityId, 'Health')!.current <= 0) {
+        w.getCommandBuffer().destroyEntity(entityId);
+      }
+    })
+  });
+  world.getScheduler().add({
+    name: 'observer',
+    stage: SystemStage.POST_SIMULATION,
+    system: w => {
+      seenAfterReaper = w.entities.has(enemyId);
+    }
+  });
+
+  world.update(0.1);
+
+  runner.assert(seenAfterReaper, 'Entity should survive until the sync point');
+  runner.assert(!world.entities.has(enemyId), 'Entity should be destroyed after the update');
+});
+
+runner.test('WorldManager - Lifecycle listeners see direct and deferred changes', () => {
+  const world = new WorldManager();
+  const events: Array<[EntityId, EntityLifecycleAction]> = [];
+  const unsubscribe = world.subscribeLifecycle((entityId, action) => events.push([entityId, action]));
+  world.subscribeLifecycle(() => {
+    throw new Error('listener failure');
+  });
+
+  const directId = world.createEntity();
+  const deferredId = world.getCommandBuffer().createEntity({ Position: { x: 0, y: 0 } });
+  world.getCommandBuffer().destroyEntity(directId);
+  runner.assertEqual(events.length, 1, 'Deferred changes should not be reported early');
+
+  world.flushCommands();
+  runner.assertEqual(events.map(([entityId, action]) => `${entityId}:${action}`).join(','), `${directId}:created,${deferredId}:created,${directId}:destroyed`, 'Events should follow command order');
+
+  unsubscribe();
+  world.createEntity();
+  runner.assertEqual(events.length, 3, 'Unsubscribed listener should not be called');
+});
+
+// Run all tests
+runner.run();
+
+export { runner as commandBufferTestRunner };
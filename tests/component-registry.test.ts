@@ -0,0 +1,193 @@
+/**
+ * Component Registry Tests
+ * @fileoverview Tests for component schemas, defaults, serialization hooks and strict mode
+ */
+
+import { ComponentRegistry, COMPONENT_DEFINITIONS, createDefaultComponentRegistry } from '../engine/ComponentRegistry';
+import { WorldManager } from '../engine/WorldManager';
+import { PREFABS_DATABASE } from '../data/GameData';
+import { PrefabRegistry } from '../engine/PrefabRegistry';
+import { Animation, Camera, CharacterStats, Health, Party } from '../types';
+
+/**
+ * Test runner for component registry tests
+ */
+class ComponentRegistryTestRunner {
+  private tests: Array<{ name: string; fn: () => void }> = [];
+  private passed = 0;
+  private failed = 0;
+
+  /**
+   * Registers a test
+   */
+  public test(name: string, fn: () => void): void {
+    this.tests.push({ name, fn });
+  }
+
+  /**
+   * Runs all registered tests
+   */
+  public run(): { passed: number; failed: number } {
+    console.log('Running Component Registry Tests...\n');
+
+    for (const test of this.tests) {
+      try {
+        test.fn();
+        console.log(`✓ ${test.name}`);
+        this.passed++;
+      } catch (error) {
+        console.log(`✗ ${test.name}`);
+        console.log(`  Error: ${error}`);
+        this.failed++;
+      }
+    }
+
+    console.log(`\nComponent Registry Test Results: ${this.passed} passed, ${this.failed} failed`);
+    return { passed: this.passed, failed: this.failed };
+  }
+
+  /**
+   * Assertion helper
+   */
+  public assert(condition: boolean, message: string): void {
+    if (!condition) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Equality assertion helper
+   */
+  public assertEqual<T>(actual: T, expected: T, message: string): void {
+    if (actual !== expected) {
+      throw new Error(`${message}. Expected: ${expected}, Actual: ${actual}`);
+    }
+  }
+}
+
+// Create test runner instance
+const runner = new ComponentRegistryTestRunner();
+
+// ============= SCHEMA TESTS =============
+
+runner.test('ComponentRegistry - Valid data passes validation', () => {
+  const registry = createDefaultComponentRegistry();
+
+  runner.assertEqual(registry.validate('Position', { x: 1, y: 2 }), null, 'Position should be valid');
+  runner.assertEqual(registry.validate('Camera', { x: 0, y: 0, zoom: 1, targetEntityId: null }), null, 'Nullable fields should accept null');
+  runner.assertEqual(registry.validate('Party', { members: [1, 2], maxSize: 4, formation: [1, 2], activeMembers: [1] }), null, 'Optional fields may be missing');
+});
+
+runner.test('ComponentRegistry - Invalid data reports the failing field', () => {
+  const registry = createDefaultComponentRegistry();
+
+  runner.assertEqual(registry.validate('Health', { current: 10 })?.field, 'Health.max', 'Missing field should be reported');
+  runner.assertEqual(registry.validate('Inventory', { items: [{ itemId: 'potion', quantity: -1 }], gold: 0 })?.field, 'Inventory.items[0].quantity', 'Nested fields should be reported');
+  runner.assertEqual(registry.validate('BattlePosition', { row: 'MIDDLE', column: 0, side: 'PARTY' })?.field, 'BattlePosition.row', 'Values outside the allowed set should fail');
+  runner.assert(registry.validate('CombatState', {})!.message.includes('Unknown component type'), 'Unknown types should fail');
+});
+
+runner.test('ComponentRegistry - Defaults match their own schemas', () => {
+  const registry = createDefaultComponentRegistry();
+
+  COMPONENT_DEFINITIONS.forEach(definition => {
+    const error = registry.validate(definition.type, registry.createDefault(definition.type));
+    runner.assertEqual(error?.message ?? null, null, `Defaults for ${definition.type} should be valid`);
+  });
+});
+
+runner.test('ComponentRegistry - Game prefabs only use valid components', () => {
+  const prefabs = new PrefabRegistry(PREFABS_DATABASE);
+  const registry = createDefaultComponentRegistry();
+
+  prefabs.getPrefabIds().forEach(prefabId => {
+    Object.entries(prefabs.build(prefabId)!).forEach(([componentType, data]) => {
+      const error = registry.validate(componentType, data);
+      runner.assertEqual(error?.message ?? null, null, `Prefab ${prefabId} should have a valid ${componentType}`);
+    });
+  });
+});
+
+// ============= SERIALIZATION TESTS =============
+
+runner.test('ComponentRegistry - Serialize hooks drop callbacks', () => {
+  const registry = createDefaultComponentRegistry();
+  const animation: Animation = { currentAnimation: 'walk', frameIndex: 2, frameTimer: 0.1, loop: true, onComplete: () => {} };
+
+  const serialized = registry.serialize('Animation', animation) as Record<string, unknown>;
+
+  runner.assert(!('onComplete' in serialized), 'Callback should be dropped');
+  runner.assertEqual(serialized.frameIndex, 2, 'Data should be kept');
+});
+
+runner.test('ComponentRegistry - Deserialize fills in missing fields from defaults', () => {
+  const registry = createDefaultComponentRegistry();
+
+  const stats = registry.deserialize<CharacterStats>('CharacterStats', { level: 7, strength: 20 });
+
+  runner.assertEqual(stats.level, 7, 'Saved values should win');
+  runner.assertEqual(stats.luck, 10, 'Missing values should come from the defaults');
+  runner.assertEqual(registry.validate('CharacterStats', stats), null, 'Result should be valid');
+});
+
+runner.test('ComponentRegistry - Entity references are remapped by schema', () => {
+  const registry = createDefaultComponentRegistry();
+  const remap = (entityId: number) => (entityId === 1 ? 10 : entityId === 2 ? 20 : null);
+
+  const party = registry.remapEntities<Party>('Party', { members: [1, 2, 3], maxSize: 4, formation: [2, 1], activeMembers: [3] }, remap)!;
+  runner.assertEqual(party.members.join(','), '10,20', 'Missing members should be dropped from arrays');
+  runner.assertEqual(party.formation.join(','), '20,10', 'Order should be kept');
+  runner.assertEqual(party.activeMembers.length, 0, 'Arrays may end up empty');
+
+  runner.assertEqual(registry.remapEntities<Camera>('Camera', { x: 0, y: 0, zoom: 1, targetEntityId: 5 }, remap)!.targetEntityId, null, 'Nullable references should become null');
+  runner.assertEqual(registry.remapEntities('Parent', { entityId: 5, offset: { x: 0, y: 0 } }, remap), null, 'Required references to missing entities should fail');
+  runner.assert(registry.isTransient('Velocity') && !registry.isTransient('Position'), 'Only runtime state should be transient');
+});
+
+// ============= STRICT MODE TESTS =============
+
+runner.test('WorldManager - Strict registry rejects unknown and invalid components', () => {
+  const world = new WorldManager();
+  world.setComponentRegistry(new ComponentRegistry(COMPONENT_DEFINITIONS, true));
+  const entityId = world.createEntity(['Position', 'CombatState']);
+
+  runner.assert(world.hasComponent(entityId, 'Position'), 'Known type should be kept');
+  runner.assert(!world.hasComponent(entityId, 'CombatState'), 'Unknown type should be rejected');
+
+  world.addComponent(entityId, 'Health', { current: 'lots', max: 10 });
+  runner.assertEqual(world.getComponent<Health>(entityId, 'Health'), null, 'Invalid payload should be rejected');
+
+  world.addComponent<Health>(entityId, 'Health', { current: 5, max: 10 });
+  world.updateComponent(entityId, 'Health', { current: 5 });
+  runner.assertEqual(world.getComponent<Health>(entityId, 'Health')!.max, 10, 'Invalid update should be rejected');
+});
+
+runner.test('WorldManager - Non-strict registry accepts anything', () => {
+  const world = new WorldManager();
+  world.setComponentRegistry(new ComponentRegistry(COMPONENT_DEFINITIONS, false));
+  const entityId = world.createEntity();
+
+  world.addComponent(entityId, 'CustomTag', { anything: true });
+  runner.assert(world.hasComponent(entityId, 'CustomTag'), 'Unknown type should be accepted');
+});
+
+runner.test('WorldManager - Registered custom components are accepted in strict mode', () => {
+  const world = new WorldManager();
+  const registry = new ComponentRegistry(COMPONENT_DEFINITIONS, true);
+  registry.register<{ radius: number }>({
+    type: 'Aura',
+    schema: { radius: { type: 'number', min: 0 } },
+    defaults: () => ({ radius: 1 })
+  });
+  world.setComponentRegistry(registry);
+  const entityId = world.createEntity();
+
+  world.addComponent(entityId, 'Aura', { radius: 3 });
+  runner.assert(world.hasComponent(entityId, 'Aura'), 'Registered type should be accepted');
+  runner.assert(registry.getTypes().includes('Aura'), 'Registered types should be listed');
+});
+
+// Run all tests
+runner.run();
+
+export { runner as componentRegistryTestRunner };
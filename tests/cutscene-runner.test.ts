@@ -0,0 +1,420 @@
+/**
+ * Cutscene Runner Tests
+ * @fileoverview Tests for cutscene sequencing, actor movement, camera and audio steps, skip, fast-forward and triggers
+ */
+
+import { CutsceneRunner, CutsceneEvent } from '../engine/CutsceneRunner';
+import { DialogueRunner } from '../engine/DialogueRunner';
+import { CameraSystem } from '../engine/CameraSystem';
+import { CombatSystem } from '../engine/CombatSystem';
+import { GameClock } from '../engine/GameClock';
+import { GridMovementSystem } from '../engine/GridMovementSystem';
+import { InteractionSystem, InteractionType, InteractionCondition, InteractionActionType, Interaction } from '../engine/InteractionSystem';
+import { WorldManager } from '../engine/WorldManager';
+import { CutsceneDef, EnemyInfo, EntityId, Facing, GameMap, Position } from '../types';
+import { CUTSCENES_DATABASE, GAME_CONFIG } from '../data/GameData';
+
+/**
+ * Test runner for cutscene runner tests
+ */
+class CutsceneRunnerTestRunner {
+  private tests: Array<{ name: string; fn: () => void }> = [];
+  private passed = 0;
+  private failed = 0;
+
+  /**
+   * Registers a test
+   */
+  public test(name: string, fn: () => void): void {
+    this.tests.push({ name, fn });
+  }
+
+  /**
+   * Runs all registered tests
+   */
+  public run(): { passed: number; failed: number } {
+    console.log('Running Cutscene Runner Tests...\n');
+
+    for (const test of this.tests) {
+      try {
+        test.fn();
+        console.log(`✓ ${test.name}`);
+        this.passed++;
+      } catch (error) {
+        console.log(`✗ ${test.name}`);
+        console.log(`  Error: ${error}`);
+        this.failed++;
+      }
+    }
+
+    console.log(`\nCutscene Runner Test Results: ${this.passed} passed, ${this.failed} failed`);
+    return { passed: this.passed, failed: this.failed };
+  }
+
+  /**
+   * Assertion helper
+   */
+  public assert(condition: boolean, message: string): void {
+    if (!condition) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Equality assertion helper
+   */
+  public assertEqual<T>(actual: T, expected: T, message: string): void {
+    if (actual !== expected) {
+      throw new Error(`${message}. Expected: ${expected}, Actual: ${actual}`);
+    }
+  }
+
+  /**
+   * Creates a player and a guard, and a cutscene runner with a camera, clock, flags and recorded audio
+   */
+  public setup(cutscenes: Record<string, CutsceneDef> = TEST_CUTSCENES): {
+    world: WorldManager;
+    cutscenes: CutsceneRunner;
+    camera: CameraSystem;
+    clock: GameClock;
+    interactions: InteractionSystem;
+    combat: CombatSystem;
+    playerId: EntityId;
+    guardId: EntityId;
+    audio: string[];
+    events: CutsceneEvent[];
+  } {
+    const world = new WorldManager();
+    const playerId = world.createEntity(['Position']);
+    world.addComponent<Position>(playerId, 'Position', { x: 0, y: 0 });
+    const guardId = world.createEntity(['Position']);
+    world.addComponent<Position>(guardId, 'Position', { x: 100, y: 0 });
+
+    const camera = new CameraSystem();
+    camera.setTarget(playerId);
+    const clock = new GameClock();
+    const interactions = new InteractionSystem();
+    interactions.setWorld(world);
+    interactions.setPlayer(playerId);
+    const combat = new CombatSystem();
+    combat.setWorld(world);
+    interactions.setCombatSystem(combat);
+    const audio: string[] = [];
+
+    const runner = new CutsceneRunner(cutscenes);
+    runner.setWorld(world);
+    runner.setPlayer(playerId);
+    runner.setActor('guard', guardId);
+    runner.setCamera(camera);
+    runner.setClock(clock);
+    runner.setInteractionSystem(interactions);
+    runner.setAudio({
+      playBGM: (trackId: string) => audio.push(`bgm:${trackId}`),
+      playSFX: (sfxId: string) => audio.push(`sfx:${sfxId}`)
+    } as any);
+
+    const events: CutsceneEvent[] = [];
+    runner.subscribe(event => events.push(event));
+
+    return { world, cutscenes: runner, camera, clock, interactions, combat, playerId, guardId, audio, events };
+  }
+}
+
+// Create test runner instance
+const runner = new CutsceneRunnerTestRunner();
+
+/**
+ * Cutscenes exercising every step type
+ */
+const TEST_CUTSCENES: Record<string, CutsceneDef> = {
+  'walk': {
+    id: 'walk',
+    name: 'Walk',
+    steps: [
+      { type: 'move', actor: 'player', path: [{ x: 64, y: 0 }, { x: 64, y: 64 }], speed: 64 },
+      { type: 'face', actor: 'guard', direction: 'LEFT' },
+      { type: 'play_sfx', sfxId: 'door_open' }
+    ]
+  },
+  'talk': {
+    id: 'talk',
+    name: 'Talk',
+    once: true,
+    steps: [
+      { type: 'dialogue', text: 'Guard: Halt, {var hero}!' },
+      { type: 'wait', duration: 1 },
+      { type: 'set_flag', flag: 'met_guard' }
+    ]
+  },
+  'pan': {
+    id: 'pan',
+    name: 'Pan',
+    steps: [
+      { type: 'move', actor: 'guard', path: [{ x: 100, y: 100 }], speed: 50, async: true },
+      { type: 'camera_pan', x: 400, y: 300, zoom: 2, duration: 1 },
+      { type: 'camera_shake', intensity: 5, duration: 0.5 }
+    ]
+  },
+  'ambush': {
+    id: 'ambush',
+    name: 'Ambush',
+    steps: [
+      { type: 'wait', duration: 2 },
+      { type: 'play_sfx', sfxId: 'explosion' },
+      { type: 'move', actor: 'guard', path: [{ x: 100, y: 50 }, { x: 50, y: 50 }] },
+      { type: 'dialogue', text: 'Attack!' },
+      { type: 'play_bgm', trackId: 'battle_theme' },
+      { type: 'set_flag', flag: 'ambushed' },
+      { type: 'start_battle', enemyIds: ['goblin', 'bat'] }
+    ]
+  },
+  'vision': {
+    id: 'vision',
+    name: 'Vision',
+    skippable: false,
+    steps: [{ type: 'wait', duration: 1 }]
+  },
+  'elder': {
+    id: 'elder',
+    name: 'Elder',
+    steps: [
+      { type: 'dialogue', dialogueId: 'elder_greeting' },
+      { type: 'set_flag', flag: 'elder_scene_done' }
+    ]
+  }
+};
+
+/**
+ * Gets an entity's position as "x,y"
+ */
+function at(world: WorldManager, entityId: EntityId): string {
+  const position = world.getComponent<Position>(entityId, 'Position')!;
+  return `${Math.round(position.x)},${Math.round(position.y)}`;
+}
+
+/**
+ * Gets the enemies fighting the player as "enemyId,enemyId"
+ */
+function enemiesInCombat(world: WorldManager, combat: CombatSystem): string {
+  return combat.getParticipants()
+    .filter(participant => !participant.isPlayer)
+    .map(participant => world.getComponent<EnemyInfo>(participant.entityId, 'EnemyInfo')?.enemyId)
+    .join(',');
+}
+
+// ============= SEQUENCING TESTS =============
+
+runner.test('Sequencing - Moves walk their path over time, turning along it, before later steps run', () => {
+  const { world, cutscenes, playerId, guardId, audio, events } = runner.setup();
+  runner.assert(cutscenes.play('walk'), 'Cutscene should start');
+
+  cutscenes.update(0.5);
+  runner.assertEqual(at(world, playerId), '32,0', 'The player should walk at 64 px/s');
+  runner.assertEqual(world.getComponent<Facing>(playerId, 'Facing')!.direction, 'RIGHT', 'The player faces the way they walk');
+  runner.assertEqual(audio.length, 0, 'Later steps wait for the move');
+
+  cutscenes.update(1);
+  runner.assertEqual(at(world, playerId), '64,32', 'The walk should turn the corner');
+  runner.assertEqual(world.getComponent<Facing>(playerId, 'Facing')!.direction, 'DOWN', 'The player should turn with the path');
+
+  cutscenes.update(0.5);
+  runner.assertEqual(world.getComponent<Facing>(guardId, 'Facing')!.direction, 'LEFT', 'The guard should turn');
+  runner.assertEqual(audio.join(','), 'sfx:door_open', 'The sound should play');
+  runner.assert(!cutscenes.isPlaying(), 'The cutscene should end after its last step');
+  runner.assertEqual(events[events.length - 1].type, 'cutscene_ended', 'The end should be announced');
+});
+
+runner.test('Sequencing - Text waits to be dismissed, time passes in waits and the clock is paused', () => {
+  const { cutscenes, clock, interactions, events } = runner.setup();
+  const dialogue = new DialogueRunner();
+  dialogue.setVariable('hero', 'Aria');
+  cutscenes.setDialogueRunner(dialogue);
+
+  cutscenes.play('talk');
+  const shown = events.find(event => event.type === 'show_text');
+  runner.assertEqual(shown?.type === 'show_text' ? shown.text : '', 'Guard: Halt, Aria!', 'Text should be shown with variables filled in');
+  runner.assert(clock.isPaused(), 'The clock should pause during cutscenes');
+
+  cutscenes.update(5);
+  runner.assert(cutscenes.isPlaying(), 'Text waits for the player');
+  runner.assert(cutscenes.advance(), 'Text should be dismissed');
+  runner.assert(!cutscenes.advance(), 'Only text can be dismissed');
+
+  cutscenes.update(0.5);
+  runner.assert(!interactions.getStoryFlag('met_guard'), 'The wait is not over');
+  cutscenes.update(0.5);
+  runner.assert(interactions.getStoryFlag('met_guard'), 'The flag should be set after the wait');
+  runner.assert(!clock.isPaused(), 'The clock should resume');
+
+  runner.assert(!cutscenes.play('talk'), 'Play-once cutscenes do not repeat');
+  runner.assertEqual(cutscenes.serialize().join(','), 'talk', 'Played cutscenes should be saved');
+  cutscenes.restore([]);
+  runner.assert(cutscenes.play('talk'), 'Restoring an older save allows a replay');
+});
+
+runner.test('Sequencing - Camera pans take over the camera while async moves run alongside', () => {
+  const { world, cutscenes, camera, playerId, guardId } = runner.setup();
+  camera.setPosition(0, 0);
+
+  cutscenes.play('pan');
+  runner.assertEqual(camera.getTarget(), null, 'The camera stops following the player');
+
+  cutscenes.update(0.5);
+  runner.assertEqual(camera.getPosition().x, 200, 'The pan should be halfway');
+  runner.assertEqual(at(world, guardId), '100,25', 'The async move runs during the pan');
+
+  cutscenes.update(0.5);
+  runner.assertEqual(camera.getPosition().x, 400, 'The pan should arrive');
+  runner.assertEqual(camera.getZoom(), 2, 'The pan should zoom');
+  runner.assert(cutscenes.isPlaying(), 'The cutscene waits for the async move');
+
+  cutscenes.update(1);
+  runner.assertEqual(at(world, guardId), '100,100', 'The move should finish');
+  runner.assert(!cutscenes.isPlaying(), 'The cutscene ends once everything is done');
+  runner.assertEqual(camera.getTarget(), playerId, 'The camera follows the player again');
+});
+
+runner.test('Sequencing - Battle steps start combat against the listed enemies', () => {
+  const { world, cutscenes, combat, playerId } = runner.setup();
+  cutscenes.play('ambush');
+
+  for (let frame = 0; frame < 300 && cutscenes.isPlaying(); frame++) {
+    runner.assertEqual(combat.getParticipants().length, 0, 'Combat waits for the battle step');
+    cutscenes.advance();
+    cutscenes.update(1 / 30);
+  }
+
+  runner.assert(!cutscenes.isPlaying(), 'The cutscene should finish');
+  runner.assert(combat.getParticipants().some(participant => participant.entityId === playerId), 'The player should fight');
+  runner.assertEqual(enemiesInCombat(world, combat), 'goblin', 'Unknown enemies are left out');
+});
+
+// ============= SKIP AND FAST-FORWARD TESTS =============
+
+runner.test('Skip - Lasting outcomes apply and transient ones are dropped', () => {
+  const { world, cutscenes, interactions, combat, guardId, audio, events } = runner.setup();
+  cutscenes.play('ambush');
+  cutscenes.update(1);
+
+  runner.assert(cutscenes.skip(), 'Skipping should work');
+  runner.assertEqual(at(world, guardId), '50,50', 'Actors end where they would have');
+  runner.assertEqual(world.getComponent<Facing>(guardId, 'Facing')!.direction, 'LEFT', 'Actors face along their last leg');
+  runner.assertEqual(audio.join(','), 'bgm:battle_theme', 'Music changes but skipped sounds do not play');
+  runner.assert(interactions.getStoryFlag('ambushed'), 'Flags should be set');
+  runner.assert(events.some(event => event.type === 'battle_requested' && event.enemyIds.join(',') === 'goblin,bat'), 'The battle should still start');
+  runner.assertEqual(enemiesInCombat(world, combat), 'goblin', 'Combat should start against the known enemies');
+  runner.assert(!events.some(event => event.type === 'show_text'), 'Skipped text is not shown');
+
+  const end = events[events.length - 1];
+  runner.assert(end.type === 'cutscene_ended' && end.skipped, 'The end should be marked as skipped');
+  runner.assertEqual(cutscenes.getStats().skips, 1, 'Skips should be counted');
+});
+
+runner.test('Skip - Unskippable cutscenes play out, and fast-forward speeds playback', () => {
+  const { cutscenes } = runner.setup();
+  cutscenes.play('vision');
+  runner.assert(!cutscenes.skip(), 'Unskippable cutscenes refuse to skip');
+
+  cutscenes.setFastForward(true);
+  runner.assert(cutscenes.isFastForwarding(), 'Fast-forward should be on');
+  cutscenes.update(1 / GAME_CONFIG.CUTSCENE_FAST_FORWARD);
+  runner.assert(!cutscenes.isPlaying(), 'A one second wait should pass in a quarter second');
+  runner.assert(!cutscenes.play('missing'), 'Unknown cutscenes do not play');
+});
+
+runner.test('Dialogue - Dialogue graph steps wait for the conversation to end', () => {
+  const { world, cutscenes, interactions, playerId } = runner.setup();
+  world.addComponent(playerId, 'Inventory', { items: [], gold: 0 });
+  const dialogue = new DialogueRunner();
+  dialogue.setWorld(world);
+  dialogue.setPlayer(playerId);
+  dialogue.setInteractionSystem(interactions);
+  cutscenes.setDialogueRunner(dialogue);
+
+  cutscenes.play('elder');
+  runner.assertEqual(dialogue.getCurrentLine()?.nodeId, 'greet', 'The dialogue should start');
+  cutscenes.update(1);
+  runner.assert(!interactions.getStoryFlag('elder_scene_done'), 'The cutscene waits for the dialogue');
+
+  dialogue.choose(3);
+  cutscenes.update(0);
+  runner.assert(interactions.getStoryFlag('elder_scene_done'), 'The cutscene continues once the dialogue ends');
+});
+
+// ============= TRIGGER TESTS =============
+
+runner.test('Triggers - Interactions play cutscenes and are blocked while one plays', () => {
+  const { world, cutscenes, interactions } = runner.setup();
+  interactions.setCutsceneRunner(cutscenes);
+
+  const statue: Interaction = {
+    id: 'statue',
+    type: InteractionType.EXAMINE,
+    name: 'Statue',
+    description: 'An old statue',
+    range: 50,
+    enabled: true,
+    singleUse: false,
+    used: false,
+    conditions: [{ type: InteractionCondition.ALWAYS, value: true }],
+    actions: [{ type: InteractionActionType.PLAY_CUTSCENE, parameters: { cutsceneId: 'vision' } }]
+  };
+  const statueId = interactions.createInteractiveEntity(statue);
+  world.addComponent<Position>(statueId, 'Position', { x: 10, y: 0 });
+
+  interactions.update(0.1);
+  runner.assert(interactions.interact(), 'Examining the statue should work');
+  runner.assertEqual(cutscenes.getCurrentCutscene(), 'vision', 'The cutscene should play');
+  runner.assert(!interactions.interact(), 'Interactions are blocked during the cutscene');
+});
+
+runner.test('Triggers - Cutscene tiles play for the player only, and grid moves turn entities', () => {
+  const { world, cutscenes, playerId, guardId } = runner.setup();
+  world.addComponent<Facing>(guardId, 'Facing', { direction: 'DOWN' });
+
+  const movement = new GridMovementSystem({ tileSize: 32, smoothMovement: false });
+  const map: GameMap = {
+    width: 4,
+    height: 1,
+    tileSize: 32,
+    tiles: [[
+      { type: 'grass', walkable: true, textureId: 'grass' },
+      { type: 'grass', walkable: true, textureId: 'grass', properties: { trigger: 'cutscene', cutsceneId: 'vision' } },
+      { type: 'grass', walkable: true, textureId: 'grass' },
+      { type: 'grass', walkable: true, textureId: 'grass', properties: { trigger: 'cutscene', cutsceneId: 'vision' } }
+    ]],
+    spawnPoints: []
+  };
+  movement.setWorld(world);
+  movement.setCutsceneRunner(cutscenes);
+  movement.loadMap(map);
+
+  world.updateComponent<Position>(guardId, 'Position', { x: 64, y: 0 });
+  movement.moveEntity(guardId, 'RIGHT');
+  runner.assert(!cutscenes.isPlaying(), 'Other entities do not trigger cutscenes');
+  movement.moveEntity(guardId, 'LEFT');
+  runner.assertEqual(world.getComponent<Facing>(guardId, 'Facing')!.direction, 'LEFT', 'Grid moves should turn the mover');
+
+  movement.moveEntity(playerId, 'RIGHT');
+  runner.assertEqual(cutscenes.getCurrentCutscene(), 'vision', 'The player triggers the cutscene');
+});
+
+runner.test('Data - Shipped cutscenes only use known steps and play to the end', () => {
+  const { world, cutscenes, combat, audio, events } = runner.setup(CUTSCENES_DATABASE);
+
+  for (const cutsceneId of Object.keys(CUTSCENES_DATABASE)) {
+    runner.assert(cutscenes.play(cutsceneId), `${cutsceneId} should play`);
+    for (let frame = 0; frame < 600 && cutscenes.isPlaying(); frame++) {
+      cutscenes.advance();
+      cutscenes.update(1 / 30);
+    }
+    runner.assert(!cutscenes.isPlaying(), `${cutsceneId} should finish`);
+  }
+  runner.assert(audio.length > 0 && events.some(event => event.type === 'battle_requested'), 'The ambush plays audio and starts a battle');
+  runner.assertEqual(enemiesInCombat(world, combat), 'goblin,goblin', 'The ambush battle should start');
+});
+
+// Run all tests
+runner.run();
+
+export { runner as cutsceneRunnerTestRunner };
@@ -0,0 +1,252 @@
+/**
+ * Damage Formula Tests
+ * @fileoverview Unit and balance tests for the damage calculation module
+ */
+
+import { calculateDamage, getElementalMultiplier, getEnemyDamageMultiplier, formatDamageBreakdown } from '../utils/damage';
+import { CombatSystem } from '../engine/CombatSystem';
+import { DebugToolsSystem } from '../engine/DebugToolsSystem';
+import { WorldManager } from '../engine/WorldManager';
+import { EntityId, Health, MagicUser } from '../types';
+import { ENEMIES_DATABASE, GAME_CONFIG } from '../data/GameData';
+import { RNG } from '../utils/rng';
+
+/**
+ * Test runner for damage formula tests
+ */
+class DamageTestRunner {
+  private tests: Array<{ name: string; fn: () => void }> = [];
+  private passed = 0;
+  private failed = 0;
+
+  /**
+   * Registers a test
+   */
+  public test(name: string, fn: () => void): void {
+    this.tests.push({ name, fn });
+  }
+
+  /**
+   * Runs all registered tests
+   */
+  public run(): { passed: number; failed: number } {
+    console.log('Running Damage Formula Tests...\n');
+
+    for (const test of this.tests) {
+      try {
+        test.fn();
+        console.log(`✓ ${test.name}`);
+        this.passed++;
+      } catch (error) {
+        console.log(`✗ ${test.name}`);
+        console.log(`  Error: ${error}`);
+        this.failed++;
+      }
+    }
+
+    console.log(`\nDamage Formula Test Results: ${this.passed} passed, ${this.failed} failed`);
+    return { passed: this.passed, failed: this.failed };
+  }
+
+  /**
+   * Assertion helper
+   */
+  public assert(condition: boolean, message: string): void {
+    if (!condition) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Equality assertion helper
+   */
+  public assertEqual<T>(actual: T, expected: T, message: string): void {
+    if (actual !== expected) {
+      throw new Error(`${message}. Expected: ${expected}, Actual: ${actual}`);
+    }
+  }
+
+  /**
+   * Creates a combatant, optionally linked to an ENEMIES_DATABASE entry
+   */
+  public createCombatant(world: WorldManager, enemyId?: string): EntityId {
+    const entityId = world.createEntity(['Position', 'Health', 'CombatStats', 'MagicUser']);
+    world.addComponent(entityId, 'Position', { x: 0, y: 0 });
+    world.addComponent(entityId, 'Health', { current: 200, max: 200 });
+    world.addComponent(entityId, 'CombatStats', {
+      attacking: false,
+      attack: 20,
+      defense: 10,
+      actionPoints: 3,
+      maxActionPoints: 3
+    });
+    world.addComponent<MagicUser>(entityId, 'MagicUser', {
+      spellCharges: {},
+      knownSpells: {},
+      maxSpellsPerLevel: 3,
+      currentMana: 100,
+      maxMana: 100,
+      magicDefense: 0
+    });
+    if (enemyId) {
+      world.addComponent(entityId, 'EnemyInfo', { enemyId });
+    }
+    return entityId;
+  }
+}
+
+// Create test runner instance
+const runner = new DamageTestRunner();
+
+// ============= FORMULA TESTS =============
+
+runner.test('Damage - Base formula without rolls', () => {
+  const rng = new RNG(5);
+  const breakdown = calculateDamage({ kind: 'physical', power: 20, defense: 10 }, rng);
+
+  runner.assertEqual(breakdown.base, 15, 'Base should be power - defense / 2');
+  runner.assertEqual(breakdown.final, 15, 'Final should equal base with no modifiers');
+  runner.assertEqual(rng.getSeed(), 5, 'Deterministic inputs should not consume the RNG');
+});
+
+runner.test('Damage - Minimum one damage on a hit', () => {
+  const breakdown = calculateDamage({ kind: 'physical', power: 2, defense: 40 });
+
+  runner.assertEqual(breakdown.final, 1, 'Hits should always deal at least 1');
+});
+
+runner.test('Damage - Variance stays within bounds and is reproducible', () => {
+  const first = new RNG(11);
+  const second = new RNG(11);
+
+  for (let i = 0; i < 100; i++) {
+    const a = calculateDamage({ kind: 'physical', power: 110, defense: 20, variance: 0.1 }, first);
+    const b = calculateDamage({ kind: 'physical', power: 110, defense: 20, variance: 0.1 }, second);
+    runner.assert(a.final >= 90 && a.final <= 110, `Damage ${a.final} should be within ±10% of 100`);
+    runner.assertEqual(a.final, b.final, 'Same seed should give the same damage');
+  }
+});
+
+runner.test('Damage - Critical hits use the configured multiplier', () => {
+  const breakdown = calculateDamage({ kind: 'physical', power: 20, defense: 10, critChance: 100 });
+
+  runner.assert(breakdown.critical, 'Hit should be critical');
+  runner.assertEqual(breakdown.crit, GAME_CONFIG.CRITICAL_HIT_MULTIPLIER, 'Crit multiplier should come from GAME_CONFIG');
+  runner.assertEqual(breakdown.final, 30, 'Critical damage should be doubled');
+});
+
+runner.test('Damage - Accuracy and evasion cause misses', () => {
+  const blind = calculateDamage({ kind: 'physical', power: 20, defense: 10, accuracy: 0 });
+  const evaded = calculateDamage({ kind: 'physical', power: 20, defense: 10, evasion: 100 });
+
+  runner.assert(!blind.hit, 'Zero accuracy should miss');
+  runner.assert(!evaded.hit, 'Full evasion should dodge');
+  runner.assertEqual(blind.final, 0, 'Misses deal no damage');
+  runner.assertEqual(formatDamageBreakdown(blind), 'MISS', 'Misses should format as MISS');
+});
+
+runner.test('Damage - Elemental weakness, resistance and immunity', () => {
+  const affinities = { FIRE: 2, WATER: 0.5, DARK: 0 };
+  const hit = (element: 'FIRE' | 'WATER' | 'DARK' | 'NEUTRAL') =>
+    calculateDamage({ kind: 'magical', power: 30, defense: 20, element, affinities }).final;
+
+  runner.assertEqual(hit('FIRE'), 40, 'Weakness should double damage');
+  runner.assertEqual(hit('WATER'), 10, 'Resistance should halve damage');
+  runner.assertEqual(hit('DARK'), 0, 'Immunity should block damage');
+  runner.assertEqual(hit('NEUTRAL'), 20, 'Neutral damage should ignore affinities');
+  runner.assertEqual(getElementalMultiplier('HOLY', affinities), 1, 'Unlisted elements should be neutral');
+});
+
+runner.test('Damage - Mitigation and difficulty multiply the result', () => {
+  const breakdown = calculateDamage({
+    kind: 'physical',
+    power: 30,
+    defense: 20,
+    mitigation: 0.75,
+    difficulty: getEnemyDamageMultiplier('hard')
+  });
+
+  runner.assertEqual(breakdown.final, Math.floor(20 * 0.75 * 1.2), 'Mitigation and hard difficulty should apply');
+  runner.assertEqual(getEnemyDamageMultiplier('easy'), GAME_CONFIG.DIFFICULTY_MULTIPLIERS.easy.enemy_damage, 'Easy multiplier should come from the table');
+});
+
+// ============= BALANCE TESTS =============
+
+runner.test('Damage - Average roll matches expected crit and variance', () => {
+  const rng = new RNG(99);
+  const rolls = 2000;
+  let total = 0;
+  for (let i = 0; i < rolls; i++) {
+    total += calculateDamage({
+      kind: 'physical',
+      power: 120,
+      defense: 40,
+      variance: GAME_CONFIG.DAMAGE_VARIANCE,
+      critChance: GAME_CONFIG.CRITICAL_HIT_CHANCE_BASE
+    }, rng).final;
+  }
+
+  const expected = 100 * (1 + (GAME_CONFIG.CRITICAL_HIT_MULTIPLIER - 1) * GAME_CONFIG.CRITICAL_HIT_CHANCE_BASE / 100);
+  const average = total / rolls;
+  runner.assert(Math.abs(average - expected) / expected < 0.05, `Average ${average.toFixed(1)} should be close to ${expected}`);
+});
+
+runner.test('Damage - Every enemy hurts a starting hero on every difficulty', () => {
+  for (const enemy of Object.values(ENEMIES_DATABASE)) {
+    const easy = calculateDamage({ kind: 'physical', power: enemy.stats.attack, defense: 10, difficulty: getEnemyDamageMultiplier('easy') });
+    const hard = calculateDamage({ kind: 'physical', power: enemy.stats.attack, defense: 10, difficulty: getEnemyDamageMultiplier('hard') });
+    runner.assert(easy.final >= 1, `${enemy.id} should deal damage on easy`);
+    runner.assert(hard.final >= easy.final, `${enemy.id} should hit at least as hard on hard`);
+  }
+});
+
+// ============= COMBAT INTEGRATION TESTS =============
+
+runner.test('Damage - Combat spells use enemy affinities', () => {
+  const world = new WorldManager();
+  const combat = new CombatSystem({ damageVariance: 0, criticalHitChance: 0 });
+  combat.setWorld(world);
+
+  const caster = runner.createCombatant(world);
+  const hound = runner.createCombatant(world, 'hell_hound');
+  const wolf = runner.createCombatant(world, 'winter_wolf');
+  combat.startCombat(caster, [hound, wolf]);
+
+  const immune = combat.castSpell(caster, 'fire_1', hound);
+  const weak = combat.castSpell(caster, 'fire_1', wolf);
+
+  runner.assertEqual(immune.targets[0].damage, 0, 'Hell hound should be immune to fire');
+  runner.assertEqual(world.getComponent<Health>(hound, 'Health')!.current, 200, 'Immune target should keep its health');
+  runner.assert(weak.targets[0].damage > 1, 'Winter wolf should take fire damage');
+});
+
+runner.test('Damage - Difficulty scales enemy attacks only', () => {
+  const world = new WorldManager();
+  const combat = new CombatSystem({ damageVariance: 0, criticalHitChance: 0, difficulty: 'hard' });
+  combat.setWorld(world);
+
+  const hero = runner.createCombatant(world);
+  const goblin = runner.createCombatant(world, 'goblin');
+  combat.startCombat(hero, [goblin]);
+
+  runner.assertEqual(combat.calculateAttackDamage(hero, goblin)!.final, 15, 'Player damage should be unscaled');
+  runner.assertEqual(combat.calculateAttackDamage(goblin, hero)!.final, 18, 'Enemy damage should be scaled by hard difficulty');
+});
+
+runner.test('Damage - Debug console shows a breakdown', () => {
+  const world = new WorldManager();
+  const debug = new DebugToolsSystem();
+  debug.setWorld(world);
+  const attacker = runner.createCombatant(world);
+  const target = runner.createCombatant(world);
+
+  const output = debug.executeCommand(`damage ${attacker} ${target}`);
+
+  runner.assert(output.includes('base 15.0') || output.includes('MISS'), `Output should include the breakdown: ${output}`);
+  runner.assert(debug.executeCommand('damage').startsWith('Usage'), 'Missing arguments should show usage');
+});
+
+// Run all tests
+runner.run();
+
+export { runner as damageTestRunner };
@@ -9,6 +9,7 @@ setupDOMMock();
 
 import { DebugToolsSystem, DebugOverlayPosition, EntitySpawnData, WarpLocation } from '../engine/DebugToolsSystem';
 import { WorldManager } from '../engine/WorldManager';
+import { SystemStage } from '../engine/SystemScheduler';
 import { logger, LogSource } from '../engine/GlobalLogger';
 import { EntityId, Position } from '../types';
 
@@ -396,6 +397,38 @@ runner.test('DebugToolsSystem - Inspect entity', () => {
   runner.assertEqual(inspectionData!.position!.y, 250, 'Position Y should match');
 });
 
+runner.test('DebugToolsSystem - Inspector reports invalid component data', () => {
+  const debugTools = new DebugToolsSystem();
+  const world = new WorldManager();
+  world.getComponentRegistry().setStrict(false);
+  debugTools.setWorld(world);
+
+  const entityId = world.createEntity();
+  world.addComponent(entityId, 'Health', { current: 'full' });
+  world.addComponent(entityId, 'Position', { x: 1, y: 2 });
+  world.addComponent(entityId, 'Mystery', { anything: true });
+
+  const inspectionData = debugTools.inspectEntity(entityId)!;
+  runner.assertEqual(inspectionData.components.join(','), 'Position,Health,Mystery', 'Registered components should come first in registry order');
+  runner.assertEqual(inspectionData.componentErrors.Health, 'Health.current must be a number', 'Invalid data should be reported');
+  runner.assert(inspectionData.componentErrors.Mystery.includes('Unknown component type'), 'Unregistered components should be reported');
+  runner.assert(!('Position' in inspectionData.componentErrors), 'Valid components should have no error');
+});
+
+runner.test('DebugToolsSystem - Performance metrics include scheduled system times', () => {
+  const debugTools = new DebugToolsSystem();
+  const world = new WorldManager();
+  debugTools.setWorld(world);
+
+  world.getScheduler().add({ name: 'busy', system: () => {}, stage: SystemStage.SIMULATION });
+  world.update(1 / 60);
+  debugTools.update(1 / 60);
+
+  const metrics = debugTools.getPerformanceMetrics();
+  runner.assert('busy' in metrics.systemTime, 'Scheduled system should be listed');
+  runner.assert(metrics.systemTime.busy >= 0, 'System time should be a duration');
+});
+
 runner.test('DebugToolsSystem - Inspect invalid entity', () => {
   const debugTools = new DebugToolsSystem();
   const world = new WorldManager();
@@ -0,0 +1,292 @@
+/**
+ * Dialogue Runner Tests
+ * @fileoverview Tests for dialogue graph validation, conditional choices, side effects, variables and DialogSystem text
+ */
+
+import { DialogueRunner, DialogueEvent } from '../engine/DialogueRunner';
+import { QuestSystem } from '../engine/QuestSystem';
+import { InteractionSystem, InteractionType, InteractionCondition, InteractionActionType, Interaction } from '../engine/InteractionSystem';
+import { WorldManager } from '../engine/WorldManager';
+import { CharacterClass, CharacterStats, DialogueGraph, EntityId, Inventory, Position } from '../types';
+import { DIALOGUES_DATABASE } from '../data/GameData';
+import { DialogueValidator, ValidationError } from '../utils/validation';
+
+/**
+ * Test runner for dialogue runner tests
+ */
+class DialogueRunnerTestRunner {
+  private tests: Array<{ name: string; fn: () => void }> = [];
+  private passed = 0;
+  private failed = 0;
+
+  /**
+   * Registers a test
+   */
+  public test(name: string, fn: () => void): void {
+    this.tests.push({ name, fn });
+  }
+
+  /**
+   * Runs all registered tests
+   */
+  public run(): { passed: number; failed: number } {
+    console.log('Running Dialogue Runner Tests...\n');
+
+    for (const test of this.tests) {
+      try {
+        test.fn();
+        console.log(`✓ ${test.name}`);
+        this.passed++;
+      } catch (error) {
+        console.log(`✗ ${test.name}`);
+        console.log(`  Error: ${error}`);
+        this.failed++;
+      }
+    }
+
+    console.log(`\nDialogue Runner Test Results: ${this.passed} passed, ${this.failed} failed`);
+    return { passed: this.passed, failed: this.failed };
+  }
+
+  /**
+   * Assertion helper
+   */
+  public assert(condition: boolean, message: string): void {
+    if (!condition) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Equality assertion helper
+   */
+  public assertEqual<T>(actual: T, expected: T, message: string): void {
+    if (actual !== expected) {
+      throw new Error(`${message}. Expected: ${expected}, Actual: ${actual}`);
+    }
+  }
+
+  /**
+   * Creates a player with an inventory and stats, and a dialogue runner wired to flags and quests
+   */
+  public setup(dialogues: Record<string, DialogueGraph> = DIALOGUES_DATABASE): {
+    world: WorldManager;
+    dialogue: DialogueRunner;
+    interactions: InteractionSystem;
+    quests: QuestSystem;
+    playerId: EntityId;
+  } {
+    const world = new WorldManager();
+    const playerId = world.createEntity(['Position', 'Inventory', 'CharacterStats']);
+    world.addComponent<Position>(playerId, 'Position', { x: 0, y: 0 });
+    world.addComponent<Inventory>(playerId, 'Inventory', { items: [], gold: 0 });
+    world.addComponent<CharacterStats>(playerId, 'CharacterStats', {
+      class: CharacterClass.WARRIOR,
+      level: 3,
+      experience: 0,
+      experienceToNext: 100,
+      strength: 10,
+      agility: 10,
+      intelligence: 10,
+      vitality: 10,
+      luck: 10,
+      baseHealth: 100,
+      baseMana: 0
+    });
+
+    const interactions = new InteractionSystem();
+    interactions.setWorld(world);
+    interactions.setPlayer(playerId);
+
+    const quests = new QuestSystem();
+    quests.setWorld(world);
+    quests.setPlayer(playerId);
+
+    const dialogue = new DialogueRunner(dialogues);
+    dialogue.setWorld(world);
+    dialogue.setPlayer(playerId);
+    dialogue.setInteractionSystem(interactions);
+    dialogue.setQuestSystem(quests);
+
+    return { world, dialogue, interactions, quests, playerId };
+  }
+}
+
+// Create test runner instance
+const runner = new DialogueRunnerTestRunner();
+
+/**
+ * Gets the choice texts offered by the current line
+ */
+function offered(dialogue: DialogueRunner): string {
+  return (dialogue.getCurrentLine()?.choices || []).map(choice => choice.text).join(',');
+}
+
+/**
+ * Small graph exercising level and variable conditions
+ */
+const GATE_DIALOGUE: Record<string, DialogueGraph> = {
+  'gate': {
+    id: 'gate',
+    start: 'ask',
+    nodes: {
+      'ask': {
+        text: 'Halt!',
+        choices: [
+          { text: 'Veteran', next: 'pass', conditions: [{ type: 'level', value: 5 }] },
+          { text: 'Password', next: 'pass', conditions: [{ type: 'variable', key: 'password', value: 'swordfish' }] },
+          { text: 'Learn', next: 'ask', effects: [{ type: 'SET_VAR', parameters: { name: 'password', value: 'swordfish' } }] },
+          { text: 'Leave', next: null }
+        ]
+      },
+      'pass': { speaker: 'Guard', text: 'Go on through.', next: 'after' },
+      'after': { text: 'The gate creaks shut.' }
+    }
+  }
+};
+
+// ============= VALIDATION TESTS =============
+
+runner.test('Validation - Shipped dialogues are valid and fully reachable', () => {
+  for (const graph of Object.values(DIALOGUES_DATABASE)) {
+    DialogueValidator.validate(graph);
+    runner.assertEqual(DialogueValidator.findUnreachable(graph).length, 0, `${graph.id} should have no unreachable nodes`);
+  }
+});
+
+runner.test('Validation - Dangling node references are rejected', () => {
+  const expectError = (graph: DialogueGraph, field: string) => {
+    try {
+      DialogueValidator.validate(graph);
+    } catch (error) {
+      runner.assert(error instanceof ValidationError, 'A validation error should be thrown');
+      runner.assertEqual((error as ValidationError).field, field, 'The offending field should be named');
+      return;
+    }
+    throw new Error(`Graph should be invalid at ${field}`);
+  };
+
+  expectError({ id: 'a', start: 'missing', nodes: { 'one': { text: 'Hi' } } }, 'start');
+  expectError({ id: 'b', start: 'one', nodes: { 'one': { text: 'Hi', next: 'two' } } }, 'nodes.one.next');
+  expectError({ id: 'c', start: 'one', nodes: { 'one': { text: 'Hi', choices: [{ text: 'Ok', next: null }, { text: 'Go', next: 'nowhere' }] } } }, 'nodes.one.choices[1].next');
+  expectError({ id: 'd', start: 'one', nodes: { 'one': { text: 'Hi', choices: [] } } }, 'nodes.one.choices');
+
+  const unreachable: DialogueGraph = { id: 'e', start: 'one', nodes: { 'one': { text: 'Hi' }, 'two': { text: 'Lost' } } };
+  runner.assertEqual(DialogueValidator.findUnreachable(unreachable).join(','), 'two', 'Unreachable nodes should be listed');
+});
+
+runner.test('Validation - Invalid graphs do not start', () => {
+  const { dialogue } = runner.setup({ 'broken': { id: 'broken', start: 'one', nodes: { 'one': { text: 'Hi', next: 'two' } } } });
+  runner.assert(!dialogue.start('broken'), 'An invalid graph should not start');
+  runner.assert(!dialogue.start('unknown'), 'An unknown graph should not start');
+  runner.assert(!dialogue.isActive(), 'No conversation should be active');
+});
+
+// ============= RUNTIME TESTS =============
+
+runner.test('Runtime - Lines carry speaker, portrait, variables and DialogSystem text', () => {
+  const { dialogue } = runner.setup();
+  dialogue.setVariable('hero', 'Aria');
+  const events: DialogueEvent[] = [];
+  dialogue.subscribe(event => events.push(event));
+
+  runner.assert(dialogue.start('elder_greeting'), 'Dialogue should start');
+  const line = dialogue.getCurrentLine()!;
+  runner.assertEqual(line.speaker, 'Elder Maren', 'Speaker should be set');
+  runner.assertEqual(line.portrait, 'elder_maren', 'Portrait should be set');
+  runner.assertEqual(line.text, 'Welcome to Aethelgard, Aria. These are troubled days.', 'Variables should be filled in');
+  runner.assertEqual(offered(dialogue), 'What troubles you?,Farewell.', 'Only choices whose conditions hold are offered');
+  runner.assertEqual(
+    line.dialogText,
+    'Elder Maren: {emotion worried}Welcome to Aethelgard, Aria. These are troubled days.{choice What troubles you? 0|Farewell. 3}',
+    'DialogSystem text should hold the speaker, emotion and choice codes'
+  );
+  runner.assertEqual(events.map(event => event.type).join(','), 'dialogue_started,line', 'Start and line should be announced');
+});
+
+runner.test('Runtime - Choices start quests and node effects give items', () => {
+  const { world, dialogue, quests, playerId } = runner.setup();
+  dialogue.start('elder_greeting');
+
+  runner.assert(!dialogue.advance(), 'Lines with choices wait for a choice');
+  runner.assert(!dialogue.choose(1), 'Choices whose conditions fail cannot be selected');
+  runner.assert(dialogue.choose(0), 'Asking about the trouble should work');
+  runner.assert(dialogue.choose(0), 'Accepting should work');
+
+  runner.assertEqual(quests.getQuestStatus('goblin_trouble'), 'active', 'The quest should start');
+  runner.assertEqual(dialogue.getCurrentLine()!.nodeId, 'accepted', 'The conversation should move on');
+  runner.assertEqual(world.getComponent<Inventory>(playerId, 'Inventory')!.items[0].itemId, 'potion_health', 'The gift should be given');
+
+  runner.assert(dialogue.advance(), 'A line without next ends the conversation');
+  runner.assert(!dialogue.isActive(), 'The conversation should be over');
+  runner.assertEqual(dialogue.getStats().choicesMade, 2, 'Choices should be counted');
+});
+
+runner.test('Runtime - Item and flag conditions gate choices, and effects take items, give gold and set flags', () => {
+  const { world, dialogue, interactions, playerId } = runner.setup();
+  world.updateComponent<Inventory>(playerId, 'Inventory', { items: [{ itemId: 'antidote', quantity: 1 }], gold: 10 });
+
+  dialogue.start('elder_greeting');
+  runner.assert(offered(dialogue).includes('I brought an antidote'), 'Carrying an antidote unlocks the choice');
+  dialogue.choose(2);
+
+  const inventory = world.getComponent<Inventory>(playerId, 'Inventory')!;
+  runner.assertEqual(inventory.items.length, 0, 'The antidote should be taken');
+  runner.assertEqual(inventory.gold, 35, 'The reward should be paid');
+  runner.assert(interactions.getStoryFlag('elder_antidote_given'), 'The flag should be set');
+
+  dialogue.advance();
+  runner.assertEqual(dialogue.getCurrentLine()!.nodeId, 'greet', 'The conversation should loop back');
+  runner.assert(!offered(dialogue).includes('I brought an antidote'), 'The choice is gone once its flag is set');
+});
+
+runner.test('Runtime - Level and variable conditions', () => {
+  const { world, dialogue, playerId } = runner.setup(GATE_DIALOGUE);
+  dialogue.start('gate');
+  runner.assertEqual(offered(dialogue), 'Learn,Leave', 'Neither level 5 nor the password is met');
+
+  dialogue.choose(2);
+  runner.assertEqual(dialogue.getVariable('password'), 'swordfish', 'SET_VAR should set the variable');
+  runner.assertEqual(offered(dialogue), 'Password,Learn,Leave', 'The password choice should unlock');
+
+  const stats = world.getComponent<CharacterStats>(playerId, 'CharacterStats')!;
+  world.updateComponent<CharacterStats>(playerId, 'CharacterStats', { ...stats, level: 5 });
+  dialogue.start('gate');
+  runner.assert(offered(dialogue).startsWith('Veteran'), 'Level 5 should unlock the veteran choice');
+
+  dialogue.choose(0);
+  runner.assertEqual(dialogue.getCurrentLine()!.dialogText, 'Guard: Go on through.', 'Lines without choices have no choice code');
+  dialogue.advance();
+  runner.assertEqual(dialogue.getCurrentLine()!.dialogText, 'The gate creaks shut.', 'Narration has no speaker');
+});
+
+// ============= INTEGRATION TESTS =============
+
+runner.test('InteractionSystem - DIALOG starts a dialogue graph', () => {
+  const { world, dialogue, interactions } = runner.setup();
+  interactions.setDialogueRunner(dialogue);
+
+  const elder: Interaction = {
+    id: 'elder_talk',
+    type: InteractionType.TALK,
+    name: 'Elder Maren',
+    description: 'The village elder',
+    range: 50,
+    enabled: true,
+    singleUse: false,
+    used: false,
+    conditions: [{ type: InteractionCondition.ALWAYS, value: true }],
+    actions: [{ type: InteractionActionType.DIALOG, parameters: { dialogueId: 'elder_greeting' } }]
+  };
+  const elderId = interactions.createInteractiveEntity(elder);
+  world.addComponent<Position>(elderId, 'Position', { x: 10, y: 0 });
+
+  interactions.update(0.1);
+  runner.assert(interactions.interact(), 'Talking to the elder should work');
+  runner.assertEqual(dialogue.getCurrentLine()?.nodeId, 'greet', 'The elder\'s dialogue should start');
+});
+
+// Run all tests
+runner.run();
+
+export { runner as dialogueRunnerTestRunner };
@@ -0,0 +1,283 @@
+/**
+ * Enemy AI Tests
+ * @fileoverview Unit tests for enemy behaviour profiles, conditions and target strategies
+ */
+
+import { EnemyAI, AIContext, AIProfile } from '../engine/EnemyAI';
+import { CombatSystem } from '../engine/CombatSystem';
+import { WorldManager } from '../engine/WorldManager';
+import { CombatStats, EntityId, MagicUser, StatusEffect } from '../types';
+import { RNG } from '../utils/rng';
+
+/**
+ * Test runner for enemy AI tests
+ */
+class EnemyAITestRunner {
+  private tests: Array<{ name: string; fn: () => void }> = [];
+  private passed = 0;
+  private failed = 0;
+
+  /**
+   * Registers a test
+   */
+  public test(name: string, fn: () => void): void {
+    this.tests.push({ name, fn });
+  }
+
+  /**
+   * Runs all registered tests
+   */
+  public run(): { passed: number; failed: number } {
+    console.log('Running Enemy AI Tests...\n');
+
+    for (const test of this.tests) {
+      try {
+        test.fn();
+        console.log(`✓ ${test.name}`);
+        this.passed++;
+      } catch (error) {
+        console.log(`✗ ${test.name}`);
+        console.log(`  Error: ${error}`);
+        this.failed++;
+      }
+    }
+
+    console.log(`\nEnemy AI Test Results: ${this.passed} passed, ${this.failed} failed`);
+    return { passed: this.passed, failed: this.failed };
+  }
+
+  /**
+   * Assertion helper
+   */
+  public assert(condition: boolean, message: string): void {
+    if (!condition) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Equality assertion helper
+   */
+  public assertEqual<T>(actual: T, expected: T, message: string): void {
+    if (actual !== expected) {
+      throw new Error(`${message}. Expected: ${expected}, Actual: ${actual}`);
+    }
+  }
+
+  /**
+   * Creates an entity with health, mana and optional known spells
+   */
+  public createCombatant(world: WorldManager, health: number, mana: number = 0, spells: string[] = []): EntityId {
+    const entityId = world.createEntity(['Position', 'Health', 'CombatStats', 'MagicUser']);
+    world.addComponent(entityId, 'Position', { x: 0, y: 0 });
+    world.addComponent(entityId, 'Health', { current: health, max: 100 });
+    world.addComponent(entityId, 'CombatStats', {
+      attacking: false,
+      attack: 10,
+      defense: 4,
+      actionPoints: 3,
+      maxActionPoints: 3
+    });
+    world.addComponent<MagicUser>(entityId, 'MagicUser', {
+      spellCharges: {},
+      knownSpells: { 1: spells },
+      maxSpellsPerLevel: 3,
+      currentMana: mana,
+      maxMana: 100,
+      magicDefense: 0
+    });
+    return entityId;
+  }
+
+  /**
+   * Creates an AI, an enemy and three heroes (the last in the back row)
+   */
+  public setup(enemyHealth: number = 100, enemyId?: string, archetype?: string): {
+    world: WorldManager;
+    ai: EnemyAI;
+    enemy: EntityId;
+    heroes: EntityId[];
+    context: AIContext;
+  } {
+    const world = new WorldManager();
+    const ai = new EnemyAI(new RNG(42));
+    ai.setWorld(world);
+
+    const enemy = this.createCombatant(world, enemyHealth, 50);
+    if (enemyId) {
+      world.addComponent(enemy, 'EnemyInfo', { enemyId, archetype });
+    }
+    const heroes = [80, 30, 60].map(hp => this.createCombatant(world, hp));
+
+    const context: AIContext = {
+      allies: [{ entityId: enemy, row: 'FRONT' }],
+      opponents: heroes.map((entityId, index) => ({ entityId, row: index === 2 ? 'BACK' as const : 'FRONT' as const }))
+    };
+    return { world, ai, enemy, heroes, context };
+  }
+
+  /**
+   * Counts decided actions over a number of turns
+   */
+  public tally(ai: EnemyAI, enemy: EntityId, context: AIContext, turns: number): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (let i = 0; i < turns; i++) {
+      const action = ai.decide(enemy, context)?.action || 'NONE';
+      counts[action] = (counts[action] || 0) + 1;
+    }
+    return counts;
+  }
+}
+
+// Create test runner instance
+const runner = new EnemyAITestRunner();
+
+// ============= PROFILE RESOLUTION TESTS =============
+
+runner.test('EnemyAI - Default profile attacks at full health', () => {
+  const { ai, enemy, heroes, context } = runner.setup(100, 'goblin');
+
+  const decision = ai.decide(enemy, context);
+
+  runner.assertEqual(decision!.action, 'ATTACK', 'Healthy enemy should attack');
+  runner.assert(heroes.includes(decision!.targetId!), 'Attack should target a hero');
+  runner.assertEqual(decision!.profileId, 'default_2', 'Goblin aggression should feed the default profile');
+});
+
+runner.test('EnemyAI - Aggression shapes low-health behaviour', () => {
+  const reckless = runner.setup(10, 'hell_hound');
+  const timid = runner.setup(10, 'slime_green');
+
+  const recklessCounts = runner.tally(reckless.ai, reckless.enemy, reckless.context, 50);
+  const timidCounts = runner.tally(timid.ai, timid.enemy, timid.context, 50);
+
+  runner.assertEqual(recklessCounts.ATTACK, 50, 'Aggression 5 should never back down');
+  runner.assert((timidCounts.DEFEND || 0) + (timidCounts.FLEE || 0) > (timidCounts.ATTACK || 0),
+    'Aggression 1 should mostly defend or flee');
+});
+
+runner.test('EnemyAI - Enemy ID profile wins over archetype', () => {
+  const { ai, enemy, context } = runner.setup(100, 'goblin', 'brute');
+  ai.registerProfile('goblin', { id: 'cowardly_goblin', target: 'RANDOM', actions: [{ action: 'FLEE', weight: 1 }] });
+
+  runner.assertEqual(ai.decide(enemy, context)!.action, 'FLEE', 'Enemy ID profile should be used');
+});
+
+runner.test('EnemyAI - Archetype profile applies without an enemy ID profile', () => {
+  const { ai, enemy, heroes, context } = runner.setup(100, 'goblin', 'brute');
+
+  const decision = ai.decide(enemy, context);
+
+  runner.assertEqual(decision!.profileId, 'brute', 'Archetype profile should be used');
+  runner.assertEqual(decision!.targetId, heroes[1], 'Brute should attack the weakest hero');
+});
+
+// ============= CONDITION TESTS =============
+
+runner.test('EnemyAI - Conditions filter the action table', () => {
+  const { world, ai, enemy, context } = runner.setup(100, 'goblin');
+  const profile: AIProfile = {
+    id: 'conditional',
+    target: 'FRONT_ROW',
+    actions: [
+      { action: 'DEFEND', weight: 1 },
+      { action: 'FLEE', weight: 1000, when: { hasStatus: StatusEffect.POISON } },
+      { action: 'ATTACK', weight: 1000, when: { everyNTurns: 3 } }
+    ]
+  };
+
+  const actions = [1, 2, 3].map(() => ai.decide(enemy, context, profile)!.action);
+  runner.assertEqual(actions.join(','), 'DEFEND,DEFEND,ATTACK', 'Turn condition should apply on the third turn');
+
+  world.addComponent(enemy, 'StatusEffects', {
+    active: { [StatusEffect.POISON]: { duration: 3, potency: 1, source: 'test' } },
+    immunities: [],
+    resistances: {}
+  });
+  runner.assertEqual(ai.decide(enemy, context, profile)!.action, 'FLEE', 'Status condition should enable fleeing');
+});
+
+runner.test('EnemyAI - Skills need enough MP', () => {
+  const { world, ai, enemy, context } = runner.setup(100, 'goblin', 'caster');
+  world.getComponent<MagicUser>(enemy, 'MagicUser')!.currentMana = 0;
+
+  const counts = runner.tally(ai, enemy, context, 20);
+
+  runner.assertEqual(counts.ATTACK, 20, 'Caster without MP should fall back to attacking');
+});
+
+// ============= TARGET STRATEGY TESTS =============
+
+runner.test('EnemyAI - Target strategies pick the expected hero', () => {
+  const { world, ai, enemy, heroes, context } = runner.setup(100, 'goblin');
+  const attackWith = (target: AIProfile['target']) =>
+    ai.decide(enemy, context, { id: target, target, actions: [{ action: 'ATTACK', weight: 1 }] })!.targetId;
+
+  runner.assertEqual(attackWith('LOWEST_HP'), heroes[1], 'Lowest HP should pick the weakest hero');
+  runner.assertEqual(attackWith('HIGHEST_HP'), heroes[0], 'Highest HP should pick the healthiest hero');
+
+  world.getComponent<MagicUser>(heroes[2], 'MagicUser')!.knownSpells = { 1: ['heal_1'] };
+  runner.assertEqual(attackWith('HEALER_FIRST'), heroes[2], 'Healer first should pick the healer');
+});
+
+runner.test('EnemyAI - Support archetype heals wounded allies', () => {
+  const { world, ai, enemy, context } = runner.setup(100, 'goblin', 'support');
+  const ally = runner.createCombatant(world, 20);
+  context.allies.push({ entityId: ally, row: 'FRONT' });
+
+  const decisions = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9].map(() => ai.decide(enemy, context)!);
+  const heal = decisions.find(d => d.action === 'SKILL');
+
+  runner.assertEqual(heal?.skillId, 'heal_1', 'Support should cast heal');
+  runner.assertEqual(heal?.targetId, ally, 'Heal should target the wounded ally');
+});
+
+// ============= DETERMINISM TESTS =============
+
+runner.test('EnemyAI - Seeded RNG reproduces decisions', () => {
+  const first = runner.setup(10, 'goblin');
+  const second = runner.setup(10, 'goblin');
+  const profile: AIProfile = {
+    id: 'chaotic',
+    target: 'RANDOM',
+    actions: [{ action: 'ATTACK', weight: 2 }, { action: 'DEFEND', weight: 1 }]
+  };
+
+  const run = (setup: typeof first) => Array.from({ length: 20 }, () => {
+    const decision = setup.ai.decide(setup.enemy, setup.context, profile)!;
+    return `${decision.action}:${decision.targetId}`;
+  }).join(',');
+
+  runner.assertEqual(run(first), run(second), 'Same seed should give the same decisions');
+});
+
+runner.test('EnemyAI - Combat uses the injected AI', () => {
+  const world = new WorldManager();
+  const combat = new CombatSystem();
+  combat.setWorld(world);
+  const ai = new EnemyAI(new RNG(1));
+  combat.setEnemyAI(ai);
+  ai.registerProfile('goblin', {
+    id: 'goblin_mage',
+    target: 'FRONT_ROW',
+    actions: [{ action: 'SKILL', skillId: 'fire_1', weight: 1 }]
+  });
+
+  const hero = runner.createCombatant(world, 100);
+  const goblin = runner.createCombatant(world, 100, 50);
+  world.addComponent(goblin, 'EnemyInfo', { enemyId: 'goblin' });
+  world.getComponent<CombatStats>(goblin, 'CombatStats')!.speed = 20;
+
+  combat.startCombat(hero, [goblin]);
+  // Intro, enemy thinking time and the spell's cast delay
+  for (let t = 0; t < 5.5; t += 0.1) {
+    combat.update(0.1);
+  }
+
+  runner.assert(world.getComponent<MagicUser>(goblin, 'MagicUser')!.currentMana < 50, 'Goblin should have cast its spell');
+});
+
+// Run all tests
+runner.run();
+
+export { runner as enemyAITestRunner };
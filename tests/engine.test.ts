@@ -169,6 +169,74 @@ runner.test('WorldManager - Component subscription', () => {
   unsubscribe();
 });
 
+runner.test('WorldManager - Query results follow component changes', () => {
+  const world = new WorldManager();
+  const entity1 = world.createEntity(['Position']);
+  const entity2 = world.createEntity(['Position', 'Velocity']);
+
+  const before = world.query(['Position', 'Velocity']);
+  runner.assertEqual(before.length, 1, 'Only entity2 should match at first');
+
+  world.addComponent(entity1, 'Velocity', { dx: 1, dy: 0 });
+  runner.assertEqual(world.query(['Position', 'Velocity']).length, 2, 'Added component should join the query');
+  runner.assertEqual(before.length, 1, 'Earlier results should be a stable snapshot');
+
+  world.removeComponent(entity2, 'Velocity');
+  const after = world.query(['Position', 'Velocity']);
+  runner.assertEqual(after.length, 1, 'Removed component should leave the query');
+  runner.assertEqual(after[0], entity1, 'Entity1 should remain');
+
+  world.destroyEntity(entity1);
+  runner.assertEqual(world.query(['Position', 'Velocity']).length, 0, 'Destroyed entity should leave the query');
+  runner.assertEqual(world.query([]).length, 1, 'Empty query should list every entity');
+});
+
+runner.test('WorldManager - Typed query yields component tuples', () => {
+  const world = new WorldManager();
+  const mover = world.createEntity();
+  world.addComponent<Position>(mover, 'Position', { x: 0, y: 0 });
+  world.addComponent<Velocity>(mover, 'Velocity', { dx: 2, dy: 3 });
+  const still = world.createEntity();
+  world.addComponent<Position>(still, 'Position', { x: 5, y: 5 });
+
+  const movers = world.query<[Position, Velocity]>('Position', 'Velocity');
+  runner.assert(movers === world.query('Position', 'Velocity'), 'Same types should share one query');
+
+  const tuples: unknown[][] = [];
+  movers.forEach(([position, velocity], entityId) => {
+    position.x += velocity.dx;
+    position.y += velocity.dy;
+    tuples.push([entityId]);
+  });
+
+  runner.assertEqual(tuples.length, 1, 'Only the mover should be visited');
+  runner.assertEqual(world.getComponent<Position>(mover, 'Position')!.x, 2, 'Tuple should hold the stored component');
+
+  const late = world.createEntity();
+  world.addComponent<Velocity>(late, 'Velocity', { dx: 0, dy: 0 });
+  world.addComponent<Position>(late, 'Position', { x: 0, y: 0 });
+  runner.assertEqual(movers.size, 2, 'Held query should pick up new matches');
+  runner.assert(movers.includes(late), 'New entity should be included');
+});
+
+runner.test('WorldManager - Destroying entities while iterating a query', () => {
+  const world = new WorldManager();
+  for (let i = 0; i < 5; i++) {
+    const entityId = world.createEntity();
+    world.addComponent<Position>(entityId, 'Position', { x: i, y: 0 });
+  }
+
+  const positions = world.query<[Position]>('Position');
+  let visited = 0;
+  positions.forEach((_components, entityId) => {
+    visited++;
+    world.destroyEntity(entityId);
+  });
+
+  runner.assertEqual(visited, 5, 'Every entity should be visited once');
+  runner.assertEqual(positions.size, 0, 'All entities should have left the query');
+});
+
 // ============= SIMULATED GAME LOOP TESTS =============
 
 runner.test('Simulated GameLoop - Initialization', () => {
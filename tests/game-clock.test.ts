@@ -0,0 +1,244 @@
+/**
+ * Game Clock Tests
+ * @fileoverview Tests for in-game time, day periods, time conditions, timed encounters and clock persistence
+ */
+
+import { GameClock, GameClockEvent, MINUTES_PER_DAY } from '../engine/GameClock';
+import { InteractionSystem, InteractionType, InteractionCondition, InteractionActionType, Interaction } from '../engine/InteractionSystem';
+import { MemorySaveStorage } from '../engine/SaveStorage';
+import { SaveSystem } from '../engine/SaveSystem';
+import { WorldManager } from '../engine/WorldManager';
+import { Position } from '../types';
+import { getLocationEncounters } from '../data/GameData';
+
+/**
+ * Test runner for game clock tests
+ */
+class GameClockTestRunner {
+  private tests: Array<{ name: string; fn: () => Promise<void> }> = [];
+  private passed = 0;
+  private failed = 0;
+
+  /**
+   * Registers a test
+   */
+  public test(name: string, fn: () => Promise<void>): void {
+    this.tests.push({ name, fn });
+  }
+
+  /**
+   * Runs all registered tests
+   */
+  public async run(): Promise<{ passed: number; failed: number }> {
+    console.log('Running Game Clock Tests...\n');
+
+    for (const test of this.tests) {
+      try {
+        await test.fn();
+        console.log(`✓ ${test.name}`);
+        this.passed++;
+      } catch (error) {
+        console.log(`✗ ${test.name}`);
+        console.log(`  Error: ${error}`);
+        this.failed++;
+      }
+    }
+
+    console.log(`\nGame Clock Test Results: ${this.passed} passed, ${this.failed} failed`);
+    return { passed: this.passed, failed: this.failed };
+  }
+
+  /**
+   * Assertion helper
+   */
+  public assert(condition: boolean, message: string): void {
+    if (!condition) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Equality assertion helper
+   */
+  public assertEqual<T>(actual: T, expected: T, message: string): void {
+    if (actual !== expected) {
+      throw new Error(`${message}. Expected: ${expected}, Actual: ${actual}`);
+    }
+  }
+}
+
+// Create test runner instance
+const runner = new GameClockTestRunner();
+
+/**
+ * Creates a clock at a time of day on day 1
+ */
+function clockAt(hour: number, minute: number = 0): GameClock {
+  return new GameClock({ startMinutes: hour * 60 + minute });
+}
+
+// ============= CLOCK TESTS =============
+
+runner.test('GameClock - Fixed updates advance time through the day', async () => {
+  const clock = new GameClock({ minutesPerSecond: 2 });
+  runner.assertEqual(clock.format(), '08:00', 'Clock should start in the morning');
+  runner.assertEqual(clock.getPeriod(), 'day', 'Morning is day');
+
+  for (let i = 0; i < 60; i++) {
+    clock.update(1 / 60);
+  }
+  runner.assertEqual(clock.format(), '08:02', 'One second should pass two minutes');
+
+  clock.advance(12 * 60);
+  runner.assertEqual(clock.getPeriod(), 'night', '20:02 is night');
+
+  clock.advance(MINUTES_PER_DAY);
+  runner.assertEqual(clock.getTime().day, 2, 'A full day should roll the day over');
+  runner.assertEqual(clock.format(), '20:02', 'Time of day should be unchanged after a full day');
+});
+
+runner.test('GameClock - Time scale and stacked pauses', async () => {
+  const clock = clockAt(10);
+
+  clock.setTimeScale(3);
+  clock.update(10);
+  runner.assertEqual(clock.format(), '10:30', 'Time scale should speed the clock up');
+
+  clock.pause('menu');
+  clock.pause('dialog');
+  clock.update(10);
+  clock.resume('menu');
+  clock.update(10);
+  runner.assertEqual(clock.format(), '10:30', 'Clock should stay paused while any reason is held');
+
+  clock.resume('dialog');
+  clock.setTimeScale(0);
+  clock.update(10);
+  runner.assertEqual(clock.format(), '10:30', 'Time scale 0 should stop the clock');
+
+  clock.setTimeScale(1);
+  clock.update(10);
+  runner.assertEqual(clock.format(), '10:40', 'Clock should run again once resumed');
+});
+
+runner.test('GameClock - Events, advanceTo and contained listener failures', async () => {
+  const clock = clockAt(22);
+  const events: GameClockEvent[] = [];
+
+  clock.subscribe(() => {
+    throw new Error('Listener failure');
+  });
+  const unsubscribe = clock.subscribe(event => events.push(event));
+
+  clock.advanceTo(6, 30);
+  runner.assertEqual(clock.getTime().day, 2, 'advanceTo should move to the next morning');
+  runner.assertEqual(clock.format(), '06:30', 'advanceTo should land on the target time');
+  runner.assert(events.some(event => event.type === 'day_changed'), 'Day change should be emitted');
+  runner.assert(events.some(event => event.type === 'period_changed' && event.previous === 'night' && event.time.period === 'dawn'), 'Period change should be emitted');
+
+  unsubscribe();
+  clock.advance(60);
+  runner.assertEqual(events.length, 3, 'Unsubscribed listeners should not be called');
+});
+
+runner.test('GameClock - Time conditions', async () => {
+  runner.assert(clockAt(8).checkCondition('8-20'), 'Range start is inclusive');
+  runner.assert(!clockAt(20).checkCondition('8-20'), 'Range end is exclusive');
+  runner.assert(clockAt(23).checkCondition('20-6'), 'Ranges wrap past midnight');
+  runner.assert(clockAt(3).checkCondition('20-6'), 'Ranges wrap past midnight');
+  runner.assert(!clockAt(12).checkCondition('20-6'), 'Midday is outside a night range');
+  runner.assert(clockAt(8, 45).checkCondition('8:30-9'), 'Minutes are supported');
+  runner.assert(clockAt(19).checkCondition('dusk'), 'Day periods are supported');
+  runner.assert(!clockAt(12).checkCondition('night'), 'Day period should not match other periods');
+  runner.assert(!clockAt(12).checkCondition('noonish'), 'Unparseable conditions should fail');
+});
+
+runner.test('GameClock - Tint darkens at night', async () => {
+  runner.assertEqual(clockAt(12).getTint(), 0xFFFFFFFF, 'Midday should be untinted');
+
+  const night = clockAt(0).getTint();
+  const red = (night >>> 24) & 0xFF;
+  const blue = (night >>> 8) & 0xFF;
+  runner.assert(red < 0x80 && blue > red, 'Night should be dark and blue');
+  runner.assertEqual(night & 0xFF, 0xFF, 'Tint should be opaque');
+});
+
+runner.test('InteractionSystem - REQUIRES_TIME gates interactions by clock', async () => {
+  const world = new WorldManager();
+  const playerId = world.createEntity(['Position']);
+  world.addComponent<Position>(playerId, 'Position', { x: 0, y: 0 });
+
+  const interactions = new InteractionSystem();
+  interactions.setWorld(world);
+  interactions.setPlayer(playerId);
+
+  const shop: Interaction = {
+    id: 'weapon_shop',
+    type: InteractionType.SHOP,
+    name: 'Weapon Shop',
+    description: 'Open from 8 to 20',
+    range: 50,
+    enabled: true,
+    singleUse: false,
+    used: false,
+    conditions: [{ type: InteractionCondition.REQUIRES_TIME, value: '8-20' }],
+    actions: [{ type: InteractionActionType.DIALOG, parameters: { text: 'Welcome!' } }]
+  };
+  const shopId = interactions.createInteractiveEntity(shop);
+  world.addComponent<Position>(shopId, 'Position', { x: 10, y: 0 });
+
+  interactions.update(0.1);
+  runner.assertEqual(interactions.getAvailableInteractions().length, 0, 'Time conditions should fail without a clock');
+
+  const clock = clockAt(7);
+  interactions.setClock(clock);
+  interactions.update(0.1);
+  runner.assertEqual(interactions.getAvailableInteractions().length, 0, 'Shop should be closed before 8');
+
+  clock.advance(60);
+  interactions.update(0.1);
+  runner.assertEqual(interactions.getAvailableInteractions().length, 1, 'Shop should open at 8');
+});
+
+runner.test('Encounters - Timed encounters join the table for their period', async () => {
+  const day = getLocationEncounters('sanctum_of_discord', 'day');
+  const night = getLocationEncounters('sanctum_of_discord', 'night');
+
+  runner.assert(!day.includes('skeleton'), 'Night encounters should not appear by day');
+  runner.assert(night.includes('skeleton') && night.includes('goblin'), 'Night encounters should add to the base table');
+  runner.assertEqual(getLocationEncounters('nowhere', 'day').length, 0, 'Unknown locations have no encounters');
+});
+
+runner.test('SaveSystem - Game time is saved and restored', async () => {
+  const world = new WorldManager();
+  const entityId = world.createEntity(['Position', 'Health', 'Sprite', 'CombatStats', 'Velocity']);
+  world.addComponent<Position>(entityId, 'Position', { x: 0, y: 0 });
+  world.addComponent(entityId, 'Health', { current: 100, max: 100 });
+  world.addComponent(entityId, 'Sprite', { textureId: 'hero', frameIndex: 0, width: 32, height: 32 });
+  world.addComponent(entityId, 'CombatStats', { attacking: false, attack: 10, defense: 10, actionPoints: 3, maxActionPoints: 3 });
+  world.addComponent(entityId, 'Velocity', { dx: 0, dy: 0 });
+
+  const storage = new MemorySaveStorage();
+  const saveSystem = new SaveSystem(storage);
+  saveSystem.setWorld(world);
+  runner.assert(await saveSystem.saveGame(1, 'No clock'), 'Saving without a clock should work');
+
+  const clock = clockAt(21, 15);
+  clock.advance(MINUTES_PER_DAY);
+  saveSystem.setClock(clock);
+  runner.assert(await saveSystem.saveGame(2, 'Evening'), 'Save should succeed');
+
+  clock.advance(600);
+  runner.assert(await saveSystem.loadGame(2), 'Load should succeed');
+  runner.assertEqual(clock.getTime().day, 2, 'Day should be restored');
+  runner.assertEqual(clock.format(), '21:15', 'Time should be restored');
+
+  clock.advance(60);
+  runner.assert(await saveSystem.loadGame(1), 'Saves without game time should load');
+  runner.assertEqual(clock.format(), '22:15', 'Saves without game time should leave the clock alone');
+});
+
+// Run all tests
+
+
+export { runner as gameClockTestRunner };
@@ -271,14 +271,14 @@ runner.test('Integration - World and Save System', async () => {
   world.addComponent(entityId, 'Velocity', { dx: 0, dy: 0 });
 
   // Save game
-  const saveSuccess = saveSystem.saveGame(1, 'Integration Test');
+  const saveSuccess = await saveSystem.saveGame(1, 'Integration Test');
   runner.assert(saveSuccess, 'Save should succeed');
 
   // Clear world
   world.clear();
 
   // Load game
-  const loadSuccess = saveSystem.loadGame(1);
+  const loadSuccess = await saveSystem.loadGame(1);
   runner.assert(loadSuccess, 'Load should succeed');
 
   // Verify loaded entity
@@ -420,8 +420,8 @@ runner.test('Integration - Debug tools with all systems', async () => {
   debugTools.executeCommand('heal');
 
   // Test save/load with debug
-  saveSystem.saveGame(1, 'Debug Test');
-  saveSystem.loadGame(1);
+  await saveSystem.saveGame(1, 'Debug Test');
+  await saveSystem.loadGame(1);
 
   // Should not throw
   runner.assert(true, 'Debug tools integration should work');
@@ -569,14 +569,14 @@ runner.test('Integration - Data consistency across systems', async () => {
   cameraSystem.update(0.016);
 
   // Save game
-  const saveSuccess = saveSystem.saveGame(1, 'Data Consistency Test');
+  const saveSuccess = await saveSystem.saveGame(1, 'Data Consistency Test');
   runner.assert(saveSuccess, 'Save should succeed');
 
   // Clear world
   world.clear();
 
   // Load game
-  const loadSuccess = saveSystem.loadGame(1);
+  const loadSuccess = await saveSystem.loadGame(1);
   runner.assert(loadSuccess, 'Load should succeed');
 
   // Verify loaded data consistency
@@ -56,9 +56,11 @@ runner.test('WorldManager - Basic functionality', () => {
   world.addComponent(entityId, 'CombatStats', { 
     attacking: false, 
     attack: 15, 
-    defense: 8 
+    defense: 8,
+    actionPoints: 3,
+    maxActionPoints: 3
   });
-  world.addComponent(entityId, 'Sprite', { textureId: 'hero', frameIndex: 0 });
+  world.addComponent(entityId, 'Sprite', { textureId: 'hero', frameIndex: 0, width: 32, height: 32 });
   
   const position = world.getComponent(entityId, 'Position');
   const health = world.getComponent(entityId, 'Health');
@@ -88,14 +90,14 @@ runner.test('SaveSystem - Basic save operation', () => {
   const entityId = world.createEntity(['Position', 'Health', 'Sprite']);
   world.addComponent(entityId, 'Position', { x: 100, y: 200 });
   world.addComponent(entityId, 'Health', { current: 75, max: 100 });
-  world.addComponent(entityId, 'Sprite', { textureId: 'hero', frameIndex: 0 });
+  world.addComponent(entityId, 'Sprite', { textureId: 'hero', frameIndex: 0, width: 32, height: 32 });
   
   // Test save (should not crash)
   const saveResult = saveSystem.saveGame(1, 'Test Save');
   
-  // Just verify it doesn't crash - localStorage errors are expected
-  if (typeof saveResult !== 'boolean') {
-    throw new Error('Save should return boolean');
+  // Just verify it doesn't crash - storage errors are reported through the promise
+  if (!(saveResult instanceof Promise)) {
+    throw new Error('Save should return a promise');
   }
 });
 
@@ -7,32 +7,33 @@ import { WorldManager } from '../engine/WorldManager';
 import { CombatSystem } from '../engine/CombatSystem';
 import { CameraSystem } from '../engine/CameraSystem';
 import { SaveSystem } from '../engine/SaveSystem';
+import { MemorySaveStorage } from '../engine/SaveStorage';
 import { EntityId, Position, Health, CombatStats, Sprite, Velocity } from '../types';
 
 /**
  * Performance test runner
  */
 class PerformanceTestRunner {
-  private tests: Array<{ name: string; fn: () => void }> = [];
+  private tests: Array<{ name: string; fn: () => void | Promise<void> }> = [];
   private passed = 0;
   private failed = 0;
 
   /**
    * Registers a test
    */
-  public test(name: string, fn: () => void): void {
+  public test(name: string, fn: () => void | Promise<void>): void {
     this.tests.push({ name, fn });
   }
 
   /**
    * Runs all registered tests
    */
-  public run(): { passed: number; failed: number } {
+  public async run(): Promise<{ passed: number; failed: number }> {
     console.log('Running Performance Tests...\n');
 
     for (const test of this.tests) {
       try {
-        test.fn();
+        await test.fn();
         console.log(`✓ ${test.name}`);
         this.passed++;
       } catch (error) {
@@ -128,6 +129,23 @@ class PerformanceTestRunner {
 
     return { duration, result: result! };
   }
+
+  /**
+   * Measures performance of an async function
+   */
+  private async measureAsyncPerformance<T>(fn: () => Promise<T>, iterations: number = 1): Promise<{ duration: number; result: T }> {
+    const startTime = performance.now();
+    let result: T;
+
+    for (let i = 0; i < iterations; i++) {
+      result = await fn();
+    }
+
+    const endTime = performance.now();
+    const duration = endTime - startTime;
+
+    return { duration, result: result! };
+  }
 }
 
 // Create test runner instance
@@ -226,6 +244,88 @@ runner.test('WorldManager - Entity destruction performance', () => {
   runner.assertPerformance(duration, 100, 'Entity destruction should be fast');
 });
 
+// ============= 10K ENTITY BENCHMARKS =============
+
+/**
+ * Creates 10,000 moving entities, every tenth one with Health
+ */
+const createTenThousandEntities = (world: WorldManager): EntityId[] => {
+  const entities: EntityId[] = [];
+  for (let i = 0; i < 10000; i++) {
+    const entityId = world.createEntity();
+    world.addComponent<Position>(entityId, 'Position', { x: i, y: i });
+    world.addComponent<Velocity>(entityId, 'Velocity', { dx: 1, dy: 1 });
+    if (i % 10 === 0) {
+      world.addComponent<Health>(entityId, 'Health', { current: 100, max: 100 });
+    }
+    entities.push(entityId);
+  }
+  return entities;
+};
+
+runner.test('WorldManager - 10k entity creation', () => {
+  const world = new WorldManager();
+
+  const { duration } = runner.measurePerformance(() => createTenThousandEntities(world));
+
+  runner.assert(world.query(['Position', 'Velocity']).length === 10000, 'All entities should match');
+  runner.assertPerformance(duration, 1000, '10k entities should be created quickly');
+  world.clear();
+});
+
+runner.test('WorldManager - 10k entity typed query iteration', () => {
+  const world = new WorldManager();
+  createTenThousandEntities(world);
+  const movers = world.query<[Position, Velocity]>('Position', 'Velocity');
+
+  const { duration } = runner.measurePerformance(() => {
+    // One second of frames
+    for (let frame = 0; frame < 60; frame++) {
+      movers.forEach(([position, velocity]) => {
+        position.x += velocity.dx / 60;
+        position.y += velocity.dy / 60;
+      });
+    }
+  });
+
+  runner.assertPerformance(duration, 500, 'Iterating 10k tuples for 60 frames should be fast');
+  world.clear();
+});
+
+runner.test('WorldManager - 10k entity queries under component churn', () => {
+  const world = new WorldManager();
+  const entities = createTenThousandEntities(world);
+
+  const { duration } = runner.measurePerformance(() => {
+    // Toggle a component on a few entities between queries, as gameplay does every frame
+    for (let frame = 0; frame < 200; frame++) {
+      const entityId = entities[(frame * 37) % entities.length];
+      world.addComponent(entityId, 'StatusEffects', { active: {}, immunities: [], resistances: {} });
+      world.query(['Position', 'Velocity']);
+      world.query(['Position', 'Health']);
+      world.removeComponent(entityId, 'StatusEffects');
+      world.query(['Position', 'Velocity']);
+    }
+  });
+
+  runner.assert(world.query(['Position', 'Health']).length === 1000, 'Health query should stay correct');
+  runner.assertPerformance(duration, 100, 'Queries should not rescan the world after every change');
+  world.clear();
+});
+
+runner.test('WorldManager - 10k entity destruction', () => {
+  const world = new WorldManager();
+  const entities = createTenThousandEntities(world);
+  const movers = world.query<[Position, Velocity]>('Position', 'Velocity');
+
+  const { duration } = runner.measurePerformance(() => {
+    entities.forEach(entityId => world.destroyEntity(entityId));
+  });
+
+  runner.assert(movers.size === 0, 'Held query should be empty');
+  runner.assertPerformance(duration, 1000, '10k entities should be destroyed quickly');
+});
+
 // ============= COMBAT SYSTEM PERFORMANCE TESTS =============
 
 runner.test('CombatSystem - Large battle performance', () => {
@@ -317,9 +417,9 @@ runner.test('CameraSystem - Tracking performance', () => {
 
 // ============= SAVE SYSTEM PERFORMANCE TESTS =============
 
-runner.test('SaveSystem - Large save performance', () => {
+runner.test('SaveSystem - Large save performance', async () => {
   const world = new WorldManager();
-  const saveSystem = new SaveSystem();
+  const saveSystem = new SaveSystem(new MemorySaveStorage());
 
   saveSystem.setWorld(world);
 
@@ -351,9 +451,9 @@ runner.test('SaveSystem - Large save performance', () => {
     entities.push(entityId);
   }
 
-  const { duration } = runner.measurePerformance(() => {
+  const { duration } = await runner.measureAsyncPerformance(async () => {
     // Save game
-    const success = saveSystem.saveGame(1, 'Performance Test');
+    const success = await saveSystem.saveGame(1, 'Performance Test');
     runner.assert(success, 'Large save should succeed');
   });
 
@@ -364,9 +464,9 @@ runner.test('SaveSystem - Large save performance', () => {
   world.clear();
 });
 
-runner.test('SaveSystem - Load performance', () => {
+runner.test('SaveSystem - Load performance', async () => {
   const world = new WorldManager();
-  const saveSystem = new SaveSystem();
+  const saveSystem = new SaveSystem(new MemorySaveStorage());
 
   saveSystem.setWorld(world);
 
@@ -400,12 +500,12 @@ runner.test('SaveSystem - Load performance', () => {
   }
 
   // Save first
-  saveSystem.saveGame(1, 'Load Performance Test');
+  await saveSystem.saveGame(1, 'Load Performance Test');
   world.clear();
 
-  const { duration } = runner.measurePerformance(() => {
+  const { duration } = await runner.measureAsyncPerformance(async () => {
     // Load game
-    const success = saveSystem.loadGame(1);
+    const success = await saveSystem.loadGame(1);
     runner.assert(success, 'Load should succeed');
   });
 
@@ -474,7 +574,7 @@ runner.test('Performance - Memory allocation patterns', () => {
       world.addComponent(entityId, 'Position', { x: i, y: i });
       world.addComponent(entityId, 'Velocity', { dx: i, dy: i });
       world.addComponent(entityId, 'Health', { current: 100, max: 100 });
-      world.addComponent(entityId, 'Sprite', { textureId: 'test', frameIndex: 0, visible: true });
+      world.addComponent(entityId, 'Sprite', { textureId: 'test', frameIndex: 0, width: 16, height: 16 });
       entities.push(entityId);
     }
 
@@ -546,6 +646,6 @@ runner.test('Performance - Query optimization', () => {
 });
 
 // Run all tests
-runner.run();
+
 
 export { runner as performanceTestRunner };
\ No newline at end of file
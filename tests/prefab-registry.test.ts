@@ -0,0 +1,218 @@
+/**
+ * Prefab Registry Tests
+ * @fileoverview Tests for prefab inheritance, instantiation and entity hierarchies
+ */
+
+import { PrefabRegistry } from '../engine/PrefabRegistry';
+import { WorldManager } from '../engine/WorldManager';
+import { movementSystem, transformSystem } from '../engine/Systems';
+import { CombatStats, Collision, EnemyInfo, Health, Position, Sprite } from '../types';
+
+/**
+ * Test runner for prefab registry tests
+ */
+class PrefabRegistryTestRunner {
+  private tests: Array<{ name: string; fn: () => void }> = [];
+  private passed = 0;
+  private failed = 0;
+
+  /**
+   * Registers a test
+   */
+  public test(name: string, fn: () => void): void {
+    this.tests.push({ name, fn });
+  }
+
+  /**
+   * Runs all registered tests
+   */
+  public run(): { passed: number; failed: number } {
+    console.log('Running Prefab Registry Tests...\n');
+
+    for (const test of this.tests) {
+      try {
+        test.fn();
+        console.log(`✓ ${test.name}`);
+        this.passed++;
+      } catch (error) {
+        console.log(`✗ ${test.name}`);
+        console.log(`  Error: ${error}`);
+        this.failed++;
+      }
+    }
+
+    console.log(`\nPrefab Registry Test Results: ${this.passed} passed, ${this.failed} failed`);
+    return { passed: this.passed, failed: this.failed };
+  }
+
+  /**
+   * Assertion helper
+   */
+  public assert(condition: boolean, message: string): void {
+    if (!condition) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Equality assertion helper
+   */
+  public assertEqual<T>(actual: T, expected: T, message: string): void {
+    if (actual !== expected) {
+      throw new Error(`${message}. Expected: ${expected}, Actual: ${actual}`);
+    }
+  }
+
+  /**
+   * Creates a registry with a small inheritance chain
+   */
+  public createRegistry(): PrefabRegistry {
+    return new PrefabRegistry({
+      base: {
+        id: 'base',
+        components: {
+          Position: { x: 0, y: 0 },
+          Sprite: { textureId: 'base', frameIndex: 0, width: 16, height: 16 }
+        }
+      },
+      knight: {
+        id: 'knight',
+        extends: 'base',
+        components: {
+          Sprite: { textureId: 'knight', height: 24 },
+          Health: { current: 50, max: 50 }
+        },
+        children: [{ prefab: 'sword', offset: { x: 8, y: 2 } }]
+      },
+      sword: {
+        id: 'sword',
+        extends: 'base',
+        components: {
+          Sprite: { textureId: 'sword' }
+        }
+      }
+    });
+  }
+}
+
+// Create test runner instance
+const runner = new PrefabRegistryTestRunner();
+
+// ============= REGISTRY TESTS =============
+
+runner.test('PrefabRegistry - Inherited components merge key by key', () => {
+  const registry = runner.createRegistry();
+  const components = registry.build('knight')!;
+  const sprite = components.Sprite as Sprite;
+
+  runner.assertEqual(sprite.textureId, 'knight', 'Own value should win');
+  runner.assertEqual(sprite.height, 24, 'Own value should win');
+  runner.assertEqual(sprite.width, 16, 'Unset keys should be inherited');
+  runner.assert('Position' in components, 'Inherited components should be included');
+  runner.assertEqual((components.Health as Health).max, 50, 'Own components should be included');
+});
+
+runner.test('PrefabRegistry - Overrides replace defaults and null removes components', () => {
+  const registry = runner.createRegistry();
+  const components = registry.build('knight', { Position: { x: 5 }, Health: null })!;
+
+  runner.assertEqual((components.Position as Position).x, 5, 'Override should apply');
+  runner.assertEqual((components.Position as Position).y, 0, 'Unset keys should keep defaults');
+  runner.assert(!('Health' in components), 'Null should remove the component');
+});
+
+runner.test('PrefabRegistry - Instances never share component data', () => {
+  const registry = runner.createRegistry();
+  const first = registry.build('knight')!;
+  (first.Position as Position).x = 99;
+
+  runner.assertEqual((registry.build('knight')!.Position as Position).x, 0, 'Defaults should be copied per instance');
+});
+
+runner.test('PrefabRegistry - Unknown prefabs and inheritance cycles fail to resolve', () => {
+  const registry = runner.createRegistry();
+  registry.register({ id: 'orphan', extends: 'missing', components: {} });
+  registry.register({ id: 'loop_a', extends: 'loop_b', components: {} });
+  registry.register({ id: 'loop_b', extends: 'loop_a', components: {} });
+
+  runner.assertEqual(registry.resolve('nope'), null, 'Unknown prefab should not resolve');
+  runner.assertEqual(registry.resolve('orphan'), null, 'Missing ancestor should not resolve');
+  runner.assertEqual(registry.resolve('loop_a'), null, 'Cycles should not resolve');
+});
+
+runner.test('PrefabRegistry - Game prefabs exist for every enemy', () => {
+  const world = new WorldManager();
+  const goblinId = world.instantiate('goblin', { Position: { x: 40, y: 60 } })!;
+
+  runner.assertEqual(world.getComponent<EnemyInfo>(goblinId, 'EnemyInfo')!.enemyId, 'goblin', 'Enemy info should name the enemy');
+  runner.assertEqual(world.getComponent<Health>(goblinId, 'Health')!.max, 25, 'Health should come from the enemy stats');
+  runner.assertEqual(world.getComponent<CombatStats>(goblinId, 'CombatStats')!.actionPoints, 3, 'Base enemy defaults should be inherited');
+  runner.assertEqual(world.getComponent<Collision>(goblinId, 'Collision')!.height, 24, 'Collision should match the sprite');
+  runner.assertEqual(world.getComponent<Position>(goblinId, 'Position')!.x, 40, 'Overrides should apply');
+});
+
+// ============= HIERARCHY TESTS =============
+
+runner.test('WorldManager - Instantiating a prefab spawns its children', () => {
+  const world = new WorldManager();
+  world.setPrefabRegistry(runner.createRegistry());
+
+  const knightId = world.instantiate('knight', { Position: { x: 100, y: 50 } })!;
+  const [swordId] = world.getChildren(knightId);
+
+  runner.assert(swordId !== undefined, 'Sword should be attached');
+  runner.assertEqual(world.getParent(swordId), knightId, 'Sword parent should be the knight');
+  runner.assertEqual(world.getComponent<Position>(swordId, 'Position')!.x, 108, 'Sword should start at its offset');
+  runner.assertEqual(world.instantiate('nope'), null, 'Unknown prefab should not instantiate');
+});
+
+runner.test('WorldManager - Children follow their parent', () => {
+  const world = new WorldManager();
+  world.setPrefabRegistry(runner.createRegistry());
+  const knightId = world.instantiate('knight', { Velocity: { dx: 10, dy: 0 } })!;
+  const swordId = world.getChildren(knightId)[0];
+
+  movementSystem(world, 1);
+  transformSystem(world, 1);
+
+  runner.assertEqual(world.getComponent<Position>(knightId, 'Position')!.x, 10, 'Knight should move');
+  runner.assertEqual(world.getComponent<Position>(swordId, 'Position')!.x, 18, 'Sword should follow');
+  runner.assertEqual(world.getComponent<Position>(swordId, 'Position')!.y, 2, 'Sword should keep its offset');
+});
+
+runner.test('WorldManager - Destroying a parent destroys its children', () => {
+  const world = new WorldManager();
+  world.setPrefabRegistry(runner.createRegistry());
+  const knightId = world.instantiate('knight')!;
+  const swordId = world.getChildren(knightId)[0];
+  const gemId = world.instantiate('base')!;
+  world.setParent(gemId, swordId);
+
+  world.destroyEntity(knightId);
+
+  runner.assert(!world.entities.has(swordId), 'Child should be destroyed');
+  runner.assert(!world.entities.has(gemId), 'Grandchild should be destroyed');
+});
+
+runner.test('WorldManager - Reparenting and detaching children', () => {
+  const world = new WorldManager();
+  world.setPrefabRegistry(runner.createRegistry());
+  const knightId = world.instantiate('knight')!;
+  const otherId = world.instantiate('knight', { Position: { x: 200, y: 0 } })!;
+  const swordId = world.getChildren(knightId)[0];
+
+  runner.assert(!world.setParent(knightId, swordId), 'An entity cannot be parented to its descendant');
+  runner.assert(world.setParent(swordId, otherId), 'Reparenting should succeed');
+  runner.assertEqual(world.getChildren(knightId).length, 0, 'Old parent should lose the child');
+  runner.assertEqual(world.getChildren(otherId).length, 2, 'New parent should gain the child');
+  runner.assertEqual(world.getComponent<Position>(swordId, 'Position')!.x, 8, 'Reparenting should keep the world position');
+
+  world.setParent(swordId, null);
+  world.destroyEntity(otherId);
+  runner.assert(world.entities.has(swordId), 'Detached child should survive its old parent');
+});
+
+// Run all tests
+runner.run();
+
+export { runner as prefabRegistryTestRunner };
@@ -0,0 +1,321 @@
+/**
+ * Quest System Tests
+ * @fileoverview Unit tests for quest stages, objective tracking, rewards, interaction hooks and persistence
+ */
+
+import { QuestSystem, QuestEvent } from '../engine/QuestSystem';
+import { RewardSystem } from '../engine/RewardSystem';
+import { CombatSystem, CombatAction, CombatState } from '../engine/CombatSystem';
+import { InteractionSystem, InteractionType, InteractionCondition, InteractionActionType, Interaction } from '../engine/InteractionSystem';
+import { WorldManager } from '../engine/WorldManager';
+import { CharacterClass, CharacterStats, EntityId, Inventory, Position, QuestDef } from '../types';
+import { GAME_CONFIG, QUESTS_DATABASE, getItem } from '../data/GameData';
+import { RNG } from '../utils/rng';
+
+/**
+ * Test runner for quest system tests
+ */
+class QuestSystemTestRunner {
+  private tests: Array<{ name: string; fn: () => void }> = [];
+  private passed = 0;
+  private failed = 0;
+
+  /**
+   * Registers a test
+   */
+  public test(name: string, fn: () => void): void {
+    this.tests.push({ name, fn });
+  }
+
+  /**
+   * Runs all registered tests
+   */
+  public run(): { passed: number; failed: number } {
+    console.log('Running Quest System Tests...\n');
+
+    for (const test of this.tests) {
+      try {
+        test.fn();
+        console.log(`✓ ${test.name}`);
+        this.passed++;
+      } catch (error) {
+        console.log(`✗ ${test.name}`);
+        console.log(`  Error: ${error}`);
+        this.failed++;
+      }
+    }
+
+    console.log(`\nQuest System Test Results: ${this.passed} passed, ${this.failed} failed`);
+    return { passed: this.passed, failed: this.failed };
+  }
+
+  /**
+   * Assertion helper
+   */
+  public assert(condition: boolean, message: string): void {
+    if (!condition) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Equality assertion helper
+   */
+  public assertEqual<T>(actual: T, expected: T, message: string): void {
+    if (actual !== expected) {
+      throw new Error(`${message}. Expected: ${expected}, Actual: ${actual}`);
+    }
+  }
+
+  /**
+   * Creates a world with a player and a quest system tracking them
+   */
+  public setup(quests: Record<string, QuestDef> = QUESTS_DATABASE): { world: WorldManager; quests: QuestSystem; playerId: EntityId } {
+    const world = new WorldManager();
+    const playerId = world.createEntity(['Position', 'Inventory', 'CharacterStats']);
+    world.addComponent<Position>(playerId, 'Position', { x: 0, y: 0 });
+    world.addComponent<Inventory>(playerId, 'Inventory', { items: [], gold: 0 });
+    world.addComponent<CharacterStats>(playerId, 'CharacterStats', {
+      class: CharacterClass.WARRIOR,
+      level: 1,
+      experience: 0,
+      experienceToNext: 100,
+      strength: 10,
+      agility: 10,
+      intelligence: 10,
+      vitality: 10,
+      luck: 10,
+      baseHealth: 100,
+      baseMana: 0
+    });
+
+    const questSystem = new QuestSystem(quests);
+    questSystem.setWorld(world);
+    questSystem.setPlayer(playerId);
+    return { world, quests: questSystem, playerId };
+  }
+}
+
+// Create test runner instance
+const runner = new QuestSystemTestRunner();
+
+// ============= DATA TESTS =============
+
+runner.test('Quests - Definitions reference real items and unique IDs', () => {
+  Object.entries(QUESTS_DATABASE).forEach(([questId, quest]) => {
+    runner.assertEqual(quest.id, questId, `Quest ${questId} should be keyed by its ID`);
+    const objectiveIds = quest.stages.flatMap(stage => stage.objectives.map(objective => objective.id));
+    runner.assertEqual(new Set(objectiveIds).size, objectiveIds.length, `Objective IDs in ${questId} should be unique`);
+
+    quest.stages.flatMap(stage => stage.objectives).filter(objective => objective.type === 'collect').forEach(objective => {
+      runner.assert(getItem(objective.target) !== null, `${questId} should collect a real item`);
+    });
+    (quest.rewards.items || []).forEach(({ itemId }) => runner.assert(getItem(itemId) !== null, `${questId} should reward a real item`));
+    (quest.prerequisites || []).forEach(prerequisite => runner.assert(prerequisite in QUESTS_DATABASE, `${questId} prerequisites should exist`));
+  });
+});
+
+// ============= PROGRESS TESTS =============
+
+runner.test('Quests - Stages advance as objectives are met and rewards are granted', () => {
+  const { world, quests, playerId } = runner.setup();
+  const rewards = new RewardSystem(new RNG(1));
+  rewards.setWorld(world);
+  quests.setRewardSystem(rewards);
+  const events: string[] = [];
+  quests.subscribe(event => events.push(event.type));
+
+  runner.assert(quests.startQuest('goblin_trouble'), 'Quest should start');
+  runner.assert(!quests.startQuest('goblin_trouble'), 'Quest should not start twice');
+
+  quests.recordTalk('elder_talk');
+  runner.assertEqual(quests.getQuestProgress('goblin_trouble')!.stageIndex, 0, 'Later-stage objectives should not count early');
+
+  quests.recordDefeat('goblin');
+  quests.recordDefeat('slime_green');
+  quests.recordDefeat('goblin');
+  runner.assertEqual(quests.getActiveQuests()[0].objectives[0].current, 2, 'Only matching enemies should count');
+  quests.recordDefeat('goblin');
+  runner.assertEqual(quests.getQuestProgress('goblin_trouble')!.stageDescription, 'Return to the village elder.', 'Second stage should start');
+
+  quests.recordTalk('elder_talk');
+  runner.assertEqual(quests.getQuestStatus('goblin_trouble'), 'completed', 'Quest should complete');
+  runner.assertEqual(events.filter(type => type === 'stage_completed').length, 2, 'Each stage should be announced');
+  runner.assertEqual(events[events.length - 1], 'quest_completed', 'Completion should be announced last');
+
+  const inventory = world.getComponent<Inventory>(playerId, 'Inventory')!;
+  runner.assertEqual(inventory.gold, 50, 'Gold should be rewarded');
+  runner.assertEqual(inventory.items.find(item => item.itemId === 'potion_health')!.quantity, 2, 'Items should be rewarded');
+  runner.assertEqual(world.getComponent<CharacterStats>(playerId, 'CharacterStats')!.experience, 60, 'Experience should be rewarded');
+});
+
+runner.test('Quests - Gold rewards stop at the gold cap', () => {
+  const { world, quests, playerId } = runner.setup();
+  world.updateComponent<Inventory>(playerId, 'Inventory', { items: [], gold: GAME_CONFIG.MAX_GOLD - 10 });
+
+  quests.startQuest('goblin_trouble');
+  quests.completeQuest('goblin_trouble');
+
+  runner.assertEqual(world.getComponent<Inventory>(playerId, 'Inventory')!.gold, GAME_CONFIG.MAX_GOLD, 'Gold should be capped');
+});
+
+runner.test('Quests - Prerequisites gate starting a quest', () => {
+  const { quests } = runner.setup();
+
+  runner.assert(!quests.startQuest('herbalist_errand'), 'Quest should need its prerequisite');
+  quests.startQuest('goblin_trouble');
+  quests.completeQuest('goblin_trouble');
+  runner.assert(quests.startQuest('herbalist_errand'), 'Quest should start once the prerequisite is done');
+  runner.assert(!quests.startQuest('no_such_quest'), 'Unknown quests should not start');
+});
+
+runner.test('Quests - Collect counts carried items and reach checks the player position', () => {
+  const { world, quests, playerId } = runner.setup();
+  quests.startQuest('goblin_trouble');
+  quests.completeQuest('goblin_trouble');
+  quests.startQuest('herbalist_errand');
+
+  const inventory = world.getComponent<Inventory>(playerId, 'Inventory')!;
+  inventory.items.push({ itemId: 'herb_healing', quantity: 5 });
+  quests.update(0.1);
+  const objectives = quests.getQuestProgress('herbalist_errand')!.objectives;
+  runner.assertEqual(objectives[0].current, 3, 'Collected count should be capped at the requirement');
+  runner.assert(!objectives[1].complete, 'Location should not be reached yet');
+
+  world.updateComponent<Position>(playerId, 'Position', { x: 330, y: 100 });
+  quests.update(0.1);
+  runner.assertEqual(quests.getQuestStatus('herbalist_errand'), 'completed', 'Quest should complete at the hut');
+  runner.assertEqual(quests.getCompletedQuests().map(quest => quest.id).join(','), 'goblin_trouble,herbalist_errand', 'Journal should list completed quests in order');
+});
+
+runner.test('Quests - Defeats are counted from combat events', () => {
+  const { world, quests } = runner.setup();
+  const combat = new CombatSystem({ damageVariance: 0, criticalHitChance: 0 });
+  combat.setWorld(world);
+  const unsubscribe = quests.trackCombat(combat);
+  quests.startQuest('goblin_trouble');
+
+  const hero = world.createEntity(['Position', 'Health', 'CombatStats']);
+  world.addComponent(hero, 'Position', { x: 0, y: 0 });
+  world.addComponent(hero, 'Health', { current: 100, max: 100 });
+  world.addComponent(hero, 'CombatStats', { attacking: false, attack: 20, defense: 5, actionPoints: 3, maxActionPoints: 3 });
+  const goblin = world.createEntity(['Position', 'Health', 'CombatStats', 'EnemyInfo']);
+  world.addComponent(goblin, 'Position', { x: 5, y: 0 });
+  world.addComponent(goblin, 'Health', { current: 1, max: 1 });
+  world.addComponent(goblin, 'CombatStats', { attacking: false, attack: 5, defense: 0, actionPoints: 3, maxActionPoints: 3 });
+  world.addComponent(goblin, 'EnemyInfo', { enemyId: 'goblin' });
+
+  combat.startCombat(hero, [goblin]);
+  for (let t = 0; t < 2.1; t += 0.1) combat.update(0.1);
+  combat.queueAction({ id: 'attack', type: CombatAction.ATTACK, actorId: hero, targetId: goblin, data: {} });
+  for (let t = 0; t < 1.1; t += 0.1) combat.update(0.1);
+
+  runner.assertEqual(combat.getCurrentState(), CombatState.VICTORY, 'Combat should be won');
+  runner.assertEqual(quests.getActiveQuests()[0].objectives[0].current, 1, 'The defeated goblin should count');
+  unsubscribe();
+});
+
+runner.test('Quests - Listener failures are contained', () => {
+  const { quests } = runner.setup();
+  const received: QuestEvent[] = [];
+  quests.subscribe(() => {
+    throw new Error('listener failure');
+  });
+  quests.subscribe(event => received.push(event));
+
+  runner.assert(quests.startQuest('goblin_trouble'), 'Quest should start despite the failing listener');
+  runner.assertEqual(received[0].type, 'quest_started', 'Other listeners should still be called');
+});
+
+// ============= INTERACTION TESTS =============
+
+runner.test('InteractionSystem - Quest actions, conditions and talk objectives', () => {
+  const { world, quests, playerId } = runner.setup();
+  const interactions = new InteractionSystem();
+  interactions.setWorld(world);
+  interactions.setPlayer(playerId);
+  interactions.setQuestSystem(quests);
+
+  const elder: Interaction = {
+    id: 'elder_talk',
+    type: InteractionType.TALK,
+    name: 'Elder',
+    description: 'The village elder',
+    range: 50,
+    enabled: true,
+    singleUse: false,
+    used: false,
+    conditions: [{ type: InteractionCondition.REQUIRES_QUEST, value: 'goblin_trouble:completed', negate: true }],
+    actions: [{ type: InteractionActionType.START_QUEST, parameters: { questId: 'goblin_trouble' } }]
+  };
+  const elderId = interactions.createInteractiveEntity(elder);
+  world.addComponent<Position>(elderId, 'Position', { x: 10, y: 0 });
+
+  interactions.update(0.1);
+  runner.assert(interactions.interact(), 'Talking to the elder should work');
+  runner.assertEqual(quests.getQuestStatus('goblin_trouble'), 'active', 'START_QUEST should start the quest');
+  runner.assertEqual(quests.getQuestProgress('goblin_trouble')!.stageIndex, 0, 'Starting a quest should not count as its talk objective');
+
+  ['goblin', 'goblin', 'goblin'].forEach(enemyId => quests.recordDefeat(enemyId));
+  runner.assert(quests.checkCondition('goblin_trouble:report'), 'Stage conditions should match the current stage');
+
+  interactions.update(0.1);
+  runner.assert(interactions.interact(), 'Reporting back should work');
+  runner.assert(quests.checkCondition('goblin_trouble'), 'Talking should complete the report stage');
+
+  interactions.update(0.1);
+  runner.assertEqual(interactions.getAvailableInteractions().length, 0, 'Negated REQUIRES_QUEST should hide the elder afterwards');
+});
+
+runner.test('InteractionSystem - COMPLETE_QUEST finishes an active quest', () => {
+  const { world, quests, playerId } = runner.setup();
+  const interactions = new InteractionSystem();
+  interactions.setWorld(world);
+  interactions.setPlayer(playerId);
+  interactions.setQuestSystem(quests);
+  quests.startQuest('goblin_trouble');
+
+  const entityId = interactions.createInteractiveEntity({
+    id: 'bounty_board',
+    type: InteractionType.READ,
+    name: 'Bounty board',
+    description: 'Claim bounties',
+    range: 50,
+    enabled: true,
+    singleUse: true,
+    used: false,
+    conditions: [{ type: InteractionCondition.REQUIRES_QUEST, value: 'goblin_trouble:active' }],
+    actions: [{ type: InteractionActionType.COMPLETE_QUEST, parameters: { questId: 'goblin_trouble' } }]
+  });
+  world.addComponent<Position>(entityId, 'Position', { x: 0, y: 10 });
+
+  interactions.update(0.1);
+  runner.assert(interactions.interact(), 'Board should be usable while the quest is active');
+  runner.assertEqual(quests.getQuestStatus('goblin_trouble'), 'completed', 'COMPLETE_QUEST should complete the quest');
+  runner.assertEqual(world.getComponent<Inventory>(playerId, 'Inventory')!.gold, 50, 'Rewards should be granted');
+});
+
+// ============= PERSISTENCE TESTS =============
+
+runner.test('Quests - State round trips through save data', () => {
+  const { quests } = runner.setup();
+  quests.startQuest('goblin_trouble');
+  quests.recordDefeat('goblin');
+  quests.recordDefeat('goblin');
+
+  const { quests: restored } = runner.setup();
+  restored.restore(JSON.parse(JSON.stringify({
+    ...quests.serialize(),
+    activeQuests: [...quests.serialize().activeQuests, { id: 'removed_quest', progress: 0, data: {} }]
+  })));
+
+  runner.assertEqual(restored.getQuestStatus('goblin_trouble'), 'active', 'Active quests should be restored');
+  runner.assertEqual(restored.getActiveQuests().length, 1, 'Unknown quests should be dropped');
+  restored.recordDefeat('goblin');
+  runner.assertEqual(restored.getQuestProgress('goblin_trouble')!.stageIndex, 1, 'Counts should continue from the save');
+});
+
+// Run all tests
+runner.run();
+
+export { runner as questSystemTestRunner };
@@ -0,0 +1,283 @@
+/**
+ * Rest System Tests
+ * @fileoverview Tests for inn stays, camping, party recovery, status cleansing and passing time
+ */
+
+import { RestSystem, RestEvent } from '../engine/RestSystem';
+import { StatusEffectSystem } from '../engine/StatusEffectSystem';
+import { GameClock } from '../engine/GameClock';
+import { InteractionSystem, InteractionType, InteractionCondition, InteractionActionType, Interaction } from '../engine/InteractionSystem';
+import { WorldManager } from '../engine/WorldManager';
+import { CharacterClass, CharacterStats, EntityId, Health, Inventory, MagicUser, Party, Position, StatusEffect } from '../types';
+import { GAME_CONFIG, WORLD_LOCATIONS_DATABASE } from '../data/GameData';
+
+/**
+ * Test runner for rest system tests
+ */
+class RestSystemTestRunner {
+  private tests: Array<{ name: string; fn: () => void }> = [];
+  private passed = 0;
+  private failed = 0;
+
+  /**
+   * Registers a test
+   */
+  public test(name: string, fn: () => void): void {
+    this.tests.push({ name, fn });
+  }
+
+  /**
+   * Runs all registered tests
+   */
+  public run(): { passed: number; failed: number } {
+    console.log('Running Rest System Tests...\n');
+
+    for (const test of this.tests) {
+      try {
+        test.fn();
+        console.log(`✓ ${test.name}`);
+        this.passed++;
+      } catch (error) {
+        console.log(`✗ ${test.name}`);
+        console.log(`  Error: ${error}`);
+        this.failed++;
+      }
+    }
+
+    console.log(`\nRest System Test Results: ${this.passed} passed, ${this.failed} failed`);
+    return { passed: this.passed, failed: this.failed };
+  }
+
+  /**
+   * Assertion helper
+   */
+  public assert(condition: boolean, message: string): void {
+    if (!condition) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Equality assertion helper
+   */
+  public assertEqual<T>(actual: T, expected: T, message: string): void {
+    if (actual !== expected) {
+      throw new Error(`${message}. Expected: ${expected}, Actual: ${actual}`);
+    }
+  }
+
+  /**
+   * Creates a two-member party, worn down, with a rest system, status effects and a clock
+   */
+  public setup(gold: number): {
+    world: WorldManager;
+    rest: RestSystem;
+    statuses: StatusEffectSystem;
+    clock: GameClock;
+    leaderId: EntityId;
+    allyId: EntityId;
+  } {
+    const world = new WorldManager();
+    const leaderId = createMember(world, 3, 40);
+    const allyId = createMember(world, 2, 10);
+    world.addComponent<Inventory>(leaderId, 'Inventory', { items: [], gold });
+    world.addComponent<Party>(leaderId, 'Party', { members: [leaderId, allyId], maxSize: 4, formation: [leaderId, allyId], activeMembers: [leaderId, allyId] });
+
+    const statuses = new StatusEffectSystem();
+    statuses.setWorld(world);
+    const clock = new GameClock({ startMinutes: 22 * 60 });
+
+    const rest = new RestSystem({
+      ...WORLD_LOCATIONS_DATABASE,
+      'overworld_central': { name: 'Central Plains', type: 'OVERWORLD' }
+    });
+    rest.setWorld(world);
+    rest.setPlayer(leaderId);
+    rest.setStatusEffectSystem(statuses);
+    rest.setClock(clock);
+
+    return { world, rest, statuses, clock, leaderId, allyId };
+  }
+}
+
+// Create test runner instance
+const runner = new RestSystemTestRunner();
+
+/**
+ * Creates a party member at a level with some health and no mana left
+ */
+function createMember(world: WorldManager, level: number, currentHealth: number): EntityId {
+  const entityId = world.createEntity(['Health', 'MagicUser', 'CharacterStats']);
+  world.addComponent<Health>(entityId, 'Health', { current: currentHealth, max: 100 });
+  world.addComponent<MagicUser>(entityId, 'MagicUser', { spellCharges: {}, knownSpells: {}, maxSpellsPerLevel: 3, currentMana: 0, maxMana: 30, magicDefense: 0 });
+  world.addComponent<CharacterStats>(entityId, 'CharacterStats', {
+    class: CharacterClass.WARRIOR,
+    level,
+    experience: 0,
+    experienceToNext: 100,
+    strength: 10,
+    agility: 10,
+    intelligence: 10,
+    vitality: 10,
+    luck: 10,
+    baseHealth: 100,
+    baseMana: 30
+  });
+  return entityId;
+}
+
+/**
+ * Gives the player items
+ */
+function give(world: WorldManager, playerId: EntityId, itemId: string, quantity: number): void {
+  const inventory = world.getComponent<Inventory>(playerId, 'Inventory')!;
+  inventory.items.push({ itemId, quantity });
+  world.updateComponent<Inventory>(playerId, 'Inventory', inventory);
+}
+
+// ============= INN TESTS =============
+
+runner.test('Inns - Fee scales with party level', () => {
+  const { rest } = runner.setup(0);
+  runner.assertEqual(rest.getInnCost(), GAME_CONFIG.INN_BASE_COST + GAME_CONFIG.INN_COST_PER_LEVEL * 5, 'Fee should count levels 3 + 2');
+});
+
+runner.test('Inns - A night restores the party, cures rest statuses and passes time to morning', () => {
+  const { world, rest, statuses, clock, leaderId, allyId } = runner.setup(500);
+  statuses.apply(leaderId, StatusEffect.POISON, { ignoreResistance: true });
+  statuses.apply(allyId, StatusEffect.SILENCE, { ignoreResistance: true });
+  statuses.apply(allyId, StatusEffect.PROTECT, { ignoreResistance: true });
+  const events: RestEvent[] = [];
+  rest.subscribe(event => events.push(event));
+
+  const cost = rest.getInnCost();
+  const result = rest.restAtInn('aethelgard', { savePrompt: true });
+
+  runner.assert(result.success, 'Rest should succeed');
+  runner.assertEqual(world.getComponent<Inventory>(leaderId, 'Inventory')!.gold, 500 - cost, 'The fee should be charged');
+  runner.assertEqual(world.getComponent<Health>(allyId, 'Health')!.current, 100, 'Health should be full');
+  runner.assertEqual(world.getComponent<MagicUser>(leaderId, 'MagicUser')!.currentMana, 30, 'Mana should be full');
+  runner.assert(!statuses.has(leaderId, StatusEffect.POISON) && !statuses.has(allyId, StatusEffect.SILENCE), 'Rest statuses should be cured');
+  runner.assert(statuses.has(allyId, StatusEffect.PROTECT), 'Buffs are not cured by rest');
+  runner.assertEqual(result.members[1].healthRestored, 90, 'Recovery should be reported');
+
+  runner.assertEqual(clock.format(), '08:00', 'The party should wake in the morning');
+  runner.assertEqual(result.minutesPassed, 600, 'Ten hours should pass');
+  runner.assertEqual(events.map(event => event.type).join(','), 'rested,save_prompt', 'Rest and save prompt should be announced');
+});
+
+runner.test('Inns - Refusals leave the party untouched', () => {
+  const { world, rest, clock, allyId } = runner.setup(5);
+
+  runner.assertEqual(rest.restAtInn('aethelgard').reason, 'insufficient_gold', 'The fee must be affordable');
+  runner.assertEqual(rest.restAtInn('western_keep').reason, 'no_inn', 'Towns without an inn refuse');
+  runner.assertEqual(rest.restAtInn('sanctum_of_discord').reason, 'no_inn', 'Dungeons have no inn');
+  runner.assertEqual(world.getComponent<Health>(allyId, 'Health')!.current, 10, 'Health should be unchanged');
+  runner.assertEqual(clock.format(), '22:00', 'No time should pass');
+});
+
+runner.test('Inns - Members at 0 HP are not revived', () => {
+  const { world, rest, allyId } = runner.setup(500);
+  world.updateComponent<Health>(allyId, 'Health', { current: 0, max: 100 });
+
+  const result = rest.restAtInn('aethelgard');
+  runner.assertEqual(world.getComponent<Health>(allyId, 'Health')!.current, 0, 'Fallen members stay down');
+  runner.assert(!result.members[1].revived, 'No revival should be reported');
+});
+
+// ============= CAMP TESTS =============
+
+runner.test('Camping - Only allowed where the location type permits it', () => {
+  const { rest, leaderId, world } = runner.setup(0);
+  give(world, leaderId, 'tent', 1);
+
+  runner.assert(rest.canCamp('overworld_central'), 'The world map permits camping');
+  runner.assert(!rest.canCamp('aethelgard'), 'Towns do not permit camping');
+  runner.assertEqual(rest.camp('sanctum_of_discord', 'tent').reason, 'camping_not_allowed', 'Dungeons do not permit camping');
+  runner.assertEqual(rest.camp('overworld_central', 'potion_health').reason, 'not_camp_item', 'Only camp items can be used to camp');
+  runner.assertEqual(rest.camp('overworld_central', 'pavilion').reason, 'not_carried', 'Camp items must be carried');
+});
+
+runner.test('Camping - Tents heal by their effect, are used up and offer a save', () => {
+  const { world, rest, statuses, clock, leaderId, allyId } = runner.setup(0);
+  give(world, leaderId, 'tent', 1);
+  statuses.apply(allyId, StatusEffect.POISON, { ignoreResistance: true });
+
+  const result = rest.camp('overworld_central', 'tent');
+  runner.assert(result.success && result.savePrompt, 'Tents save on the world map');
+  runner.assertEqual(world.getComponent<Health>(leaderId, 'Health')!.current, 90, 'Tents heal 50');
+  runner.assertEqual(world.getComponent<Health>(allyId, 'Health')!.current, 60, 'Every member is healed');
+  runner.assertEqual(world.getComponent<MagicUser>(allyId, 'MagicUser')!.currentMana, 0, 'Tents do not restore mana');
+  runner.assert(statuses.has(allyId, StatusEffect.POISON), 'Tents do not cure statuses');
+  runner.assertEqual(world.getComponent<Inventory>(leaderId, 'Inventory')!.items.length, 0, 'The tent should be used up');
+  runner.assertEqual(result.minutesPassed, GAME_CONFIG.CAMP_REST_MINUTES, 'Camping passes time');
+  runner.assertEqual(clock.getTime().day, 2, 'Camping overnight reaches the next day');
+});
+
+runner.test('Camping - Pavilions fully restore and revive the party', () => {
+  const { world, rest, statuses, leaderId, allyId } = runner.setup(0);
+  give(world, leaderId, 'pavilion', 2);
+  world.updateComponent<Health>(allyId, 'Health', { current: 0, max: 100 });
+  statuses.apply(leaderId, StatusEffect.BLIND, { ignoreResistance: true });
+
+  const result = rest.camp('overworld_central', 'pavilion');
+  runner.assert(result.members[1].revived, 'Fallen members should be revived');
+  runner.assertEqual(world.getComponent<Health>(allyId, 'Health')!.current, 100, 'Revived members are at full health');
+  runner.assertEqual(world.getComponent<MagicUser>(leaderId, 'MagicUser')!.currentMana, 30, 'Mana should be full');
+  runner.assert(!statuses.has(leaderId, StatusEffect.BLIND), 'Statuses should be cured');
+  runner.assertEqual(world.getComponent<Inventory>(leaderId, 'Inventory')!.items[0].quantity, 1, 'One pavilion should be used');
+});
+
+// ============= INTEGRATION TESTS =============
+
+runner.test('InteractionSystem - REST stays at the inn', () => {
+  const { world, rest, leaderId, allyId } = runner.setup(500);
+  world.addComponent<Position>(leaderId, 'Position', { x: 0, y: 0 });
+
+  const interactions = new InteractionSystem();
+  interactions.setWorld(world);
+  interactions.setPlayer(leaderId);
+  interactions.setRestSystem(rest);
+
+  const innkeeper: Interaction = {
+    id: 'aethelgard_inn',
+    type: InteractionType.TALK,
+    name: 'Innkeeper',
+    description: 'A warm bed for the night',
+    range: 50,
+    enabled: true,
+    singleUse: false,
+    used: false,
+    conditions: [{ type: InteractionCondition.ALWAYS, value: true }],
+    actions: [{ type: InteractionActionType.REST, parameters: { locationId: 'aethelgard', savePrompt: true } }]
+  };
+  const innkeeperId = interactions.createInteractiveEntity(innkeeper);
+  world.addComponent<Position>(innkeeperId, 'Position', { x: 10, y: 0 });
+
+  interactions.update(0.1);
+  runner.assert(interactions.interact(), 'Talking to the innkeeper should work');
+  runner.assertEqual(world.getComponent<Health>(allyId, 'Health')!.current, 100, 'The party should have rested');
+  runner.assertEqual(rest.getStats().rests, 1, 'One rest should be counted');
+});
+
+runner.test('InteractionSystem - Using a camp item makes camp', () => {
+  const { world, rest, leaderId, allyId } = runner.setup(0);
+  give(world, leaderId, 'bedroll', 1);
+  give(world, leaderId, 'potion_health', 1);
+
+  const interactions = new InteractionSystem();
+  interactions.setWorld(world);
+  interactions.setPlayer(leaderId);
+  interactions.setRestSystem(rest);
+
+  runner.assert(!interactions.useItem('bedroll', 'aethelgard'), 'Camp items cannot be used in town');
+  runner.assert(!interactions.useItem('potion_health', 'overworld_central'), 'Other items do not make camp');
+  runner.assert(interactions.useItem('bedroll', 'overworld_central'), 'The bedroll should be used on the world map');
+  runner.assertEqual(world.getComponent<Health>(allyId, 'Health')!.current, 40, 'Bedrolls heal 30');
+  runner.assertEqual(world.getComponent<Inventory>(leaderId, 'Inventory')!.items.length, 1, 'The bedroll should be used up');
+});
+
+// Run all tests
+runner.run();
+
+export { runner as restSystemTestRunner };
@@ -0,0 +1,336 @@
+/**
+ * Reward System Tests
+ * @fileoverview Unit tests for victory rewards, experience splitting, levelling and loot tables
+ */
+
+import { RewardSystem, RewardEvent } from '../engine/RewardSystem';
+import { CombatSystem, CombatAction, CombatState } from '../engine/CombatSystem';
+import { WorldManager } from '../engine/WorldManager';
+import { CharacterClass, CharacterStats, EntityId, Health, Inventory, MagicUser } from '../types';
+import { CHARACTER_CLASSES_DATABASE, ENEMY_REWARDS_DATABASE, GAME_CONFIG } from '../data/GameData';
+import { RNG } from '../utils/rng';
+
+/**
+ * Test runner for reward system tests
+ */
+class RewardSystemTestRunner {
+  private tests: Array<{ name: string; fn: () => void }> = [];
+  private passed = 0;
+  private failed = 0;
+
+  /**
+   * Registers a test
+   */
+  public test(name: string, fn: () => void): void {
+    this.tests.push({ name, fn });
+  }
+
+  /**
+   * Runs all registered tests
+   */
+  public run(): { passed: number; failed: number } {
+    console.log('Running Reward System Tests...\n');
+
+    for (const test of this.tests) {
+      try {
+        test.fn();
+        console.log(`✓ ${test.name}`);
+        this.passed++;
+      } catch (error) {
+        console.log(`✗ ${test.name}`);
+        console.log(`  Error: ${error}`);
+        this.failed++;
+      }
+    }
+
+    console.log(`\nReward System Test Results: ${this.passed} passed, ${this.failed} failed`);
+    return { passed: this.passed, failed: this.failed };
+  }
+
+  /**
+   * Assertion helper
+   */
+  public assert(condition: boolean, message: string): void {
+    if (!condition) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Equality assertion helper
+   */
+  public assertEqual<T>(actual: T, expected: T, message: string): void {
+    if (actual !== expected) {
+      throw new Error(`${message}. Expected: ${expected}, Actual: ${actual}`);
+    }
+  }
+
+  /**
+   * Creates a level 1 warrior with class base stats
+   */
+  public createHero(world: WorldManager): EntityId {
+    const classDef = CHARACTER_CLASSES_DATABASE[CharacterClass.WARRIOR];
+    const entityId = world.createEntity(['Position', 'Health', 'CombatStats', 'CharacterStats', 'MagicUser']);
+    world.addComponent(entityId, 'Position', { x: 0, y: 0 });
+    world.addComponent(entityId, 'Health', { current: 100, max: 112 });
+    world.addComponent(entityId, 'CombatStats', {
+      attacking: false,
+      attack: 500,
+      defense: 10,
+      actionPoints: 3,
+      maxActionPoints: 3,
+      speed: 50
+    });
+    world.addComponent<CharacterStats>(entityId, 'CharacterStats', {
+      class: CharacterClass.WARRIOR,
+      level: 1,
+      experience: 0,
+      experienceToNext: 100,
+      ...classDef.baseStats,
+      baseHealth: classDef.baseStats.vitality * classDef.healthPerVitality,
+      baseMana: classDef.baseStats.intelligence * classDef.manaPerIntelligence
+    });
+    world.addComponent<MagicUser>(entityId, 'MagicUser', {
+      spellCharges: {},
+      knownSpells: {},
+      maxSpellsPerLevel: 3,
+      currentMana: 4,
+      maxMana: 8,
+      magicDefense: 0
+    });
+    return entityId;
+  }
+
+  /**
+   * Creates a defeated-enemy stand-in, optionally linked to an enemy or boss definition
+   */
+  public createEnemy(world: WorldManager, enemyId?: string, bossId?: string): EntityId {
+    const entityId = world.createEntity(['Position', 'Health', 'CombatStats']);
+    world.addComponent(entityId, 'Position', { x: 5, y: 0 });
+    world.addComponent(entityId, 'Health', { current: 1, max: 1 });
+    world.addComponent(entityId, 'CombatStats', {
+      attacking: false,
+      attack: 5,
+      defense: 0,
+      actionPoints: 3,
+      maxActionPoints: 3
+    });
+    if (enemyId) {
+      world.addComponent(entityId, 'EnemyInfo', { enemyId });
+    }
+    if (bossId) {
+      world.addComponent(entityId, 'Boss', { bossId });
+    }
+    return entityId;
+  }
+
+  /**
+   * Creates a reward system with a seeded RNG
+   */
+  public setup(seed: number = 7): { world: WorldManager; rewards: RewardSystem } {
+    const world = new WorldManager();
+    const rewards = new RewardSystem(new RNG(seed));
+    rewards.setWorld(world);
+    return { world, rewards };
+  }
+}
+
+// Create test runner instance
+const runner = new RewardSystemTestRunner();
+
+// ============= REWARD CALCULATION TESTS =============
+
+runner.test('Rewards - Reward table sets experience and gold', () => {
+  const { world, rewards } = runner.setup();
+  const goblins = [runner.createEnemy(world, 'goblin'), runner.createEnemy(world, 'goblin')];
+
+  const totals = rewards.calculateRewards(goblins);
+
+  runner.assertEqual(totals.experience, ENEMY_REWARDS_DATABASE.goblin.experience * 2, 'Experience should come from the table');
+  runner.assertEqual(totals.gold, ENEMY_REWARDS_DATABASE.goblin.gold * 2, 'Gold should come from the table');
+});
+
+runner.test('Rewards - Unlisted enemies fall back to stats, then defaults', () => {
+  const { world, rewards } = runner.setup();
+
+  const derived = rewards.calculateRewards([runner.createEnemy(world, 'hell_hound')]);
+  const unknown = rewards.calculateRewards([runner.createEnemy(world)]);
+
+  runner.assert(derived.experience > 0 && derived.gold > 0, 'Enemy stats should derive rewards');
+  runner.assertEqual(unknown.experience, 50, 'Unknown enemies should give the default experience');
+  runner.assertEqual(unknown.gold, 25, 'Unknown enemies should give the default gold');
+});
+
+runner.test('Rewards - Difficulty scales experience and gold', () => {
+  const { world, rewards } = runner.setup();
+  const enemy = runner.createEnemy(world);
+
+  rewards.setDifficulty('easy');
+  const easy = rewards.calculateRewards([enemy]);
+  rewards.setDifficulty('hard');
+  const hard = rewards.calculateRewards([enemy]);
+
+  runner.assertEqual(easy.experience, Math.floor(50 * GAME_CONFIG.DIFFICULTY_MULTIPLIERS.easy.experience_gain), 'Easy should boost experience');
+  runner.assertEqual(hard.gold, Math.floor(25 * GAME_CONFIG.DIFFICULTY_MULTIPLIERS.hard.gold_find), 'Hard should reduce gold');
+});
+
+runner.test('Rewards - Drops follow the table and are reproducible', () => {
+  const first = runner.setup(3);
+  const second = runner.setup(3);
+  const goblins = (setup: typeof first) => Array.from({ length: 200 }, () => runner.createEnemy(setup.world, 'goblin'));
+
+  const a = first.rewards.calculateRewards(goblins(first));
+  const b = second.rewards.calculateRewards(goblins(second));
+  const dropped = a.items.reduce((sum, item) => sum + item.quantity, 0);
+  const tableItems = ENEMY_REWARDS_DATABASE.goblin.drops.map(drop => drop.itemId);
+
+  runner.assert(dropped > 30 && dropped < 90, `About 30% of goblins should drop something (got ${dropped})`);
+  runner.assert(a.items.every(item => tableItems.includes(item.itemId)), 'Drops should come from the goblin table');
+  runner.assertEqual(JSON.stringify(a.items), JSON.stringify(b.items), 'Same seed should give the same drops');
+});
+
+runner.test('Rewards - Bosses give their fixed rewards and unique drops', () => {
+  const { world, rewards } = runner.setup();
+
+  const totals = rewards.calculateRewards([runner.createEnemy(world, undefined, 'guardian_mech')]);
+
+  runner.assertEqual(totals.experience, 2500, 'Boss experience should come from its mechanics');
+  runner.assert(totals.items.some(item => item.itemId === 'gravity_crystal'), 'Key items should always drop');
+  runner.assert(totals.items.some(item => item.itemId === 'guardian_core'), 'Unique drops should always drop');
+});
+
+// ============= LEVELLING TESTS =============
+
+runner.test('Rewards - Experience is split evenly across survivors', () => {
+  const { world, rewards } = runner.setup();
+  const heroes = [runner.createHero(world), runner.createHero(world)];
+  const enemies = [runner.createEnemy(world), runner.createEnemy(world), runner.createEnemy(world)];
+
+  const result = rewards.grantRewards(heroes[0], heroes, enemies);
+
+  runner.assertEqual(result.members.length, 2, 'Each survivor should get a share');
+  runner.assertEqual(result.members[0].experience, 75, 'Experience should be split evenly');
+  runner.assertEqual(world.getComponent<CharacterStats>(heroes[1], 'CharacterStats')!.experience, 75, 'Share should be stored');
+});
+
+runner.test('Rewards - Level-ups apply class growth and raise HP and MP', () => {
+  const { world, rewards } = runner.setup();
+  const hero = runner.createHero(world);
+
+  const levelUp = rewards.awardExperience(hero, 150);
+  const stats = world.getComponent<CharacterStats>(hero, 'CharacterStats')!;
+  const health = world.getComponent<Health>(hero, 'Health')!;
+
+  runner.assertEqual(levelUp!.toLevel, 2, 'Hero should reach level 2');
+  runner.assertEqual(stats.strength, 13, 'Strength should grow by the warrior rate');
+  runner.assertEqual(stats.agility, 6, 'Fractional growth should wait for a whole point');
+  runner.assertEqual(stats.experienceToNext, 70, 'Experience to next level should be recalculated');
+  runner.assertEqual(levelUp!.healthGain, 8, 'One vitality point should add 8 HP');
+  runner.assertEqual(health.max, 120, 'Maximum HP should increase');
+  runner.assertEqual(health.current, 108, 'Current HP should receive the new points');
+});
+
+runner.test('Rewards - Large rewards gain several levels at once', () => {
+  const { world, rewards } = runner.setup();
+  const hero = runner.createHero(world);
+
+  const levelUp = rewards.awardExperience(hero, 500);
+  const stats = world.getComponent<CharacterStats>(hero, 'CharacterStats')!;
+
+  runner.assertEqual(levelUp!.toLevel, 4, 'Hero should reach level 4');
+  runner.assertEqual(levelUp!.statGains.strength, 3, 'Growth should accumulate across levels');
+  runner.assertEqual(stats.intelligence, 4, 'Slow-growing stats should not round up');
+  runner.assertEqual(rewards.awardExperience(hero, 10), null, 'Small rewards should not level up');
+});
+
+runner.test('Rewards - Level-ups play sound, announce and notify', () => {
+  const { world, rewards } = runner.setup();
+  const hero = runner.createHero(world);
+  const calls: string[] = [];
+  const events: RewardEvent[] = [];
+
+  rewards.setAudioManager({ playSFX: (id: string) => calls.push(`sfx:${id}`) } as any);
+  rewards.setAccessibilitySystem({
+    showAudioIndicator: (type: string) => calls.push(`indicator:${type}`),
+    speak: (text: string) => calls.push(`speak:${text}`)
+  } as any);
+  rewards.subscribe(event => events.push(event));
+
+  rewards.grantRewards(hero, [hero], [runner.createEnemy(world), runner.createEnemy(world)]);
+
+  runner.assert(calls.includes('sfx:level_up'), 'Level-up sound should play');
+  runner.assert(calls.includes('indicator:levelup'), 'Visual indicator should show');
+  runner.assert(calls.some(call => call.startsWith('speak:')), 'Level-up should be announced');
+  runner.assertEqual(events.map(event => event.type).join(','), 'level_up,rewards_granted', 'Listeners should be notified');
+});
+
+// ============= INVENTORY TESTS =============
+
+runner.test('Rewards - Gold and items go to the party inventory', () => {
+  const { world, rewards } = runner.setup();
+  const hero = runner.createHero(world);
+  const party = world.createEntity(['Inventory']);
+  world.addComponent<Inventory>(party, 'Inventory', {
+    items: [{ itemId: 'gravity_crystal', quantity: 1 }],
+    gold: GAME_CONFIG.MAX_GOLD - 100
+  });
+
+  rewards.grantRewards(party, [hero], [runner.createEnemy(world, undefined, 'guardian_mech')]);
+  const inventory = world.getComponent<Inventory>(party, 'Inventory')!;
+
+  runner.assertEqual(inventory.gold, GAME_CONFIG.MAX_GOLD, 'Gold should be capped');
+  runner.assertEqual(inventory.items.find(item => item.itemId === 'gravity_crystal')!.quantity, 2, 'Items should stack');
+  runner.assert(inventory.items.some(item => item.itemId === 'guardian_core'), 'New items should be added');
+});
+
+runner.test('Rewards - Combat victory applies rewards to the party', () => {
+  const world = new WorldManager();
+  const combat = new CombatSystem({ damageVariance: 0, criticalHitChance: 0 });
+  combat.setWorld(world);
+  combat.setRewardSystem(new RewardSystem(new RNG(1)));
+
+  const hero = runner.createHero(world);
+  const enemy = runner.createEnemy(world);
+  combat.startCombat(hero, [enemy]);
+  for (let t = 0; t < 2.1; t += 0.1) {
+    combat.update(0.1);
+  }
+  combat.queueAction({ id: 'attack', type: CombatAction.ATTACK, actorId: hero, targetId: enemy, data: {} });
+  for (let t = 0; t < 1.1; t += 0.1) {
+    combat.update(0.1);
+  }
+
+  runner.assertEqual(combat.getCurrentState(), CombatState.VICTORY, 'Combat should be won');
+  runner.assertEqual(combat.getResult()!.experience, 50, 'Result should report the experience');
+  runner.assertEqual(combat.getResult()!.rewards!.members[0].entityId, hero, 'Result should list the survivor');
+  runner.assertEqual(world.getComponent<CharacterStats>(hero, 'CharacterStats')!.experience, 50, 'Experience should be applied');
+});
+
+runner.test('Rewards - Fled enemies give no rewards', () => {
+  const world = new WorldManager();
+  const combat = new CombatSystem({ damageVariance: 0, criticalHitChance: 0 });
+  combat.setWorld(world);
+  combat.setRewardSystem(new RewardSystem(new RNG(1)));
+
+  const hero = runner.createHero(world);
+  const enemy = runner.createEnemy(world);
+  const coward = runner.createEnemy(world);
+  combat.startCombat(hero, [enemy, coward]);
+  for (let t = 0; t < 2.1; t += 0.1) {
+    combat.update(0.1);
+  }
+  combat.queueAction({ id: 'flee', type: CombatAction.FLEE, actorId: coward, targetId: null, data: {} });
+  combat.queueAction({ id: 'attack', type: CombatAction.ATTACK, actorId: hero, targetId: enemy, data: {} });
+  for (let t = 0; t < 2.1; t += 0.1) {
+    combat.update(0.1);
+  }
+
+  runner.assertEqual(combat.getCurrentState(), CombatState.VICTORY, 'Combat should be won');
+  runner.assertEqual(combat.getResult()!.experience, 50, 'Only the beaten enemy should give experience');
+  runner.assertEqual(combat.getStats().defeatedEnemies, 1, 'The fled enemy should not count as defeated');
+});
+
+// Run all tests
+runner.run();
+
+export { runner as rewardSystemTestRunner };
@@ -6,12 +6,32 @@
 import './dom-mock';
 
 import { engineTestRunner } from './engine.test';
+import { prefabRegistryTestRunner } from './prefab-registry.test';
+import { componentRegistryTestRunner } from './component-registry.test';
+import { systemSchedulerTestRunner } from './system-scheduler.test';
+import { commandBufferTestRunner } from './command-buffer.test';
 import { utilTestRunner } from './utils.test';
+import { damageTestRunner } from './damage.test';
 import { saveSystemTestRunner } from './save-system.test';
+import { saveMigrationsTestRunner } from './save-migrations.test';
+import { saveStorageTestRunner } from './save-storage.test';
+import { saveEnvelopeTestRunner } from './save-envelope.test';
 import { cameraSystemTestRunner } from './camera-system.test';
 import { interactionSystemTestRunner } from './interaction-system.test';
 import { accessibilitySystemTestRunner } from './accessibility-system.test';
 import { debugToolsSystemTestRunner } from './debug-tools-system.test';
+import { combatSystemTestRunner } from './combat-system.test';
+import { statusEffectSystemTestRunner } from './status-effect-system.test';
+import { bossControllerTestRunner } from './boss-controller.test';
+import { enemyAITestRunner } from './enemy-ai.test';
+import { rewardSystemTestRunner } from './reward-system.test';
+import { questSystemTestRunner } from './quest-system.test';
+import { gameClockTestRunner } from './game-clock.test';
+import { shopSystemTestRunner } from './shop-system.test';
+import { restSystemTestRunner } from './rest-system.test';
+import { dialogueRunnerTestRunner } from './dialogue-runner.test';
+import { cutsceneRunnerTestRunner } from './cutscene-runner.test';
+import { battleSimulatorTestRunner } from './battle-simulator.test';
 import { componentTestRunner } from './component.test';
 import { integrationTestRunner } from './integration.test';
 import { performanceTestRunner } from './performance.test';
@@ -63,16 +83,56 @@ class UnifiedTestRunner {
         category: 'engine',
         runner: engineTestRunner
       },
+      {
+        name: 'Prefab Registry Tests',
+        category: 'engine',
+        runner: prefabRegistryTestRunner
+      },
+      {
+        name: 'Component Registry Tests',
+        category: 'engine',
+        runner: componentRegistryTestRunner
+      },
+      {
+        name: 'System Scheduler Tests',
+        category: 'engine',
+        runner: systemSchedulerTestRunner
+      },
+      {
+        name: 'Command Buffer Tests',
+        category: 'engine',
+        runner: commandBufferTestRunner
+      },
       {
         name: 'Utility Tests',
         category: 'utils',
         runner: utilTestRunner
       },
+      {
+        name: 'Damage Formula Tests',
+        category: 'utils',
+        runner: damageTestRunner
+      },
       {
         name: 'Save System Tests',
         category: 'system',
         runner: saveSystemTestRunner
       },
+      {
+        name: 'Save Migrations Tests',
+        category: 'system',
+        runner: saveMigrationsTestRunner
+      },
+      {
+        name: 'Save Storage Tests',
+        category: 'system',
+        runner: saveStorageTestRunner
+      },
+      {
+        name: 'Save Envelope Tests',
+        category: 'system',
+        runner: saveEnvelopeTestRunner
+      },
       {
         name: 'Camera System Tests',
         category: 'system',
@@ -93,6 +153,66 @@ class UnifiedTestRunner {
         category: 'system',
         runner: debugToolsSystemTestRunner
       },
+      {
+        name: 'Combat System Tests',
+        category: 'system',
+        runner: combatSystemTestRunner
+      },
+      {
+        name: 'Status Effect System Tests',
+        category: 'system',
+        runner: statusEffectSystemTestRunner
+      },
+      {
+        name: 'Boss Controller Tests',
+        category: 'system',
+        runner: bossControllerTestRunner
+      },
+      {
+        name: 'Enemy AI Tests',
+        category: 'system',
+        runner: enemyAITestRunner
+      },
+      {
+        name: 'Reward System Tests',
+        category: 'system',
+        runner: rewardSystemTestRunner
+      },
+      {
+        name: 'Quest System Tests',
+        category: 'system',
+        runner: questSystemTestRunner
+      },
+      {
+        name: 'Game Clock Tests',
+        category: 'system',
+        runner: gameClockTestRunner
+      },
+      {
+        name: 'Shop System Tests',
+        category: 'system',
+        runner: shopSystemTestRunner
+      },
+      {
+        name: 'Rest System Tests',
+        category: 'system',
+        runner: restSystemTestRunner
+      },
+      {
+        name: 'Dialogue Runner Tests',
+        category: 'system',
+        runner: dialogueRunnerTestRunner
+      },
+      {
+        name: 'Cutscene Runner Tests',
+        category: 'system',
+        runner: cutsceneRunnerTestRunner
+      },
+      {
+        name: 'Battle Simulator Tests',
+        category: 'system',
+        runner: battleSimulatorTestRunner
+      },
       {
         name: 'Component Tests',
         category: 'component',
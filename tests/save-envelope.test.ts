@@ -0,0 +1,250 @@
+/**
+ * Save Envelope Tests
+ * @fileoverview Tests for save checksums, compression, backups and interrupted slot writes
+ */
+
+import { encodeSave, decodeSave, SaveEnvelope } from '../engine/SaveEnvelope';
+import { MemorySaveStorage } from '../engine/SaveStorage';
+import { SaveSystem } from '../engine/SaveSystem';
+import { WorldManager } from '../engine/WorldManager';
+import { Position } from '../types';
+
+/**
+ * Test runner for save envelope tests
+ */
+class SaveEnvelopeTestRunner {
+  private tests: Array<{ name: string; fn: () => Promise<void> }> = [];
+  private passed = 0;
+  private failed = 0;
+
+  /**
+   * Registers a test
+   */
+  public test(name: string, fn: () => Promise<void>): void {
+    this.tests.push({ name, fn });
+  }
+
+  /**
+   * Runs all registered tests
+   */
+  public async run(): Promise<{ passed: number; failed: number }> {
+    console.log('Running Save Envelope Tests...\n');
+
+    for (const test of this.tests) {
+      try {
+        await test.fn();
+        console.log(`✓ ${test.name}`);
+        this.passed++;
+      } catch (error) {
+        console.log(`✗ ${test.name}`);
+        console.log(`  Error: ${error}`);
+        this.failed++;
+      }
+    }
+
+    console.log(`\nSave Envelope Test Results: ${this.passed} passed, ${this.failed} failed`);
+    return { passed: this.passed, failed: this.failed };
+  }
+
+  /**
+   * Assertion helper
+   */
+  public assert(condition: boolean, message: string): void {
+    if (!condition) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Equality assertion helper
+   */
+  public assertEqual<T>(actual: T, expected: T, message: string): void {
+    if (actual !== expected) {
+      throw new Error(`${message}. Expected: ${expected}, Actual: ${actual}`);
+    }
+  }
+}
+
+// Create test runner instance
+const runner = new SaveEnvelopeTestRunner();
+
+const SLOT_KEY = 'aetherial_vanguard_save_1';
+
+/**
+ * Creates a save system on memory storage whose player stands at the given x
+ */
+function createSaveSystem(storage: MemorySaveStorage = new MemorySaveStorage()): { saveSystem: SaveSystem; world: WorldManager; moveTo: (x: number) => void } {
+  const world = new WorldManager();
+  const entityId = world.createEntity(['Position', 'Health', 'Sprite', 'CombatStats', 'Velocity']);
+  world.addComponent<Position>(entityId, 'Position', { x: 0, y: 0 });
+  world.addComponent(entityId, 'Health', { current: 100, max: 100 });
+  world.addComponent(entityId, 'Sprite', { textureId: 'hero', frameIndex: 0, width: 32, height: 32 });
+  world.addComponent(entityId, 'CombatStats', { attacking: false, attack: 10, defense: 10, actionPoints: 3, maxActionPoints: 3 });
+  world.addComponent(entityId, 'Velocity', { dx: 0, dy: 0 });
+
+  const saveSystem = new SaveSystem(storage);
+  saveSystem.setWorld(world);
+
+  return { saveSystem, world, moveTo: x => world.updateComponent<Position>(entityId, 'Position', { x, y: 0 }) };
+}
+
+/**
+ * Gets the player's x position
+ */
+function playerX(world: WorldManager): number {
+  return world.getComponent<Position>(world.query(['Position', 'Health'])[0], 'Position')!.x;
+}
+
+// ============= ENVELOPE TESTS =============
+
+runner.test('SaveEnvelope - Small saves round trip uncompressed and verified', async () => {
+  const serialized = await encodeSave({ meta: { version: '1.1.0' }, gold: 5 });
+  const envelope: SaveEnvelope = JSON.parse(serialized);
+  runner.assertEqual(envelope.encoding, 'json', 'Small saves should not be compressed');
+  runner.assertEqual(envelope.checksum.length, 64, 'Checksum should be a SHA-256 hex digest');
+  runner.assertEqual(envelope.algorithm, 'sha-256', 'The algorithm should be recorded');
+
+  const decoded = await decodeSave(serialized);
+  runner.assert(decoded.verified, 'Checksum should verify');
+  runner.assertEqual(decoded.data!.gold, 5, 'Data should survive');
+});
+
+runner.test('SaveEnvelope - Large saves are compressed', async () => {
+  const data = { entities: Array.from({ length: 500 }, (_, id) => ({ id, components: ['Position', 'Health', 'Sprite'] })) };
+  const serialized = await encodeSave(data, 1024);
+  const envelope: SaveEnvelope = JSON.parse(serialized);
+
+  runner.assertEqual(envelope.encoding, 'deflate-base64', 'Large saves should be compressed');
+  runner.assert(serialized.length < JSON.stringify(data).length / 4, 'Compression should shrink repetitive data');
+
+  const decoded = await decodeSave(serialized);
+  runner.assert(decoded.verified, 'Compressed saves should verify');
+  runner.assertEqual(decoded.data!.entities[499].id, 499, 'Data should survive compression');
+});
+
+runner.test('SaveEnvelope - Tampered and truncated saves are rejected', async () => {
+  const envelope: SaveEnvelope = JSON.parse(await encodeSave({ gold: 5 }));
+  const tampered = await decodeSave(JSON.stringify({ ...envelope, payload: envelope.payload.replace('5', '9999') }));
+  runner.assertEqual(tampered.data, null, 'Edited payload should be rejected');
+  runner.assert(tampered.error!.includes('checksum'), 'A checksum mismatch should be reported');
+
+  const compressed: SaveEnvelope = JSON.parse(await encodeSave({ text: 'x'.repeat(4096) }, 10));
+  const truncated = await decodeSave(JSON.stringify({ ...compressed, payload: compressed.payload.slice(0, 8) }));
+  runner.assertEqual(truncated.data, null, 'Truncated compressed payload should be rejected');
+
+  runner.assertEqual((await decodeSave('{"meta": ')).data, null, 'Cut-off JSON should be rejected');
+});
+
+runner.test('SaveEnvelope - Bare JSON is accepted unverified', async () => {
+  const decoded = await decodeSave(JSON.stringify({ meta: { version: '1.0.0' } }));
+  runner.assert(!decoded.verified, 'Bare JSON has no checksum');
+  runner.assertEqual(decoded.data!.meta.version, '1.0.0', 'Data should be returned');
+});
+
+runner.test('SaveEnvelope - Insecure origins fall back to an FNV-1a checksum', async () => {
+  const sha256Save = await encodeSave({ gold: 5 });
+  const original = Object.getOwnPropertyDescriptor(globalThis, 'crypto')!;
+  // Browsers leave crypto.subtle undefined outside secure contexts (e.g. plain HTTP)
+  Object.defineProperty(globalThis, 'crypto', { value: {}, configurable: true });
+
+  try {
+    const serialized = await encodeSave({ gold: 7 });
+    const envelope: SaveEnvelope = JSON.parse(serialized);
+    runner.assertEqual(envelope.algorithm, 'fnv1a-32', 'The fallback algorithm should be recorded');
+    runner.assertEqual(envelope.checksum.length, 8, 'Checksum should be a 32-bit hex digest');
+
+    const decoded = await decodeSave(serialized);
+    runner.assert(decoded.verified, 'FNV-1a checksum should verify');
+    runner.assertEqual(decoded.data!.gold, 7, 'Data should survive');
+
+    const tampered = await decodeSave(JSON.stringify({ ...envelope, payload: envelope.payload.replace('7', '9999') }));
+    runner.assertEqual(tampered.data, null, 'Edited payload should be rejected');
+
+    const unverifiable = await decodeSave(sha256Save);
+    runner.assert(!unverifiable.verified, 'A SHA-256 save cannot be verified without crypto.subtle');
+    runner.assertEqual(unverifiable.data!.gold, 5, 'A SHA-256 save should still load');
+  } finally {
+    Object.defineProperty(globalThis, 'crypto', original);
+  }
+
+  runner.assert((await decodeSave(await encodeSave({ gold: 1 }))).verified, 'SHA-256 should be used again once available');
+});
+
+// ============= SLOT INTEGRITY TESTS =============
+
+runner.test('SaveSystem - Damaged saves fall back to the previous save', async () => {
+  const storage = new MemorySaveStorage();
+  const { saveSystem, world, moveTo } = createSaveSystem(storage);
+
+  moveTo(10);
+  runner.assert(await saveSystem.saveGame(1, 'First'), 'First save should succeed');
+  moveTo(20);
+  runner.assert(await saveSystem.saveGame(1, 'Second'), 'Second save should succeed');
+  runner.assertEqual(await storage.getItem(`${SLOT_KEY}.tmp`), null, 'Pending copy should be cleaned up');
+
+  const stored = (await storage.getItem(SLOT_KEY))!;
+  await storage.setItem(SLOT_KEY, stored.slice(0, stored.length / 2));
+
+  runner.assert(await saveSystem.saveExists(1), 'Slot should still count as loadable');
+  runner.assert(await saveSystem.loadGame(1), 'Load should fall back to the backup');
+  runner.assertEqual(playerX(world), 10, 'The previous save should be restored');
+});
+
+runner.test('SaveSystem - An interrupted write leaves the slot untouched', async () => {
+  const storage = new MemorySaveStorage();
+  const { saveSystem, world, moveTo } = createSaveSystem(storage);
+
+  moveTo(10);
+  await saveSystem.saveGame(1, 'Good');
+
+  // Simulate a crash once the pending copy is written
+  const setItem = storage.setItem.bind(storage);
+  storage.setItem = async (key, value) => {
+    if (key === SLOT_KEY || key === `${SLOT_KEY}.bak`) throw new Error('Crashed');
+    return setItem(key, value);
+  };
+
+  moveTo(99);
+  runner.assert(!(await saveSystem.saveGame(1, 'Interrupted')), 'Save should report failure');
+  runner.assert(await saveSystem.loadGame(1), 'Slot should still load');
+  runner.assertEqual(playerX(world), 10, 'The last complete save should be restored');
+});
+
+runner.test('SaveSystem - Damaged slots without a backup report why', async () => {
+  const storage = new MemorySaveStorage();
+  const { saveSystem } = createSaveSystem(storage);
+
+  await saveSystem.saveGame(1, 'Only');
+  const envelope: SaveEnvelope = JSON.parse((await storage.getItem(SLOT_KEY))!);
+  await storage.setItem(SLOT_KEY, JSON.stringify({ ...envelope, checksum: '0'.repeat(64) }));
+
+  runner.assert(!(await saveSystem.loadGame(1)), 'Load should fail');
+  runner.assert(saveSystem.getLastLoadError()!.includes('damaged'), 'The reason should be reported');
+  runner.assert(!(await saveSystem.getSaveSlots())[0].occupied, 'Slot should be listed as unusable');
+});
+
+runner.test('SaveSystem - Imports are verified before they reach a slot', async () => {
+  const storage = new MemorySaveStorage();
+  const { saveSystem, world, moveTo } = createSaveSystem(storage);
+  moveTo(10);
+  await saveSystem.saveGame(1, 'Exported');
+  const exported = (await storage.getItem(SLOT_KEY))!;
+  const envelope: SaveEnvelope = JSON.parse(exported);
+
+  const edited = JSON.stringify({ ...envelope, payload: envelope.payload.replace('"x":10', '"x":5000') });
+  runner.assert(!(await saveSystem.importSave(new File([edited], 'edited.json'), 2)), 'Edited export should be rejected');
+  runner.assert(saveSystem.getLastLoadError()!.includes('checksum'), 'The reason should be reported');
+
+  const broken = { ...JSON.parse(envelope.payload), worldData: { entities: [{ id: 'player' }], componentData: {} } };
+  runner.assert(!(await saveSystem.importSave(new File([JSON.stringify(broken)], 'broken.json'), 2)), 'Malformed world data should be rejected');
+  runner.assert(!(await saveSystem.saveExists(2)), 'Rejected imports should not be stored');
+
+  runner.assert(await saveSystem.importSave(new File([exported], 'save.json'), 2), 'Untouched export should import');
+  runner.assert(await saveSystem.loadGame(2), 'Imported save should load');
+  runner.assertEqual(playerX(world), 10, 'Imported save should be restored');
+});
+
+// Run all tests
+
+
+export { runner as saveEnvelopeTestRunner };
@@ -0,0 +1,187 @@
+/**
+ * Save Migrations Tests
+ * @fileoverview Tests for chained save upgrades against fixture save files
+ */
+
+import { SaveMigrationRegistry, RawSaveData, SAVE_MIGRATIONS, compareVersions, createDefaultSaveMigrations } from '../engine/SaveMigrations';
+import saveV100 from './fixtures/saves/save-1.0.0.json';
+
+/**
+ * Test runner for save migration tests
+ */
+class SaveMigrationsTestRunner {
+  private tests: Array<{ name: string; fn: () => void }> = [];
+  private passed = 0;
+  private failed = 0;
+
+  /**
+   * Registers a test
+   */
+  public test(name: string, fn: () => void): void {
+    this.tests.push({ name, fn });
+  }
+
+  /**
+   * Runs all registered tests
+   */
+  public run(): { passed: number; failed: number } {
+    console.log('Running Save Migrations Tests...\n');
+
+    for (const test of this.tests) {
+      try {
+        test.fn();
+        console.log(`✓ ${test.name}`);
+        this.passed++;
+      } catch (error) {
+        console.log(`✗ ${test.name}`);
+        console.log(`  Error: ${error}`);
+        this.failed++;
+      }
+    }
+
+    console.log(`\nSave Migrations Test Results: ${this.passed} passed, ${this.failed} failed`);
+    return { passed: this.passed, failed: this.failed };
+  }
+
+  /**
+   * Assertion helper
+   */
+  public assert(condition: boolean, message: string): void {
+    if (!condition) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Equality assertion helper
+   */
+  public assertEqual<T>(actual: T, expected: T, message: string): void {
+    if (actual !== expected) {
+      throw new Error(`${message}. Expected: ${expected}, Actual: ${actual}`);
+    }
+  }
+
+  /**
+   * Minimal structural check standing in for SaveSystem's validation
+   */
+  public validate(data: RawSaveData): boolean {
+    return typeof data.meta?.version === 'string' && data.player?.position !== undefined;
+  }
+
+  /**
+   * Creates a fresh copy of a fixture save
+   */
+  public fixture(data: RawSaveData = saveV100): RawSaveData {
+    return JSON.parse(JSON.stringify(data));
+  }
+}
+
+// Create test runner instance
+const runner = new SaveMigrationsTestRunner();
+
+// ============= FIXTURE TESTS =============
+
+runner.test('SaveMigrations - 1.0.0 fixture becomes a world snapshot', () => {
+  const result = createDefaultSaveMigrations().migrate(runner.fixture(), '1.1.0', data => runner.validate(data));
+
+  runner.assert(result.success, `Migration should succeed: ${result.error}`);
+  runner.assertEqual(result.applied.join(','), '1.0.0 -> 1.1.0', 'One step should apply');
+  runner.assertEqual(result.data!.meta.version, '1.1.0', 'Version should be updated');
+
+  const worldData = result.data!.worldData;
+  runner.assertEqual(worldData.entities.length, 1, 'The player should be the only entity');
+  runner.assertEqual(worldData.entities[0].id, 4, 'The player should keep its saved ID');
+  runner.assertEqual(worldData.componentData.Position[4].x, 120, 'Fixed player fields should become components');
+  runner.assertEqual(worldData.componentData.CombatStats[4].attack, 12, 'Combat state should be saved as CombatStats');
+  runner.assertEqual(worldData.componentData.Inventory[4].gold, 140, 'Serialized player components should be kept');
+  runner.assert(!('components' in result.data!.player), 'Per-player component data should be folded into the snapshot');
+});
+
+runner.test('SaveMigrations - Input save is never modified', () => {
+  const original = runner.fixture();
+  createDefaultSaveMigrations().migrate(original, '1.1.0', data => runner.validate(data));
+
+  runner.assertEqual(original.meta.version, '1.0.0', 'Version should be untouched');
+  runner.assert(!('worldData' in original), 'No snapshot should be added');
+});
+
+runner.test('SaveMigrations - Current saves pass through after validation', () => {
+  const registry = createDefaultSaveMigrations();
+  const current = registry.migrate(runner.fixture(), '1.1.0', data => runner.validate(data)).data!;
+
+  const result = registry.migrate(current, '1.1.0', data => runner.validate(data));
+  runner.assert(result.success, 'Current save should load');
+  runner.assertEqual(result.applied.length, 0, 'No steps should apply');
+
+  delete current.player.position;
+  runner.assert(!registry.migrate(current, '1.1.0', data => runner.validate(data)).success, 'Damaged current save should fail');
+});
+
+// ============= FAILURE REPORT TESTS =============
+
+runner.test('SaveMigrations - Newer and unknown versions are reported', () => {
+  const registry = createDefaultSaveMigrations();
+  const newer = runner.fixture();
+  newer.meta.version = '2.0.0';
+  const unknown = runner.fixture();
+  unknown.meta.version = '0.9.0';
+  const unversioned = runner.fixture();
+  delete unversioned.meta.version;
+
+  const newerResult = registry.migrate(newer, '1.1.0', data => runner.validate(data));
+  runner.assert(!newerResult.success && newerResult.error!.includes('newer version'), 'Newer saves should be refused');
+  runner.assert(registry.migrate(unknown, '1.1.0', data => runner.validate(data)).error!.includes('not supported'), 'Unknown versions should be refused');
+  runner.assertEqual(registry.migrate(unversioned, '1.1.0', data => runner.validate(data)).fromVersion, 'unknown', 'Missing versions should be refused');
+});
+
+runner.test('SaveMigrations - Validation runs after every step', () => {
+  const registry = new SaveMigrationRegistry(SAVE_MIGRATIONS);
+  registry.register({
+    from: '1.1.0',
+    to: '1.2.0',
+    description: 'Broken step',
+    migrate: ({ player: _player, ...rest }) => rest
+  });
+  registry.register({
+    from: '1.2.0',
+    to: '1.3.0',
+    description: 'Never reached',
+    migrate: data => data
+  });
+
+  const result = registry.migrate(runner.fixture(), '1.3.0', data => runner.validate(data));
+  runner.assert(!result.success, 'Invalid intermediate data should stop the migration');
+  runner.assertEqual(result.applied.join(','), '1.0.0 -> 1.1.0', 'Steps before the failure should be reported');
+  runner.assert(result.error!.includes('1.1.0 to 1.2.0'), 'The failing step should be named');
+  runner.assertEqual(result.data, null, 'No partial data should be returned');
+});
+
+runner.test('SaveMigrations - Throwing steps are reported', () => {
+  const registry = new SaveMigrationRegistry([{ from: '1.0.0', to: '1.0.1', description: 'Throws', migrate: () => { throw new Error('bad'); } }]);
+
+  const result = registry.migrate(runner.fixture(), '1.0.1', data => runner.validate(data));
+  runner.assert(!result.success && result.error!.includes('failed'), 'Exceptions should become a failure report');
+});
+
+// ============= REGISTRY TESTS =============
+
+runner.test('SaveMigrations - Steps must move forward and be unique', () => {
+  const registry = createDefaultSaveMigrations();
+
+  runner.assert(!registry.register({ from: '1.0.0', to: '1.0.5', description: 'Duplicate', migrate: data => data }), 'A second step from one version should be rejected');
+  runner.assert(!registry.register({ from: '1.2.0', to: '1.1.0', description: 'Backwards', migrate: data => data }), 'Backward steps should be rejected');
+  runner.assert(registry.register({ from: '1.1.0', to: '1.2.0', description: 'Next', migrate: data => data }), 'Next step should register');
+  runner.assertEqual(registry.getPath('1.0.0', '1.2.0')!.length, 2, 'Steps should chain');
+  runner.assertEqual(registry.getPath('1.0.0', '1.1.5'), null, 'Targets between steps cannot be reached');
+});
+
+runner.test('SaveMigrations - Versions compare numerically', () => {
+  runner.assert(compareVersions('1.10.0', '1.9.0') > 0, 'Minor versions compare as numbers');
+  runner.assert(compareVersions('1.0', '1.0.0') === 0, 'Missing parts count as zero');
+  runner.assert(compareVersions('0.9.9', '1.0.0') < 0, 'Major version wins');
+});
+
+// Run all tests
+runner.run();
+
+export { runner as saveMigrationsTestRunner };
@@ -0,0 +1,185 @@
+/**
+ * Save Storage Tests
+ * @fileoverview Tests for the save storage backends and SaveSystem running on an injected backend
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MemorySaveStorage, LocalSaveStorage, SaveStorage, createDefaultSaveStorage } from '../engine/SaveStorage';
+import { FileSaveStorage } from '../engine/FileSaveStorage';
+import { SaveSystem } from '../engine/SaveSystem';
+import { WorldManager } from '../engine/WorldManager';
+import { Position } from '../types';
+
+/**
+ * Test runner for save storage tests
+ */
+class SaveStorageTestRunner {
+  private tests: Array<{ name: string; fn: () => Promise<void> }> = [];
+  private passed = 0;
+  private failed = 0;
+
+  /**
+   * Registers a test
+   */
+  public test(name: string, fn: () => Promise<void>): void {
+    this.tests.push({ name, fn });
+  }
+
+  /**
+   * Runs all registered tests
+   */
+  public async run(): Promise<{ passed: number; failed: number }> {
+    console.log('Running Save Storage Tests...\n');
+
+    for (const test of this.tests) {
+      try {
+        await test.fn();
+        console.log(`✓ ${test.name}`);
+        this.passed++;
+      } catch (error) {
+        console.log(`✗ ${test.name}`);
+        console.log(`  Error: ${error}`);
+        this.failed++;
+      }
+    }
+
+    console.log(`\nSave Storage Test Results: ${this.passed} passed, ${this.failed} failed`);
+    return { passed: this.passed, failed: this.failed };
+  }
+
+  /**
+   * Assertion helper
+   */
+  public assert(condition: boolean, message: string): void {
+    if (!condition) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Equality assertion helper
+   */
+  public assertEqual<T>(actual: T, expected: T, message: string): void {
+    if (actual !== expected) {
+      throw new Error(`${message}. Expected: ${expected}, Actual: ${actual}`);
+    }
+  }
+
+  /**
+   * Checks the get/set/remove contract every backend must honour
+   */
+  public async assertRoundTrip(storage: SaveStorage): Promise<void> {
+    this.assertEqual(await storage.getItem('slot_1'), null, `${storage.name}: missing keys should read as null`);
+
+    await storage.setItem('slot_1', '{"a":1}');
+    await storage.setItem('slot_1', '{"a":2}');
+    this.assertEqual(await storage.getItem('slot_1'), '{"a":2}', `${storage.name}: writes should replace the value`);
+
+    await storage.removeItem('slot_1');
+    await storage.removeItem('slot_1');
+    this.assertEqual(await storage.getItem('slot_1'), null, `${storage.name}: removed keys should read as null`);
+  }
+}
+
+// Create test runner instance
+const runner = new SaveStorageTestRunner();
+
+/**
+ * Creates a world holding just a player
+ */
+function createWorld(x: number): WorldManager {
+  const world = new WorldManager();
+  const entityId = world.createEntity(['Position', 'Health', 'Sprite', 'CombatStats', 'Velocity']);
+  world.addComponent<Position>(entityId, 'Position', { x, y: 0 });
+  world.addComponent(entityId, 'Health', { current: 100, max: 100 });
+  world.addComponent(entityId, 'Sprite', { textureId: 'hero', frameIndex: 0, width: 32, height: 32 });
+  world.addComponent(entityId, 'CombatStats', { attacking: false, attack: 10, defense: 10, actionPoints: 3, maxActionPoints: 3 });
+  world.addComponent(entityId, 'Velocity', { dx: 0, dy: 0 });
+  return world;
+}
+
+// ============= BACKEND TESTS =============
+
+runner.test('MemorySaveStorage - Values round trip', async () => {
+  await runner.assertRoundTrip(new MemorySaveStorage());
+});
+
+runner.test('LocalSaveStorage - Values round trip', async () => {
+  await runner.assertRoundTrip(new LocalSaveStorage());
+});
+
+runner.test('FileSaveStorage - Values round trip and keys stay inside the directory', async () => {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'av-saves-'));
+
+  try {
+    const storage = new FileSaveStorage(path.join(directory, 'saves'));
+    await runner.assertRoundTrip(storage);
+
+    await storage.setItem('../escape', 'data');
+    const files = await fs.readdir(path.join(directory, 'saves'));
+    runner.assertEqual(files.length, 1, 'Only the sanitized file should be written');
+    runner.assert(!files[0].includes('/') && files[0].endsWith('.json'), 'Keys should map to files in the directory');
+    runner.assertEqual(await storage.getItem('../escape'), 'data', 'Sanitized keys should still read back');
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+});
+
+runner.test('createDefaultSaveStorage - Uses localStorage when IndexedDB is unavailable', async () => {
+  runner.assertEqual(createDefaultSaveStorage().name, 'localStorage', 'localStorage should be picked');
+});
+
+// ============= SAVE SYSTEM TESTS =============
+
+runner.test('SaveSystem - Slots, autosave and deletion use the injected storage', async () => {
+  const storage = new MemorySaveStorage();
+  const saveSystem = new SaveSystem(storage);
+  saveSystem.setWorld(createWorld(42));
+
+  runner.assert(await saveSystem.saveGame(2, 'Injected'), 'Save should succeed');
+  runner.assert(await saveSystem.autoSave(), 'Auto save should succeed');
+  runner.assert((await storage.getItem('aetherial_vanguard_save_2')) !== null, 'Save should be written to the storage');
+
+  const occupied = (await saveSystem.getSaveSlots()).filter(slot => slot.occupied);
+  runner.assertEqual(occupied.length, 2, 'Both saves should be listed');
+
+  runner.assert(await saveSystem.deleteSave(2), 'Delete should succeed');
+  runner.assertEqual(await storage.getItem('aetherial_vanguard_save_2'), null, 'Delete should remove the value');
+});
+
+runner.test('SaveSystem - Saves written to files load in a new session', async () => {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'av-saves-'));
+
+  try {
+    const writer = new SaveSystem(new FileSaveStorage(directory));
+    writer.setWorld(createWorld(77));
+    runner.assert(await writer.saveGame(1, 'On disk'), 'Save should succeed');
+
+    const world = new WorldManager();
+    const reader = new SaveSystem(new FileSaveStorage(directory));
+    reader.setWorld(world);
+    runner.assert(await reader.saveExists(1), 'Save should be found on disk');
+    runner.assert(await reader.loadGame(1), 'Load should succeed');
+    runner.assertEqual(world.getComponent<Position>(world.query(['Position'])[0], 'Position')!.x, 77, 'World should be restored');
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+});
+
+runner.test('SaveSystem - Storage failures are reported as failed saves', async () => {
+  const storage = new MemorySaveStorage();
+  storage.setItem = async () => {
+    throw new Error('Quota exceeded');
+  };
+  const saveSystem = new SaveSystem(storage);
+  saveSystem.setWorld(createWorld(1));
+
+  runner.assert(!(await saveSystem.saveGame(1, 'Full')), 'Save should fail');
+});
+
+// Run all tests
+
+
+export { runner as saveStorageTestRunner };
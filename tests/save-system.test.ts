@@ -5,32 +5,34 @@
 
 import { WorldManager } from '../engine/WorldManager';
 import { SaveSystem } from '../engine/SaveSystem';
-import { EntityId, Position, Health, CombatStats, Sprite, Velocity } from '../types';
+import { MemorySaveStorage } from '../engine/SaveStorage';
+import saveV100 from './fixtures/saves/save-1.0.0.json';
+import { EntityId, Position, Health, CombatStats, Sprite, Velocity, Inventory, Party } from '../types';
 
 /**
  * Test runner for save system tests
  */
 class SaveSystemTestRunner {
-  private tests: Array<{ name: string; fn: () => void }> = [];
+  private tests: Array<{ name: string; fn: () => Promise<void> }> = [];
   private passed = 0;
   private failed = 0;
 
   /**
    * Registers a test
    */
-  public test(name: string, fn: () => void): void {
+  public test(name: string, fn: () => Promise<void>): void {
     this.tests.push({ name, fn });
   }
 
   /**
    * Runs all registered tests
    */
-  public run(): { passed: number; failed: number } {
+  public async run(): Promise<{ passed: number; failed: number }> {
     console.log('Running Save System Tests...\n');
 
     for (const test of this.tests) {
       try {
-        test.fn();
+        await test.fn();
         console.log(`✓ ${test.name}`);
         this.passed++;
       } catch (error) {
@@ -84,8 +86,8 @@ const runner = new SaveSystemTestRunner();
 
 // ============= BASIC SAVE FUNCTIONALITY TESTS =============
 
-runner.test('SaveSystem - Initialization', () => {
-  const saveSystem = new SaveSystem();
+runner.test('SaveSystem - Initialization', async () => {
+  const saveSystem = new SaveSystem(new MemorySaveStorage());
   const world = new WorldManager();
 
   saveSystem.setWorld(world);
@@ -94,8 +96,8 @@ runner.test('SaveSystem - Initialization', () => {
   runner.assert(true, 'Save system should initialize successfully');
 });
 
-runner.test('SaveSystem - Save and load basic data', () => {
-  const saveSystem = new SaveSystem();
+runner.test('SaveSystem - Save and load basic data', async () => {
+  const saveSystem = new SaveSystem(new MemorySaveStorage());
   const world = new WorldManager();
 
   saveSystem.setWorld(world);
@@ -120,14 +122,14 @@ runner.test('SaveSystem - Save and load basic data', () => {
   world.addComponent(entityId, 'Velocity', { dx: 0, dy: 0 });
 
   // Save game
-  const saveSuccess = saveSystem.saveGame(1, 'Test Save');
+  const saveSuccess = await saveSystem.saveGame(1, 'Test Save');
   runner.assert(saveSuccess, 'Save should succeed');
 
   // Clear world
   world.clear();
 
   // Load game
-  const loadSuccess = saveSystem.loadGame(1);
+  const loadSuccess = await saveSystem.loadGame(1);
   runner.assert(loadSuccess, 'Load should succeed');
 
   // Verify loaded entity
@@ -152,8 +154,8 @@ runner.test('SaveSystem - Save and load basic data', () => {
   }
 });
 
-runner.test('SaveSystem - Multiple save slots', () => {
-  const saveSystem = new SaveSystem();
+runner.test('SaveSystem - Multiple save slots', async () => {
+  const saveSystem = new SaveSystem(new MemorySaveStorage());
   const world = new WorldManager();
 
   saveSystem.setWorld(world);
@@ -168,7 +170,7 @@ runner.test('SaveSystem - Multiple save slots', () => {
   world.addComponent(entity1, 'Velocity', { dx: 0, dy: 0 });
 
   // Save to first slot
-  const save1Success = saveSystem.saveGame(1, 'Save 1');
+  const save1Success = await saveSystem.saveGame(1, 'Save 1');
   runner.assert(save1Success, 'First save should succeed');
 
   // Clear world and create new entity for second save
@@ -182,14 +184,14 @@ runner.test('SaveSystem - Multiple save slots', () => {
   world.addComponent(entity2, 'Velocity', { dx: 0, dy: 0 });
 
   // Save to second slot
-  const save2Success = saveSystem.saveGame(2, 'Save 2');
+  const save2Success = await saveSystem.saveGame(2, 'Save 2');
   runner.assert(save2Success, 'Second save should succeed');
 
   // Clear world
   world.clear();
 
   // Load first save
-  const load1Success = saveSystem.loadGame(1);
+  const load1Success = await saveSystem.loadGame(1);
   runner.assert(load1Success, 'First load should succeed');
 
   const loadedEntities = world.query(['Position']);
@@ -204,7 +206,7 @@ runner.test('SaveSystem - Multiple save slots', () => {
 
   // Clear and load second save
   world.clear();
-  const load2Success = saveSystem.loadGame(2);
+  const load2Success = await saveSystem.loadGame(2);
   runner.assert(load2Success, 'Second load should succeed');
 
   const loadedEntities2 = world.query(['Position']);
@@ -220,11 +222,107 @@ runner.test('SaveSystem - Multiple save slots', () => {
 
 // ============= SAVE SLOT MANAGEMENT TESTS =============
 
-runner.test('SaveSystem - Get save slots', () => {
-  const saveSystem = new SaveSystem();
+runner.test('SaveSystem - Registered components are saved and restored', async () => {
+  const saveSystem = new SaveSystem(new MemorySaveStorage());
+  const world = new WorldManager();
+  saveSystem.setWorld(world);
+
+  const entityId = world.createEntity(['Position', 'Health', 'Sprite', 'CombatStats', 'Velocity']);
+  world.addComponent(entityId, 'Position', { x: 10, y: 20 });
+  world.addComponent(entityId, 'Health', { current: 40, max: 100 });
+  world.addComponent(entityId, 'Sprite', { textureId: 'hero', frameIndex: 0, width: 32, height: 32 });
+  world.addComponent(entityId, 'CombatStats', { attacking: false, attack: 10, defense: 10, actionPoints: 3, maxActionPoints: 3 });
+  world.addComponent(entityId, 'Velocity', { dx: 0, dy: 0 });
+  world.addComponent<Inventory>(entityId, 'Inventory', { items: [{ itemId: 'potion_health', quantity: 2 }], gold: 75 });
+  world.addComponent(entityId, 'Animation', { currentAnimation: 'walk', frameIndex: 1, frameTimer: 0.1, loop: true, onComplete: () => {} });
+
+  runner.assert(await saveSystem.saveGame(4, 'Components'), 'Save should succeed');
+  world.clear();
+  runner.assert(await saveSystem.loadGame(4), 'Load should succeed');
+
+  const playerId = world.query(['Position'])[0];
+  const inventory = world.getComponent<Inventory>(playerId, 'Inventory');
+  runner.assertNotNull(inventory, 'Inventory should be restored');
+  runner.assertEqual(inventory!.gold, 75, 'Gold should be restored');
+  runner.assertEqual(inventory!.items[0].quantity, 2, 'Items should be restored');
+  runner.assertEqual(world.getComponent<{ currentAnimation: string }>(playerId, 'Animation')!.currentAnimation, 'walk', 'Animation should be restored without its callback');
+});
+
+runner.test('SaveSystem - Whole world is restored with entity references remapped', async () => {
+  const saveSystem = new SaveSystem(new MemorySaveStorage());
+  const world = new WorldManager();
+  saveSystem.setWorld(world);
+
+  // Burn an ID so saved IDs differ from the ones allocated on load
+  world.destroyEntity(world.createEntity());
+  const playerId = world.createEntity(['Position', 'Health', 'Sprite', 'CombatStats', 'Velocity']);
+  world.addComponent(playerId, 'Position', { x: 10, y: 20 });
+  world.addComponent(playerId, 'Health', { current: 40, max: 100 });
+  world.addComponent(playerId, 'Sprite', { textureId: 'hero', frameIndex: 0, width: 32, height: 32 });
+  world.addComponent(playerId, 'CombatStats', { attacking: false, attack: 10, defense: 10, actionPoints: 3, maxActionPoints: 3 });
+  world.addComponent(playerId, 'Velocity', { dx: 50, dy: 0 });
+  const allyId = world.instantiate('hero', { Position: { x: 30, y: 20 } })!;
+  const swordId = world.getChildren(allyId)[0];
+  const partyId = world.createEntity();
+  world.addComponent<Party>(partyId, 'Party', { members: [playerId, allyId], maxSize: 4, formation: [playerId, allyId], activeMembers: [playerId, allyId] });
+  const npcId = world.instantiate('npc', { Position: { x: 300, y: 120 } })!;
+  world.getComponentRegistry().setStrict(false);
+  world.addComponent(npcId, 'Scratch', { note: 'not registered' });
+  runner.assertEqual(world.query(['Scratch']).length, 1, 'Lenient registry should accept the unregistered component');
+  const collidableCount = world.query(['Position', 'Collision']).length;
+
+  runner.assert(await saveSystem.saveGame(6, 'World'), 'Save should succeed');
+  world.clear();
+  runner.assert(await saveSystem.loadGame(6), 'Load should succeed');
+
+  runner.assertEqual(world.entities.size, 5, 'Every entity should be restored');
+  const [restoredPartyId] = world.query(['Party']);
+  const party = world.getComponent<Party>(restoredPartyId, 'Party')!;
+  const [restoredPlayerId, restoredAllyId] = party.members;
+  runner.assertEqual(world.getComponent<Position>(restoredPlayerId, 'Position')!.x, 10, 'Party should point at the restored player');
+  runner.assertEqual(world.getComponent<Position>(restoredAllyId, 'Position')!.x, 30, 'Party should point at the restored ally');
+  runner.assertEqual(party.activeMembers.join(','), party.members.join(','), 'Every reference should be remapped');
+
+  const [restoredSwordId] = world.getChildren(restoredAllyId);
+  runner.assert(restoredSwordId !== undefined && restoredSwordId !== swordId, 'Child should be restored under a new ID');
+  runner.assertEqual(world.getParent(restoredSwordId), restoredAllyId, 'Child should point at its restored parent');
+
+  runner.assertEqual(world.getComponent<Velocity>(restoredPlayerId, 'Velocity')!.dx, 0, 'Transient components should restore from defaults');
+  runner.assertEqual(world.query(['Scratch']).length, 0, 'Unregistered components should not be saved');
+  runner.assertEqual(world.query(['Position', 'Collision']).length, collidableCount, 'NPC and ally should be restored');
+});
+
+runner.test('SaveSystem - 1.0.0 saves are migrated on load', async () => {
+  const saveSystem = new SaveSystem(new MemorySaveStorage());
+  const world = new WorldManager();
+  saveSystem.setWorld(world);
+  await saveSystem.getStorage().setItem('aetherial_vanguard_save_7', JSON.stringify(saveV100));
+
+  runner.assert(await saveSystem.loadGame(7), 'Load should succeed');
+  runner.assertEqual(saveSystem.getLastLoadError(), null, 'No error should be reported');
+  runner.assertEqual(world.entities.size, 1, 'Only the player should be restored');
+  const playerId = world.query(['Position'])[0];
+  runner.assertEqual(world.getComponent<Position>(playerId, 'Position')!.x, 120, 'Player position should be restored');
+  runner.assertEqual(world.getComponent<Inventory>(playerId, 'Inventory')!.gold, 140, 'Player components should be restored');
+});
+
+runner.test('SaveSystem - Saves from a newer version are refused with a reason', async () => {
+  const saveSystem = new SaveSystem(new MemorySaveStorage());
+  const world = new WorldManager();
+  saveSystem.setWorld(world);
+  const existingId = world.createEntity(['Position']);
+  await saveSystem.getStorage().setItem('aetherial_vanguard_save_7', JSON.stringify({ ...saveV100, meta: { ...saveV100.meta, version: '9.0.0' } }));
+
+  runner.assert(!(await saveSystem.loadGame(7)), 'Load should fail');
+  runner.assert(saveSystem.getLastLoadError()!.includes('newer version'), 'The reason should be reported');
+  runner.assert(world.entities.has(existingId), 'The current world should be left alone');
+});
+
+runner.test('SaveSystem - Get save slots', async () => {
+  const saveSystem = new SaveSystem(new MemorySaveStorage());
 
   // Get all save slots
-  const saveSlots = saveSystem.getSaveSlots();
+  const saveSlots = await saveSystem.getSaveSlots();
   runner.assertNotNull(saveSlots, 'Save slots should be returned');
   runner.assertArrayLength(saveSlots, 10, 'Should have 10 save slots');
 
@@ -235,29 +333,23 @@ runner.test('SaveSystem - Get save slots', () => {
   }
 });
 
-runner.test('SaveSystem - Save slot validation', () => {
-  const saveSystem = new SaveSystem();
+runner.test('SaveSystem - Save slot validation', async () => {
+  const saveSystem = new SaveSystem(new MemorySaveStorage());
 
   // Test invalid slot numbers
-  const invalidSlot1 = saveSystem.saveGame(-1, 'Invalid Save');
-  const invalidSlot2 = saveSystem.saveGame(100, 'Invalid Save');
+  const invalidSlot1 = await saveSystem.saveGame(-1, 'Invalid Save');
+  const invalidSlot2 = await saveSystem.saveGame(100, 'Invalid Save');
 
   runner.assert(!invalidSlot1, 'Should reject negative slot');
   runner.assert(!invalidSlot2, 'Should reject too large slot');
 });
 
-runner.test('SaveSystem - Save exists check', () => {
-  const saveSystem = new SaveSystem();
+runner.test('SaveSystem - Save exists check', async () => {
+  const saveSystem = new SaveSystem(new MemorySaveStorage());
   
-  // Clear any existing saves in localStorage for clean test
-  for (let i = 1; i <= 10; i++) {
-    const storageKey = `aetherial_vanguard_save_${i}`;
-    localStorage.removeItem(storageKey);
-  }
-
   // Initially, no saves should exist (check a few slots)
-  runner.assert(!saveSystem.saveExists(1), 'Slot 1 should not exist initially');
-  runner.assert(!saveSystem.saveExists(5), 'Slot 5 should not exist initially');
+  runner.assert(!(await saveSystem.saveExists(1)), 'Slot 1 should not exist initially');
+  runner.assert(!(await saveSystem.saveExists(5)), 'Slot 5 should not exist initially');
 
   // Save a game
   const world = new WorldManager();
@@ -270,19 +362,19 @@ runner.test('SaveSystem - Save exists check', () => {
   world.addComponent(entityId, 'CombatStats', { attacking: false, attack: 10, defense: 10, actionPoints: 3, maxActionPoints: 3 });
   world.addComponent(entityId, 'Velocity', { dx: 0, dy: 0 });
 
-  const saveSuccess = saveSystem.saveGame(5, 'Test Save');
+  const saveSuccess = await saveSystem.saveGame(5, 'Test Save');
   runner.assert(saveSuccess, 'Save should succeed');
 
   // Now slot 5 should exist
-  const exists = saveSystem.saveExists(5);
+  const exists = await saveSystem.saveExists(5);
   runner.assert(exists, 'Slot 5 should exist after save');
   
   // Slot 1 should still not exist
-  runner.assert(!saveSystem.saveExists(1), 'Slot 1 should still not exist');
+  runner.assert(!(await saveSystem.saveExists(1)), 'Slot 1 should still not exist');
 });
 
-runner.test('SaveSystem - Delete save', () => {
-  const saveSystem = new SaveSystem();
+runner.test('SaveSystem - Delete save', async () => {
+  const saveSystem = new SaveSystem(new MemorySaveStorage());
   const world = new WorldManager();
 
   saveSystem.setWorld(world);
@@ -295,24 +387,24 @@ runner.test('SaveSystem - Delete save', () => {
   world.addComponent(entityId, 'CombatStats', { attacking: false, attack: 10, defense: 10, actionPoints: 3, maxActionPoints: 3 });
   world.addComponent(entityId, 'Velocity', { dx: 0, dy: 0 });
 
-  const saveSuccess = saveSystem.saveGame(3, 'Test Save');
+  const saveSuccess = await saveSystem.saveGame(3, 'Test Save');
   runner.assert(saveSuccess, 'Save should succeed');
 
   // Verify save exists
-  runner.assert(saveSystem.saveExists(3), 'Save should exist in slot 3');
+  runner.assert(await saveSystem.saveExists(3), 'Save should exist in slot 3');
 
   // Delete save
-  const deleteSuccess = saveSystem.deleteSave(3);
+  const deleteSuccess = await saveSystem.deleteSave(3);
   runner.assert(deleteSuccess, 'Delete should succeed');
 
   // Verify save no longer exists
-  runner.assert(!saveSystem.saveExists(3), 'Save should not exist after delete');
+  runner.assert(!(await saveSystem.saveExists(3)), 'Save should not exist after delete');
 });
 
 // ============= AUTO SAVE TESTS =============
 
-runner.test('SaveSystem - Auto save', () => {
-  const saveSystem = new SaveSystem();
+runner.test('SaveSystem - Auto save', async () => {
+  const saveSystem = new SaveSystem(new MemorySaveStorage());
   const world = new WorldManager();
 
   saveSystem.setWorld(world);
@@ -326,7 +418,7 @@ runner.test('SaveSystem - Auto save', () => {
   world.addComponent(entityId, 'Velocity', { dx: 0, dy: 0 });
 
   // Auto save
-  const autoSaveSuccess = saveSystem.autoSave();
+  const autoSaveSuccess = await saveSystem.autoSave();
   runner.assert(autoSaveSuccess, 'Auto save should succeed');
 
   // Verify auto save exists in auto save slot
@@ -334,7 +426,7 @@ runner.test('SaveSystem - Auto save', () => {
   // but we can verify that some save exists
   let saveExists = false;
   for (let i = 1; i <= 10; i++) {
-    if (saveSystem.saveExists(i)) {
+    if (await saveSystem.saveExists(i)) {
       saveExists = true;
       break;
     }
@@ -344,35 +436,35 @@ runner.test('SaveSystem - Auto save', () => {
 
 // ============= ERROR HANDLING TESTS =============
 
-runner.test('SaveSystem - Save without world manager', () => {
-  const saveSystem = new SaveSystem();
+runner.test('SaveSystem - Save without world manager', async () => {
+  const saveSystem = new SaveSystem(new MemorySaveStorage());
   // Don't set world manager
 
-  const saveSuccess = saveSystem.saveGame(1, 'Test Save');
+  const saveSuccess = await saveSystem.saveGame(1, 'Test Save');
   runner.assert(!saveSuccess, 'Should fail to save without world manager');
 });
 
-runner.test('SaveSystem - Load without world manager', () => {
-  const saveSystem = new SaveSystem();
+runner.test('SaveSystem - Load without world manager', async () => {
+  const saveSystem = new SaveSystem(new MemorySaveStorage());
   // Don't set world manager
 
-  const loadSuccess = saveSystem.loadGame(1);
+  const loadSuccess = await saveSystem.loadGame(1);
   runner.assert(!loadSuccess, 'Should fail to load without world manager');
 });
 
-runner.test('SaveSystem - Delete without world manager', () => {
-  const saveSystem = new SaveSystem();
+runner.test('SaveSystem - Delete without world manager', async () => {
+  const saveSystem = new SaveSystem(new MemorySaveStorage());
   // Don't set world manager
 
   // Delete should succeed even without world manager (it only validates slot number)
-  const deleteSuccess = saveSystem.deleteSave(1);
+  const deleteSuccess = await saveSystem.deleteSave(1);
   runner.assert(deleteSuccess, 'Delete should succeed even without world manager');
 });
 
 // ============= PERFORMANCE TESTS =============
 
-runner.test('SaveSystem - Performance with large data', () => {
-  const saveSystem = new SaveSystem();
+runner.test('SaveSystem - Performance with large data', async () => {
+  const saveSystem = new SaveSystem(new MemorySaveStorage());
   const world = new WorldManager();
 
   saveSystem.setWorld(world);
@@ -409,7 +501,7 @@ runner.test('SaveSystem - Performance with large data', () => {
   const startTime = performance.now();
 
   // Save game
-  const saveSuccess = saveSystem.saveGame(1, 'Performance Test');
+  const saveSuccess = await saveSystem.saveGame(1, 'Performance Test');
   runner.assert(saveSuccess, 'Large save should succeed');
 
   const endTime = performance.now();
@@ -419,11 +511,11 @@ runner.test('SaveSystem - Performance with large data', () => {
   runner.assert(duration < 1000, 'Large save should complete within 1 second');
 
   // Verify save exists
-  runner.assert(saveSystem.saveExists(1), 'Large save should exist');
+  runner.assert(await saveSystem.saveExists(1), 'Large save should exist');
 });
 
-runner.test('SaveSystem - Multiple operations performance', () => {
-  const saveSystem = new SaveSystem();
+runner.test('SaveSystem - Multiple operations performance', async () => {
+  const saveSystem = new SaveSystem(new MemorySaveStorage());
   const world = new WorldManager();
 
   saveSystem.setWorld(world);
@@ -439,7 +531,7 @@ runner.test('SaveSystem - Multiple operations performance', () => {
     world.addComponent(entityId, 'CombatStats', { attacking: false, attack: 10, defense: 10, actionPoints: 3, maxActionPoints: 3 });
     world.addComponent(entityId, 'Velocity', { dx: 0, dy: 0 });
 
-    const saveSuccess = saveSystem.saveGame(i, `Performance Test ${i}`);
+    const saveSuccess = await saveSystem.saveGame(i, `Performance Test ${i}`);
     runner.assert(saveSuccess, `Save ${i} should succeed`);
 
     // Clean up entity for next iteration
@@ -454,11 +546,11 @@ runner.test('SaveSystem - Multiple operations performance', () => {
 
   // Verify saves exist
   for (let i = 1; i <= 10; i++) {
-    runner.assert(saveSystem.saveExists(i), `Save ${i} should exist`);
+    runner.assert(await saveSystem.saveExists(i), `Save ${i} should exist`);
   }
 });
 
 // Run all tests
-runner.run();
+
 
 export { runner as saveSystemTestRunner };
\ No newline at end of file
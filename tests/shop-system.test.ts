@@ -0,0 +1,302 @@
+/**
+ * Shop System Tests
+ * @fileoverview Tests for shop pricing, stock limits, gold accounting, equip previews and shop persistence
+ */
+
+import { ShopSystem, ShopEvent } from '../engine/ShopSystem';
+import { InteractionSystem, InteractionType, InteractionCondition, InteractionActionType, Interaction } from '../engine/InteractionSystem';
+import { MemorySaveStorage } from '../engine/SaveStorage';
+import { SaveSystem } from '../engine/SaveSystem';
+import { WorldManager } from '../engine/WorldManager';
+import { CharacterClass, CharacterStats, EntityId, Inventory, Party, Position } from '../types';
+import { GAME_CONFIG, WORLD_LOCATIONS_DATABASE, getItem } from '../data/GameData';
+
+/**
+ * Test runner for shop system tests
+ */
+class ShopSystemTestRunner {
+  private tests: Array<{ name: string; fn: () => Promise<void> }> = [];
+  private passed = 0;
+  private failed = 0;
+
+  /**
+   * Registers a test
+   */
+  public test(name: string, fn: () => Promise<void>): void {
+    this.tests.push({ name, fn });
+  }
+
+  /**
+   * Runs all registered tests
+   */
+  public async run(): Promise<{ passed: number; failed: number }> {
+    console.log('Running Shop System Tests...\n');
+
+    for (const test of this.tests) {
+      try {
+        await test.fn();
+        console.log(`✓ ${test.name}`);
+        this.passed++;
+      } catch (error) {
+        console.log(`✗ ${test.name}`);
+        console.log(`  Error: ${error}`);
+        this.failed++;
+      }
+    }
+
+    console.log(`\nShop System Test Results: ${this.passed} passed, ${this.failed} failed`);
+    return { passed: this.passed, failed: this.failed };
+  }
+
+  /**
+   * Assertion helper
+   */
+  public assert(condition: boolean, message: string): void {
+    if (!condition) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Equality assertion helper
+   */
+  public assertEqual<T>(actual: T, expected: T, message: string): void {
+    if (actual !== expected) {
+      throw new Error(`${message}. Expected: ${expected}, Actual: ${actual}`);
+    }
+  }
+
+  /**
+   * Creates a world with a classed player carrying gold and a shop system serving them
+   */
+  public setup(gold: number, characterClass: CharacterClass = CharacterClass.WARRIOR): { world: WorldManager; shop: ShopSystem; playerId: EntityId } {
+    const world = new WorldManager();
+    const playerId = createCharacter(world, characterClass);
+    world.addComponent<Inventory>(playerId, 'Inventory', { items: [], gold });
+
+    const shop = new ShopSystem();
+    shop.setWorld(world);
+    shop.setPlayer(playerId);
+    return { world, shop, playerId };
+  }
+}
+
+// Create test runner instance
+const runner = new ShopSystemTestRunner();
+
+/**
+ * Creates a character entity of a class
+ */
+function createCharacter(world: WorldManager, characterClass: CharacterClass): EntityId {
+  const entityId = world.createEntity(['CharacterStats']);
+  world.addComponent<CharacterStats>(entityId, 'CharacterStats', {
+    class: characterClass,
+    level: 1,
+    experience: 0,
+    experienceToNext: 100,
+    strength: 10,
+    agility: 10,
+    intelligence: 10,
+    vitality: 10,
+    luck: 10,
+    baseHealth: 100,
+    baseMana: 0
+  });
+  return entityId;
+}
+
+/**
+ * Gets the quantity of an item the player carries
+ */
+function carried(world: WorldManager, playerId: EntityId, itemId: string): number {
+  return world.getComponent<Inventory>(playerId, 'Inventory')!.items.find(entry => entry.itemId === itemId)?.quantity ?? 0;
+}
+
+// ============= DATA TESTS =============
+
+runner.test('Shops - Stock limits reference items each shop sells', async () => {
+  for (const [locationId, location] of Object.entries(WORLD_LOCATIONS_DATABASE)) {
+    for (const [itemId, units] of Object.entries(location.shopStock ?? {})) {
+      runner.assert(location.shopItems?.includes(itemId) ?? false, `${locationId} limits ${itemId} but does not sell it`);
+      runner.assert(getItem(itemId)?.properties.value !== undefined, `${locationId} limits unpriced item ${itemId}`);
+      runner.assert(Number.isInteger(units) && units > 0, `${locationId} stock of ${itemId} should be a positive integer`);
+    }
+  }
+});
+
+// ============= PRICING TESTS =============
+
+runner.test('Shops - Prices follow item values and price rules', async () => {
+  const shop = new ShopSystem();
+  runner.assertEqual(shop.getBuyPrice('sword_iron'), 150, 'Buy price should be the item value');
+  runner.assertEqual(shop.getSellPrice('sword_iron'), 75, 'Sell price should be half the value');
+  runner.assertEqual(shop.getSellPrice('key_silver'), null, 'Key items cannot be sold');
+  runner.assertEqual(shop.getBuyPrice('no_such_item'), null, 'Unknown items have no price');
+
+  const pricey = new ShopSystem(WORLD_LOCATIONS_DATABASE, { buyMarkup: 1.5, sellRate: 0.25 });
+  runner.assertEqual(pricey.getBuyPrice('sword_iron'), 225, 'Markup should apply to buying');
+  runner.assertEqual(pricey.getSellPrice('sword_iron'), 37, 'Sell rate should apply and round down');
+});
+
+runner.test('Shops - Listings cover priced items with stock and affordability', async () => {
+  const { shop } = runner.setup(100);
+  const listings = shop.getListings('aethelgard')!;
+  const sword = listings.find(listing => listing.itemId === 'sword_iron')!;
+
+  runner.assertEqual(sword.stock, 3, 'Limited stock should be listed');
+  runner.assert(!sword.affordable, '150 gold sword is not affordable with 100 gold');
+  runner.assertEqual(listings.find(listing => listing.itemId === 'antidote')!.stock, null, 'Unlimited items list null stock');
+
+  const magicShop = shop.getListings('corsairs_cove')!;
+  runner.assert(!magicShop.some(listing => listing.itemId === 'fire_1'), 'Spells are not sold as items');
+  runner.assertEqual(shop.getListings('sanctum_of_discord'), null, 'Locations without shops have no listings');
+});
+
+// ============= TRANSACTION TESTS =============
+
+runner.test('Shops - Buying spends gold and depletes limited stock', async () => {
+  const { world, shop, playerId } = runner.setup(1000);
+  const events: ShopEvent[] = [];
+  shop.subscribe(event => events.push(event));
+
+  const purchase = shop.buy('aethelgard', 'sword_iron', 2);
+  runner.assert(purchase.success, 'Purchase should succeed');
+  runner.assertEqual(purchase.gold, 300, 'Two swords cost 300');
+  runner.assertEqual(world.getComponent<Inventory>(playerId, 'Inventory')!.gold, 700, 'Gold should be spent');
+  runner.assertEqual(carried(world, playerId, 'sword_iron'), 2, 'Swords should be added');
+  runner.assertEqual(shop.getStock('aethelgard', 'sword_iron'), 1, 'Stock should go down');
+
+  runner.assertEqual(shop.buy('aethelgard', 'sword_iron', 2).reason, 'out_of_stock', 'Cannot buy more than the stock');
+  runner.assertEqual(shop.buy('aethelgard', 'plate_armor').reason, 'not_stocked', 'Cannot buy items the shop does not sell');
+  runner.assertEqual(shop.buy('aethelgard', 'antidote', 0).reason, 'invalid_quantity', 'Quantity must be positive');
+  runner.assertEqual(shop.buy('aethelgard', 'leather_armor', 4).reason, 'out_of_stock', 'Cannot buy more than the stock');
+  runner.assertEqual(shop.buy('aethelgard', 'leather_armor', 2).reason, null, 'Affordable purchase should go through');
+  runner.assertEqual(shop.buy('aethelgard', 'antidote', 20).reason, 'insufficient_gold', 'Cannot spend gold not carried');
+
+  runner.assertEqual(shop.getTotals().goldSpent, 540, 'Spent gold should be totalled');
+  runner.assertEqual(events.filter(event => event.type === 'item_bought').length, 2, 'Purchases should be announced');
+  runner.assertEqual(events.filter(event => event.type === 'transaction_failed').length, 5, 'Refusals should be announced');
+});
+
+runner.test('Shops - Selling pays out up to the gold cap', async () => {
+  const { world, shop, playerId } = runner.setup(0);
+  const inventory = world.getComponent<Inventory>(playerId, 'Inventory')!;
+  inventory.items.push({ itemId: 'sword_iron', quantity: 2 }, { itemId: 'key_silver', quantity: 1 });
+  world.updateComponent<Inventory>(playerId, 'Inventory', inventory);
+
+  const sale = shop.sell('aethelgard', 'sword_iron', 2);
+  runner.assert(sale.success, 'Sale should succeed');
+  runner.assertEqual(world.getComponent<Inventory>(playerId, 'Inventory')!.gold, 150, 'Gold should be paid');
+  runner.assertEqual(carried(world, playerId, 'sword_iron'), 0, 'Sold items should leave the inventory');
+  runner.assertEqual(shop.getTotals().goldEarned, 150, 'Earned gold should be totalled');
+
+  runner.assertEqual(shop.sell('aethelgard', 'key_silver').reason, 'not_sellable', 'Key items cannot be sold');
+  runner.assertEqual(shop.sell('aethelgard', 'sword_iron').reason, 'not_carried', 'Cannot sell what is not carried');
+
+  const rich = runner.setup(GAME_CONFIG.MAX_GOLD - 10);
+  const richInventory = rich.world.getComponent<Inventory>(rich.playerId, 'Inventory')!;
+  richInventory.items.push({ itemId: 'sword_iron', quantity: 1 });
+  runner.assertEqual(rich.shop.sell('aethelgard', 'sword_iron').reason, 'gold_cap', 'Sales cannot exceed the gold cap');
+  runner.assertEqual(carried(rich.world, rich.playerId, 'sword_iron'), 1, 'Refused sales keep the item');
+});
+
+runner.test('Shops - New item types need a free inventory slot', async () => {
+  const { world, shop, playerId } = runner.setup(1000);
+  const inventory = world.getComponent<Inventory>(playerId, 'Inventory')!;
+  for (let i = 0; i < GAME_CONFIG.MAX_INVENTORY_SLOTS; i++) {
+    inventory.items.push({ itemId: i === 0 ? 'antidote' : `junk_${i}`, quantity: 1 });
+  }
+
+  runner.assertEqual(shop.buy('aethelgard', 'cloth_tunic').reason, 'inventory_full', 'A full inventory cannot take new items');
+  runner.assert(shop.buy('aethelgard', 'antidote').success, 'Carried items can still stack');
+});
+
+// ============= EQUIP PREVIEW TESTS =============
+
+runner.test('Shops - Equip previews follow class restrictions', async () => {
+  const { world, shop, playerId } = runner.setup(0, CharacterClass.WARRIOR);
+  const thiefId = createCharacter(world, CharacterClass.THIEF);
+  world.addComponent<Party>(playerId, 'Party', { members: [playerId, thiefId], maxSize: 4, formation: [playerId, thiefId], activeMembers: [playerId, thiefId] });
+
+  runner.assert(shop.canEquip('plate_armor', CharacterClass.WARRIOR), 'Warriors wear heavy armor');
+  runner.assert(!shop.canEquip('plate_armor', CharacterClass.THIEF), 'Thieves do not wear heavy armor');
+  runner.assert(shop.canEquip('dagger_wood', CharacterClass.THIEF), 'Thieves use daggers');
+  runner.assert(shop.canEquip('shield_wood', CharacterClass.THIEF), 'Equipment without a category fits any class');
+  runner.assert(!shop.canEquip('antidote', CharacterClass.THIEF), 'Consumables are not equipment');
+
+  const preview = shop.getListings('aethelgard')!.find(listing => listing.itemId === 'leather_armor')!.equipPreview;
+  runner.assertEqual(preview.length, 2, 'Every party member should be previewed');
+  runner.assert(preview.every(member => member.canEquip), 'Both classes wear light armor');
+
+  const swordPreview = shop.previewEquip('sword_iron');
+  runner.assert(swordPreview.find(member => member.entityId === playerId)!.canEquip, 'Warrior can use the sword');
+  runner.assert(!swordPreview.find(member => member.entityId === thiefId)!.canEquip, 'Thief cannot use a heavy sword');
+  runner.assertEqual(shop.previewEquip('antidote').length, 0, 'Consumables have no preview');
+});
+
+// ============= INTEGRATION TESTS =============
+
+runner.test('InteractionSystem - OPEN_SHOP opens the location shop', async () => {
+  const { world, shop, playerId } = runner.setup(500);
+  world.addComponent<Position>(playerId, 'Position', { x: 0, y: 0 });
+  const opened: string[] = [];
+  shop.subscribe(event => {
+    if (event.type === 'shop_opened') opened.push(event.shopId);
+  });
+
+  const interactions = new InteractionSystem();
+  interactions.setWorld(world);
+  interactions.setPlayer(playerId);
+  interactions.setShopSystem(shop);
+
+  const shopkeeper: Interaction = {
+    id: 'aethelgard_shopkeeper',
+    type: InteractionType.SHOP,
+    name: 'Shopkeeper',
+    description: 'Sells starter gear',
+    range: 50,
+    enabled: true,
+    singleUse: false,
+    used: false,
+    conditions: [{ type: InteractionCondition.ALWAYS, value: true }],
+    actions: [{ type: InteractionActionType.OPEN_SHOP, parameters: { shopId: 'aethelgard' } }]
+  };
+  const shopkeeperId = interactions.createInteractiveEntity(shopkeeper);
+  world.addComponent<Position>(shopkeeperId, 'Position', { x: 10, y: 0 });
+
+  interactions.update(0.1);
+  runner.assert(interactions.interact(), 'Talking to the shopkeeper should work');
+  runner.assertEqual(opened.join(','), 'aethelgard', 'The shop should open');
+});
+
+runner.test('SaveSystem - Shop gold totals and remaining stock are saved', async () => {
+  const { world, shop, playerId } = runner.setup(1000);
+  world.addComponent<Position>(playerId, 'Position', { x: 0, y: 0 });
+  world.addComponent(playerId, 'Health', { current: 100, max: 100 });
+  world.addComponent(playerId, 'Sprite', { textureId: 'hero', frameIndex: 0, width: 32, height: 32 });
+  world.addComponent(playerId, 'CombatStats', { attacking: false, attack: 10, defense: 10, actionPoints: 3, maxActionPoints: 3 });
+  world.addComponent(playerId, 'Velocity', { dx: 0, dy: 0 });
+
+  const storage = new MemorySaveStorage();
+  const saveSystem = new SaveSystem(storage);
+  saveSystem.setWorld(world);
+  saveSystem.setShopSystem(shop);
+
+  shop.buy('aethelgard', 'antidote', 4);
+  shop.buy('aethelgard', 'sword_iron', 1);
+  runner.assert(await saveSystem.saveGame(1, 'Shopping'), 'Save should succeed');
+
+  const restored = new ShopSystem();
+  saveSystem.setShopSystem(restored);
+  runner.assert(await saveSystem.loadGame(1), 'Load should succeed');
+  runner.assertEqual(restored.getTotals().goldSpent, shop.getTotals().goldSpent, 'Spent gold should be restored');
+  runner.assertEqual(restored.getTotals().goldEarned, 0, 'Earned gold should be restored');
+  runner.assertEqual(restored.getStock('aethelgard', 'sword_iron'), 2, 'Remaining stock should be restored');
+  runner.assertEqual(restored.getStock('aethelgard', 'leather_armor'), 3, 'Untouched stock should stay full');
+  runner.assertEqual(restored.getStock('aethelgard', 'antidote'), null, 'Unlimited items should stay unlimited');
+});
+
+// Run all tests
+
+
+export { runner as shopSystemTestRunner };
@@ -0,0 +1,305 @@
+/**
+ * Status Effect System Tests
+ * @fileoverview Unit tests for status effect application, ticking and interactions
+ */
+
+import { StatusEffectSystem } from '../engine/StatusEffectSystem';
+import { GridMovementSystem } from '../engine/GridMovementSystem';
+import { WorldManager } from '../engine/WorldManager';
+import { EntityId, GameMap, Health, StatusEffect, StatusEffects } from '../types';
+import { RNG } from '../utils/rng';
+
+/**
+ * Test runner for status effect system tests
+ */
+class StatusEffectSystemTestRunner {
+  private tests: Array<{ name: string; fn: () => void }> = [];
+  private passed = 0;
+  private failed = 0;
+
+  /**
+   * Registers a test
+   */
+  public test(name: string, fn: () => void): void {
+    this.tests.push({ name, fn });
+  }
+
+  /**
+   * Runs all registered tests
+   */
+  public run(): { passed: number; failed: number } {
+    console.log('Running Status Effect System Tests...\n');
+
+    for (const test of this.tests) {
+      try {
+        test.fn();
+        console.log(`✓ ${test.name}`);
+        this.passed++;
+      } catch (error) {
+        console.log(`✗ ${test.name}`);
+        console.log(`  Error: ${error}`);
+        this.failed++;
+      }
+    }
+
+    console.log(`\nStatus Effect System Test Results: ${this.passed} passed, ${this.failed} failed`);
+    return { passed: this.passed, failed: this.failed };
+  }
+
+  /**
+   * Assertion helper
+   */
+  public assert(condition: boolean, message: string): void {
+    if (!condition) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Equality assertion helper
+   */
+  public assertEqual<T>(actual: T, expected: T, message: string): void {
+    if (actual !== expected) {
+      throw new Error(`${message}. Expected: ${expected}, Actual: ${actual}`);
+    }
+  }
+
+  /**
+   * Not null assertion helper
+   */
+  public assertNotNull<T>(value: T | null | undefined, message: string): void {
+    if (value === null || value === undefined) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Array length assertion helper
+   */
+  public assertArrayLength<T>(array: T[], expectedLength: number, message: string): void {
+    this.assertEqual(array.length, expectedLength, message);
+  }
+
+  /**
+   * Creates a world, status system and a single entity with health
+   */
+  public setup(health: number = 100): { world: WorldManager; status: StatusEffectSystem; entityId: EntityId } {
+    const world = new WorldManager();
+    const status = new StatusEffectSystem(new RNG(42));
+    status.setWorld(world);
+
+    const entityId = world.createEntity(['Position', 'Health']);
+    world.addComponent(entityId, 'Position', { x: 0, y: 0 });
+    world.addComponent(entityId, 'Health', { current: health, max: health });
+    return { world, status, entityId };
+  }
+}
+
+// Create test runner instance
+const runner = new StatusEffectSystemTestRunner();
+
+// ============= APPLICATION TESTS =============
+
+runner.test('StatusEffectSystem - Apply uses database duration', () => {
+  const { world, status, entityId } = runner.setup();
+
+  runner.assert(status.apply(entityId, StatusEffect.POISON), 'Poison should apply');
+
+  const component = world.getComponent<StatusEffects>(entityId, 'StatusEffects');
+  runner.assertEqual(component!.active[StatusEffect.POISON]!.duration, 10, 'Poison should last 10 turns');
+  runner.assert(status.has(entityId, StatusEffect.POISON), 'Poison should be queryable');
+});
+
+runner.test('StatusEffectSystem - Immunity blocks application', () => {
+  const { world, status, entityId } = runner.setup();
+  world.addComponent<StatusEffects>(entityId, 'StatusEffects', {
+    active: {},
+    immunities: [StatusEffect.POISON],
+    resistances: {}
+  });
+
+  runner.assert(!status.apply(entityId, StatusEffect.POISON), 'Immune entity should not be poisoned');
+});
+
+runner.test('StatusEffectSystem - Full resistance blocks unless ignored', () => {
+  const { world, status, entityId } = runner.setup();
+  world.addComponent<StatusEffects>(entityId, 'StatusEffects', {
+    active: {},
+    immunities: [],
+    resistances: { [StatusEffect.SLEEP]: 100 }
+  });
+
+  runner.assert(!status.apply(entityId, StatusEffect.SLEEP), 'Full resistance should block sleep');
+  runner.assert(status.apply(entityId, StatusEffect.SLEEP, { ignoreResistance: true }), 'Ignoring resistance should apply sleep');
+});
+
+runner.test('StatusEffectSystem - Reapplying refreshes duration', () => {
+  const { world, status, entityId } = runner.setup();
+  status.apply(entityId, StatusEffect.SLOW, { duration: 2 });
+  status.apply(entityId, StatusEffect.SLOW, { duration: 5 });
+
+  const component = world.getComponent<StatusEffects>(entityId, 'StatusEffects');
+  runner.assertEqual(component!.active[StatusEffect.SLOW]!.duration, 5, 'Longer duration should win');
+});
+
+// ============= INTERACTION TESTS =============
+
+runner.test('StatusEffectSystem - Stone removes and blocks overridden effects', () => {
+  const { status, entityId } = runner.setup();
+  status.apply(entityId, StatusEffect.SLEEP);
+  status.apply(entityId, StatusEffect.STONE);
+
+  runner.assert(!status.has(entityId, StatusEffect.SLEEP), 'Stone should remove sleep');
+  runner.assert(!status.apply(entityId, StatusEffect.POISON), 'Stone should block poison');
+  runner.assert(status.countsAsDefeated(entityId), 'Stone should count as defeated');
+});
+
+runner.test('StatusEffectSystem - Haste and slow are incompatible', () => {
+  const { status, entityId } = runner.setup();
+  status.apply(entityId, StatusEffect.SLOW);
+  status.apply(entityId, StatusEffect.HASTE);
+
+  runner.assert(status.has(entityId, StatusEffect.HASTE), 'Haste should apply');
+  runner.assert(!status.has(entityId, StatusEffect.SLOW), 'Haste should replace slow');
+});
+
+runner.test('StatusEffectSystem - Regen removes poison and prevents it', () => {
+  const { status, entityId } = runner.setup();
+  status.apply(entityId, StatusEffect.POISON);
+  status.apply(entityId, StatusEffect.REGEN);
+
+  runner.assert(!status.has(entityId, StatusEffect.POISON), 'Regen should remove poison');
+  runner.assert(!status.apply(entityId, StatusEffect.POISON), 'Poison should be cancelled by regen');
+});
+
+// ============= TICK TESTS =============
+
+runner.test('StatusEffectSystem - Turn tick applies poison damage', () => {
+  const { world, status, entityId } = runner.setup();
+  status.apply(entityId, StatusEffect.POISON);
+
+  const tick = status.tickTurn(entityId);
+
+  runner.assertEqual(tick.damage, 5, 'Poison should deal damage_per_turn');
+  runner.assertEqual(world.getComponent<Health>(entityId, 'Health')!.current, 95, 'Health should drop');
+  runner.assertEqual(world.getComponent<StatusEffects>(entityId, 'StatusEffects')!.active[StatusEffect.POISON]!.duration, 9, 'Duration should count down');
+});
+
+runner.test('StatusEffectSystem - Regen heals up to max health', () => {
+  const { world, status, entityId } = runner.setup();
+  world.getComponent<Health>(entityId, 'Health')!.current = 95;
+  status.apply(entityId, StatusEffect.REGEN);
+
+  status.tickTurn(entityId);
+
+  runner.assertEqual(world.getComponent<Health>(entityId, 'Health')!.current, 100, 'Regen should cap at max');
+});
+
+runner.test('StatusEffectSystem - Effects expire when duration runs out', () => {
+  const { status, entityId } = runner.setup();
+  status.apply(entityId, StatusEffect.PARALYSIS, { duration: 1 });
+
+  const tick = status.tickTurn(entityId);
+
+  runner.assertEqual(tick.expired[0], StatusEffect.PARALYSIS, 'Paralysis should expire');
+  runner.assert(status.canAct(entityId), 'Entity should act again');
+});
+
+runner.test('StatusEffectSystem - Permanent effects do not expire', () => {
+  const { world, status, entityId } = runner.setup();
+  status.apply(entityId, StatusEffect.STONE);
+
+  status.tickTurn(entityId);
+
+  runner.assertEqual(world.getComponent<StatusEffects>(entityId, 'StatusEffects')!.active[StatusEffect.STONE]!.duration, 999, 'Stone should stay permanent');
+});
+
+runner.test('StatusEffectSystem - Step damage never drops below 1 HP', () => {
+  const { world, status, entityId } = runner.setup(2);
+  status.apply(entityId, StatusEffect.POISON);
+
+  runner.assertEqual(status.onStep(entityId), 1, 'First step should deal 1 damage');
+  runner.assertEqual(status.onStep(entityId), 0, 'Step damage should stop at 1 HP');
+  runner.assertEqual(world.getComponent<Health>(entityId, 'Health')!.current, 1, 'Health should stay at 1');
+});
+
+// ============= QUERY AND CURE TESTS =============
+
+runner.test('StatusEffectSystem - Damage wakes sleeping entities', () => {
+  const { status, entityId } = runner.setup();
+  status.apply(entityId, StatusEffect.SLEEP);
+  runner.assert(!status.canAct(entityId), 'Sleeping entity should not act');
+
+  status.notifyDamage(entityId);
+
+  runner.assert(!status.has(entityId, StatusEffect.SLEEP), 'Damage should wake the entity');
+});
+
+runner.test('StatusEffectSystem - Silence prevents magic only', () => {
+  const { status, entityId } = runner.setup();
+  status.apply(entityId, StatusEffect.SILENCE);
+
+  runner.assert(status.canAct(entityId), 'Silenced entity can still act');
+  runner.assert(!status.canCastMagic(entityId), 'Silenced entity cannot cast');
+});
+
+runner.test('StatusEffectSystem - Cure methods use database lists', () => {
+  const { status, entityId } = runner.setup();
+  status.apply(entityId, StatusEffect.POISON);
+  status.apply(entityId, StatusEffect.SILENCE);
+
+  const cured = status.cureByMethod(entityId, 'antidote');
+
+  runner.assertArrayLength(cured, 1, 'Antidote should cure one effect');
+  runner.assert(status.has(entityId, StatusEffect.SILENCE), 'Antidote should not cure silence');
+
+  status.cureByMethod(entityId, 'full_cure');
+  runner.assertArrayLength(status.getActive(entityId), 0, 'Full cure should clear ailments');
+});
+
+runner.test('StatusEffectSystem - Darkness and blind stack accuracy penalties', () => {
+  const { status, entityId } = runner.setup();
+  status.apply(entityId, StatusEffect.DARKNESS);
+  status.apply(entityId, StatusEffect.BLIND);
+
+  runner.assertEqual(status.getAccuracyMultiplier(entityId), 0.125, 'Combined accuracy should be 12.5%');
+});
+
+runner.test('StatusEffectSystem - Protect and shell reduce damage', () => {
+  const { status, entityId } = runner.setup();
+  status.apply(entityId, StatusEffect.PROTECT);
+
+  runner.assertEqual(status.getDamageMultiplier(entityId, 'physical'), 0.75, 'Protect should reduce physical damage');
+  runner.assertEqual(status.getDamageMultiplier(entityId, 'magical'), 1, 'Protect alone should not reduce magic');
+
+  status.apply(entityId, StatusEffect.SHELL);
+  runner.assertEqual(status.getDamageMultiplier(entityId, 'magical'), 0.75, 'Protect and shell should reduce all damage');
+});
+
+// ============= MOVEMENT INTEGRATION TESTS =============
+
+runner.test('StatusEffectSystem - Grid movement applies poison per step', () => {
+  const { world, status, entityId } = runner.setup();
+  const movement = new GridMovementSystem({ tileSize: 32, smoothMovement: false });
+  const map: GameMap = {
+    width: 3,
+    height: 1,
+    tileSize: 32,
+    tiles: [[0, 1, 2].map(() => ({ type: 'grass', walkable: true, textureId: 'grass' }))],
+    spawnPoints: []
+  };
+  movement.setWorld(world);
+  movement.setStatusEffectSystem(status);
+  movement.loadMap(map);
+  status.apply(entityId, StatusEffect.POISON);
+
+  const result = movement.moveEntity(entityId, 'RIGHT');
+
+  runner.assert(result.success, 'Move should succeed');
+  runner.assertEqual(world.getComponent<Health>(entityId, 'Health')!.current, 99, 'Poison should deal step damage');
+});
+
+// Run all tests
+runner.run();
+
+export { runner as statusEffectSystemTestRunner };
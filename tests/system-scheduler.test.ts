@@ -0,0 +1,210 @@
+/**
+ * System Scheduler Tests
+ * @fileoverview Tests for staged system ordering, runtime toggling and per-system timings
+ */
+
+import { SystemScheduler, SystemStage } from '../engine/SystemScheduler';
+import { WorldManager } from '../engine/WorldManager';
+import { registerAllSystems, SYSTEM_REGISTRY } from '../engine/Systems';
+import { Position, Velocity } from '../types';
+
+/**
+ * Test runner for system scheduler tests
+ */
+class SystemSchedulerTestRunner {
+  private tests: Array<{ name: string; fn: () => void }> = [];
+  private passed = 0;
+  private failed = 0;
+
+  /**
+   * Registers a test
+   */
+  public test(name: string, fn: () => void): void {
+    this.tests.push({ name, fn });
+  }
+
+  /**
+   * Runs all registered tests
+   */
+  public run(): { passed: number; failed: number } {
+    console.log('Running System Scheduler Tests...\n');
+
+    for (const test of this.tests) {
+      try {
+        test.fn();
+        console.log(`✓ ${test.name}`);
+        this.passed++;
+      } catch (error) {
+        console.log(`✗ ${test.name}`);
+        console.log(`  Error: ${error}`);
+        this.failed++;
+      }
+    }
+
+    console.log(`\nSystem Scheduler Test Results: ${this.passed} passed, ${this.failed} failed`);
+    return { passed: this.passed, failed: this.failed };
+  }
+
+  /**
+   * Assertion helper
+   */
+  public assert(condition: boolean, message: string): void {
+    if (!condition) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Equality assertion helper
+   */
+  public assertEqual<T>(actual: T, expected: T, message: string): void {
+    if (actual !== expected) {
+      throw new Error(`${message}. Expected: ${expected}, Actual: ${actual}`);
+    }
+  }
+
+  /**
+   * Creates a system that records its name when it runs
+   */
+  public recorder(log: string[], name: string): () => void {
+    return () => {
+      log.push(name);
+    };
+  }
+}
+
+// Create test runner instance
+const runner = new SystemSchedulerTestRunner();
+
+// ============= ORDERING TESTS =============
+
+runner.test('SystemScheduler - Stages run in order regardless of registration order', () => {
+  const scheduler = new SystemScheduler();
+  const world = new WorldManager();
+  const log: string[] = [];
+
+  scheduler.add({ name: 'late', system: runner.recorder(log, 'late'), stage: SystemStage.POST_SIMULATION });
+  scheduler.add({ name: 'sim', system: runner.recorder(log, 'sim'), stage: SystemStage.SIMULATION });
+  scheduler.add({ name: 'prep', system: runner.recorder(log, 'prep'), stage: SystemStage.RENDER_PREP });
+  scheduler.add({ name: 'input', system: runner.recorder(log, 'input'), stage: SystemStage.INPUT });
+
+  scheduler.runFixed(world, 1 / 60);
+  runner.assertEqual(log.join(','), 'input,sim,late', 'Fixed update should run input, simulation and post-simulation');
+
+  scheduler.runRender(world, 0.5);
+  runner.assertEqual(log.join(','), 'input,sim,late,prep', 'Render should only run render-prep');
+});
+
+runner.test('SystemScheduler - Before and after constraints order a stage', () => {
+  const scheduler = new SystemScheduler();
+
+  scheduler.add({ name: 'c', system: () => {}, stage: SystemStage.SIMULATION, after: ['b'] });
+  scheduler.add({ name: 'a', system: () => {}, stage: SystemStage.SIMULATION });
+  scheduler.add({ name: 'b', system: () => {}, stage: SystemStage.SIMULATION, before: ['c'], after: ['a', 'missing'] });
+  scheduler.add({ name: 'd', system: () => {}, stage: SystemStage.SIMULATION, before: ['a'] });
+
+  runner.assertEqual(scheduler.getOrder(SystemStage.SIMULATION).join(','), 'd,a,b,c', 'Constraints should win over registration order');
+});
+
+runner.test('SystemScheduler - Dependency cycles fall back to registration order', () => {
+  const scheduler = new SystemScheduler();
+
+  scheduler.add({ name: 'first', system: () => {}, stage: SystemStage.SIMULATION });
+  scheduler.add({ name: 'x', system: () => {}, stage: SystemStage.SIMULATION, after: ['y'] });
+  scheduler.add({ name: 'y', system: () => {}, stage: SystemStage.SIMULATION, after: ['x'] });
+
+  runner.assertEqual(scheduler.getOrder(SystemStage.SIMULATION).join(','), 'first,x,y', 'Cyclic systems should still run');
+});
+
+runner.test('SystemScheduler - Duplicate names are rejected and removal works', () => {
+  const scheduler = new SystemScheduler();
+
+  runner.assert(scheduler.add({ name: 'a', system: () => {}, stage: SystemStage.SIMULATION }), 'First registration should succeed');
+  runner.assert(!scheduler.add({ name: 'a', system: () => {}, stage: SystemStage.INPUT }), 'Duplicate name should be rejected');
+  runner.assert(scheduler.remove('a'), 'Removal should succeed');
+  runner.assert(!scheduler.has('a'), 'Removed system should be gone');
+  runner.assert(!scheduler.remove('a'), 'Removing twice should fail');
+});
+
+// ============= RUNTIME TESTS =============
+
+runner.test('SystemScheduler - Disabled systems are skipped', () => {
+  const scheduler = new SystemScheduler();
+  const world = new WorldManager();
+  const log: string[] = [];
+
+  scheduler.add({ name: 'a', system: runner.recorder(log, 'a'), stage: SystemStage.SIMULATION });
+  scheduler.add({ name: 'b', system: runner.recorder(log, 'b'), stage: SystemStage.SIMULATION, enabled: false });
+
+  scheduler.runFixed(world, 1 / 60);
+  runner.assertEqual(log.join(','), 'a', 'Initially disabled system should not run');
+
+  scheduler.setEnabled('a', false);
+  scheduler.setEnabled('b', true);
+  scheduler.runFixed(world, 1 / 60);
+  runner.assertEqual(log.join(','), 'a,b', 'Toggled systems should swap');
+  runner.assert(!scheduler.setEnabled('missing', true), 'Unknown systems cannot be toggled');
+});
+
+runner.test('SystemScheduler - Timings are recorded and failures are contained', () => {
+  const scheduler = new SystemScheduler();
+  const world = new WorldManager();
+  const log: string[] = [];
+
+  scheduler.add({ name: 'broken', system: () => { throw new Error('boom'); }, stage: SystemStage.SIMULATION });
+  scheduler.add({ name: 'after', system: runner.recorder(log, 'after'), stage: SystemStage.SIMULATION, after: ['broken'] });
+
+  scheduler.runFixed(world, 1 / 60);
+  scheduler.runFixed(world, 1 / 60);
+
+  const timings = scheduler.getTimings();
+  runner.assertEqual(log.length, 2, 'A failing system should not stop the stage');
+  runner.assertEqual(timings.length, 2, 'Every system should have a timing');
+  runner.assertEqual(timings[1].name, 'after', 'Timings should be in execution order');
+  runner.assertEqual(timings[1].calls, 2, 'Calls should be counted');
+  runner.assert(timings[1].maxTime >= timings[1].averageTime, 'Max should bound the average');
+
+  scheduler.resetTimings();
+  runner.assertEqual(scheduler.getTimings()[1].calls, 0, 'Timings should reset');
+});
+
+// ============= WORLD INTEGRATION TESTS =============
+
+runner.test('WorldManager - Registered game systems run from world.update', () => {
+  const world = new WorldManager();
+  const input = new Map<string, boolean>([['MOVE_RIGHT', true]]);
+  const playerId = world.createEntity();
+  world.addComponent<Position>(playerId, 'Position', { x: 0, y: 0 });
+  world.addComponent<Velocity>(playerId, 'Velocity', { dx: 0, dy: 0 });
+
+  runner.assertEqual(registerAllSystems(world, input), SYSTEM_REGISTRY.length + 1, 'Every system should be registered');
+  runner.assertEqual(registerAllSystems(world, input), 0, 'Registering twice should add nothing');
+  runner.assertEqual(world.getScheduler().getOrder(SystemStage.POST_SIMULATION).join(','), 'transform,collision,camera', 'Post-simulation should follow the declared dependencies');
+
+  world.update(0.5);
+  runner.assertEqual(world.getComponent<Position>(playerId, 'Position')!.x, 100, 'Input should feed movement in the same step');
+
+  world.getScheduler().setEnabled('movement', false);
+  world.update(0.5);
+  runner.assertEqual(world.getComponent<Position>(playerId, 'Position')!.x, 100, 'Disabled movement should not move the player');
+});
+
+runner.test('WorldManager - Clearing the world keeps registered systems', () => {
+  const world = new WorldManager();
+  const input = new Map<string, boolean>([['MOVE_RIGHT', true]]);
+  registerAllSystems(world, input);
+
+  world.clear();
+  runner.assertEqual(world.getScheduler().getStats().systemCount, SYSTEM_REGISTRY.length + 1, 'Systems should stay registered');
+
+  const playerId = world.createEntity();
+  world.addComponent<Position>(playerId, 'Position', { x: 0, y: 0 });
+  world.addComponent<Velocity>(playerId, 'Velocity', { dx: 0, dy: 0 });
+  world.update(0.5);
+  runner.assertEqual(world.getComponent<Position>(playerId, 'Position')!.x, 100, 'Systems should run on the refilled world');
+});
+
+// Run all tests
+runner.run();
+
+export { runner as systemSchedulerTestRunner };
@@ -68,6 +68,19 @@ export interface Velocity {
   dy: number;
 }
 
+/**
+ * Direction on the movement grid
+ */
+export type Direction = 'UP' | 'DOWN' | 'LEFT' | 'RIGHT';
+
+/**
+ * Facing component for the direction an entity looks
+ */
+export interface Facing {
+  /** Direction faced */
+  direction: Direction;
+}
+
 /**
  * Health component for entity hit points
  */
@@ -160,6 +173,26 @@ export interface CombatStats {
   actionPoints: number;
   /** Maximum action points */
   maxActionPoints: number;
+  /** Speed used for turn order (falls back to CharacterStats.agility) */
+  speed?: number;
+}
+
+/**
+ * Parent component linking a child entity to the entity it follows
+ */
+export interface Parent {
+  /** Parent entity ID */
+  entityId: EntityId;
+  /** Position relative to the parent's position */
+  offset: Position;
+}
+
+/**
+ * Children component listing the entities attached to a parent
+ */
+export interface Children {
+  /** Child entity IDs, in attach order */
+  entities: EntityId[];
 }
 
 /**
@@ -218,6 +251,16 @@ export interface World {
  */
 export type SystemFunction = (world: World, deltaTime: number) => void;
 
+/**
+ * Entity lifecycle event kinds
+ */
+export type EntityLifecycleAction = 'created' | 'destroyed';
+
+/**
+ * Entity lifecycle listener
+ */
+export type EntityLifecycleListener = (entityId: EntityId, action: EntityLifecycleAction) => void;
+
 /**
  * Query result interface for ECS queries
  */
@@ -228,6 +271,38 @@ export interface QueryResult {
   components: Map<EntityId, Map<ComponentType, unknown>>;
 }
 
+/**
+ * Component values that replace prefab defaults
+ * Objects are merged key by key; null removes the component.
+ */
+export type PrefabOverrides = Record<ComponentType, unknown>;
+
+/**
+ * Child entity spawned together with a prefab
+ */
+export interface PrefabChildDef {
+  /** Prefab to instantiate as the child */
+  prefab: string;
+  /** Position relative to the parent */
+  offset?: Position;
+  /** Overrides for the child's components */
+  overrides?: PrefabOverrides;
+}
+
+/**
+ * Named blueprint of components
+ */
+export interface PrefabDef {
+  /** Unique prefab identifier */
+  id: string;
+  /** Prefab whose components and children this one inherits */
+  extends?: string;
+  /** Default component values, merged over the inherited ones */
+  components: Record<ComponentType, unknown>;
+  /** Children spawned after the inherited ones */
+  children?: PrefabChildDef[];
+}
+
 /**
  * Save file structure for game persistence
  */
@@ -362,6 +437,8 @@ export interface ItemDef {
     stackable?: boolean;
     consumable?: boolean;
     effects?: Array<{ type: string; value: number }>;
+    /** Weapon or armor category matched against class equipment restrictions (unset: any class) */
+    equipmentType?: string;
   };
 }
 
@@ -393,6 +470,8 @@ export interface EnemyDef {
     patrolRadius: number;
     detectionRange: number;
   };
+  /** Damage multipliers by spell school (2 = weakness, 0.5 = resistance, 0 = immunity) */
+  elementalAffinities?: Partial<Record<SpellDef['school'], number>>;
 }
 
 /**
@@ -596,18 +675,18 @@ export enum StatusEffect {
  */
 export interface StatusEffects {
   /** Active status effects */
-  active: Record<StatusEffect, {
+  active: Partial<Record<StatusEffect, {
     /** Remaining duration in turns */
     duration: number;
     /** Effect strength/potency */
     potency: number;
     /** Source of effect */
     source: string;
-  }>;
+  }>>;
   /** Immunities */
   immunities: StatusEffect[];
   /** Resistances */
-  resistances: Record<StatusEffect, number>;
+  resistances: Partial<Record<StatusEffect, number>>;
 }
 
 /**
@@ -655,8 +734,241 @@ export interface Party {
   formation: EntityId[];
   /** Active party members (not defeated/stoned) */
   activeMembers: EntityId[];
+  /** Formation template ID from PARTY_FORMATION_DATABASE */
+  formationId?: string;
 }
 
+/**
+ * Boss component marking an enemy driven by BOSS_MECHANICS_DATABASE
+ */
+export interface Boss {
+  /** Boss definition ID from BOSS_MECHANICS_DATABASE */
+  bossId: string;
+}
+
+/**
+ * Enemy identity component linking an entity to its ENEMIES_DATABASE entry
+ */
+export interface EnemyInfo {
+  /** Enemy definition ID from ENEMIES_DATABASE */
+  enemyId: string;
+  /** AI archetype used when no profile is registered for the enemy ID */
+  archetype?: string;
+}
+
+/**
+ * Inventory component holding items and gold
+ */
+export interface Inventory {
+  /** Items and their quantities */
+  items: Array<{ itemId: string; quantity: number }>;
+  /** Gold carried */
+  gold: number;
+}
+
+/**
+ * Rewards granted for defeating an enemy
+ */
+export interface EnemyRewards {
+  /** Experience granted */
+  experience: number;
+  /** Gold granted */
+  gold: number;
+  /** Chance (0-100) of rolling each drop */
+  dropChance: number;
+  /** Number of drop rolls */
+  dropRolls: number;
+  /** Weighted drop table */
+  drops: Array<{ itemId: string; weight: number; quantity?: number }>;
+}
+
+/**
+ * Kind of quest objective
+ * talk: use a TALK interaction; collect: carry items; defeat: defeat enemies; reach: enter an area
+ */
+export type QuestObjectiveType = 'talk' | 'collect' | 'defeat' | 'reach';
+
+/**
+ * Single objective within a quest stage
+ */
+export interface QuestObjective {
+  /** Objective ID, unique within its quest */
+  id: string;
+  /** Objective kind */
+  type: QuestObjectiveType;
+  /** Journal text */
+  description: string;
+  /** Interaction ID (talk), item ID (collect), enemy definition ID (defeat) or location ID (reach) */
+  target: string;
+  /** Amount required (default 1) */
+  count?: number;
+  /** Area to enter, for reach objectives */
+  area?: { x: number; y: number; radius: number };
+}
+
+/**
+ * Quest stage; all of its objectives must be met before the next stage starts
+ */
+export interface QuestStage {
+  /** Stage ID, unique within its quest */
+  id: string;
+  /** Journal text */
+  description: string;
+  /** Objectives to meet */
+  objectives: QuestObjective[];
+}
+
+/**
+ * Quest definition
+ */
+export interface QuestDef {
+  /** Quest ID */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Journal summary */
+  description: string;
+  /** Quests that must be completed before this one can start */
+  prerequisites?: string[];
+  /** Stages, in order */
+  stages: QuestStage[];
+  /** Rewards granted on completion */
+  rewards: {
+    experience?: number;
+    gold?: number;
+    items?: Array<{ itemId: string; quantity: number }>;
+  };
+}
+
+/**
+ * Kind of dialogue condition
+ * flag: a story flag is set; item: items are carried; level: the player's level is reached;
+ * quest: a quest condition ('goblin_trouble:active') holds; variable: a dialogue variable has a value
+ */
+export type DialogueConditionType = 'flag' | 'item' | 'level' | 'quest' | 'variable';
+
+/**
+ * Condition gating a dialogue choice
+ */
+export interface DialogueCondition {
+  /** Condition kind */
+  type: DialogueConditionType;
+  /** Flag name, item ID, quest condition or variable name (unused for level) */
+  key?: string;
+  /** Quantity (item) or level required (default 1), or the value a variable must equal */
+  value?: string | number | boolean;
+  /** Inverts the condition */
+  negate?: boolean;
+}
+
+/**
+ * Kind of dialogue side effect
+ */
+export type DialogueEffectType =
+  | 'SET_FLAG'
+  | 'GIVE_ITEM'
+  | 'TAKE_ITEM'
+  | 'GIVE_GOLD'
+  | 'TAKE_GOLD'
+  | 'SET_VAR'
+  | 'START_QUEST'
+  | 'COMPLETE_QUEST';
+
+/**
+ * Side effect applied when a dialogue node is entered or a choice is selected
+ */
+export interface DialogueEffect {
+  /** Effect kind */
+  type: DialogueEffectType;
+  /** Effect parameters ({ flag, value }, { itemId, quantity }, { amount }, { name, value } or { questId }) */
+  parameters: Record<string, any>;
+}
+
+/**
+ * Player choice at the end of a dialogue node
+ */
+export interface DialogueChoice {
+  /** Choice text */
+  text: string;
+  /** Node to continue to, or null to end the conversation */
+  next: string | null;
+  /** Conditions that must all hold for the choice to be offered */
+  conditions?: DialogueCondition[];
+  /** Effects applied when the choice is selected */
+  effects?: DialogueEffect[];
+}
+
+/**
+ * Single line of a dialogue graph
+ */
+export interface DialogueNode {
+  /** Speaker name */
+  speaker?: string;
+  /** Portrait ID shown beside the text */
+  portrait?: string;
+  /** Speaker emotion (selects the portrait variant) */
+  emotion?: string;
+  /** Line text; may contain DialogSystem control codes and {var name} references */
+  text: string;
+  /** Node that follows when there are no choices, or null to end (default) */
+  next?: string | null;
+  /** Choices offered after the line */
+  choices?: DialogueChoice[];
+  /** Effects applied when the node is entered */
+  effects?: DialogueEffect[];
+}
+
+/**
+ * Dialogue graph definition
+ */
+export interface DialogueGraph {
+  /** Dialogue ID */
+  id: string;
+  /** Node the conversation starts at */
+  start: string;
+  /** Nodes by ID */
+  nodes: Record<string, DialogueNode>;
+}
+
+/**
+ * Single step of a cutscene script
+ * Actors are names bound to entities by the cutscene runner; 'player' is always the player.
+ * Steps run in order, each waiting for the previous one unless it is marked async.
+ */
+export type CutsceneStep =
+  | { type: 'move'; actor: string; path: Vector2[]; speed?: number; async?: boolean }
+  | { type: 'face'; actor: string; direction: Direction }
+  | { type: 'dialogue'; text?: string; dialogueId?: string }
+  | { type: 'camera_pan'; x: number; y: number; zoom?: number; duration: number; async?: boolean }
+  | { type: 'camera_shake'; intensity: number; duration: number }
+  | { type: 'play_bgm'; trackId: string; loop?: boolean }
+  | { type: 'play_sfx'; sfxId: string; volume?: number }
+  | { type: 'wait'; duration: number }
+  | { type: 'set_flag'; flag: string; value?: boolean }
+  | { type: 'start_battle'; enemyIds: string[] };
+
+/**
+ * Cutscene definition
+ */
+export interface CutsceneDef {
+  /** Cutscene ID */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Whether the player may skip it (default true) */
+  skippable?: boolean;
+  /** Whether it plays only once per game */
+  once?: boolean;
+  /** Steps, in order */
+  steps: CutsceneStep[];
+}
+
+/**
+ * Part of the in-game day
+ * dawn: 05:00-07:00; day: 07:00-18:00; dusk: 18:00-20:00; night: 20:00-05:00
+ */
+export type DayPeriod = 'dawn' | 'day' | 'dusk' | 'night';
+
 /**
  * Game progression component
  */
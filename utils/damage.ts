@@ -0,0 +1,169 @@
+/**
+ * Damage Calculation Utility
+ * @fileoverview Pure damage formula with accuracy, variance, critical hits, elements and difficulty scaling
+ */
+
+import { SpellDef } from '../types';
+import { GAME_CONFIG } from '../data/GameData';
+import { RNG, globalRNG } from './rng';
+
+/**
+ * Elemental school of an attack or spell
+ */
+export type DamageElement = SpellDef['school'];
+
+/**
+ * Damage category, used for mitigation such as PROTECT (physical) and SHELL (magical)
+ */
+export type DamageKind = 'physical' | 'magical';
+
+/**
+ * Difficulty setting keyed into GAME_CONFIG.DIFFICULTY_MULTIPLIERS
+ */
+export type Difficulty = keyof typeof GAME_CONFIG.DIFFICULTY_MULTIPLIERS;
+
+/**
+ * Elemental damage multipliers by element (2 = weakness, 0.5 = resistance, 0 = immunity)
+ */
+export type ElementalAffinities = Partial<Record<DamageElement, number>>;
+
+/**
+ * Inputs to the damage formula
+ */
+export interface DamageInput {
+  /** Physical or magical damage */
+  kind: DamageKind;
+  /** Attack power or spell power */
+  power: number;
+  /** Defense or magic defense of the target */
+  defense: number;
+  /** Element of the attack (defaults to NEUTRAL) */
+  element?: DamageElement;
+  /** Target's elemental affinities */
+  affinities?: ElementalAffinities;
+  /** Combined multiplier from mitigation such as PROTECT/SHELL and battle rows (1 = none) */
+  mitigation?: number;
+  /** Hit chance before evasion, in percent (defaults to 100) */
+  accuracy?: number;
+  /** Target's chance to evade, in percent (defaults to 0) */
+  evasion?: number;
+  /** Critical hit chance in percent (defaults to 0) */
+  critChance?: number;
+  /** Critical hit multiplier (defaults to GAME_CONFIG.CRITICAL_HIT_MULTIPLIER) */
+  critMultiplier?: number;
+  /** Random spread as a fraction, e.g. 0.1 for ±10% (defaults to 0) */
+  variance?: number;
+  /** Difficulty multiplier for this attacker (defaults to 1) */
+  difficulty?: number;
+}
+
+/**
+ * Step-by-step result of the damage formula
+ */
+export interface DamageBreakdown {
+  /** Whether the attack connected */
+  hit: boolean;
+  /** Damage before any multiplier (power - defense / 2) */
+  base: number;
+  /** Random variance multiplier */
+  variance: number;
+  /** Whether the hit was critical */
+  critical: boolean;
+  /** Critical multiplier applied (1 if not critical) */
+  crit: number;
+  /** Elemental multiplier applied */
+  elemental: number;
+  /** Mitigation multiplier applied */
+  mitigation: number;
+  /** Difficulty multiplier applied */
+  difficulty: number;
+  /** Final damage dealt */
+  final: number;
+}
+
+/**
+ * Calculates damage and explains how it was reached
+ * Rolls only happen for non-zero chances, so deterministic inputs never consume the RNG.
+ * @param input - Damage inputs
+ * @param rng - Random source (defaults to the global RNG)
+ * @returns Damage breakdown
+ */
+export function calculateDamage(input: DamageInput, rng: RNG = globalRNG): DamageBreakdown {
+  const breakdown: DamageBreakdown = {
+    hit: true,
+    base: input.power - input.defense / 2,
+    variance: 1,
+    critical: false,
+    crit: 1,
+    elemental: getElementalMultiplier(input.element, input.affinities),
+    mitigation: input.mitigation ?? 1,
+    difficulty: input.difficulty ?? 1,
+    final: 0
+  };
+
+  const hitChance = (input.accuracy ?? 100) - (input.evasion ?? 0);
+  if (hitChance < 100 && rng.randomInt(1, 101) > hitChance) {
+    breakdown.hit = false;
+    return breakdown;
+  }
+
+  const critChance = input.critChance ?? 0;
+  if (critChance > 0 && rng.randomInt(1, 101) <= critChance) {
+    breakdown.critical = true;
+    breakdown.crit = input.critMultiplier ?? GAME_CONFIG.CRITICAL_HIT_MULTIPLIER;
+  }
+
+  const variance = input.variance ?? 0;
+  if (variance > 0) {
+    breakdown.variance = rng.randomFloat(1 - variance, 1 + variance);
+  }
+
+  // Immunity is the only way to deal no damage to a target that was hit
+  if (breakdown.elemental <= 0) {
+    return breakdown;
+  }
+
+  const damage = breakdown.base * breakdown.variance * breakdown.crit *
+    breakdown.elemental * breakdown.mitigation * breakdown.difficulty;
+  breakdown.final = Math.max(1, Math.floor(damage));
+  return breakdown;
+}
+
+/**
+ * Gets the multiplier a target takes from an element
+ * @param element - Attack element (undefined or NEUTRAL is unaffected)
+ * @param affinities - Target's elemental affinities
+ * @returns Elemental multiplier
+ */
+export function getElementalMultiplier(element: DamageElement | undefined, affinities: ElementalAffinities = {}): number {
+  if (!element || element === 'NEUTRAL') return 1;
+  return affinities[element] ?? 1;
+}
+
+/**
+ * Gets the damage multiplier enemies deal at a difficulty
+ * @param difficulty - Difficulty setting
+ * @returns Enemy damage multiplier
+ */
+export function getEnemyDamageMultiplier(difficulty: Difficulty): number {
+  return GAME_CONFIG.DIFFICULTY_MULTIPLIERS[difficulty]?.enemy_damage ?? 1;
+}
+
+/**
+ * Formats a breakdown for logs and the debug console
+ * @param breakdown - Damage breakdown
+ * @returns Human-readable summary
+ */
+export function formatDamageBreakdown(breakdown: DamageBreakdown): string {
+  if (!breakdown.hit) return 'MISS';
+
+  return [
+    `base ${breakdown.base.toFixed(1)}`,
+    `variance x${breakdown.variance.toFixed(2)}`,
+    `crit x${breakdown.crit}${breakdown.critical ? ' (CRITICAL)' : ''}`,
+    `elemental x${breakdown.elemental}`,
+    `mitigation x${breakdown.mitigation.toFixed(2)}`,
+    `difficulty x${breakdown.difficulty}`,
+    `final ${breakdown.final}`
+  ].join(', ');
+}
@@ -152,11 +152,12 @@ export function rollCritical(critChance: number): boolean {
 /**
  * Gets a random element with weighted probabilities
  * @param items - Array of items with weights
+ * @param rng - Random source (defaults to the global RNG)
  * @returns Selected item
  */
-export function weightedRandom<T>(items: Array<{ item: T; weight: number }>): T {
+export function weightedRandom<T>(items: Array<{ item: T; weight: number }>, rng: RNG = globalRNG): T {
   const totalWeight = items.reduce((sum, { weight }) => sum + weight, 0);
-  let random = globalRNG.randomFloat(0, totalWeight);
+  let random = rng.randomFloat(0, totalWeight);
   
   for (const entry of items) {
     random -= entry.weight;
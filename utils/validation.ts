@@ -3,7 +3,7 @@
  * @fileoverview Runtime validation for game data and assets
  */
 
-import { ItemDef, EnemyDef, AnimationDef, GameMap, Tile } from '../types';
+import { ItemDef, EnemyDef, AnimationDef, GameMap, Tile, DialogueGraph } from '../types';
 
 /**
  * Validation error class
@@ -324,6 +324,84 @@ export class TileValidator {
   }
 }
 
+/**
+ * Dialogue graph validator
+ */
+export class DialogueValidator {
+  /**
+   * Validates a dialogue graph
+   * @param graph - Dialogue graph to validate
+   * @throws ValidationError if the graph is invalid or references a node that does not exist
+   */
+  public static validate(graph: DialogueGraph): void {
+    if (!graph.id || typeof graph.id !== 'string') {
+      throw new ValidationError('Dialogue ID is required and must be a string', 'id', graph.id);
+    }
+
+    if (!graph.nodes || typeof graph.nodes !== 'object') {
+      throw new ValidationError('Dialogue nodes are required and must be an object', 'nodes', graph.nodes);
+    }
+
+    if (!graph.nodes[graph.start]) {
+      throw new ValidationError(`Dialogue ${graph.id} starts at unknown node: ${graph.start}`, 'start', graph.start);
+    }
+
+    for (const [nodeId, node] of Object.entries(graph.nodes)) {
+      if (typeof node.text !== 'string') {
+        throw new ValidationError(`Dialogue node ${nodeId} text must be a string`, `nodes.${nodeId}.text`, node.text);
+      }
+
+      if (node.next != null && !graph.nodes[node.next]) {
+        throw new ValidationError(`Dialogue node ${nodeId} continues to unknown node: ${node.next}`, `nodes.${nodeId}.next`, node.next);
+      }
+
+      if (node.choices === undefined) continue;
+
+      if (!Array.isArray(node.choices) || node.choices.length === 0) {
+        throw new ValidationError(`Dialogue node ${nodeId} choices must be a non-empty array`, `nodes.${nodeId}.choices`, node.choices);
+      }
+
+      if (node.next != null) {
+        throw new ValidationError(`Dialogue node ${nodeId} cannot have both next and choices`, `nodes.${nodeId}.next`, node.next);
+      }
+
+      node.choices.forEach((choice, index) => {
+        if (!choice.text || typeof choice.text !== 'string') {
+          throw new ValidationError('Choice text is required and must be a string', `nodes.${nodeId}.choices[${index}].text`, choice.text);
+        }
+
+        if (choice.next !== null && !graph.nodes[choice.next]) {
+          throw new ValidationError(`Dialogue node ${nodeId} choice ${index} leads to unknown node: ${choice.next}`, `nodes.${nodeId}.choices[${index}].next`, choice.next);
+        }
+      });
+    }
+  }
+
+  /**
+   * Finds nodes that no path from the start node reaches
+   * @param graph - Dialogue graph to inspect
+   * @returns IDs of unreachable nodes
+   */
+  public static findUnreachable(graph: DialogueGraph): string[] {
+    const reached = new Set<string>();
+    const pending = [graph.start];
+
+    while (pending.length > 0) {
+      const nodeId = pending.pop()!;
+      const node = graph.nodes[nodeId];
+      if (!node || reached.has(nodeId)) continue;
+
+      reached.add(nodeId);
+      if (node.next) pending.push(node.next);
+      node.choices?.forEach(choice => {
+        if (choice.next) pending.push(choice.next);
+      });
+    }
+
+    return Object.keys(graph.nodes).filter(nodeId => !reached.has(nodeId));
+  }
+}
+
 /**
  * General validation utilities
  */
@@ -408,4 +486,113 @@ export class ValidationUtils {
     }
     return value;
   }
-}
\ No newline at end of file
+}
+/**
+ * Rule for one field of an object schema
+ */
+export interface FieldSchema {
+  /** Expected type ('entity' is a non-negative integer entity ID) */
+  type: 'number' | 'string' | 'boolean' | 'array' | 'object' | 'entity' | 'function';
+  /** Whether the field may be missing */
+  optional?: boolean;
+  /** Whether the field may be null */
+  nullable?: boolean;
+  /** Minimum value for numbers */
+  min?: number;
+  /** Maximum value for numbers */
+  max?: number;
+  /** Allowed values */
+  values?: readonly unknown[];
+  /** Rule for each element of an array */
+  items?: FieldSchema;
+  /** Schema for a nested object */
+  fields?: ObjectSchema;
+}
+
+/**
+ * Schema describing the fields of an object
+ */
+export type ObjectSchema = Record<string, FieldSchema>;
+
+/**
+ * Schema-driven object validator
+ */
+export class SchemaValidator {
+  /**
+   * Validates an object against a schema
+   * @param value - Object to validate
+   * @param schema - Schema to validate against
+   * @param path - Field path prefix for error reporting
+   * @throws ValidationError if the object does not match
+   */
+  public static validate(value: unknown, schema: ObjectSchema, path: string = ''): void {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new ValidationError(`${path || 'Value'} must be an object`, path || undefined, value);
+    }
+
+    const record = value as Record<string, unknown>;
+    for (const [field, rule] of Object.entries(schema)) {
+      SchemaValidator.validateField(record[field], rule, path ? `${path}.${field}` : field);
+    }
+  }
+
+  /**
+   * Validates one field against its rule
+   * @param value - Field value
+   * @param rule - Field rule
+   * @param fieldName - Field path for error reporting
+   * @throws ValidationError if the field does not match
+   */
+  public static validateField(value: unknown, rule: FieldSchema, fieldName: string): void {
+    if (value === undefined) {
+      if (!rule.optional) {
+        throw new ValidationError(`${fieldName} is required`, fieldName, value);
+      }
+      return;
+    }
+
+    if (value === null) {
+      if (!rule.nullable) {
+        throw new ValidationError(`${fieldName} must not be null`, fieldName, value);
+      }
+      return;
+    }
+
+    switch (rule.type) {
+      case 'number':
+        if (typeof value !== 'number' || Number.isNaN(value)) {
+          throw new ValidationError(`${fieldName} must be a number`, fieldName, value);
+        }
+        if ((rule.min !== undefined && value < rule.min) || (rule.max !== undefined && value > rule.max)) {
+          throw new ValidationError(`${fieldName} must be between ${rule.min ?? '-∞'} and ${rule.max ?? '∞'}`, fieldName, value);
+        }
+        break;
+      case 'entity':
+        ValidationUtils.validateNonNegativeInteger(value, fieldName);
+        break;
+      case 'array':
+        if (!Array.isArray(value)) {
+          throw new ValidationError(`${fieldName} must be an array`, fieldName, value);
+        }
+        if (rule.items) {
+          value.forEach((item, index) => SchemaValidator.validateField(item, rule.items!, `${fieldName}[${index}]`));
+        }
+        break;
+      case 'object':
+        if (rule.fields) {
+          SchemaValidator.validate(value, rule.fields, fieldName);
+        } else if (typeof value !== 'object' || Array.isArray(value)) {
+          throw new ValidationError(`${fieldName} must be an object`, fieldName, value);
+        }
+        break;
+      default:
+        if (typeof value !== rule.type) {
+          throw new ValidationError(`${fieldName} must be a ${rule.type}`, fieldName, value);
+        }
+    }
+
+    if (rule.values) {
+      ValidationUtils.validateEnum(value, [...rule.values], fieldName);
+    }
+  }
+}
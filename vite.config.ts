@@ -5,8 +5,12 @@ import react from '@vitejs/plugin-react';
  * Vite configuration
  * Configures the build process and development server for the React application
  */
-export default defineConfig({
+export default defineConfig(({ mode }) => ({
   plugins: [react()],
+  define: {
+    // Engine code checks process.env.NODE_ENV for dev-only behaviour (e.g. strict component validation)
+    'process.env.NODE_ENV': JSON.stringify(mode === 'production' ? 'production' : 'development'),
+  },
   server: {
     port: 3000,
   },
@@ -19,4 +23,4 @@ export default defineConfig({
       // Add any path aliases if needed
     },
   },
-});
\ No newline at end of file
+}));
\ No newline at end of file